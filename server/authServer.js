@@ -0,0 +1,158 @@
+/* eslint-env node */
+/**
+ * Stand-in auth endpoint for development and tests (see "Authentication" in the README).
+ *
+ * It signs users in with passwords from AUTH_USERS and hands out opaque tokens kept in memory,
+ * so a restart signs everybody out. Refresh tokens are single-use: each refresh returns a new
+ * pair. For AUTH_REUSE_GRACE seconds after that, the used token answers with the same pair
+ * again, so tabs that refresh at once all end up signed in. Short AUTH_TOKEN_TTL values make it
+ * easy to try the refresh and expiry paths. Uses only Node's standard library.
+ *
+ *   AUTH_PORT=8788 AUTH_USERS=demo:demo,alice:secret AUTH_TOKEN_TTL=60 npm run auth
+ */
+import { createServer } from 'node:http';
+import { randomBytes } from 'node:crypto';
+
+const PORT = Number(process.env.AUTH_PORT) || 8788;
+const ACCESS_TTL = Number(process.env.AUTH_TOKEN_TTL) || 15 * 60;          // seconds
+const REFRESH_TTL = Number(process.env.AUTH_REFRESH_TTL) || 7 * 24 * 60 * 60;
+const REUSE_GRACE = Number(process.env.AUTH_REUSE_GRACE) || 10;              // seconds
+const MAX_BODY_BYTES = 16 * 1024;
+
+// name -> password
+const users = new Map((process.env.AUTH_USERS || 'demo:demo').split(',').map(entry => {
+  const [name, ...password] = entry.trim().split(':');
+  return [name, password.join(':')];
+}));
+
+// token -> { userName, expiresAt }; a used refresh token also keeps { replacedBy, usedAt }
+const accessTokens = new Map();
+const refreshTokens = new Map();
+
+function createToken() {
+  return randomBytes(24).toString('base64url');
+}
+
+function issueTokens(userName) {
+  const now = Date.now();
+  const accessToken = createToken();
+  const refreshToken = createToken();
+  accessTokens.set(accessToken, { userName, expiresAt: now + ACCESS_TTL * 1000 });
+  refreshTokens.set(refreshToken, { userName, expiresAt: now + REFRESH_TTL * 1000 });
+  return { accessToken, refreshToken, expiresIn: ACCESS_TTL, user: { id: userName, name: userName } };
+}
+
+// Another refresh with a token just used gets the pair that replaced it, until the grace runs out
+function reissueTokens(entry) {
+  const elapsed = Date.now() - entry.usedAt;
+  if (elapsed > REUSE_GRACE * 1000) return null;
+  return { ...entry.replacedBy, expiresIn: Math.max(0, ACCESS_TTL - Math.ceil(elapsed / 1000)) };
+}
+
+// The entry of a token that exists and hasn't expired; expired ones are dropped on the way
+function lookup(tokens, token) {
+  const entry = token && tokens.get(token);
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    tokens.delete(token);
+    return null;
+  }
+  return entry;
+}
+
+function send(response, status, body) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readJson(request) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    request.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body is too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      try {
+        resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+      } catch {
+        reject(new Error('Request body is not JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+async function handle(request, response) {
+  const { pathname } = new URL(request.url, 'http://localhost');
+  const route = `${request.method} ${pathname.replace(/\/+$/, '')}`;
+
+  switch (route) {
+    case 'POST /auth/login': {
+      const { username, password } = await readJson(request);
+      if (typeof username !== 'string' || !users.has(username) || users.get(username) !== password) {
+        send(response, 401, { message: 'Wrong username or password' });
+        return;
+      }
+      send(response, 200, issueTokens(username));
+      return;
+    }
+    case 'POST /auth/refresh': {
+      const { refreshToken } = await readJson(request);
+      const entry = lookup(refreshTokens, refreshToken);
+      const tokens = entry && (entry.replacedBy ? reissueTokens(entry) : issueTokens(entry.userName));
+      if (!tokens) {
+        refreshTokens.delete(refreshToken);
+        send(response, 401, { message: 'Session expired' });
+        return;
+      }
+      if (!entry.replacedBy) refreshTokens.set(refreshToken, { ...entry, replacedBy: tokens, usedAt: Date.now() });
+      send(response, 200, tokens);
+      return;
+    }
+    case 'POST /auth/logout': {
+      const { refreshToken } = await readJson(request);
+      refreshTokens.delete(refreshToken);
+      send(response, 204);
+      return;
+    }
+    // For backends and tests: who a bearer token belongs to
+    case 'GET /auth/me': {
+      const token = request.headers.authorization?.replace(/^Bearer\s+/i, '');
+      const entry = lookup(accessTokens, token);
+      if (!entry) {
+        send(response, 401, { message: 'Invalid or expired token' });
+        return;
+      }
+      send(response, 200, { id: entry.userName, name: entry.userName });
+      return;
+    }
+    default:
+      send(response, 404, { message: `No route for ${route}` });
+  }
+}
+
+const server = createServer((request, response) => {
+  // The app runs on another origin in development
+  response.setHeader('Access-Control-Allow-Origin', request.headers.origin || '*');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (request.method === 'OPTIONS') {
+    send(response, 204);
+    return;
+  }
+
+  handle(request, response).catch(error => {
+    send(response, 400, { message: error.message });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Stand-in auth endpoint on http://localhost:${PORT}/auth (users: ${[...users.keys()].join(', ')})`);
+});
@@ -0,0 +1,196 @@
+/* eslint-env node */
+/**
+ * Reference relay for live collaboration (see "Collaboration" in the README).
+ *
+ * It forwards every message of a client to the other clients of the same graph (the `graph`
+ * query parameter of the URL) and remembers who is connected, so a newcomer gets the current
+ * list of peers. Graph data is never stored here: the REST
+ * backend stays the source of truth. Uses only Node's standard library.
+ *
+ *   COLLAB_PORT=8787 npm run relay
+ */
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.COLLAB_PORT) || 8787;
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Larger messages are refused (a bulk move of many nodes stays far below this)
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+const OPCODES = { CONTINUATION: 0x0, TEXT: 0x1, CLOSE: 0x8, PING: 0x9, PONG: 0xa };
+
+// socket -> { room, peer: CollabPeer | null, buffer, fragments }
+const clients = new Map();
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+function send(socket, message) {
+  if (!socket.destroyed) {
+    socket.write(encodeFrame(OPCODES.TEXT, Buffer.from(JSON.stringify(message))));
+  }
+}
+
+function broadcast(from, room, message) {
+  clients.forEach((client, socket) => {
+    if (socket !== from && client.room === room && client.peer) send(socket, message);
+  });
+}
+
+// Read one frame from the start of the buffer; null until it has fully arrived
+function readFrame(buffer) {
+  if (buffer.length < 2) return null;
+  const isFinal = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const isMasked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  if (length > MAX_MESSAGE_BYTES) throw new Error(`Frame of ${length} bytes is too large`);
+
+  const maskOffset = offset;
+  if (isMasked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (isMasked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+  }
+  return { isFinal, opcode, payload, size: offset + length };
+}
+
+function handleMessage(socket, text) {
+  const client = clients.get(socket);
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+
+  switch (message?.type) {
+    case 'hello':
+      client.peer = message.peer;
+      send(socket, {
+        type: 'peers',
+        peers: [...clients.values()].filter(c => c !== client && c.room === client.room && c.peer).map(c => c.peer)
+      });
+      broadcast(socket, client.room, message);
+      break;
+    case 'presence':
+      if (!client.peer) return;
+      client.peer = { ...client.peer, presence: message.presence };
+      broadcast(socket, client.room, { ...message, clientId: client.peer.clientId });
+      break;
+    case 'change':
+      if (!client.peer) return;
+      broadcast(socket, client.room, { ...message, clientId: client.peer.clientId });
+      break;
+  }
+}
+
+function handleData(socket, chunk) {
+  const client = clients.get(socket);
+  client.buffer = Buffer.concat([client.buffer, chunk]);
+
+  let frame;
+  while ((frame = readFrame(client.buffer))) {
+    client.buffer = client.buffer.subarray(frame.size);
+
+    switch (frame.opcode) {
+      case OPCODES.TEXT:
+      case OPCODES.CONTINUATION:
+        client.fragments.push(frame.payload);
+        if (client.fragments.reduce((total, part) => total + part.length, 0) > MAX_MESSAGE_BYTES) {
+          throw new Error('Message is too large');
+        }
+        if (frame.isFinal) {
+          const text = Buffer.concat(client.fragments).toString('utf8');
+          client.fragments = [];
+          handleMessage(socket, text);
+        }
+        break;
+      case OPCODES.PING:
+        socket.write(encodeFrame(OPCODES.PONG, frame.payload));
+        break;
+      case OPCODES.CLOSE:
+        socket.end(encodeFrame(OPCODES.CLOSE, frame.payload.subarray(0, 2)));
+        return;
+      // Pongs and binary frames need no answer
+    }
+  }
+}
+
+function disconnect(socket) {
+  const client = clients.get(socket);
+  if (!client) return;
+  clients.delete(socket);
+  if (client.peer) broadcast(socket, client.room, { type: 'leave', clientId: client.peer.clientId });
+}
+
+const server = createServer((request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('This is a WebSocket relay for live collaboration.\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  socket.setNoDelay(true);
+  const room = new URL(request.url, 'http://localhost').searchParams.get('graph') || '';
+  clients.set(socket, { room, peer: null, buffer: Buffer.alloc(0), fragments: [] });
+
+  socket.on('data', chunk => {
+    try {
+      handleData(socket, chunk);
+    } catch (error) {
+      console.warn('Dropping client:', error.message);
+      socket.destroy();
+    }
+  });
+  socket.on('close', () => disconnect(socket));
+  socket.on('error', () => disconnect(socket));
+});
+
+server.listen(PORT, () => {
+  console.log(`Collaboration relay listening on ws://localhost:${PORT}`);
+});
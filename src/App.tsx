@@ -1,12 +1,22 @@
 import React from 'react';
 import GraphView from './components/GraphView';
+import LoginView from './components/LoginView';
+import { isAuthEnabled } from './api/auth';
+import { useAuth } from './hooks/useAuth';
+import { useActiveGraphId } from './hooks/useActiveGraphId';
 
 function App() {
+  const { session, notice } = useAuth();
+  const graphId = useActiveGraphId();
+
   return (
     <div className="w-full h-screen bg-gray-900">
-      <GraphView />
+      {isAuthEnabled && !session
+        ? <LoginView notice={notice} />
+        // Each graph gets a view of its own, so selection, search, history and simulation start over
+        : <GraphView key={graphId} graphId={graphId} />}
     </div>
   );
 }
 
-export default App; 
\ No newline at end of file
+export default App;
@@ -0,0 +1,56 @@
+import { WORKSPACE_CONFIG } from '../types/constants';
+import { graphIdFromPath } from '../utils/urlState';
+
+/*
+ * The graph the app works on. Backends and settings that exist once per graph look it up here;
+ * the app shows a fresh GraphView whenever it changes. A link to a graph opens that graph;
+ * otherwise it is the one opened last.
+ */
+
+function readActiveGraphId(): string {
+  try {
+    return localStorage.getItem(WORKSPACE_CONFIG.STORAGE_KEY) || WORKSPACE_CONFIG.DEFAULT_GRAPH_ID;
+  } catch {
+    return WORKSPACE_CONFIG.DEFAULT_GRAPH_ID;
+  }
+}
+
+function rememberActiveGraphId(graphId: string) {
+  try {
+    localStorage.setItem(WORKSPACE_CONFIG.STORAGE_KEY, graphId);
+  } catch (error) {
+    console.warn('Could not remember the open graph:', error);
+  }
+}
+
+const linkedGraphId = graphIdFromPath(window.location.pathname);
+if (linkedGraphId) rememberActiveGraphId(linkedGraphId);
+
+let activeGraphId = linkedGraphId ?? readActiveGraphId();
+
+const listeners = new Set<(graphId: string) => void>();
+
+export function getActiveGraphId(): string {
+  return activeGraphId;
+}
+
+export function setActiveGraphId(graphId: string) {
+  if (graphId === activeGraphId) return;
+  activeGraphId = graphId;
+  rememberActiveGraphId(graphId);
+  listeners.forEach(listener => listener(graphId));
+}
+
+// Returns an unsubscribe function
+export function subscribeToActiveGraph(listener: (graphId: string) => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/**
+ * Storage key of something kept per graph. The default graph keeps the key it had before
+ * there were workspaces, so data stored back then still belongs to it.
+ */
+export function scopedStorageKey(key: string, graphId = activeGraphId): string {
+  return graphId === WORKSPACE_CONFIG.DEFAULT_GRAPH_ID ? key : `${key}:${graphId}`;
+}
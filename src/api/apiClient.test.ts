@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { createGraphApi } from './apiClient';
+import { NotFoundError, ServerError } from './errors';
+
+// Statuses the fake server answers with, in turn; the last one repeats
+const server = vi.hoisted(() => ({
+  statuses: [] as number[],
+  calls: [] as string[]
+}));
+
+vi.mock('axios', async importOriginal => {
+  const actual = await importOriginal<typeof import('axios')>();
+  const adapter = async (config: InternalAxiosRequestConfig) => {
+    const route = `${config.method} ${config.url}`;
+    // The probe for workspace endpoints: this server keeps one graph
+    const status = config.url === '/graphs' ? 404 : server.statuses.length > 1 ? server.statuses.shift()! : server.statuses[0];
+    if (config.url !== '/graphs') server.calls.push(route);
+    const response = { status, statusText: String(status), data: '{}', headers: {}, config };
+    if (status >= 400) {
+      throw new actual.AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, null, response);
+    }
+    return response;
+  };
+  const axios = Object.assign(Object.create(actual.default), {
+    create: (config?: Parameters<typeof actual.default.create>[0]) => actual.default.create({ ...config, adapter })
+  });
+  return { ...actual, default: axios };
+});
+
+describe('request retries', () => {
+  const graphApi = createGraphApi('default');
+
+  beforeEach(() => {
+    server.statuses = [];
+    server.calls = [];
+    // No waiting between attempts
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries a read that failed for a passing reason', async () => {
+    server.statuses = [503, 502, 200];
+    await expect(graphApi.getGraph()).resolves.toBeDefined();
+    expect(server.calls).toEqual(['get /graph', 'get /graph', 'get /graph']);
+  });
+
+  it('gives up on a read after the retries', async () => {
+    server.statuses = [503];
+    await expect(graphApi.getGraph()).rejects.toBeInstanceOf(ServerError);
+    expect(server.calls).toHaveLength(3);
+  });
+
+  it('does not retry a read the server refused', async () => {
+    server.statuses = [404];
+    await expect(graphApi.getGraph()).rejects.toBeInstanceOf(NotFoundError);
+    expect(server.calls).toHaveLength(1);
+  });
+
+  it('retries saving positions, which sets absolute values', async () => {
+    server.statuses = [503, 204];
+    await graphApi.updateNodePositions!({ a: { x: 1, y: 2 } });
+    expect(server.calls).toEqual(['patch /nodes/positions', 'patch /nodes/positions']);
+  });
+
+  // The first attempt may have been applied: again, it would conflict with itself or find nothing to delete
+  it('does not retry a versioned update or a delete', async () => {
+    server.statuses = [503];
+    await expect(graphApi.updateNode('a', { label: 'A' }, '2024-01-01T00:00:00.000Z')).rejects.toBeInstanceOf(ServerError);
+    await expect(graphApi.deleteNode('a')).rejects.toBeInstanceOf(ServerError);
+    await expect(graphApi.deleteEdge('e')).rejects.toBeInstanceOf(ServerError);
+    expect(server.calls).toEqual(['put /nodes/a', 'delete /nodes/a', 'delete /edges/e']);
+  });
+});
@@ -1,4 +1,20 @@
 import axios from 'axios';
+import type { AxiosRequestConfig } from 'axios';
+import {
+  ApiError,
+  NetworkError,
+  TimeoutError,
+  CancelledError,
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  ServerError,
+  isConflictError,
+  isCancelledError,
+  isMissingEndpoint
+} from './errors';
+import { getAccessToken, getAuthState, refreshSession, expireSession, isAuthEnabled } from './auth';
+import { API_CONFIG, WORKSPACE_CONFIG } from '../types/constants';
 import type {
   GraphData,
   GraphNode,
@@ -6,13 +22,20 @@ import type {
   CreateNodeRequest,
   UpdateNodeRequest,
   CreateEdgeRequest,
-  UpdateEdgeRequest
+  UpdateEdgeRequest,
+  NodeTypeDefinition,
+  GraphSchema,
+  GraphRepository,
+  GraphSummary,
+  WorkspaceRepository,
+  NodePosition,
+  RequestOptions
 } from '../types/graph';
 
 // Configure axios defaults
 const api = axios.create({
-  baseURL: import.meta.env.VITE_API_BASE_URL || '/api',
-  timeout: 10000,
+  baseURL: API_CONFIG.BASE_URL,
+  timeout: API_CONFIG.TIMEOUT,
   headers: {
     'Content-Type': 'application/json',
   },
@@ -42,115 +65,364 @@ api.interceptors.response.use(
   }
 );
 
-// Graph API functions
-export const graphApi = {
-  // Get entire graph
-  async getGraph(): Promise<GraphData> {
-    try {
-      const response = await api.get<GraphData>('/graph');
-      return response.data;
-    } catch (error) {
-      console.error('Failed to fetch graph:', error);
-      throw new Error('Failed to load graph data');
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    isAuthRetry?: boolean;     // Already replayed after a token refresh
+    isIdempotent?: boolean;    // A write that leaves the same result when sent twice, so it may be retried
+  }
+}
+
+// Send the access token of the session
+api.interceptors.request.use(async (config) => {
+  const token = await getAccessToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+// A 401 means the access token has expired: get a new one and send the request again
+api.interceptors.response.use(undefined, async (error) => {
+  const config = axios.isAxiosError(error) ? error.config : undefined;
+  if (!isAuthEnabled || !config || error.response?.status !== 401) {
+    return Promise.reject(error);
+  }
+  // Refused with a fresh token as well, so the session itself is no longer valid
+  if (config.isAuthRetry) {
+    expireSession();
+    return Promise.reject(error);
+  }
+
+  const session = getAuthState().session;
+  if (!session) {
+    return Promise.reject(error);
+  }
+  try {
+    // Another request may have refreshed the token since this one was sent
+    if (config.headers.Authorization === `Bearer ${session.accessToken}`) {
+      await refreshSession();
     }
-  },
+  } catch {
+    return Promise.reject(error);
+  }
+  return api.request({ ...config, isAuthRetry: true });
+});
+
+// Statuses that say "not now" rather than "not this"
+const RETRIED_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+type Json = Record<string, unknown>;
+
+const isJson = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The server's own explanation, from `{ message }` or `{ error }`
+function serverMessage(data: unknown): string | undefined {
+  if (!isJson(data)) return undefined;
+  const message = data.message ?? data.error;
+  return typeof message === 'string' && message.trim() ? message.trim() : undefined;
+}
+
+// Field errors as `{ errors: { field: message } }` or `{ errors: [{ field | path | param, message | msg }] }`
+function fieldErrorsFrom(data: unknown): Record<string, string> {
+  const errors = isJson(data) ? data.errors : undefined;
+  const entries: [unknown, unknown][] = Array.isArray(errors)
+    ? errors.filter(isJson).map(entry => [entry.field ?? entry.path ?? entry.param, entry.message ?? entry.msg])
+    : isJson(errors)
+      ? Object.entries(errors).map(([field, problem]) => [field, isJson(problem) ? problem.message : problem])
+      : [];
+
+  return Object.fromEntries(entries.flatMap(([field, problem]) => {
+    const text = Array.isArray(problem) ? problem.join(', ') : problem;
+    return typeof field === 'string' && typeof text === 'string' ? [[field, text]] : [];
+  }));
+}
+
+// A stale update is answered with 409 and the item as stored now, either as the body or as `{ current }`
+function conflictRecord<T extends GraphNode | GraphEdge>(data: unknown): T | undefined {
+  const record = isJson(data) && isJson(data.current) ? data.current : data;
+  if (!isJson(record) || (!record.id && !record._id)) return undefined;
+  return { ...record, id: record._id || record.id } as T;
+}
+
+// The typed error (see errors.ts) for what axios threw; `failure` says what was attempted
+function toApiError(error: unknown, failure: string): Error {
+  if (error instanceof ApiError || !axios.isAxiosError(error)) {
+    return error instanceof Error ? error : new Error(failure);
+  }
+  if (axios.isCancel(error)) {
+    return new CancelledError(`${failure}: cancelled`, error);
+  }
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new TimeoutError(`${failure}: no answer in time`, error);
+  }
+  if (!error.response) {
+    return new NetworkError(`${failure}: server unreachable`, error);
+  }
+
+  const { status, data } = error.response;
+  const message = serverMessage(data) ?? failure;
+  const options = { status, cause: error };
+  if (status === 401) return new ApiError('unauthorized', message, options);
+  if (status === 400 || status === 422) return new ValidationError(message, fieldErrorsFrom(data), options);
+  if (status === 404) return new NotFoundError(message, options);
+  if (status === 409) return new ConflictError(message, conflictRecord(data), options);
+  if (status >= 500) return new ServerError(message, options);
+  return new ApiError('http', message, options);
+}
+
+function isRetryable(error: Error): boolean {
+  return error instanceof NetworkError || (error instanceof ApiError && RETRIED_STATUSES.has(error.status ?? 0));
+}
+
+// Exponential backoff with full jitter, so clients that failed together don't retry together
+function retryDelay(attempt: number): number {
+  return Math.random() * Math.min(API_CONFIG.RETRY_MAX_DELAY, API_CONFIG.RETRY_BASE_DELAY * 2 ** attempt);
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Send a request and return its body. Failures reject with a typed error; reads and writes marked
+ * `isIdempotent` that failed for a passing reason (no answer, 502, 503, ...) are retried first.
+ * Other writes are not: one that timed out may still have been applied, and sending it again
+ * would answer a versioned update with a conflict against itself, or a delete with a 404.
+ */
+async function request<T>(config: AxiosRequestConfig, failure: string, options: RequestOptions = {}): Promise<T> {
+  const canRetry = (config.method ?? 'get') === 'get' || config.isIdempotent === true;
 
-  // Node operations
-  async createNode(data: CreateNodeRequest): Promise<GraphNode> {
+  for (let attempt = 0; ; attempt++) {
     try {
-      const response = await api.post<GraphNode>('/nodes', data);
+      const response = await api.request<T>({ ...config, signal: options.signal, timeout: options.timeout ?? API_CONFIG.TIMEOUT });
       return response.data;
     } catch (error) {
-      console.error('Failed to create node:', error);
-      throw new Error('Failed to create node');
+      const apiError = toApiError(error, failure);
+      if (canRetry && attempt < API_CONFIG.RETRIES && isRetryable(apiError)) {
+        console.warn(`${failure}, retrying (${attempt + 1}/${API_CONFIG.RETRIES}):`, apiError.message);
+        await wait(retryDelay(attempt), options.signal);
+        continue;
+      }
+      if (!isCancelledError(apiError)) console.error(`${failure}:`, apiError);
+      throw apiError;
     }
-  },
+  }
+}
 
-  async updateNode(id: string, data: UpdateNodeRequest): Promise<GraphNode> {
-    try {
-      const response = await api.put<GraphNode>(`/nodes/${id}`, data);
-      return response.data;
-    } catch (error) {
-      console.error('Failed to update node:', error);
-      throw new Error('Failed to update node');
+// Known once the graph list was asked for: servers without /graphs keep one graph at the root paths
+let hasWorkspaceEndpoints: Promise<boolean> | null = null;
+// The same answer for code that can't wait for it; null until the list has been fetched
+let knownWorkspaceEndpoints: boolean | null = null;
+
+// The graph list, or null when the server has no workspaces
+async function fetchGraphList(options?: RequestOptions): Promise<GraphSummary[] | null> {
+  try {
+    const graphs = await request<GraphSummary[]>({ url: '/graphs' }, 'Failed to load the list of graphs', options);
+    hasWorkspaceEndpoints = Promise.resolve(true);
+    knownWorkspaceEndpoints = true;
+    return graphs;
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+    hasWorkspaceEndpoints = Promise.resolve(false);
+    knownWorkspaceEndpoints = false;
+    return null;
+  }
+}
+
+// Path prefix of a graph's endpoints
+async function graphPath(graphId: string): Promise<string> {
+  if (!hasWorkspaceEndpoints) {
+    const probe = fetchGraphList().then(graphs => graphs !== null);
+    hasWorkspaceEndpoints = probe;
+    // Let a later call ask again
+    probe.catch(() => { if (hasWorkspaceEndpoints === probe) hasWorkspaceEndpoints = null; });
+  }
+  return (await hasWorkspaceEndpoints) ? `/graphs/${encodeURIComponent(graphId)}` : '';
+}
+
+async function requireWorkspaces(): Promise<void> {
+  if (!(await graphPath(WORKSPACE_CONFIG.DEFAULT_GRAPH_ID))) {
+    throw new Error('This server keeps a single graph and has no workspaces');
+  }
+}
+
+// A conflict whose answer didn't include the stored item gets it from the graph
+async function withCurrentItem(error: unknown, id: string, collection: 'nodes' | 'edges', graphId: string, options?: RequestOptions): Promise<unknown> {
+  if (!isConflictError(error) || error.current) return error;
+  try {
+    const graph = await request<GraphData>({ url: `${await graphPath(graphId)}/graph` }, 'Failed to load graph data', options);
+    const items: (GraphNode | GraphEdge)[] = graph[collection];
+    const current = items.find(item => (item._id || item.id) === id);
+    return current ? new ConflictError(error.message, { ...current, id }, { cause: error }) : error;
+  } catch {
+    return error;
+  }
+}
+
+// The REST backend of one graph (see src/api/repositories); every path is scoped to its ID
+export function createGraphApi(graphId: string): GraphRepository {
+  const path = async (endpoint: string) => `${await graphPath(graphId)}${endpoint}`;
+
+  return {
+    // Get entire graph
+    async getGraph(options?: RequestOptions): Promise<GraphData> {
+      return request<GraphData>({ url: await path('/graph') }, 'Failed to load graph data', options);
+    },
+
+    // Node operations
+    async createNode(data: CreateNodeRequest, options?: RequestOptions): Promise<GraphNode> {
+      return request<GraphNode>({ method: 'post', url: await path('/nodes'), data }, 'Failed to create node', options);
+    },
+
+    async updateNode(id: string, data: UpdateNodeRequest, baseUpdatedAt?: string, options?: RequestOptions): Promise<GraphNode> {
+      try {
+        const body = baseUpdatedAt ? { ...data, baseUpdatedAt } : data;
+        return await request<GraphNode>({ method: 'put', url: await path(`/nodes/${id}`), data: body }, 'Failed to update node', options);
+      } catch (error) {
+        throw await withCurrentItem(error, id, 'nodes', graphId, options);
+      }
+    },
+
+    // One request for many moved nodes; servers without it answer 404 and get single updates
+    async updateNodePositions(positions: Record<string, NodePosition>, options?: RequestOptions): Promise<void> {
+      await request({
+        method: 'patch',
+        url: await path('/nodes/positions'),
+        // Absolute positions, without a version to check
+        isIdempotent: true,
+        data: { positions: Object.entries(positions).map(([id, position]) => ({ id, ...position })) }
+      }, 'Failed to save node positions', options);
+    },
+
+    // For a page that is closing, which would cancel an axios request: the browser still delivers
+    // a keepalive fetch. There is no answer to wait for, so this skips the interceptors and retries.
+    sendNodePositionsOnUnload(positions: Record<string, NodePosition>): boolean {
+      if (knownWorkspaceEndpoints === null) return false;
+      const prefix = knownWorkspaceEndpoints ? `/graphs/${encodeURIComponent(graphId)}` : '';
+      const token = getAuthState().session?.accessToken;
+
+      void fetch(`${API_CONFIG.BASE_URL}${prefix}/nodes/positions`, {
+        method: 'PATCH',
+        keepalive: true,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {})
+        },
+        body: JSON.stringify({ positions: Object.entries(positions).map(([id, position]) => ({ id, ...position })) })
+      }).catch(error => console.error('Failed to save node positions on unload:', error));
+      return true;
+    },
+
+    async deleteNode(id: string, options?: RequestOptions): Promise<void> {
+      await request({ method: 'delete', url: await path(`/nodes/${id}`) }, 'Failed to delete node', options);
+    },
+
+    // Edge operations
+    async createEdge(data: CreateEdgeRequest, options?: RequestOptions): Promise<GraphEdge> {
+      return request<GraphEdge>({ method: 'post', url: await path('/edges'), data }, 'Failed to create edge', options);
+    },
+
+    async updateEdge(id: string, data: UpdateEdgeRequest, baseUpdatedAt?: string, options?: RequestOptions): Promise<GraphEdge> {
+      try {
+        const body = baseUpdatedAt ? { ...data, baseUpdatedAt } : data;
+        return await request<GraphEdge>({ method: 'put', url: await path(`/edges/${id}`), data: body }, 'Failed to update edge', options);
+      } catch (error) {
+        throw await withCurrentItem(error, id, 'edges', graphId, options);
+      }
+    },
+
+    async deleteEdge(id: string, options?: RequestOptions): Promise<void> {
+      await request({ method: 'delete', url: await path(`/edges/${id}`) }, 'Failed to delete edge', options);
+    },
+
+    // Search operations
+    async searchNodes(query: string, options?: RequestOptions): Promise<GraphNode[]> {
+      if (!query.trim()) {
+        return [];
+      }
+      return request<GraphNode[]>({ url: await path('/search'), params: { q: query } }, 'Failed to search nodes', options);
+    },
+
+    // Node type registry; null means the server has no registry endpoint
+    async getNodeTypes(): Promise<NodeTypeDefinition[] | null> {
+      try {
+        return await request<NodeTypeDefinition[]>({ url: await path('/node-types') }, 'Failed to load node types');
+      } catch (error) {
+        if (error instanceof NotFoundError) return null;
+        throw error;
+      }
+    },
+
+    async saveNodeTypes(types: NodeTypeDefinition[]): Promise<NodeTypeDefinition[]> {
+      return request<NodeTypeDefinition[]>({ method: 'put', url: await path('/node-types'), data: types, isIdempotent: true }, 'Failed to save node types');
+    },
+
+    // Property schemas and edge rules; null means the server has no schema endpoint
+    async getSchema(): Promise<GraphSchema | null> {
+      try {
+        return await request<GraphSchema>({ url: await path('/schema') }, 'Failed to load schema');
+      } catch (error) {
+        if (error instanceof NotFoundError) return null;
+        throw error;
+      }
+    },
+
+    async saveSchema(schema: GraphSchema): Promise<GraphSchema> {
+      return request<GraphSchema>({ method: 'put', url: await path('/schema'), data: schema, isIdempotent: true }, 'Failed to save schema');
     }
+  };
+}
+
+const graphApis = new Map<string, GraphRepository>();
+
+// The graph list of the REST backend
+export const workspaceApi: WorkspaceRepository = {
+  // Servers without workspaces show their one graph as the default graph
+  async listGraphs(options?: RequestOptions): Promise<GraphSummary[]> {
+    const graphs = await fetchGraphList(options);
+    return graphs ?? [{ id: WORKSPACE_CONFIG.DEFAULT_GRAPH_ID, name: WORKSPACE_CONFIG.DEFAULT_GRAPH_NAME }];
   },
 
-  async deleteNode(id: string): Promise<void> {
-    try {
-      await api.delete(`/nodes/${id}`);
-    } catch (error) {
-      console.error('Failed to delete node:', error);
-      throw new Error('Failed to delete node');
-    }
+  async createGraph(name: string): Promise<GraphSummary> {
+    await requireWorkspaces();
+    return request<GraphSummary>({ method: 'post', url: '/graphs', data: { name } }, 'Failed to create graph');
   },
 
-  // Edge operations
-  async createEdge(data: CreateEdgeRequest): Promise<GraphEdge> {
-    try {
-      const response = await api.post<GraphEdge>('/edges', data);
-      return response.data;
-    } catch (error) {
-      console.error('Failed to create edge:', error);
-      throw new Error('Failed to create edge');
-    }
+  async renameGraph(id: string, name: string): Promise<GraphSummary> {
+    await requireWorkspaces();
+    return request<GraphSummary>({ method: 'patch', url: `/graphs/${encodeURIComponent(id)}`, data: { name } }, 'Failed to rename graph');
   },
 
-  async updateEdge(id: string, data: UpdateEdgeRequest): Promise<GraphEdge> {
-    try {
-      const response = await api.put<GraphEdge>(`/edges/${id}`, data);
-      return response.data;
-    } catch (error) {
-      console.error('Failed to update edge:', error);
-      throw new Error('Failed to update edge');
-    }
+  async duplicateGraph(id: string, name: string): Promise<GraphSummary> {
+    await requireWorkspaces();
+    return request<GraphSummary>({ method: 'post', url: `/graphs/${encodeURIComponent(id)}/duplicate`, data: { name } }, 'Failed to duplicate graph');
   },
 
-  async deleteEdge(id: string): Promise<void> {
-    try {
-      await api.delete(`/edges/${id}`);
-    } catch (error) {
-      console.error('Failed to delete edge:', error);
-      throw new Error('Failed to delete edge');
-    }
+  async deleteGraph(id: string): Promise<void> {
+    await requireWorkspaces();
+    await request({ method: 'delete', url: `/graphs/${encodeURIComponent(id)}` }, 'Failed to delete graph');
+    graphApis.delete(id);
   },
 
-  // Search operations
-  async searchNodes(query: string): Promise<GraphNode[]> {
-    try {
-      if (!query.trim()) {
-        return [];
-      }
-      const response = await api.get<GraphNode[]>('/search', {
-        params: { q: query }
-      });
-      return response.data;
-    } catch (error) {
-      console.error('Failed to search nodes:', error);
-      throw new Error('Failed to search nodes');
+  openGraph(id: string): GraphRepository {
+    let graphApi = graphApis.get(id);
+    if (!graphApi) {
+      graphApi = createGraphApi(id);
+      graphApis.set(id, graphApi);
     }
+    return graphApi;
   }
 };
 
-// Debounced API call utility
-export function debounce<T extends (...args: any[]) => any>(
-  func: T,
-  delay: number
-): (...args: Parameters<T>) => void {
-  let timeoutId: ReturnType<typeof setTimeout>;
-  
-  return (...args: Parameters<T>) => {
-    clearTimeout(timeoutId);
-    timeoutId = setTimeout(() => func(...args), delay);
-  };
-}
-
-// Position update debouncer for node dragging
-export const debouncedUpdateNodePosition = debounce(
-  (id: string, x: number, y: number) => {
-    return graphApi.updateNode(id, { x, y });
-  },
-  500 // 500ms delay
-);
-
-export default api; 
\ No newline at end of file
+export default api;
@@ -0,0 +1,196 @@
+import axios from 'axios';
+import { API_CONFIG, AUTH_CONFIG } from '../types/constants';
+import type { AuthSession, AuthState, AuthUser } from '../types/graph';
+
+/*
+ * The signed-in session. Tokens come from the auth endpoints at AUTH_CONFIG.URL:
+ *
+ *   POST /login   { username, password } -> TokenResponse
+ *   POST /refresh { refreshToken }       -> TokenResponse
+ *   POST /logout  { refreshToken }
+ *
+ * apiClient.ts sends the access token with every request and gets a new one through
+ * refreshSession() when the API answers 401. The session is kept in localStorage, so a reload
+ * stays signed in and tabs of the same browser share it.
+ */
+
+interface TokenResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;           // Seconds the access token is valid for
+  user: AuthUser;
+}
+
+export const isAuthEnabled = Boolean(AUTH_CONFIG.URL);
+
+const SESSION_EXPIRED = 'Your session has expired. Please sign in again.';
+
+// Its own instance, so auth calls don't go through the API interceptors that lead back here
+const authApi = axios.create({
+  baseURL: AUTH_CONFIG.URL,
+  timeout: API_CONFIG.TIMEOUT,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+});
+
+function readSession(): AuthSession | null {
+  if (!isAuthEnabled) return null;
+  try {
+    const stored = localStorage.getItem(AUTH_CONFIG.STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+let state: AuthState = { session: readSession(), notice: null };
+let refreshPromise: Promise<AuthSession> | null = null;
+let hasStorageListener = false;
+
+const listeners = new Set<(state: AuthState) => void>();
+
+function setState(next: AuthState) {
+  state = next;
+  try {
+    if (next.session) localStorage.setItem(AUTH_CONFIG.STORAGE_KEY, JSON.stringify(next.session));
+    else localStorage.removeItem(AUTH_CONFIG.STORAGE_KEY);
+  } catch (error) {
+    console.warn('Could not store the session:', error);
+  }
+  listeners.forEach(listener => listener(state));
+}
+
+function toSession(response: TokenResponse): AuthSession {
+  return {
+    accessToken: response.accessToken,
+    refreshToken: response.refreshToken,
+    expiresAt: Date.now() + response.expiresIn * 1000,
+    user: response.user
+  };
+}
+
+// Signing in or out (or a refresh) in another tab applies here too
+function listenToOtherTabs() {
+  if (hasStorageListener) return;
+  hasStorageListener = true;
+
+  window.addEventListener('storage', event => {
+    if (event.key !== AUTH_CONFIG.STORAGE_KEY) return;
+    const session = readSession();
+    state = { session, notice: null };
+    listeners.forEach(listener => listener(state));
+  });
+}
+
+// What to tell the user about a refused sign-in
+function loginFailure(error: unknown): string {
+  if (!axios.isAxiosError(error)) return 'Sign-in failed.';
+  if (!error.response) return 'The sign-in server can\'t be reached. Check your connection and try again.';
+  if (error.response.status === 401) return 'Wrong username or password.';
+  const message = error.response.data?.message;
+  return typeof message === 'string' && message ? message : `Sign-in failed (${error.response.status}).`;
+}
+
+export async function login(username: string, password: string): Promise<void> {
+  try {
+    const response = await authApi.post<TokenResponse>('/login', { username, password });
+    setState({ session: toSession(response.data), notice: null });
+  } catch (error) {
+    console.error('Sign-in failed:', error);
+    throw new Error(loginFailure(error));
+  }
+}
+
+// Ends the session here right away; telling the server is best effort
+export async function logout(): Promise<void> {
+  const session = state.session;
+  setState({ session: null, notice: null });
+  if (!session) return;
+  try {
+    await authApi.post('/logout', { refreshToken: session.refreshToken });
+  } catch (error) {
+    console.warn('Could not end the session on the server:', error);
+  }
+}
+
+// The refresh token was refused too: back to the login view, saying why
+export function expireSession() {
+  if (state.session) setState({ session: null, notice: SESSION_EXPIRED });
+}
+
+// Tokens another tab stored after refreshing the same session, which replace this tab's
+function refreshedElsewhere(session: AuthSession): AuthSession | null {
+  const stored = readSession();
+  if (!stored || stored.refreshToken === session.refreshToken) return null;
+  state = { session: stored, notice: null };
+  listeners.forEach(listener => listener(state));
+  return stored;
+}
+
+async function requestNewTokens(session: AuthSession): Promise<AuthSession> {
+  // The tab that held the lock before may have used up this refresh token already
+  const current = refreshedElsewhere(session);
+  if (current) return current;
+
+  try {
+    const response = await authApi.post<TokenResponse>('/refresh', { refreshToken: session.refreshToken });
+    const next = toSession(response.data);
+    setState({ session: next, notice: null });
+    return next;
+  } catch (error) {
+    // A refusal ends the session; without an answer it may still be good once the server is back.
+    // Without web locks another tab may have won a race for the same token, so check first.
+    if (axios.isAxiosError(error) && error.response && error.response.status < 500) {
+      const refreshed = refreshedElsewhere(session);
+      if (refreshed) return refreshed;
+      expireSession();
+    }
+    throw error;
+  }
+}
+
+// Holds the other tabs' refreshes back until this one is done, where the browser has web locks
+async function withRefreshLock(refresh: () => Promise<AuthSession>): Promise<AuthSession> {
+  if (!navigator.locks) return refresh();
+  return await navigator.locks.request(AUTH_CONFIG.REFRESH_LOCK, refresh);
+}
+
+/**
+ * Trade the refresh token for new tokens. Only one refresh runs at a time: requests that fail
+ * together all wait for the same new token, and tabs sharing the session take turns, since each
+ * refresh token can be used once.
+ */
+export function refreshSession(): Promise<AuthSession> {
+  if (!refreshPromise) {
+    const session = state.session;
+    if (!session) return Promise.reject(new Error('Not signed in'));
+    refreshPromise = withRefreshLock(() => requestNewTokens(session))
+      .finally(() => { refreshPromise = null; });
+  }
+  return refreshPromise;
+}
+
+// The access token for the next request, refreshed first when it is about to expire
+export async function getAccessToken(): Promise<string | null> {
+  const session = state.session;
+  if (!session) return null;
+  if (session.expiresAt - AUTH_CONFIG.REFRESH_MARGIN > Date.now()) return session.accessToken;
+  try {
+    return (await refreshSession()).accessToken;
+  } catch {
+    // Let the request go; its 401 is handled like any other
+    return state.session?.accessToken ?? null;
+  }
+}
+
+export function getAuthState(): AuthState {
+  return state;
+}
+
+// Returns an unsubscribe function
+export function subscribeToAuth(listener: (state: AuthState) => void): () => void {
+  listenToOtherTabs();
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
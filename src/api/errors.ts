@@ -0,0 +1,144 @@
+import type { GraphNode, GraphEdge } from '../types/graph';
+
+// What went wrong with a request, for code that reacts to it and for messages shown to the user
+export type ApiErrorKind =
+  'network' | 'timeout' | 'cancelled' | 'unauthorized' | 'validation' | 'notFound' | 'conflict' | 'server' | 'http';
+
+/**
+ * A failed request. `message` is the server's explanation when it gave one; `status` is the
+ * HTTP status when there was a response.
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+
+  constructor(kind: ApiErrorKind, message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    if (options.cause !== undefined) Object.assign(this, { cause: options.cause });
+  }
+}
+
+// No response: the server is down or the browser is offline
+export class NetworkError extends ApiError {
+  constructor(message: string, cause?: unknown, kind: 'network' | 'timeout' = 'network') {
+    super(kind, message, { cause });
+    this.name = 'NetworkError';
+  }
+}
+
+// No response in time; counts as a network failure everywhere that cares
+export class TimeoutError extends NetworkError {
+  constructor(message: string, cause?: unknown) {
+    super(message, cause, 'timeout');
+    this.name = 'TimeoutError';
+  }
+}
+
+// The caller aborted the request (e.g. a search overtaken by a newer one)
+export class CancelledError extends ApiError {
+  constructor(message = 'Request cancelled', cause?: unknown) {
+    super('cancelled', message, { cause });
+    this.name = 'CancelledError';
+  }
+}
+
+// The server refused the data; `fieldErrors` maps field names to what is wrong with them
+export class ValidationError extends ApiError {
+  readonly fieldErrors: Record<string, string>;
+
+  constructor(message: string, fieldErrors: Record<string, string> = {}, options: { status?: number; cause?: unknown } = {}) {
+    super('validation', message, options);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+    super('notFound', message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+// An update was refused because the item changed since the version it was edited from.
+// `current` is the item as it is stored now, when the backend could tell.
+export class ConflictError<T extends GraphNode | GraphEdge = GraphNode | GraphEdge> extends ApiError {
+  readonly current?: T;
+
+  constructor(message: string, current?: T, options: { cause?: unknown } = {}) {
+    super('conflict', message, { status: 409, ...options });
+    this.name = 'ConflictError';
+    this.current = current;
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+    super('server', message, options);
+    this.name = 'ServerError';
+  }
+}
+
+export function isConflictError(error: unknown): error is ConflictError {
+  return error instanceof ConflictError;
+}
+
+// The request got no response (timeouts included), so it may work later
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof NetworkError;
+}
+
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof CancelledError;
+}
+
+// The server turned the request down for what it asks (bad data, a missing item, a conflict), so
+// sending it again can't help. Not for signed-out, forbidden, throttled or failing-server answers.
+export function isRejection(error: unknown): boolean {
+  if (!(error instanceof ApiError)) return false;
+  if (error.kind === 'validation' || error.kind === 'notFound' || error.kind === 'conflict') return true;
+  return error.kind === 'http' && error.status !== 403 && error.status !== 408 && error.status !== 429;
+}
+
+// The server has no such endpoint (or not for this method)
+export function isMissingEndpoint(error: unknown): boolean {
+  return error instanceof ApiError && (error.status === 404 || error.status === 405);
+}
+
+const withoutPeriod = (text: string) => text.replace(/\.$/, '');
+
+/**
+ * What to tell the user about a failed action, e.g. `describeFailure('delete node "A"', error)`.
+ * Errors that aren't from the API keep their own message.
+ */
+export function describeFailure(action: string, error: unknown): string {
+  if (!(error instanceof ApiError)) {
+    return `Could not ${action}${error instanceof Error && error.message ? `: ${error.message}` : '.'}`;
+  }
+
+  switch (error.kind) {
+    case 'network':
+      return `Could not ${action}: the server can't be reached. Check your connection and try again.`;
+    case 'timeout':
+      return `Could not ${action}: the server took too long to answer. Try again in a moment.`;
+    case 'cancelled':
+      return `Could not ${action}: the request was cancelled.`;
+    case 'unauthorized':
+      return `Could not ${action}: you are signed out. Sign in and try again.`;
+    case 'validation': {
+      const fields = Object.entries((error as ValidationError).fieldErrors).map(([field, problem]) => `${field} ${problem}`);
+      return `Could not ${action}: ${fields.length > 0 ? fields.join('; ') : withoutPeriod(error.message)}.`;
+    }
+    case 'notFound':
+      return `Could not ${action}: it no longer exists on the server. Someone may have deleted it; reload to see the current graph.`;
+    case 'conflict':
+      return `Could not ${action}: it was changed by someone else in the meantime.`;
+    case 'server':
+      return `Could not ${action}: the server had a problem${error.status ? ` (${error.status})` : ''}. Try again later.`;
+    case 'http':
+      return `Could not ${action}: ${withoutPeriod(error.message)}.`;
+  }
+}
@@ -0,0 +1,33 @@
+import { DEFAULT_EDGE_LABEL } from '../utils/graphSchema';
+import type { GraphNode, GraphEdge, CreateNodeRequest, CreateEdgeRequest } from '../types/graph';
+
+// Items as a backend stores them when they are created, with the REST server's defaults.
+// Also used for stand-ins the UI shows before the backend has answered.
+
+export function newNodeRecord(id: string, data: CreateNodeRequest): GraphNode {
+  const now = new Date().toISOString();
+  return {
+    id,
+    label: data.label,
+    type: data.type || 'default',
+    properties: data.properties ?? {},
+    x: data.x,
+    y: data.y,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+export function newEdgeRecord(id: string, data: CreateEdgeRequest): GraphEdge {
+  const now = new Date().toISOString();
+  return {
+    id,
+    source: data.source,
+    target: data.target,
+    label: data.label ?? DEFAULT_EDGE_LABEL,
+    properties: data.properties ?? {},
+    directed: data.directed ?? true,
+    createdAt: now,
+    updatedAt: now
+  };
+}
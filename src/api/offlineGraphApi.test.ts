@@ -0,0 +1,74 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+import { offlineGraphApi } from './offlineGraphApi';
+import { ApiError, NetworkError, ServerError, ValidationError } from './errors';
+import { newNodeRecord } from './graphRecords';
+import type { CreateNodeRequest } from '../types/graph';
+
+// The server every graph is saved to; tests decide how it answers
+const server = vi.hoisted(() => ({
+  createNode: null as unknown as Mock,
+  getGraph: async () => ({ nodes: [], edges: [] })
+}));
+
+vi.mock('./repositories', () => ({
+  workspaceRepository: { openGraph: () => server }
+}));
+
+const nodeA: CreateNodeRequest = { label: 'A', x: 0, y: 0 };
+const nodeB: CreateNodeRequest = { label: 'B', x: 10, y: 0 };
+
+// Loading the graph replays the queue first
+async function replay() {
+  await offlineGraphApi.loadGraph().catch(() => {});
+  return offlineGraphApi.getStatus().pendingCount;
+}
+
+describe('offline queue replay', () => {
+  let syncErrors: string[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    server.createNode = vi.fn(async (data: CreateNodeRequest) => newNodeRecord(`server-${data.label}`, data));
+    syncErrors = [];
+    unsubscribe = offlineGraphApi.onSyncError(message => syncErrors.push(message));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps queued changes while signed out or the server fails', async () => {
+    server.createNode.mockRejectedValueOnce(new NetworkError('Network Error'));
+    await offlineGraphApi.createNode(nodeA);
+    expect(offlineGraphApi.getStatus().pendingCount).toBe(1);
+
+    server.createNode.mockRejectedValueOnce(new ApiError('unauthorized', 'Session expired', { status: 401 }));
+    expect(await replay()).toBe(1);
+    server.createNode.mockRejectedValueOnce(new ApiError('unauthorized', 'Session expired', { status: 401 }));
+    expect(await replay()).toBe(1);
+    // Told once, not on every retry
+    expect(syncErrors).toHaveLength(1);
+
+    server.createNode.mockRejectedValueOnce(new ServerError('Service Unavailable', { status: 503 }));
+    expect(await replay()).toBe(1);
+
+    expect(await replay()).toBe(0);
+    expect(server.createNode).toHaveBeenLastCalledWith(nodeA);
+  });
+
+  it('drops a change the server rejects and sends the rest', async () => {
+    server.createNode.mockRejectedValueOnce(new NetworkError('Network Error'));
+    await offlineGraphApi.createNode(nodeA);
+    await offlineGraphApi.createNode(nodeB);
+    expect(offlineGraphApi.getStatus().pendingCount).toBe(2);
+
+    server.createNode.mockRejectedValueOnce(new ValidationError('Invalid node', { label: 'is taken' }, { status: 422 }));
+    expect(await replay()).toBe(0);
+    expect(syncErrors).toEqual(['Could not sync new node "A": label is taken.']);
+    expect(server.createNode).toHaveBeenLastCalledWith(nodeB);
+  });
+});
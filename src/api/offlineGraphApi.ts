@@ -0,0 +1,512 @@
+import { isNetworkError, isMissingEndpoint, isRejection, describeFailure } from './errors';
+import { workspaceRepository } from './repositories';
+import { getActiveGraphId } from './activeGraph';
+import { newNodeRecord, newEdgeRecord } from './graphRecords';
+import {
+  readCachedGraph,
+  writeCachedGraph,
+  deleteCachedGraph,
+  readQueue,
+  putQueuedMutation,
+  deleteQueuedMutation
+} from './offlineStore';
+import { OFFLINE_CONFIG, POSITION_SYNC_CONFIG, WORKSPACE_CONFIG } from '../types/constants';
+import { DEFAULT_EDGE_LABEL } from '../utils/graphSchema';
+import { mapWithConcurrency } from '../utils/async';
+import type {
+  GraphData,
+  GraphNode,
+  GraphEdge,
+  GraphRepository,
+  GraphMutation,
+  QueuedMutation,
+  SyncStatus,
+  CreateNodeRequest,
+  UpdateNodeRequest,
+  CreateEdgeRequest,
+  UpdateEdgeRequest,
+  NodePosition
+} from '../types/graph';
+
+/*
+ * Offline-capable front for the graph mutations of the active graph's repository.
+ *
+ * While nothing is pending, calls go straight to the server. A call that cannot reach it is
+ * recorded in a durable queue (IndexedDB) and answered locally; items created that way get a
+ * temporary ID. Later calls queue up behind it so the server sees changes in the order they
+ * were made, and the queue is replayed once the server answers again. Every change is also
+ * applied to a cached copy of the graph, so the app can start without the server. Queued
+ * changes remember their graph, so switching graphs doesn't send them to the wrong one.
+ */
+
+// Cached copy of the graph last loaded
+let cache: GraphData | null = null;
+let cacheGraphId: string | null = null;
+let queue: QueuedMutation[] = [];
+let nextSeq = 1;
+let status: SyncStatus = { isOnline: true, pendingCount: 0, isSyncing: false };
+let readyPromise: Promise<void> | null = null;
+let flushPromise: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setInterval> | null = null;
+let cacheTimer: ReturnType<typeof setTimeout> | undefined;
+// Cleared once the backend turns out to have no bulk position endpoint
+let hasBulkPositions = true;
+// The last reason given for keeping the queue, so retries don't repeat it
+let heldReport: string | null = null;
+
+const statusListeners = new Set<(status: SyncStatus) => void>();
+const remapListeners = new Set<(tempId: string, serverId: string) => void>();
+const errorListeners = new Set<(message: string) => void>();
+
+function warnStorage(error: unknown) {
+  console.warn('Could not update offline storage:', error);
+}
+
+function setStatus(changes: Partial<SyncStatus>) {
+  const next = { ...status, ...changes };
+  if (next.isOnline === status.isOnline && next.pendingCount === status.pendingCount && next.isSyncing === status.isSyncing) {
+    return;
+  }
+  status = next;
+  statusListeners.forEach(listener => listener(status));
+}
+
+export function isTempId(id: string): boolean {
+  return id.startsWith(OFFLINE_CONFIG.TEMP_ID_PREFIX);
+}
+
+// Also used for items the UI shows before the server has answered
+export function createTempId(): string {
+  return `${OFFLINE_CONFIG.TEMP_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Cached graph helpers; the cache always uses normalized IDs
+
+function withNodeId(node: GraphNode): GraphNode {
+  return { ...node, id: node._id || node.id };
+}
+
+function withEdgeId(edge: GraphEdge): GraphEdge {
+  return { ...edge, id: edge._id || edge.id };
+}
+
+function writeCacheNow() {
+  clearTimeout(cacheTimer);
+  cacheTimer = undefined;
+  if (cache && cacheGraphId) writeCachedGraph(cacheGraphId, cache).catch(warnStorage);
+}
+
+// Changes to other graphs than the cached one are saved to the server only
+function updateCache(graphId: string, change: (data: GraphData) => GraphData) {
+  if (!cache || graphId !== cacheGraphId) return;
+  cache = change(cache);
+
+  clearTimeout(cacheTimer);
+  cacheTimer = setTimeout(writeCacheNow, OFFLINE_CONFIG.CACHE_SAVE_DELAY);
+}
+
+function graphOf(entry: QueuedMutation): string {
+  return entry.graphId ?? WORKSPACE_CONFIG.DEFAULT_GRAPH_ID;
+}
+
+function renameInGraph(data: GraphData, oldId: string, newId: string): GraphData {
+  const rename = (id: string) => (id === oldId ? newId : id);
+  return {
+    nodes: data.nodes.map(node => (node.id === oldId ? { ...node, id: newId } : node)),
+    edges: data.edges.map(edge => (edge.id === oldId || edge.source === oldId || edge.target === oldId
+      ? { ...edge, id: rename(edge.id), source: rename(edge.source), target: rename(edge.target) }
+      : edge))
+  };
+}
+
+// Point queued mutations and the cache at an item's server ID
+function remapTempId(graphId: string, tempId: string, serverId: string) {
+  const rename = (id: string) => (id === tempId ? serverId : id);
+
+  queue.forEach(entry => {
+    const { mutation } = entry;
+    let rewritten: GraphMutation = mutation;
+    if (mutation.kind === 'createEdge') {
+      if (mutation.data.source === tempId || mutation.data.target === tempId) {
+        rewritten = { ...mutation, data: { ...mutation.data, source: rename(mutation.data.source), target: rename(mutation.data.target) } };
+      }
+    } else if (mutation.kind === 'moveNodes') {
+      if (tempId in mutation.positions) {
+        const { [tempId]: position, ...others } = mutation.positions;
+        rewritten = { ...mutation, positions: { ...others, [serverId]: position } };
+      }
+    } else if (mutation.kind !== 'createNode' && mutation.id === tempId) {
+      rewritten = { ...mutation, id: serverId };
+    }
+
+    if (rewritten !== mutation) {
+      entry.mutation = rewritten;
+      putQueuedMutation(entry).catch(warnStorage);
+    }
+  });
+
+  updateCache(graphId, data => renameInGraph(data, tempId, serverId));
+  remapListeners.forEach(listener => listener(tempId, serverId));
+}
+
+// Later queued edits of an item were made on top of the one just saved, so that is their base
+function rebaseQueuedUpdates(id: string, updatedAt: string | undefined) {
+  queue.slice(1).forEach(entry => {
+    const { mutation } = entry;
+    if ((mutation.kind === 'updateNode' || mutation.kind === 'updateEdge') && mutation.id === id && mutation.baseUpdatedAt) {
+      entry.mutation = { ...mutation, baseUpdatedAt: updatedAt };
+      putQueuedMutation(entry).catch(warnStorage);
+    }
+  });
+}
+
+function describeMutation(mutation: GraphMutation): string {
+  switch (mutation.kind) {
+    case 'createNode':
+      return `new node "${mutation.data.label}"`;
+    case 'updateNode':
+      return 'a node change';
+    case 'deleteNode':
+      return 'a node deletion';
+    case 'createEdge':
+      return `new edge "${mutation.data.label ?? DEFAULT_EDGE_LABEL}"`;
+    case 'updateEdge':
+      return 'an edge change';
+    case 'deleteEdge':
+      return 'an edge deletion';
+    case 'moveNodes':
+      return 'node positions';
+  }
+}
+
+// One bulk request where the backend has it, otherwise a few single updates at a time
+async function sendNodePositions(repository: GraphRepository, positions: Record<string, NodePosition>) {
+  if (repository.updateNodePositions && hasBulkPositions) {
+    try {
+      await repository.updateNodePositions(positions);
+      return;
+    } catch (error) {
+      if (!isMissingEndpoint(error)) throw error;
+      hasBulkPositions = false;
+    }
+  }
+  await mapWithConcurrency(Object.entries(positions), POSITION_SYNC_CONFIG.CONCURRENCY, ([id, position]) =>
+    repository.updateNode(id, position)
+  );
+}
+
+// Restore the queue left by an earlier session
+function ready(): Promise<void> {
+  if (!readyPromise) {
+    readyPromise = (async () => {
+      try {
+        queue = await readQueue();
+        nextSeq = queue.reduce((max, entry) => Math.max(max, entry.seq + 1), nextSeq);
+      } catch (error) {
+        console.warn('Offline storage is unavailable; queued changes will not survive a reload:', error);
+      }
+      setStatus({ pendingCount: queue.length });
+      window.addEventListener('online', () => { void flush(); });
+    })();
+  }
+  return readyPromise;
+}
+
+function startRetrying() {
+  if (!retryTimer) {
+    retryTimer = setInterval(() => { void flush(); }, OFFLINE_CONFIG.RETRY_INTERVAL);
+  }
+}
+
+function stopRetrying() {
+  if (retryTimer) {
+    clearInterval(retryTimer);
+    retryTimer = null;
+  }
+}
+
+function enqueue(graphId: string, mutation: GraphMutation) {
+  const entry: QueuedMutation = { seq: nextSeq++, mutation, queuedAt: new Date().toISOString(), graphId };
+  queue.push(entry);
+  putQueuedMutation(entry).catch(warnStorage);
+  setStatus({ pendingCount: queue.length });
+  startRetrying();
+}
+
+async function replayMutation(entry: QueuedMutation) {
+  const { mutation } = entry;
+  const graphId = graphOf(entry);
+  const repository = workspaceRepository.openGraph(graphId);
+
+  switch (mutation.kind) {
+    case 'createNode': {
+      const node = withNodeId(await repository.createNode(mutation.data));
+      remapTempId(graphId, mutation.tempId, node.id);
+      updateCache(graphId, data => ({ ...data, nodes: data.nodes.map(n => (n.id === node.id ? { ...n, ...node } : n)) }));
+      return;
+    }
+    case 'updateNode': {
+      const node = await repository.updateNode(mutation.id, mutation.data, mutation.baseUpdatedAt);
+      rebaseQueuedUpdates(mutation.id, node.updatedAt);
+      return;
+    }
+    case 'deleteNode':
+      await repository.deleteNode(mutation.id);
+      return;
+    case 'createEdge': {
+      const edge = withEdgeId(await repository.createEdge(mutation.data));
+      remapTempId(graphId, mutation.tempId, edge.id);
+      return;
+    }
+    case 'updateEdge': {
+      const edge = await repository.updateEdge(mutation.id, mutation.data, mutation.baseUpdatedAt);
+      rebaseQueuedUpdates(mutation.id, edge.updatedAt);
+      return;
+    }
+    case 'deleteEdge':
+      await repository.deleteEdge(mutation.id);
+      return;
+    case 'moveNodes':
+      await sendNodePositions(repository, mutation.positions);
+      return;
+  }
+}
+
+// Send queued mutations in order until the queue is empty or a mutation can't go through yet.
+// Mutations the server rejects are dropped (and reported) so they can't block the rest; on any
+// other failure (signed out, server error) the queue is kept and tried again later.
+async function replayQueue() {
+  await ready();
+  if (queue.length === 0) return;
+  setStatus({ isSyncing: true });
+
+  while (queue.length > 0) {
+    const entry = queue[0];
+    try {
+      await replayMutation(entry);
+      setStatus({ isOnline: true });
+    } catch (error) {
+      if (isNetworkError(error)) {
+        setStatus({ isOnline: false });
+        return;
+      }
+      const message = describeFailure(`sync ${describeMutation(entry.mutation)}`, error);
+      if (!isRejection(error)) {
+        holdQueue(entry, message, error);
+        return;
+      }
+      console.error('Server rejected a queued change:', entry.mutation, error);
+      errorListeners.forEach(listener => listener(message));
+    }
+    queue.shift();
+    deleteQueuedMutation(entry.seq).catch(warnStorage);
+    setStatus({ pendingCount: queue.length });
+  }
+
+  heldReport = null;
+  stopRetrying();
+}
+
+// Report why the queue is stuck once, not on every retry
+function holdQueue(entry: QueuedMutation, message: string, error: unknown) {
+  startRetrying();
+  const report = `${entry.seq}:${message}`;
+  if (report === heldReport) return;
+  heldReport = report;
+  console.warn('Queued changes are kept until the server accepts them:', entry.mutation, error);
+  errorListeners.forEach(listener => listener(message));
+}
+
+// The graph a call is about: the active one when it was made, even if the user switches meanwhile
+function activeGraph(): { graphId: string; repository: GraphRepository } {
+  const graphId = getActiveGraphId();
+  return { graphId, repository: workspaceRepository.openGraph(graphId) };
+}
+
+function flush(): Promise<void> {
+  if (!flushPromise) {
+    flushPromise = replayQueue().finally(() => {
+      flushPromise = null;
+      setStatus({ isSyncing: false });
+    });
+  }
+  return flushPromise;
+}
+
+// Send directly when nothing is waiting; queue the mutation and answer locally when offline
+async function perform<T>(graphId: string, mutation: GraphMutation, send: () => Promise<T>, answerLocally: () => T): Promise<T> {
+  await ready();
+
+  if (queue.length === 0 && !flushPromise) {
+    try {
+      const result = await send();
+      setStatus({ isOnline: true });
+      return result;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      setStatus({ isOnline: false });
+    }
+  }
+
+  enqueue(graphId, mutation);
+  return answerLocally();
+}
+
+export const offlineGraphApi = {
+  // Server graph when it is reachable and nothing is pending for it, otherwise the cached copy
+  async loadGraph(): Promise<{ data: GraphData; isCached: boolean }> {
+    const { graphId, repository } = activeGraph();
+    await ready();
+    await flush();
+
+    if (cacheGraphId !== graphId) {
+      writeCacheNow();
+      cache = await readCachedGraph(graphId).catch(error => {
+        warnStorage(error);
+        return null;
+      });
+      cacheGraphId = graphId;
+    }
+
+    if (!queue.some(entry => graphOf(entry) === graphId)) {
+      try {
+        const data = await repository.getGraph();
+        setStatus({ isOnline: true });
+        cache = { nodes: data.nodes.map(withNodeId), edges: data.edges.map(withEdgeId) };
+        writeCacheNow();
+        return { data: cache, isCached: false };
+      } catch (error) {
+        if (!isNetworkError(error) || !cache) throw error;
+        setStatus({ isOnline: false });
+      }
+    }
+
+    if (!cache) {
+      throw new Error('Failed to load graph data');
+    }
+    return { data: cache, isCached: true };
+  },
+
+  async createNode(data: CreateNodeRequest): Promise<GraphNode> {
+    const { graphId, repository } = activeGraph();
+    const tempId = createTempId();
+    const node = await perform(graphId, { kind: 'createNode', tempId, data }, () => repository.createNode(data), () => newNodeRecord(tempId, data));
+    updateCache(graphId, graph => ({ ...graph, nodes: [...graph.nodes, withNodeId(node)] }));
+    return node;
+  },
+
+  async updateNode(id: string, data: UpdateNodeRequest, baseUpdatedAt?: string): Promise<GraphNode> {
+    const { graphId, repository } = activeGraph();
+    const mutation: GraphMutation = { kind: 'updateNode', id, data, baseUpdatedAt };
+    const node = await perform(graphId, mutation, () => repository.updateNode(id, data, baseUpdatedAt), () => {
+      const current = cache?.nodes.find(n => n.id === id);
+      return { ...current, ...data, id, updatedAt: new Date().toISOString() } as GraphNode;
+    });
+    updateCache(graphId, graph => ({
+      ...graph,
+      nodes: graph.nodes.map(n => (n.id === id ? { ...n, ...withNodeId(node), id } : n))
+    }));
+    return node;
+  },
+
+  // Positions and pins of many nodes; see positionSync.ts for the queue in front of this.
+  // Positions are saved to the graph they were made in, which may no longer be the active one.
+  async updateNodePositions(positions: Record<string, NodePosition>, graphId = getActiveGraphId()): Promise<void> {
+    const repository = workspaceRepository.openGraph(graphId);
+    await perform(graphId, { kind: 'moveNodes', positions }, () => sendNodePositions(repository, positions), () => undefined);
+    updateCache(graphId, graph => ({
+      ...graph,
+      nodes: graph.nodes.map(n => (positions[n.id] ? { ...n, ...positions[n.id] } : n))
+    }));
+  },
+
+  // For a page that is closing. Positions go straight to the server when nothing is queued before
+  // them and the backend can send a request that outlives the page; otherwise the usual way.
+  saveNodePositionsOnUnload(positions: Record<string, NodePosition>, graphId: string): void {
+    const repository = workspaceRepository.openGraph(graphId);
+    const canSendDirectly = queue.length === 0 && !flushPromise && status.isOnline && hasBulkPositions;
+    if (canSendDirectly && repository.sendNodePositionsOnUnload?.(positions)) return;
+    offlineGraphApi.updateNodePositions(positions, graphId).catch(error => {
+      console.error('Failed to save node positions on unload:', error);
+    });
+  },
+
+  async deleteNode(id: string): Promise<void> {
+    const { graphId, repository } = activeGraph();
+    await perform(graphId, { kind: 'deleteNode', id }, () => repository.deleteNode(id), () => undefined);
+    updateCache(graphId, graph => ({
+      nodes: graph.nodes.filter(n => n.id !== id),
+      edges: graph.edges.filter(e => e.source !== id && e.target !== id)
+    }));
+  },
+
+  async createEdge(data: CreateEdgeRequest): Promise<GraphEdge> {
+    const { graphId, repository } = activeGraph();
+    const tempId = createTempId();
+    const edge = await perform(graphId, { kind: 'createEdge', tempId, data }, () => repository.createEdge(data), () => newEdgeRecord(tempId, data));
+    updateCache(graphId, graph => ({ ...graph, edges: [...graph.edges, { ...withEdgeId(edge), source: data.source, target: data.target }] }));
+    return edge;
+  },
+
+  async updateEdge(id: string, data: UpdateEdgeRequest, baseUpdatedAt?: string): Promise<GraphEdge> {
+    const { graphId, repository } = activeGraph();
+    const mutation: GraphMutation = { kind: 'updateEdge', id, data, baseUpdatedAt };
+    const edge = await perform(graphId, mutation, () => repository.updateEdge(id, data, baseUpdatedAt), () => {
+      const current = cache?.edges.find(e => e.id === id);
+      return { ...current, ...data, id, updatedAt: new Date().toISOString() } as GraphEdge;
+    });
+    updateCache(graphId, graph => ({
+      ...graph,
+      edges: graph.edges.map(e => (e.id === id ? { ...e, ...withEdgeId(edge), id, source: e.source, target: e.target } : e))
+    }));
+    return edge;
+  },
+
+  async deleteEdge(id: string): Promise<void> {
+    const { graphId, repository } = activeGraph();
+    await perform(graphId, { kind: 'deleteEdge', id }, () => repository.deleteEdge(id), () => undefined);
+    updateCache(graphId, graph => ({ ...graph, edges: graph.edges.filter(e => e.id !== id) }));
+  },
+
+  // Try to send queued changes now
+  flush,
+
+  // The graph was deleted: its queued changes and cached copy go too
+  async forgetGraph(graphId: string): Promise<void> {
+    await ready();
+    const dropped = queue.filter(entry => graphOf(entry) === graphId);
+    queue = queue.filter(entry => graphOf(entry) !== graphId);
+    dropped.forEach(entry => deleteQueuedMutation(entry.seq).catch(warnStorage));
+    setStatus({ pendingCount: queue.length });
+
+    if (cacheGraphId === graphId) {
+      clearTimeout(cacheTimer);
+      cache = null;
+      cacheGraphId = null;
+    }
+    await deleteCachedGraph(graphId).catch(warnStorage);
+  },
+
+  getStatus(): SyncStatus {
+    return status;
+  },
+
+  // Each subscription returns its unsubscribe function
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    statusListeners.add(listener);
+    void ready();
+    return () => { statusListeners.delete(listener); };
+  },
+
+  // An item created offline was saved and now has a server ID
+  onIdRemap(listener: (tempId: string, serverId: string) => void): () => void {
+    remapListeners.add(listener);
+    return () => { remapListeners.delete(listener); };
+  },
+
+  // A queued change was rejected by the server and dropped, or is held until it can be sent
+  onSyncError(listener: (message: string) => void): () => void {
+    errorListeners.add(listener);
+    return () => { errorListeners.delete(listener); };
+  }
+};
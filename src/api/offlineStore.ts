@@ -0,0 +1,100 @@
+import { scopedStorageKey } from './activeGraph';
+import { OFFLINE_CONFIG, STORAGE_CONFIG } from '../types/constants';
+import type { GraphData, GraphSummary, QueuedMutation } from '../types/graph';
+
+const GRAPH_STORE = 'graph';
+const QUEUE_STORE = 'mutations';
+const GRAPH_KEY = 'current';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(OFFLINE_CONFIG.DB_NAME, OFFLINE_CONFIG.DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(GRAPH_STORE)) db.createObjectStore(GRAPH_STORE);
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: 'seq' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user allowed storage
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+}
+
+// Run one request in its own transaction and resolve once the transaction has committed
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Last version of a graph loaded from the server, with the local changes made since
+export async function readCachedGraph(graphId: string): Promise<GraphData | null> {
+  const data = await withStore<GraphData | undefined>(GRAPH_STORE, 'readonly', store => store.get(scopedStorageKey(GRAPH_KEY, graphId)));
+  return data ?? null;
+}
+
+export async function writeCachedGraph(graphId: string, data: GraphData): Promise<void> {
+  await withStore(GRAPH_STORE, 'readwrite', store => store.put(data, scopedStorageKey(GRAPH_KEY, graphId)));
+}
+
+export async function deleteCachedGraph(graphId: string): Promise<void> {
+  await withStore(GRAPH_STORE, 'readwrite', store => store.delete(scopedStorageKey(GRAPH_KEY, graphId)));
+}
+
+// A whole graph of the local storage backend, kept apart from the offline cache
+export async function readLocalGraph(graphId: string): Promise<GraphData | null> {
+  const key = scopedStorageKey(STORAGE_CONFIG.LOCAL_GRAPH_KEY, graphId);
+  const data = await withStore<GraphData | undefined>(GRAPH_STORE, 'readonly', store => store.get(key));
+  return data ?? null;
+}
+
+export async function writeLocalGraph(graphId: string, data: GraphData): Promise<void> {
+  await withStore(GRAPH_STORE, 'readwrite', store => store.put(data, scopedStorageKey(STORAGE_CONFIG.LOCAL_GRAPH_KEY, graphId)));
+}
+
+export async function deleteLocalGraph(graphId: string): Promise<void> {
+  await withStore(GRAPH_STORE, 'readwrite', store => store.delete(scopedStorageKey(STORAGE_CONFIG.LOCAL_GRAPH_KEY, graphId)));
+}
+
+// The graphs of the local storage backend; null until one is created
+export async function readLocalGraphList(): Promise<GraphSummary[] | null> {
+  const graphs = await withStore<GraphSummary[] | undefined>(GRAPH_STORE, 'readonly', store => store.get(STORAGE_CONFIG.LOCAL_GRAPH_LIST_KEY));
+  return graphs ?? null;
+}
+
+export async function writeLocalGraphList(graphs: GraphSummary[]): Promise<void> {
+  await withStore(GRAPH_STORE, 'readwrite', store => store.put(graphs, STORAGE_CONFIG.LOCAL_GRAPH_LIST_KEY));
+}
+
+// Pending mutations, oldest first (keys are returned in ascending order)
+export async function readQueue(): Promise<QueuedMutation[]> {
+  return withStore<QueuedMutation[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+}
+
+// Adds or rewrites an entry
+export async function putQueuedMutation(entry: QueuedMutation): Promise<void> {
+  await withStore(QUEUE_STORE, 'readwrite', store => store.put(entry));
+}
+
+export async function deleteQueuedMutation(seq: number): Promise<void> {
+  await withStore(QUEUE_STORE, 'readwrite', store => store.delete(seq));
+}
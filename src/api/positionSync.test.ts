@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+import { queueNodePositions, flushNodePositions, getPositionSyncStatus } from './positionSync';
+import { ServerError, ValidationError } from './errors';
+
+// The offline front positions are saved through; tests decide how it answers
+const api = vi.hoisted(() => ({
+  updateNodePositions: null as unknown as Mock,
+  saveNodePositionsOnUnload: () => {},
+  onIdRemap: () => () => {}
+}));
+
+vi.mock('./offlineGraphApi', () => ({ offlineGraphApi: api }));
+
+describe('position saving', () => {
+  beforeEach(() => {
+    api.updateNodePositions = vi.fn(async () => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('saves a failed round again, with the moves made since', async () => {
+    api.updateNodePositions.mockRejectedValueOnce(new ServerError('Service Unavailable', { status: 503 }));
+    let isSaved = false;
+    const saved = queueNodePositions({ a: { x: 1, y: 1 }, b: { x: 2, y: 2 } }, 'g').then(() => { isSaved = true; });
+
+    await flushNodePositions();
+    expect(getPositionSyncStatus()).toMatchObject({ pendingCount: 2, error: 'Service Unavailable' });
+    expect(isSaved).toBe(false);
+
+    const later = queueNodePositions({ a: { x: 5, y: 5 } }, 'g');
+    await flushNodePositions();
+    await Promise.all([saved, later]);
+
+    expect(api.updateNodePositions).toHaveBeenLastCalledWith({
+      a: { x: 5, y: 5, fx: null, fy: null },
+      b: { x: 2, y: 2, fx: null, fy: null }
+    }, 'g');
+    expect(getPositionSyncStatus()).toMatchObject({ pendingCount: 0, error: null });
+  });
+
+  it('drops positions the server rejects', async () => {
+    const error = new ValidationError('Invalid position');
+    api.updateNodePositions.mockRejectedValueOnce(error);
+    const saved = queueNodePositions({ a: { x: 1, y: 1 } }, 'g');
+
+    await flushNodePositions();
+    await expect(saved).rejects.toBe(error);
+    expect(api.updateNodePositions).toHaveBeenCalledTimes(1);
+    expect(getPositionSyncStatus().pendingCount).toBe(0);
+  });
+});
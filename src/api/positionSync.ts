@@ -0,0 +1,204 @@
+import { offlineGraphApi } from './offlineGraphApi';
+import { isRejection } from './errors';
+import { getActiveGraphId } from './activeGraph';
+import { POSITION_SYNC_CONFIG } from '../types/constants';
+import type { NodePosition, PositionSyncStatus } from '../types/graph';
+
+/*
+ * Saves node positions in the background.
+ *
+ * Moves are collected per node, so only the latest position of each is sent, and saved in
+ * batches once nothing has moved for FLUSH_DELAY. Only one flush runs at a time, so positions
+ * of a node reach the server in the order they were made. A round that fails is tried again
+ * with growing delays, unless the server rejected it. Each position is saved to the graph
+ * it was made in, even after switching to another one. Pending positions are flushed right
+ * away when the page is hidden, and handed to the browser as requests that outlive the page
+ * when it is closed.
+ */
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+// Graph ID → node ID → latest position
+type PositionsByGraph = Map<string, Map<string, NodePosition>>;
+
+let pending: PositionsByGraph = new Map();
+// The round being saved, for a page closed before it is done
+let saving: PositionsByGraph = new Map();
+let waiters: Waiter[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+let flushPromise: Promise<void> | null = null;
+// Rounds that failed in a row, for the delay before the next attempt
+let failedRounds = 0;
+let hasPageListeners = false;
+let status: PositionSyncStatus = { pendingCount: 0, isSaving: false, error: null };
+
+const listeners = new Set<(status: PositionSyncStatus) => void>();
+
+function countPositions(positions: PositionsByGraph): number {
+  let count = 0;
+  positions.forEach(nodes => { count += nodes.size; });
+  return count;
+}
+
+function setStatus(changes: Partial<PositionSyncStatus>) {
+  status = { ...status, ...changes, pendingCount: countPositions(pending) + countPositions(saving) };
+  listeners.forEach(listener => listener(status));
+}
+
+// Node positions of one graph, in chunks of at most BATCH_SIZE
+function toBatches(positions: Map<string, NodePosition>): Record<string, NodePosition>[] {
+  const entries = [...positions];
+  const batches: Record<string, NodePosition>[] = [];
+  for (let i = 0; i < entries.length; i += POSITION_SYNC_CONFIG.BATCH_SIZE) {
+    batches.push(Object.fromEntries(entries.slice(i, i + POSITION_SYNC_CONFIG.BATCH_SIZE)));
+  }
+  return batches;
+}
+
+// An async flush would be cancelled with the page, so everything not yet saved goes out as
+// requests the browser finishes on its own. A page kept for back/forward just saves it twice.
+function saveOnUnload() {
+  const unsaved: PositionsByGraph = new Map();
+  [saving, pending].forEach(positions => positions.forEach((nodes, graphId) => {
+    unsaved.set(graphId, new Map([...(unsaved.get(graphId) ?? []), ...nodes]));
+  }));
+  unsaved.forEach((nodes, graphId) => {
+    toBatches(nodes).forEach(batch => offlineGraphApi.saveNodePositionsOnUnload(batch, graphId));
+  });
+}
+
+function listenToPage() {
+  if (hasPageListeners) return;
+  hasPageListeners = true;
+
+  window.addEventListener('pagehide', saveOnUnload);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') void flushNodePositions();
+  });
+  // A node created offline may still be waiting here under its temporary ID
+  offlineGraphApi.onIdRemap((tempId, serverId) => {
+    pending.forEach(nodes => {
+      const position = nodes.get(tempId);
+      if (!position) return;
+      nodes.delete(tempId);
+      nodes.set(serverId, position);
+    });
+  });
+}
+
+async function saveInBatches(positions: PositionsByGraph) {
+  for (const [graphId, nodes] of positions) {
+    for (const batch of toBatches(nodes)) {
+      await offlineGraphApi.updateNodePositions(batch, graphId);
+    }
+  }
+}
+
+// A failed round goes back to the pending positions; moves made since are newer and win
+function putBack(batch: PositionsByGraph, batchWaiters: Waiter[]) {
+  batch.forEach((nodes, graphId) => {
+    pending.set(graphId, new Map([...nodes, ...(pending.get(graphId) ?? [])]));
+  });
+  waiters = [...batchWaiters, ...waiters];
+}
+
+function retryLater() {
+  const delay = Math.min(POSITION_SYNC_CONFIG.RETRY_BASE_DELAY * 2 ** failedRounds, POSITION_SYNC_CONFIG.RETRY_MAX_DELAY);
+  failedRounds++;
+  clearTimeout(flushTimer);
+  flushTimer = setTimeout(() => { void flushNodePositions(); }, delay);
+}
+
+// Save until nothing is pending; moves made while a batch is on its way go in the next round
+async function drain() {
+  while (pending.size > 0) {
+    const batch = pending;
+    const batchWaiters = waiters;
+    pending = new Map();
+    waiters = [];
+    saving = batch;
+    setStatus({ isSaving: true });
+
+    try {
+      await saveInBatches(batch);
+      saving = new Map();
+      failedRounds = 0;
+      setStatus({ error: null });
+      batchWaiters.forEach(waiter => waiter.resolve());
+    } catch (error) {
+      console.error('Failed to save node positions:', error);
+      saving = new Map();
+      setStatus({ error: error instanceof Error ? error.message : 'Failed to save node positions' });
+      if (!isRejection(error)) {
+        putBack(batch, batchWaiters);
+        retryLater();
+        break;
+      }
+      batchWaiters.forEach(waiter => waiter.reject(error));
+    }
+  }
+  // Callers whose nodes were all forgotten have nothing left to wait for
+  if (pending.size === 0) {
+    waiters.forEach(waiter => waiter.resolve());
+    waiters = [];
+  }
+  setStatus({ isSaving: false });
+}
+
+/**
+ * Queue positions (with their pins) to be saved in a graph, by default the active one. Resolves
+ * once they are, and rejects if the server rejects them; any failure also shows in the status.
+ */
+export function queueNodePositions(positions: Record<string, NodePosition>, graphId = getActiveGraphId()): Promise<void> {
+  listenToPage();
+  const nodes = pending.get(graphId) ?? new Map<string, NodePosition>();
+  pending.set(graphId, nodes);
+  Object.entries(positions).forEach(([id, { x, y, fx, fy }]) => {
+    nodes.set(id, { x, y, fx: fx ?? null, fy: fy ?? null });
+  });
+
+  const saved = new Promise<void>((resolve, reject) => waiters.push({ resolve, reject }));
+  setStatus({});
+
+  clearTimeout(flushTimer);
+  flushTimer = setTimeout(() => { void flushNodePositions(); }, POSITION_SYNC_CONFIG.FLUSH_DELAY);
+  return saved;
+}
+
+// Save what is pending now instead of waiting for the pause
+export function flushNodePositions(): Promise<void> {
+  clearTimeout(flushTimer);
+  flushTimer = undefined;
+  if (!flushPromise) {
+    flushPromise = drain().finally(() => { flushPromise = null; });
+  }
+  return flushPromise;
+}
+
+// Before opening another graph, so its moves are saved first. A failure already shows in the
+// status and doesn't keep the user in this graph.
+export async function savePendingPositions() {
+  try {
+    await flushNodePositions();
+  } catch (err) {
+    console.error('Failed to save node positions before leaving the graph:', err);
+  }
+}
+
+// The node is gone; a position still waiting for it would only be refused
+export function forgetNodePosition(id: string, graphId = getActiveGraphId()) {
+  if (pending.get(graphId)?.delete(id)) setStatus({});
+}
+
+export function getPositionSyncStatus(): PositionSyncStatus {
+  return status;
+}
+
+// Returns an unsubscribe function
+export function subscribeToPositionSync(listener: (status: PositionSyncStatus) => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
@@ -0,0 +1,334 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { InternalAxiosRequestConfig } from 'axios';
+import { createGraphApi } from '../apiClient';
+import { ConflictError, NotFoundError } from '../errors';
+import { newNodeRecord, newEdgeRecord } from '../graphRecords';
+import { createMemoryRepository } from './memory';
+import { createLocalRepository } from './local';
+import { createFileRepository } from './file';
+import type {
+  GraphData,
+  GraphNode,
+  GraphEdge,
+  GraphRepository,
+  CreateNodeRequest,
+  CreateEdgeRequest,
+  NodePosition
+} from '../../types/graph';
+
+/*
+ * One contract for every storage backend: what the app may expect of a GraphRepository,
+ * whichever VITE_GRAPH_STORAGE picked it. The REST backend talks to a fake server through a
+ * mocked axios, the local backend to fake-indexeddb and the file backend to a mocked fetch.
+ */
+
+interface FakeResponse {
+  status: number;
+  data?: unknown;
+}
+
+type FakeServer = (method: string, url: string, body: unknown, params: Record<string, string>) => FakeResponse;
+
+// The fake REST server of the current test, answering what axios would send
+const rest = vi.hoisted(() => ({
+  handle: (() => ({ status: 404 })) as FakeServer
+}));
+
+vi.mock('axios', async importOriginal => {
+  const actual = await importOriginal<typeof import('axios')>();
+  const adapter = async (config: InternalAxiosRequestConfig) => {
+    const body = typeof config.data === 'string' ? JSON.parse(config.data) : config.data;
+    const { status, data } = rest.handle(config.method ?? 'get', config.url ?? '', body, config.params ?? {});
+    // As JSON, like a real answer, so the client never shares objects with the server
+    const response = { status, statusText: String(status), data: data === undefined ? '' : JSON.stringify(data), headers: {}, config };
+    if (status >= 400) {
+      throw new actual.AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_REQUEST', config, null, response);
+    }
+    return response;
+  };
+  const axios = Object.assign(Object.create(actual.default), {
+    create: (config?: Parameters<typeof actual.default.create>[0]) => actual.default.create({ ...config, adapter })
+  });
+  return { ...actual, default: axios };
+});
+
+// A server without workspaces, so its one graph is at the root paths
+function createFakeServer(seed: GraphData): FakeServer {
+  const data: GraphData = structuredClone(seed);
+  let nextId = 1;
+  const now = () => new Date().toISOString();
+  const missing = (what: string): FakeResponse => ({ status: 404, data: { message: `${what} not found` } });
+  const findNode = (id: string) => data.nodes.find(n => n.id === id);
+  const findEdge = (id: string) => data.edges.find(e => e.id === id);
+
+  function update(item: GraphNode | GraphEdge, body: unknown): FakeResponse {
+    const { baseUpdatedAt, ...changes } = body as { baseUpdatedAt?: string };
+    if (baseUpdatedAt && item.updatedAt !== baseUpdatedAt) {
+      return { status: 409, data: { message: 'Changed by someone else', current: item } };
+    }
+    Object.assign(item, changes, { updatedAt: now() });
+    return { status: 200, data: item };
+  }
+
+  return (method, url, body, params) => {
+    const [, collection, id] = url.split('/');
+    switch (`${method} /${collection}${id ? '/:id' : ''}`) {
+      case 'get /graph':
+        return { status: 200, data };
+      case 'post /nodes': {
+        const node = newNodeRecord(`server-${nextId++}`, body as CreateNodeRequest);
+        data.nodes.push(node);
+        return { status: 201, data: node };
+      }
+      case 'patch /nodes/:id': {
+        const { positions } = body as { positions: ({ id: string } & NodePosition)[] };
+        const unknown = positions.find(position => !findNode(position.id));
+        if (unknown) return missing(`Node ${unknown.id}`);
+        positions.forEach(({ id: nodeId, ...position }) => Object.assign(findNode(nodeId)!, position, { updatedAt: now() }));
+        return { status: 204 };
+      }
+      case 'put /nodes/:id': {
+        const node = findNode(id);
+        return node ? update(node, body) : missing(`Node ${id}`);
+      }
+      case 'delete /nodes/:id':
+        if (!findNode(id)) return missing(`Node ${id}`);
+        data.nodes = data.nodes.filter(n => n.id !== id);
+        data.edges = data.edges.filter(e => e.source !== id && e.target !== id);
+        return { status: 204 };
+      case 'post /edges': {
+        const request = body as CreateEdgeRequest;
+        if (!findNode(request.source) || !findNode(request.target)) return missing('Node');
+        const edge = newEdgeRecord(`server-${nextId++}`, request);
+        data.edges.push(edge);
+        return { status: 201, data: edge };
+      }
+      case 'put /edges/:id': {
+        const edge = findEdge(id);
+        return edge ? update(edge, body) : missing(`Edge ${id}`);
+      }
+      case 'delete /edges/:id':
+        if (!findEdge(id)) return missing(`Edge ${id}`);
+        data.edges = data.edges.filter(e => e.id !== id);
+        return { status: 204 };
+      case 'get /search': {
+        const query = params.q.toLowerCase();
+        return { status: 200, data: data.nodes.filter(n => n.label.toLowerCase().includes(query)) };
+      }
+      default:
+        return missing(`Route ${method} ${url}`);
+    }
+  };
+}
+
+const SEED: GraphData = {
+  nodes: [
+    { ...newNodeRecord('react', { label: 'React', type: 'library', x: 0, y: 0 }), properties: { language: 'JavaScript' } },
+    newNodeRecord('vite', { label: 'Vite', type: 'tool', x: 100, y: 0 }),
+    newNodeRecord('d3', { label: 'D3', type: 'library', x: 0, y: 100 })
+  ],
+  edges: [newEdgeRecord('vite-react', { source: 'vite', target: 'react', label: 'builds' })]
+};
+
+const STALE = '2000-01-01T00:00:00.000Z';
+
+interface Backend {
+  name: string;
+  // A backend holding a copy of SEED
+  create: () => Promise<GraphRepository>;
+  // Another backend reading what the first one stored; absent where nothing outlives the page
+  reopen?: () => GraphRepository;
+}
+
+// Each test gets a graph of its own in the one fake database
+let localGraphCount = 0;
+
+const BACKENDS: Backend[] = [
+  {
+    name: 'rest',
+    create: async () => {
+      rest.handle = createFakeServer(SEED);
+      return createGraphApi('default');
+    },
+    reopen: () => createGraphApi('default')
+  },
+  {
+    name: 'memory',
+    create: async () => createMemoryRepository({ load: async () => structuredClone(SEED) })
+  },
+  {
+    name: 'local',
+    create: async () => createLocalRepository(`graph-${++localGraphCount}`, structuredClone(SEED)),
+    reopen: () => createLocalRepository(`graph-${localGraphCount}`)
+  },
+  {
+    name: 'file',
+    create: async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(SEED))));
+      return createFileRepository('/graph.json');
+    }
+  }
+];
+
+describe.each(BACKENDS)('GraphRepository contract: $name', ({ create, reopen }) => {
+  let repository: GraphRepository;
+
+  beforeEach(async () => {
+    // The REST client logs every request
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    repository = await create();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  const nodeIds = async () => (await repository.getGraph()).nodes.map(n => n.id).sort();
+
+  describe('load', () => {
+    it('returns the stored nodes and edges', async () => {
+      const graph = await repository.getGraph();
+      expect(graph.nodes.map(n => n.id).sort()).toEqual(['d3', 'react', 'vite']);
+      expect(graph.nodes.find(n => n.id === 'react')).toMatchObject({ label: 'React', type: 'library', properties: { language: 'JavaScript' } });
+      expect(graph.edges).toEqual([expect.objectContaining({ id: 'vite-react', source: 'vite', target: 'react', label: 'builds' })]);
+    });
+
+    it('hands out copies that changing does not change the store', async () => {
+      const graph = await repository.getGraph();
+      graph.nodes[0].label = 'Changed';
+      graph.nodes.pop();
+      expect((await repository.getGraph()).nodes.map(n => n.label).sort()).toEqual(['D3', 'React', 'Vite']);
+    });
+  });
+
+  describe('create', () => {
+    it('gives a new node an ID and the defaults', async () => {
+      const node = await repository.createNode({ label: 'Redux', x: 5, y: 6 });
+      expect(node).toMatchObject({ label: 'Redux', type: 'default', properties: {}, x: 5, y: 6 });
+      expect(node.id).toBeTruthy();
+      expect(node.updatedAt).toBeTruthy();
+      expect(await nodeIds()).toContain(node.id);
+    });
+
+    it('gives a new edge an ID and the defaults', async () => {
+      const edge = await repository.createEdge({ source: 'react', target: 'd3' });
+      expect(edge).toMatchObject({ source: 'react', target: 'd3', directed: true, properties: {} });
+      expect((await repository.getGraph()).edges.map(e => e.id)).toContain(edge.id);
+    });
+
+    it('refuses an edge to a node that does not exist', async () => {
+      await expect(repository.createEdge({ source: 'react', target: 'missing' })).rejects.toBeInstanceOf(NotFoundError);
+      expect((await repository.getGraph()).edges).toHaveLength(1);
+    });
+  });
+
+  describe('update', () => {
+    it('changes the given fields of a node and keeps the rest', async () => {
+      const node = await repository.updateNode('react', { label: 'React 18' });
+      expect(node).toMatchObject({ id: 'react', label: 'React 18', type: 'library', properties: { language: 'JavaScript' } });
+      expect((await repository.getGraph()).nodes.find(n => n.id === 'react')?.label).toBe('React 18');
+    });
+
+    it('accepts an update made from the stored version', async () => {
+      const created = await repository.createNode({ label: 'Redux', x: 0, y: 0 });
+      await expect(repository.updateNode(created.id, { label: 'Redux Toolkit' }, created.updatedAt)).resolves.toMatchObject({ label: 'Redux Toolkit' });
+    });
+
+    it('refuses an update made from an older version, with the stored item', async () => {
+      const error = await repository.updateNode('react', { label: 'Stale' }, STALE).catch(e => e);
+      expect(error).toBeInstanceOf(ConflictError);
+      expect((error as ConflictError).current).toMatchObject({ id: 'react', label: 'React' });
+      expect((await repository.getGraph()).nodes.find(n => n.id === 'react')?.label).toBe('React');
+    });
+
+    it('changes an edge', async () => {
+      await expect(repository.updateEdge('vite-react', { label: 'bundles' })).resolves.toMatchObject({ id: 'vite-react', label: 'bundles' });
+      await expect(repository.updateEdge('vite-react', { label: 'Stale' }, STALE)).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('refuses to update what does not exist', async () => {
+      await expect(repository.updateNode('missing', { label: 'Nope' })).rejects.toBeInstanceOf(NotFoundError);
+      await expect(repository.updateEdge('missing', { label: 'Nope' })).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('delete', () => {
+    it('removes a node together with its edges', async () => {
+      await repository.deleteNode('react');
+      const graph = await repository.getGraph();
+      expect(graph.nodes.map(n => n.id).sort()).toEqual(['d3', 'vite']);
+      expect(graph.edges).toEqual([]);
+    });
+
+    it('removes an edge and leaves its nodes', async () => {
+      await repository.deleteEdge('vite-react');
+      expect((await repository.getGraph()).edges).toEqual([]);
+      expect(await nodeIds()).toEqual(['d3', 'react', 'vite']);
+    });
+
+    it('refuses to delete what does not exist', async () => {
+      await expect(repository.deleteNode('missing')).rejects.toBeInstanceOf(NotFoundError);
+      await expect(repository.deleteEdge('missing')).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('bulk positions', () => {
+    it('saves the positions and pins of many nodes at once', async () => {
+      await repository.updateNodePositions!({
+        react: { x: 10, y: 20, fx: 10, fy: 20 },
+        d3: { x: 30, y: 40, fx: null, fy: null }
+      });
+      const nodes = (await repository.getGraph()).nodes;
+      expect(nodes.find(n => n.id === 'react')).toMatchObject({ x: 10, y: 20, fx: 10, fy: 20 });
+      expect(nodes.find(n => n.id === 'd3')).toMatchObject({ x: 30, y: 40, fx: null, fy: null });
+      expect(nodes.find(n => n.id === 'vite')).toMatchObject({ x: 100, y: 0 });
+    });
+
+    it('saves none of them when a node does not exist', async () => {
+      await expect(repository.updateNodePositions!({
+        react: { x: 10, y: 20 },
+        missing: { x: 30, y: 40 }
+      })).rejects.toBeInstanceOf(NotFoundError);
+      expect((await repository.getGraph()).nodes.find(n => n.id === 'react')).toMatchObject({ x: 0, y: 0 });
+    });
+  });
+
+  describe('search', () => {
+    it('finds nodes by label, ignoring case', async () => {
+      expect((await repository.searchNodes('reac')).map(n => n.id)).toEqual(['react']);
+      expect(await repository.searchNodes('nothing like it')).toEqual([]);
+    });
+
+    it('finds nothing for an empty query', async () => {
+      expect(await repository.searchNodes('  ')).toEqual([]);
+    });
+  });
+
+  it.runIf(Boolean(reopen))('keeps changes for the next session', async () => {
+    const node = await repository.createNode({ label: 'Redux', x: 0, y: 0 });
+    await repository.deleteEdge('vite-react');
+
+    const graph = await reopen!().getGraph();
+    expect(graph.nodes.map(n => n.id)).toContain(node.id);
+    expect(graph.edges).toEqual([]);
+  });
+});
+
+describe('file backend', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('says which file is missing', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Not found', { status: 404 })));
+    await expect(createFileRepository('/missing.json').getGraph()).rejects.toThrow('Failed to load graph file /missing.json (404)');
+  });
+
+  it('refuses a file that is not a graph', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ nodes: [] }))));
+    await expect(createFileRepository('/other.json').getGraph()).rejects.toThrow('/other.json is not a graph file');
+  });
+});
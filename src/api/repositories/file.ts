@@ -0,0 +1,38 @@
+import { createMemoryRepository } from './memory';
+import { createBrowserWorkspaces } from './workspaces';
+import { WORKSPACE_CONFIG } from '../../types/constants';
+import type { GraphData, GraphRepository, WorkspaceRepository } from '../../types/graph';
+
+// The file has the shape of the API's /graph response: { nodes: [...], edges: [...] }
+function parseGraphFile(raw: unknown, url: string): GraphData {
+  const data = raw as Partial<GraphData> | null;
+  if (!data || !Array.isArray(data.nodes) || !Array.isArray(data.edges)) {
+    throw new Error(`${url} is not a graph file: expected "nodes" and "edges" arrays`);
+  }
+  return { nodes: data.nodes, edges: data.edges };
+}
+
+/**
+ * Demo backend: the graph is read from a JSON file served with the app and edited in memory.
+ * Changes are not written back, so a reload starts from the file again.
+ */
+export function createFileRepository(url: string): GraphRepository {
+  return createMemoryRepository({
+    load: async () => {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to load graph file ${url} (${response.status})`);
+      }
+      return parseGraphFile(await response.json(), url);
+    }
+  });
+}
+
+// The file is the default graph; graphs created next to it live in memory like its edits
+export function createFileWorkspaces(url: string): WorkspaceRepository {
+  return createBrowserWorkspaces({
+    openGraph: (id, initial) => (id === WORKSPACE_CONFIG.DEFAULT_GRAPH_ID && !initial
+      ? createFileRepository(url)
+      : createMemoryRepository(initial ? { load: async () => initial } : {}))
+  });
+}
@@ -0,0 +1,40 @@
+import { workspaceApi } from '../apiClient';
+import { getActiveGraphId } from '../activeGraph';
+import { STORAGE_CONFIG } from '../../types/constants';
+import { createMemoryRepository } from './memory';
+import { createLocalWorkspaces } from './local';
+import { createFileWorkspaces } from './file';
+import { createBrowserWorkspaces } from './workspaces';
+import type { GraphRepository, GraphStorageKind, WorkspaceRepository } from '../../types/graph';
+
+const STORAGE_KINDS: GraphStorageKind[] = ['rest', 'memory', 'local', 'file'];
+
+export function createWorkspaceRepository(kind: GraphStorageKind): WorkspaceRepository {
+  switch (kind) {
+    case 'rest':
+      return workspaceApi;
+    case 'memory':
+      return createBrowserWorkspaces({
+        openGraph: (_id, initial) => createMemoryRepository(initial ? { load: async () => initial } : {})
+      });
+    case 'local':
+      return createLocalWorkspaces();
+    case 'file':
+      return createFileWorkspaces(STORAGE_CONFIG.FILE_URL);
+  }
+}
+
+function configuredKind(): GraphStorageKind {
+  const kind = STORAGE_CONFIG.BACKEND as GraphStorageKind;
+  if (STORAGE_KINDS.includes(kind)) return kind;
+  console.warn(`Unknown VITE_GRAPH_STORAGE "${kind}", using the REST API`);
+  return 'rest';
+}
+
+// The backend the app works against
+export const workspaceRepository = createWorkspaceRepository(configuredKind());
+
+// Backend of the graph the app works on
+export function activeGraphRepository(): GraphRepository {
+  return workspaceRepository.openGraph(getActiveGraphId());
+}
@@ -0,0 +1,46 @@
+import { readLocalGraph, writeLocalGraph, deleteLocalGraph, readLocalGraphList, writeLocalGraphList } from '../offlineStore';
+import { createMemoryRepository } from './memory';
+import { createBrowserWorkspaces } from './workspaces';
+import type { GraphData, GraphRepository, WorkspaceRepository } from '../../types/graph';
+
+// Once is enough: without storage every save fails the same way
+let hasWarned = false;
+
+function warnStorage(error: unknown) {
+  if (hasWarned) return;
+  hasWarned = true;
+  console.warn('Could not use browser storage for the graph:', error);
+}
+
+/**
+ * Standalone backend: the graph lives in this browser's IndexedDB and survives reloads.
+ * Without IndexedDB (e.g. some private windows) it still works, but only for the session.
+ * `initial` is stored right away, so a copied graph is kept even before its first change.
+ */
+export function createLocalRepository(graphId: string, initial?: GraphData): GraphRepository {
+  if (initial) writeLocalGraph(graphId, initial).catch(warnStorage);
+
+  return createMemoryRepository({
+    load: async () => {
+      const stored = await readLocalGraph(graphId).catch(error => {
+        warnStorage(error);
+        return null;
+      });
+      return stored ?? initial ?? { nodes: [], edges: [] };
+    },
+    save: data => writeLocalGraph(graphId, data).catch(warnStorage)
+  });
+}
+
+// All graphs of this browser, with their list in IndexedDB as well
+export function createLocalWorkspaces(): WorkspaceRepository {
+  return createBrowserWorkspaces({
+    loadList: () => readLocalGraphList().catch(error => {
+      warnStorage(error);
+      return null;
+    }),
+    saveList: graphs => writeLocalGraphList(graphs).catch(warnStorage),
+    openGraph: (id, initial) => createLocalRepository(id, initial),
+    removeGraph: id => deleteLocalGraph(id).catch(warnStorage)
+  });
+}
@@ -0,0 +1,158 @@
+import { newNodeRecord, newEdgeRecord } from '../graphRecords';
+import { ConflictError, NotFoundError } from '../errors';
+import type {
+  GraphData,
+  GraphNode,
+  GraphEdge,
+  GraphRepository,
+  CreateNodeRequest,
+  UpdateNodeRequest,
+  CreateEdgeRequest,
+  UpdateEdgeRequest,
+  NodePosition
+} from '../../types/graph';
+
+export interface MemoryRepositoryOptions {
+  // Initial contents, read on first use; the graph starts empty without it
+  load?: () => Promise<GraphData>;
+  // Called with the whole graph after every change
+  save?: (data: GraphData) => Promise<void>;
+}
+
+export function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Records go through JSON as they would over the wire, so callers never share objects with
+// the store and fields set to undefined are left alone by updates
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Stored graphs may come from the REST server, which also sends `_id`
+function normalizeGraph(data: GraphData): GraphData {
+  return {
+    nodes: data.nodes.map(node => ({ ...node, id: node._id || node.id })),
+    edges: data.edges.map(edge => ({ ...edge, id: edge._id || edge.id }))
+  };
+}
+
+// Updates edited from an older version than the stored one are refused
+function checkVersion<T extends GraphNode | GraphEdge>(item: T, baseUpdatedAt: string | undefined) {
+  if (baseUpdatedAt && item.updatedAt && item.updatedAt !== baseUpdatedAt) {
+    throw new ConflictError('Changed by someone else in the meantime', copy(item));
+  }
+}
+
+function nodeMatches(node: GraphNode, query: string): boolean {
+  const values = [node.label, node.type, ...Object.values(node.properties ?? {})];
+  return values.some(value => typeof value === 'string' && value.toLowerCase().includes(query));
+}
+
+/**
+ * Graph kept in a plain object. On its own it lives as long as the page; the local and file
+ * backends build on it by passing where the graph comes from and where changes go.
+ */
+export function createMemoryRepository(options: MemoryRepositoryOptions = {}): GraphRepository {
+  let graphPromise: Promise<GraphData> | null = null;
+
+  function getData(): Promise<GraphData> {
+    if (!graphPromise) {
+      graphPromise = (options.load ? options.load() : Promise.resolve({ nodes: [], edges: [] })).then(normalizeGraph);
+      // Let a later call load again
+      graphPromise.catch(() => { graphPromise = null; });
+    }
+    return graphPromise;
+  }
+
+  async function commit(data: GraphData) {
+    await options.save?.(data);
+  }
+
+  function findNode(data: GraphData, id: string): GraphNode {
+    const node = data.nodes.find(n => n.id === id);
+    if (!node) throw new NotFoundError(`Node ${id} not found`);
+    return node;
+  }
+
+  function findEdge(data: GraphData, id: string): GraphEdge {
+    const edge = data.edges.find(e => e.id === id);
+    if (!edge) throw new NotFoundError(`Edge ${id} not found`);
+    return edge;
+  }
+
+  return {
+    async getGraph(): Promise<GraphData> {
+      return copy(await getData());
+    },
+
+    async createNode(request: CreateNodeRequest): Promise<GraphNode> {
+      const data = await getData();
+      const node = newNodeRecord(createId(), copy(request));
+      data.nodes.push(node);
+      await commit(data);
+      return copy(node);
+    },
+
+    async updateNode(id: string, updates: UpdateNodeRequest, baseUpdatedAt?: string): Promise<GraphNode> {
+      const data = await getData();
+      const node = findNode(data, id);
+      checkVersion(node, baseUpdatedAt);
+      Object.assign(node, copy(updates), { updatedAt: new Date().toISOString() });
+      await commit(data);
+      return copy(node);
+    },
+
+    async updateNodePositions(positions: Record<string, NodePosition>): Promise<void> {
+      const data = await getData();
+      const updatedAt = new Date().toISOString();
+      Object.keys(positions).forEach(id => findNode(data, id));
+      Object.entries(positions).forEach(([id, position]) => {
+        Object.assign(findNode(data, id), copy(position), { updatedAt });
+      });
+      await commit(data);
+    },
+
+    async deleteNode(id: string): Promise<void> {
+      const data = await getData();
+      findNode(data, id);
+      data.nodes = data.nodes.filter(n => n.id !== id);
+      data.edges = data.edges.filter(e => e.source !== id && e.target !== id);
+      await commit(data);
+    },
+
+    async createEdge(request: CreateEdgeRequest): Promise<GraphEdge> {
+      const data = await getData();
+      findNode(data, request.source);
+      findNode(data, request.target);
+      const edge = newEdgeRecord(createId(), copy(request));
+      data.edges.push(edge);
+      await commit(data);
+      return copy(edge);
+    },
+
+    async updateEdge(id: string, updates: UpdateEdgeRequest, baseUpdatedAt?: string): Promise<GraphEdge> {
+      const data = await getData();
+      const edge = findEdge(data, id);
+      checkVersion(edge, baseUpdatedAt);
+      Object.assign(edge, copy(updates), { updatedAt: new Date().toISOString() });
+      await commit(data);
+      return copy(edge);
+    },
+
+    async deleteEdge(id: string): Promise<void> {
+      const data = await getData();
+      findEdge(data, id);
+      data.edges = data.edges.filter(e => e.id !== id);
+      await commit(data);
+    },
+
+    // Case-insensitive match on label, type and text properties
+    async searchNodes(query: string): Promise<GraphNode[]> {
+      const needle = query.trim().toLowerCase();
+      if (!needle) return [];
+      const data = await getData();
+      return copy(data.nodes.filter(node => nodeMatches(node, needle)));
+    }
+  };
+}
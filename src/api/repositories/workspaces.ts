@@ -0,0 +1,98 @@
+import { createId } from './memory';
+import { NotFoundError } from '../errors';
+import { WORKSPACE_CONFIG } from '../../types/constants';
+import type { GraphData, GraphRepository, GraphSummary, WorkspaceRepository } from '../../types/graph';
+
+export interface BrowserWorkspaceOptions {
+  // The list as saved before; null when nothing was saved yet
+  loadList?: () => Promise<GraphSummary[] | null>;
+  saveList?: (graphs: GraphSummary[]) => Promise<void>;
+  // Backend of one graph; `initial` is the content of a graph just made as a copy of another
+  openGraph: (id: string, initial?: GraphData) => GraphRepository;
+  // Drops what is stored for a deleted graph
+  removeGraph?: (id: string) => Promise<void>;
+}
+
+/**
+ * Graph list of the in-browser backends (memory, local and file). The list starts with the
+ * default graph; each graph has a backend of its own, made by `openGraph`.
+ */
+export function createBrowserWorkspaces(options: BrowserWorkspaceOptions): WorkspaceRepository {
+  const repositories = new Map<string, GraphRepository>();
+  let listPromise: Promise<GraphSummary[]> | null = null;
+
+  function getList(): Promise<GraphSummary[]> {
+    if (!listPromise) {
+      listPromise = (options.loadList ? options.loadList() : Promise.resolve(null)).then(stored =>
+        stored ?? [{ id: WORKSPACE_CONFIG.DEFAULT_GRAPH_ID, name: WORKSPACE_CONFIG.DEFAULT_GRAPH_NAME }]);
+      // Let a later call load again
+      listPromise.catch(() => { listPromise = null; });
+    }
+    return listPromise;
+  }
+
+  async function commitList(graphs: GraphSummary[]) {
+    listPromise = Promise.resolve(graphs);
+    await options.saveList?.(graphs);
+  }
+
+  function findGraph(graphs: GraphSummary[], id: string): GraphSummary {
+    const graph = graphs.find(g => g.id === id);
+    if (!graph) throw new NotFoundError(`Graph ${id} not found`);
+    return graph;
+  }
+
+  function open(id: string, initial?: GraphData): GraphRepository {
+    let repository = repositories.get(id);
+    if (!repository) {
+      repository = options.openGraph(id, initial);
+      repositories.set(id, repository);
+    }
+    return repository;
+  }
+
+  function newGraph(name: string): GraphSummary {
+    const now = new Date().toISOString();
+    return { id: createId(), name, createdAt: now, updatedAt: now };
+  }
+
+  return {
+    async listGraphs(): Promise<GraphSummary[]> {
+      return (await getList()).map(graph => ({ ...graph }));
+    },
+
+    async createGraph(name: string): Promise<GraphSummary> {
+      const graphs = await getList();
+      const graph = newGraph(name);
+      await commitList([...graphs, graph]);
+      return { ...graph };
+    },
+
+    async renameGraph(id: string, name: string): Promise<GraphSummary> {
+      const graphs = await getList();
+      const graph = { ...findGraph(graphs, id), name, updatedAt: new Date().toISOString() };
+      await commitList(graphs.map(g => (g.id === id ? graph : g)));
+      return { ...graph };
+    },
+
+    async duplicateGraph(id: string, name: string): Promise<GraphSummary> {
+      const graphs = await getList();
+      findGraph(graphs, id);
+      const data = await open(id).getGraph();
+      const graph = newGraph(name);
+      open(graph.id, data);
+      await commitList([...graphs, graph]);
+      return { ...graph };
+    },
+
+    async deleteGraph(id: string): Promise<void> {
+      const graphs = await getList();
+      findGraph(graphs, id);
+      repositories.delete(id);
+      await options.removeGraph?.(id);
+      await commitList(graphs.filter(g => g.id !== id));
+    },
+
+    openGraph: id => open(id)
+  };
+}
@@ -0,0 +1,638 @@
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import * as d3 from 'd3';
+import NodeContextMenu from './NodeContextMenu';
+import { PHYSICS_CONFIG, RENDERER_CONFIG } from '../types/constants';
+import { createForceSimulation, updateForceSimulation, applyPhysicsSettings, moveSimulationNodes } from '../utils/forceSimulation';
+import {
+  buildCanvasGraphStyle,
+  createNodeLookup,
+  drawGraph,
+  getGraphBounds,
+  buildNodeIndex,
+  findNodeAt,
+  buildEdgeIndex,
+  findEdgeAt,
+  drawPeerPresence
+} from '../utils/canvasGraph';
+import { layoutPeerPresence } from '../utils/collabPresence';
+import { GRAPH_BOUNDS_PADDING, wrapImageInSvg } from '../utils/imageExport';
+import type { ForceSimulation } from '../utils/forceSimulation';
+import type { EdgeIndex, GraphBounds } from '../utils/canvasGraph';
+import type { ForceGraphNode, GraphCanvasProps } from '../types/graph';
+
+// Length of the grow-and-shrink pulse on a node that was centered on
+const PULSE_DURATION = 600;
+// Hovering may use an edge index this old (ms); clicks always rebuild a stale one
+const HOVER_EDGE_INDEX_MAX_AGE = 250;
+
+/**
+ * Renderer for large graphs: draws everything onto one <canvas> from a single
+ * requestAnimationFrame loop instead of keeping an SVG element per node, edge and label.
+ *
+ * Takes the same props as GraphCanvas. Simulation ticks, zooming and style changes only mark
+ * the picture as stale; the loop redraws at most once per frame. Pointer events are resolved
+ * to nodes and edges through quadtrees that are rebuilt lazily after the layout moves.
+ */
+const CanvasGraphRenderer: React.FC<GraphCanvasProps> = ({
+  data,
+  selectedItem,
+  selection = null,
+  searchHighlights,
+  subgraphHighlights = null,
+  boundaryNodeIds = null,
+  nodeTypes,
+  physics,
+  onNodeClick,
+  onEdgeClick,
+  onBackgroundClick,
+  onNodeDragStart,
+  onNodeDrag,
+  onNodeDragEnd,
+  onNodeGroupDragEnd,
+  onToggleSelection,
+  onBoxSelect,
+  onCreateEdge,
+  planConnection,
+  onDeleteEdge,
+  onPickPathEndpoint,
+  onFocusNode,
+  onNodeDoubleClick,
+  onFitToScreen,
+  onCenterOnNode,
+  onMoveNodes,
+  onSnapshotSvg,
+  onSetView,
+  onViewChange,
+  peers,
+  onPointerMove,
+  className = ''
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const simulationRef = useRef<ForceSimulation | null>(null);
+  const zoomRef = useRef<d3.ZoomBehavior<HTMLCanvasElement, unknown> | null>(null);
+  const transformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity);
+  const dataRef = useRef(data);
+  const styleRef = useRef(buildCanvasGraphStyle(selectedItem, selection, searchHighlights, subgraphHighlights, boundaryNodeIds));
+  const lookupRef = useRef(createNodeLookup(nodeTypes));
+
+  // Set whenever the picture changes; the animation loop redraws on the next frame
+  const needsDrawRef = useRef(true);
+  // Bumped on every simulation tick so hit-test indexes know they are stale
+  const positionsVersionRef = useRef(0);
+  const nodeIndexRef = useRef<{ index: d3.Quadtree<ForceGraphNode>; version: number } | null>(null);
+  const edgeIndexRef = useRef<{ index: EdgeIndex; version: number; builtAt: number } | null>(null);
+
+  const hoveredNodeIdRef = useRef<string | null>(null);
+  // Box/lasso selection outline in screen coordinates
+  const outlineRef = useRef<[number, number][] | null>(null);
+  const pulseRef = useRef<{ nodeId: string; start: number } | null>(null);
+  const peersRef = useRef(peers ?? []);
+
+  const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
+  const dimensionsRef = useRef(dimensions);
+  const physicsRef = useRef(physics);
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; node: ForceGraphNode } | null>(null);
+
+  // Latest callbacks and selection for the canvas event handlers, which are attached once
+  const handlersRef = useRef({
+    onNodeClick, onEdgeClick, onBackgroundClick, onNodeDragStart, onNodeDrag, onNodeDragEnd,
+    onNodeGroupDragEnd, onToggleSelection, onBoxSelect, onNodeDoubleClick, onPointerMove, onViewChange, selection
+  });
+  useEffect(() => {
+    handlersRef.current = {
+      onNodeClick, onEdgeClick, onBackgroundClick, onNodeDragStart, onNodeDrag, onNodeDragEnd,
+      onNodeGroupDragEnd, onToggleSelection, onBoxSelect, onNodeDoubleClick, onPointerMove, onViewChange, selection
+    };
+  });
+
+  // Handle window resize
+  useEffect(() => {
+    const handleResize = () => {
+      setDimensions({
+        width: window.innerWidth,
+        height: window.innerHeight
+      });
+    };
+
+    window.addEventListener('resize', handleResize);
+    handleResize();
+
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // Node, and optionally edge, under the pointer, plus the pointer in graph coordinates
+  const hitTest = useCallback((event: any, options: { edges: boolean; allowStaleEdges?: boolean }) => {
+    const transform = transformRef.current;
+    const [x, y] = transform.invert(d3.pointer(event, canvasRef.current));
+    const version = positionsVersionRef.current;
+
+    if (nodeIndexRef.current?.version !== version) {
+      nodeIndexRef.current = { index: buildNodeIndex(dataRef.current.nodes), version };
+    }
+    const node = findNodeAt(nodeIndexRef.current.index, x, y, transform.k);
+    if (node || !options.edges) return { node, edge: null, x, y };
+
+    const edgeIndex = edgeIndexRef.current;
+    const isStale = !edgeIndex || (edgeIndex.version !== version &&
+      (!options.allowStaleEdges || performance.now() - edgeIndex.builtAt > HOVER_EDGE_INDEX_MAX_AGE));
+    if (isStale) {
+      edgeIndexRef.current = { index: buildEdgeIndex(dataRef.current.links), version, builtAt: performance.now() };
+    }
+    return { node: null, edge: findEdgeAt(edgeIndexRef.current!.index, x, y, transform.k), x, y };
+  }, []);
+
+  // Zoom in on a node and briefly pulse it
+  const centerOnNode = useCallback((nodeId: string) => {
+    const canvas = canvasRef.current;
+    const zoom = zoomRef.current;
+    const node = dataRef.current.nodes.find(n => n.id === nodeId);
+    if (!canvas || !zoom || !node) return;
+
+    const { width, height } = dimensionsRef.current;
+    const x = Number.isFinite(node.x) ? node.x : width / 2;
+    const y = Number.isFinite(node.y) ? node.y : height / 2;
+    const scale = 1.5; // Zoom level when centering on node
+
+    d3.select(canvas).transition().duration(750).call(
+      zoom.transform as any,
+      d3.zoomIdentity.translate(width / 2 - scale * x, height / 2 - scale * y).scale(scale)
+    );
+    pulseRef.current = { nodeId, start: performance.now() };
+  }, []);
+
+  // Fit the whole graph into view
+  const fitToScreen = useCallback(() => {
+    const canvas = canvasRef.current;
+    const zoom = zoomRef.current;
+    if (!canvas || !zoom) return;
+
+    const { width, height } = dimensionsRef.current;
+    const bounds = getGraphBounds(dataRef.current.nodes);
+    let transform = d3.zoomIdentity;
+    if (bounds && bounds.width > 0 && bounds.height > 0) {
+      const scale = Math.min(width / bounds.width, height / bounds.height) * 0.8;
+      transform = d3.zoomIdentity
+        .translate(width / 2 - scale * (bounds.x + bounds.width / 2), height / 2 - scale * (bounds.y + bounds.height / 2))
+        .scale(scale);
+    }
+    d3.select(canvas).transition().duration(750).call(zoom.transform as any, transform);
+  }, []);
+
+  // Set up the simulation, zoom and pointer handling (only once)
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const canvasSelection = d3.select(canvas);
+    const simulation = createForceSimulation(physicsRef.current);
+    simulationRef.current = simulation;
+
+    simulation.on("tick", () => {
+      positionsVersionRef.current += 1;
+      needsDrawRef.current = true;
+    });
+
+    // Double-clicking a node must not zoom, so this runs before d3-zoom's own handler
+    canvasSelection.on("dblclick.node", (event: MouseEvent) => {
+      const { node } = hitTest(event, { edges: false });
+      if (node) {
+        event.stopImmediatePropagation();
+        handlersRef.current.onNodeDoubleClick?.(node);
+      }
+    });
+
+    // Dragging starts only on a node; anywhere else the gesture is left to zoom/pan
+    let dragGroup: { id: string; dx: number; dy: number }[] = [];
+    let grabOffset = { dx: 0, dy: 0 };
+
+    const drag = d3.drag<HTMLCanvasElement, unknown, ForceGraphNode>()
+      .container(canvas)
+      .subject((event) => hitTest(event.sourceEvent, { edges: false }).node as ForceGraphNode)
+      .on("start", (event) => {
+        const d: any = event.subject;
+        const handlers = handlersRef.current;
+        handlers.onNodeDragStart?.({ ...d });
+        if (!event.active) simulation.alphaTarget(0.3).restart();
+        // Fix node position during drag
+        d.fx = d.x;
+        d.fy = d.y;
+
+        const [x, y] = transformRef.current.invert(d3.pointer(event, canvas));
+        grabOffset = { dx: d.x - x, dy: d.y - y };
+
+        // Dragging a node that is part of the multi-selection moves the whole selection
+        dragGroup = [];
+        const selectedIds = handlers.selection?.nodeIds ?? [];
+        if (selectedIds.includes(d.id)) {
+          simulation.nodes().forEach((n: any) => {
+            if (n.id !== d.id && selectedIds.includes(n.id)) {
+              handlers.onNodeDragStart?.({ ...n });
+              dragGroup.push({ id: n.id, dx: n.x - d.x, dy: n.y - d.y });
+            }
+          });
+        }
+      })
+      .on("drag", (event) => {
+        const d: any = event.subject;
+        const [x, y] = transformRef.current.invert(d3.pointer(event, canvas));
+        d.fx = x + grabOffset.dx;
+        d.fy = y + grabOffset.dy;
+        if (dragGroup.length > 0) {
+          const simulationNodes = simulation.nodes() as any[];
+          dragGroup.forEach(({ id, dx, dy }) => {
+            const member = simulationNodes.find(n => n.id === id);
+            if (member) {
+              member.fx = d.fx + dx;
+              member.fy = d.fy + dy;
+            }
+          });
+        }
+        needsDrawRef.current = true;
+        handlersRef.current.onNodeDrag(d);
+      })
+      .on("end", (event) => {
+        const d: any = event.subject;
+        if (!event.active) simulation.alphaTarget(PHYSICS_CONFIG.ALPHA_TARGET);
+
+        // Keep position fixed after drag for stable positioning
+        d.fx = d.x;
+        d.fy = d.y;
+
+        const handlers = handlersRef.current;
+        if (dragGroup.length > 0 && handlers.onNodeGroupDragEnd) {
+          const simulationNodes = simulation.nodes() as any[];
+          const members = dragGroup
+            .map(({ id }) => simulationNodes.find(n => n.id === id))
+            .filter(Boolean) as ForceGraphNode[];
+          dragGroup = [];
+          handlers.onNodeGroupDragEnd([d, ...members]);
+        } else {
+          handlers.onNodeDragEnd(d);
+        }
+      });
+
+    // Add zoom behavior (Shift is reserved for box/lasso selection)
+    const zoom = d3.zoom<HTMLCanvasElement, unknown>()
+      .scaleExtent([0.1, 5])
+      .filter((event) => !event.shiftKey && (!event.ctrlKey || event.type === 'wheel') && !event.button)
+      .on("zoom", (event) => {
+        transformRef.current = event.transform;
+        needsDrawRef.current = true;
+      })
+      .on("end", (event) => {
+        const { x, y, k } = event.transform;
+        handlersRef.current.onViewChange?.({ x, y, k });
+      });
+
+    canvasSelection.call(drag).call(zoom);
+    zoomRef.current = zoom;
+
+    // Clicks after a drag or pan are swallowed by d3, so these are real clicks
+    canvasSelection.on("click.select", (event: MouseEvent) => {
+      const handlers = handlersRef.current;
+      const { node, edge, x, y } = hitTest(event, { edges: true });
+
+      if (node) {
+        if (event.shiftKey && handlers.onToggleSelection) {
+          handlers.onToggleSelection({ type: 'node', id: node.id });
+          return;
+        }
+        handlers.onNodeClick(node);
+        setTimeout(() => centerOnNode(node.id), 100);
+      } else if (edge) {
+        if (event.shiftKey && handlers.onToggleSelection) {
+          handlers.onToggleSelection({ type: 'edge', id: edge.id });
+          return;
+        }
+        handlers.onEdgeClick(edge);
+      } else if (!event.shiftKey) {
+        handlers.onBackgroundClick({ x, y });
+      }
+    });
+
+    canvasSelection.on("contextmenu", (event: MouseEvent) => {
+      const { node } = hitTest(event, { edges: false });
+      if (!node) return;
+      event.preventDefault();
+      event.stopPropagation();
+      const [x, y] = d3.pointer(event, document.body);
+      setContextMenu({ x, y, node });
+    });
+
+    // Pointer cursor over nodes and edges; a hovered node shows its label even when zoomed out
+    canvasSelection
+      .on("mousemove.hover", (event: MouseEvent) => {
+        if (event.buttons) return;
+        const { node, edge } = hitTest(event, { edges: true, allowStaleEdges: true });
+        canvas.style.cursor = node || edge ? 'pointer' : '';
+        const hoveredId = node?.id ?? null;
+        if (hoveredId !== hoveredNodeIdRef.current) {
+          hoveredNodeIdRef.current = hoveredId;
+          needsDrawRef.current = true;
+        }
+      })
+      .on("mouseleave.hover", () => {
+        canvas.style.cursor = '';
+        hoveredNodeIdRef.current = null;
+        needsDrawRef.current = true;
+      });
+
+    // Pointer position for the other users' view of this one
+    canvasSelection
+      .on("mousemove.presence", (event: MouseEvent) => {
+        const [x, y] = transformRef.current.invert(d3.pointer(event, canvas));
+        handlersRef.current.onPointerMove?.({ x, y });
+      })
+      .on("mouseleave.presence", () => handlersRef.current.onPointerMove?.(null));
+
+    // Shift+drag on the background draws a selection rectangle, Shift+Alt+drag a freehand lasso
+    canvasSelection.on("mousedown.select", (event: MouseEvent) => {
+      if (!event.shiftKey || event.button !== 0 || hitTest(event, { edges: false }).node) return;
+      event.preventDefault();
+
+      const isLasso = event.altKey;
+      const start = d3.pointer(event, canvas);
+      let points: [number, number][] = [start];
+
+      const toPolygon = (): [number, number][] => {
+        if (isLasso) return points;
+        const [x0, y0] = start;
+        const [x1, y1] = points[points.length - 1];
+        return [[x0, y0], [x1, y0], [x1, y1], [x0, y1]];
+      };
+
+      d3.select(window)
+        .on("mousemove.select", (moveEvent: MouseEvent) => {
+          const point = d3.pointer(moveEvent, canvas);
+          points = isLasso ? [...points, point] : [start, point];
+          outlineRef.current = toPolygon();
+          needsDrawRef.current = true;
+        })
+        .on("mouseup.select", (upEvent: MouseEvent) => {
+          d3.select(window).on("mousemove.select", null).on("mouseup.select", null);
+          outlineRef.current = null;
+          needsDrawRef.current = true;
+
+          const end = d3.pointer(upEvent, canvas);
+          if (Math.hypot(end[0] - start[0], end[1] - start[1]) < 3) return;
+
+          // Node positions are in graph space; the outline is in screen space
+          const polygon = toPolygon();
+          const transform = transformRef.current;
+          const nodeIds = dataRef.current.nodes
+            .filter(n => Number.isFinite(n.x) && d3.polygonContains(polygon, transform.apply([n.x, n.y])))
+            .map(n => n.id);
+          const nodeIdSet = new Set(nodeIds);
+          const edgeIds = dataRef.current.links
+            .filter(link => nodeIdSet.has(link.source.id) && nodeIdSet.has(link.target.id))
+            .map(link => link.id);
+
+          handlersRef.current.onBoxSelect?.({ nodeIds, edgeIds });
+        });
+    });
+
+    return () => {
+      simulation.stop();
+      canvasSelection.on(".node", null).on(".drag", null).on(".zoom", null).on(".select", null).on(".hover", null).on(".presence", null).on("contextmenu", null);
+      d3.select(window).on("mousemove.select", null).on("mouseup.select", null);
+    };
+  }, [hitTest, centerOnNode]);
+
+  // Draw loop: one frame at a time, only when something changed
+  useEffect(() => {
+    let frame = 0;
+
+    const render = (time: number) => {
+      frame = requestAnimationFrame(render);
+      const pulse = pulseRef.current;
+      if (!needsDrawRef.current && !pulse) return;
+      needsDrawRef.current = false;
+
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+
+      const { width, height } = dimensionsRef.current;
+      const ratio = window.devicePixelRatio || 1;
+      const transform = transformRef.current;
+
+      let pulseState: { nodeId: string; factor: number } | null = null;
+      if (pulse) {
+        const progress = Math.max(0, (time - pulse.start) / PULSE_DURATION);
+        if (progress >= 1) {
+          pulseRef.current = null;
+          needsDrawRef.current = true;
+        } else {
+          pulseState = { nodeId: pulse.nodeId, factor: 1 + 0.5 * Math.sin(progress * Math.PI) };
+        }
+      }
+
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+
+      ctx.save();
+      ctx.translate(transform.x, transform.y);
+      ctx.scale(transform.k, transform.k);
+      const [x0, y0] = transform.invert([0, 0]);
+      drawGraph(ctx, {
+        nodes: dataRef.current.nodes,
+        links: dataRef.current.links,
+        style: styleRef.current,
+        lookup: lookupRef.current,
+        scale: transform.k,
+        viewport: { x: x0, y: y0, width: width / transform.k, height: height / transform.k },
+        hoveredNodeId: hoveredNodeIdRef.current,
+        pulse: pulseState
+      });
+      ctx.restore();
+
+      const outline = outlineRef.current;
+      if (outline) {
+        ctx.beginPath();
+        outline.forEach(([x, y], index) => (index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+        ctx.closePath();
+        ctx.fillStyle = 'rgba(59, 130, 246, 0.1)';
+        ctx.fill();
+        ctx.setLineDash([4, 3]);
+        ctx.strokeStyle = '#3b82f6';
+        ctx.lineWidth = 1;
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+
+      if (peersRef.current.length > 0) {
+        drawPeerPresence(ctx, layoutPeerPresence(peersRef.current, dataRef.current, transform));
+      }
+    };
+
+    frame = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  // Resizing the canvas clears it
+  useEffect(() => {
+    dimensionsRef.current = dimensions;
+    needsDrawRef.current = true;
+  }, [dimensions]);
+
+  // Update graph data and keep existing positions
+  useEffect(() => {
+    if (!simulationRef.current) return;
+
+    dataRef.current = data;
+    updateForceSimulation(simulationRef.current, data, dimensions.width, dimensions.height, physicsRef.current);
+    positionsVersionRef.current += 1;
+    needsDrawRef.current = true;
+  }, [data, dimensions.width, dimensions.height]);
+
+  // Physics panel changes retune the running simulation
+  useEffect(() => {
+    physicsRef.current = physics;
+    if (simulationRef.current) applyPhysicsSettings(simulationRef.current, physics);
+  }, [physics]);
+
+  // Update visual styling when selection or highlights change
+  useEffect(() => {
+    styleRef.current = buildCanvasGraphStyle(selectedItem, selection, searchHighlights, subgraphHighlights, boundaryNodeIds);
+    needsDrawRef.current = true;
+  }, [selectedItem, selection, searchHighlights, subgraphHighlights, boundaryNodeIds]);
+
+  // Restyle nodes when a type is recolored, reshaped or given an icon
+  useEffect(() => {
+    lookupRef.current = createNodeLookup(nodeTypes);
+    needsDrawRef.current = true;
+  }, [nodeTypes]);
+
+  useEffect(() => {
+    peersRef.current = peers ?? [];
+    needsDrawRef.current = true;
+  }, [peers]);
+
+  // Expose fit/center to the parent
+  useEffect(() => {
+    if (typeof onFitToScreen === 'object' && onFitToScreen !== null && 'current' in onFitToScreen) {
+      onFitToScreen.current = fitToScreen;
+    }
+    if (typeof onCenterOnNode === 'object' && onCenterOnNode !== null) {
+      onCenterOnNode.current = centerOnNode;
+    }
+  }, [onFitToScreen, onCenterOnNode, fitToScreen, centerOnNode]);
+
+  // Expose programmatic node placement (used by undo/redo of moves and by layouts)
+  useEffect(() => {
+    if (typeof onMoveNodes !== 'object' || onMoveNodes === null) return;
+
+    onMoveNodes.current = (positions, duration) => {
+      const simulation = simulationRef.current;
+      if (simulation) moveSimulationNodes(simulation, positions, duration);
+    };
+
+    return () => {
+      onMoveNodes.current = null;
+    };
+  }, [onMoveNodes]);
+
+  // Expose jumping to a zoom and pan
+  useEffect(() => {
+    if (typeof onSetView !== 'object' || onSetView === null) return;
+
+    onSetView.current = (view) => {
+      const canvas = canvasRef.current;
+      const zoom = zoomRef.current;
+      if (!canvas || !zoom) return;
+      d3.select(canvas).call(zoom.transform as any, d3.zoomIdentity.translate(view.x, view.y).scale(view.k));
+    };
+
+    return () => {
+      onSetView.current = null;
+    };
+  }, [onSetView]);
+
+  // Expose an image of the view or the whole graph for image export
+  useEffect(() => {
+    if (typeof onSnapshotSvg !== 'object' || onSnapshotSvg === null) return;
+
+    onSnapshotSvg.current = (region, background) => {
+      const { width, height } = dimensionsRef.current;
+      let area: GraphBounds = { x: 0, y: 0, width, height };
+      let transform = transformRef.current;
+
+      if (region === 'graph') {
+        const bounds = getGraphBounds(dataRef.current.nodes);
+        if (!bounds) return null;
+        area = {
+          x: bounds.x - GRAPH_BOUNDS_PADDING,
+          y: bounds.y - GRAPH_BOUNDS_PADDING,
+          width: bounds.width + GRAPH_BOUNDS_PADDING * 2,
+          height: bounds.height + GRAPH_BOUNDS_PADDING * 2
+        };
+        transform = d3.zoomIdentity.translate(-area.x, -area.y);
+      }
+
+      const resolution = Math.min(
+        RENDERER_CONFIG.SNAPSHOT_RESOLUTION,
+        Math.sqrt(RENDERER_CONFIG.MAX_SNAPSHOT_PIXELS / (area.width * area.height))
+      );
+      const snapshot = document.createElement('canvas');
+      snapshot.width = Math.max(1, Math.round(area.width * resolution));
+      snapshot.height = Math.max(1, Math.round(area.height * resolution));
+      const ctx = snapshot.getContext('2d');
+      if (!ctx) return null;
+
+      ctx.scale(resolution, resolution);
+      if (background) {
+        ctx.fillStyle = background;
+        ctx.fillRect(0, 0, area.width, area.height);
+      }
+      ctx.translate(transform.x, transform.y);
+      ctx.scale(transform.k, transform.k);
+      drawGraph(ctx, {
+        nodes: dataRef.current.nodes,
+        links: dataRef.current.links,
+        style: styleRef.current,
+        lookup: lookupRef.current,
+        scale: transform.k,
+        viewport: region === 'graph'
+          ? null
+          : { x: -transform.x / transform.k, y: -transform.y / transform.k, width: width / transform.k, height: height / transform.k }
+      });
+
+      return wrapImageInSvg(snapshot.toDataURL('image/png'), Math.round(area.width), Math.round(area.height));
+    };
+
+    return () => {
+      onSnapshotSvg.current = null;
+    };
+  }, [onSnapshotSvg]);
+
+  const handleCloseContextMenu = useCallback(() => setContextMenu(null), []);
+  const ratio = window.devicePixelRatio || 1;
+
+  return (
+    <div className={`relative w-full h-full ${className}`}>
+      <canvas
+        ref={canvasRef}
+        width={Math.round(dimensions.width * ratio)}
+        height={Math.round(dimensions.height * ratio)}
+        style={{ width: dimensions.width, height: dimensions.height, background: '#0a0a0a', display: 'block' }}
+      />
+
+      {contextMenu && (
+        <NodeContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          sourceNode={contextMenu.node}
+          data={data}
+          nodeTypes={nodeTypes}
+          planConnection={planConnection}
+          onCreateEdge={onCreateEdge}
+          onDeleteEdge={onDeleteEdge}
+          onPickPathEndpoint={onPickPathEndpoint}
+          onFocusNode={onFocusNode}
+          onClose={handleCloseContextMenu}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CanvasGraphRenderer;
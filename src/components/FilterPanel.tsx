@@ -0,0 +1,122 @@
+import React from 'react';
+import NodeTypeSwatch from './NodeTypeSwatch';
+import { EMPTY_FILTER } from '../utils/graphFilter';
+import { getNodeType } from '../utils/nodeTypes';
+import type { FilterPanelProps, FilterFacetValue } from '../types/graph';
+
+function toggleValue(values: string[], value: string): string[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+const FilterPanel: React.FC<FilterPanelProps> = ({
+  isOpen,
+  facets,
+  filter,
+  nodeTypes,
+  onChange,
+  onClose
+}) => {
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleTogglePropertyValue = (key: string, value: string) => {
+    const { [key]: current = [], ...others } = filter.hiddenPropertyValues;
+    const next = toggleValue(current, value);
+    onChange({
+      ...filter,
+      hiddenPropertyValues: next.length > 0 ? { ...others, [key]: next } : others
+    });
+  };
+
+  const renderToggle = (
+    { value, count }: FilterFacetValue,
+    hidden: boolean,
+    onToggle: () => void,
+    label: string = value,
+    swatch?: React.ReactNode
+  ) => (
+    <label key={value} className="flex items-center space-x-2 py-0.5 cursor-pointer text-sm">
+      <input
+        type="checkbox"
+        checked={!hidden}
+        onChange={onToggle}
+        className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500"
+      />
+      {swatch}
+      <span className={`flex-1 truncate ${hidden ? 'text-gray-500 line-through' : 'text-gray-200'}`} title={label}>
+        {label}
+      </span>
+      <span className="text-xs text-gray-500">{count}</span>
+    </label>
+  );
+
+  const renderSection = (title: string, children: React.ReactNode) => (
+    <div>
+      <h3 className="text-xs font-medium text-gray-400 uppercase tracking-wide mb-1">{title}</h3>
+      {children}
+    </div>
+  );
+
+  return (
+    <div className="w-64 max-h-full flex flex-col pointer-events-auto bg-gray-800 bg-opacity-95 backdrop-blur-sm border border-gray-700 rounded-lg shadow-xl">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700">
+        <h2 className="text-sm font-semibold text-white">Filters</h2>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => onChange(EMPTY_FILTER)}
+            className="text-xs text-gray-400 hover:text-white"
+            title="Show everything"
+          >
+            Reset
+          </button>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {facets.nodeTypes.length === 0 && facets.edgeLabels.length === 0 && (
+          <p className="text-sm text-gray-400">Nothing to filter yet</p>
+        )}
+
+        {facets.nodeTypes.length > 0 && renderSection('Node types', facets.nodeTypes.map(facet =>
+          renderToggle(
+            facet,
+            filter.hiddenNodeTypes.includes(facet.value),
+            () => onChange({ ...filter, hiddenNodeTypes: toggleValue(filter.hiddenNodeTypes, facet.value) }),
+            getNodeType(nodeTypes, facet.value).label,
+            <NodeTypeSwatch type={getNodeType(nodeTypes, facet.value)} />
+          )
+        ))}
+
+        {facets.edgeLabels.length > 0 && renderSection('Edge labels', facets.edgeLabels.map(facet =>
+          renderToggle(
+            facet,
+            filter.hiddenEdgeLabels.includes(facet.value),
+            () => onChange({ ...filter, hiddenEdgeLabels: toggleValue(filter.hiddenEdgeLabels, facet.value) })
+          )
+        ))}
+
+        {facets.properties.map(({ key, values }) => (
+          <React.Fragment key={key}>
+            {renderSection(key, values.map(facet =>
+              renderToggle(
+                facet,
+                filter.hiddenPropertyValues[key]?.includes(facet.value) ?? false,
+                () => handleTogglePropertyValue(key, facet.value)
+              )
+            ))}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FilterPanel;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { FOCUS_CONFIG } from '../types/constants';
+import { getNodeType } from '../utils/nodeTypes';
+import type { FocusBarProps } from '../types/graph';
+
+const FocusBar: React.FC<FocusBarProps> = ({
+  trail,
+  nodeTypes,
+  hops,
+  visibleCount,
+  totalCount,
+  onChangeHops,
+  onStepBack,
+  onExit
+}) => {
+  if (trail.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 flex items-center space-x-4 bg-gray-800 bg-opacity-95 backdrop-blur-sm border border-gray-700 rounded-lg shadow-xl px-4 py-2 text-sm text-white">
+      {/* Breadcrumbs: clicking one drops everything expanded after it */}
+      <nav className="flex items-center space-x-1 min-w-0">
+        <button onClick={onExit} className="text-gray-400 hover:text-white" title="Show the whole graph">
+          All
+        </button>
+        {trail.map((node, index) => (
+          <React.Fragment key={node.id}>
+            <span className="text-gray-500">›</span>
+            <button
+              onClick={() => onStepBack(index)}
+              disabled={index === trail.length - 1}
+              className="flex items-center max-w-[10rem] hover:text-cyan-300 disabled:hover:text-white disabled:cursor-default"
+            >
+              <span
+                className="w-2 h-2 rounded-full mr-1 flex-shrink-0"
+                style={{ backgroundColor: getNodeType(nodeTypes, node.type).color }}
+              />
+              <span className="truncate">{node.label}</span>
+            </button>
+          </React.Fragment>
+        ))}
+      </nav>
+
+      {/* Neighborhood radius */}
+      <label className="flex items-center space-x-2 text-gray-300 flex-shrink-0">
+        <span>Hops</span>
+        <input
+          type="range"
+          min={1}
+          max={FOCUS_CONFIG.MAX_HOPS}
+          value={hops}
+          onChange={(e) => onChangeHops(Number(e.target.value))}
+          className="w-24"
+        />
+        <span className="w-3 text-white">{hops}</span>
+      </label>
+
+      <span className="text-xs text-gray-400 flex-shrink-0">
+        {visibleCount} of {totalCount} nodes
+      </span>
+
+      <button onClick={onExit} className="btn btn-secondary btn-sm flex-shrink-0">
+        Exit Focus
+      </button>
+    </div>
+  );
+};
+
+export default FocusBar;
@@ -1,6 +1,12 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import * as d3 from 'd3';
-import { NODE_TYPE_COLORS, PHYSICS_CONFIG } from '../types/constants';
+import NodeContextMenu from './NodeContextMenu';
+import { NODE_TYPE_CONFIG, PHYSICS_CONFIG } from '../types/constants';
+import { buildStandaloneSvg } from '../utils/imageExport';
+import { layoutPeerPresence, PEER_CURSOR_PATH, PEER_LABEL_OFFSET } from '../utils/collabPresence';
+import { getNodeType, nodeShapePath } from '../utils/nodeTypes';
+import { createForceSimulation, updateForceSimulation, applyPhysicsSettings, moveSimulationNodes } from '../utils/forceSimulation';
+import type { ForceSimulation } from '../utils/forceSimulation';
 import type {
   ForceGraphData,
   ForceGraphNode,
@@ -13,81 +19,137 @@ import type {
 const GraphCanvas: React.FC<GraphCanvasProps> = ({
   data,
   selectedItem,
+  selection = null,
   searchHighlights,
+  subgraphHighlights = null,
+  boundaryNodeIds = null,
+  nodeTypes,
+  physics,
   onNodeClick,
   onEdgeClick,
   onBackgroundClick,
+  onNodeDragStart,
   onNodeDrag,
   onNodeDragEnd,
+  onNodeGroupDragEnd,
+  onToggleSelection,
+  onBoxSelect,
   onCreateEdge,
+  planConnection,
   onDeleteEdge,
+  onPickPathEndpoint,
+  onFocusNode,
+  onNodeDoubleClick,
   onFitToScreen,
   onCenterOnNode,
+  onMoveNodes,
+  onSnapshotSvg,
+  onSetView,
+  onViewChange,
+  peers,
+  onPointerMove,
   className = ''
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
-  const simulationRef = useRef<d3.Simulation<d3.SimulationNodeDatum, undefined> | null>(null);
+  const simulationRef = useRef<ForceSimulation | null>(null);
   const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
   const containerRef = useRef<d3.Selection<SVGGElement, unknown, null, undefined> | null>(null);
   const currentTransformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity);
   const onBackgroundClickRef = useRef(onBackgroundClick);
+  const onToggleSelectionRef = useRef(onToggleSelection);
+  const onBoxSelectRef = useRef(onBoxSelect);
+  const onNodeGroupDragEndRef = useRef(onNodeGroupDragEnd);
+  const onNodeDoubleClickRef = useRef(onNodeDoubleClick);
+  const selectionRef = useRef(selection);
+  const dataRef = useRef(data);
+  const nodeTypesRef = useRef(nodeTypes);
+  const physicsRef = useRef(physics);
+  const peersRef = useRef(peers ?? []);
+  const onPointerMoveRef = useRef(onPointerMove);
+  const onViewChangeRef = useRef(onViewChange);
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
-  const [contextMenu, setContextMenu] = useState<{
-    show: boolean;
-    x: number;
-    y: number;
-    sourceNode: ForceGraphNode | null;
-    targetNode: ForceGraphNode | null;
-  }>({ show: false, x: 0, y: 0, sourceNode: null, targetNode: null });
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; node: ForceGraphNode } | null>(null);
 
   // Keep latest onBackgroundClick to avoid stale handler in D3 event
   useEffect(() => {
     onBackgroundClickRef.current = onBackgroundClick;
   }, [onBackgroundClick]);
 
-  // Helper function to get connected nodes and their edge IDs
-  const getConnectedNodesInfo = useCallback((sourceNodeId: string) => {
-    const connectedInfo: { node: ForceGraphNode; edgeId: string; isSource: boolean }[] = [];
-    
-    data.links.forEach(link => {
-      const sourceId = typeof link.source === 'object' ? link.source.id : link.source;
-      const targetId = typeof link.target === 'object' ? link.target.id : link.target;
-      
-      if (sourceId === sourceNodeId) {
-        const targetNode = data.nodes.find(n => n.id === targetId);
-        if (targetNode) {
-          connectedInfo.push({ node: targetNode, edgeId: link.id, isSource: true });
-        }
-      } else if (targetId === sourceNodeId) {
-        const sourceNode = data.nodes.find(n => n.id === sourceId);
-        if (sourceNode) {
-          connectedInfo.push({ node: sourceNode, edgeId: link.id, isSource: false });
-        }
-      }
-    });
-    
-    return connectedInfo;
-  }, [data.links, data.nodes]);
+  // Same for the multi-selection handlers, which close over GraphView state
+  useEffect(() => {
+    onToggleSelectionRef.current = onToggleSelection;
+    onBoxSelectRef.current = onBoxSelect;
+    onNodeGroupDragEndRef.current = onNodeGroupDragEnd;
+    onNodeDoubleClickRef.current = onNodeDoubleClick;
+    onPointerMoveRef.current = onPointerMove;
+    onViewChangeRef.current = onViewChange;
+    selectionRef.current = selection;
+    dataRef.current = data;
+    nodeTypesRef.current = nodeTypes;
+  }, [onToggleSelection, onBoxSelect, onNodeGroupDragEnd, onNodeDoubleClick, onPointerMove, onViewChange, selection, data, nodeTypes]);
+
+  // Other users' cursors and selections, in screen space above the zoomed graph
+  const drawPeers = useCallback(() => {
+    if (!svgRef.current) return;
+    const layout = layoutPeerPresence(peersRef.current, dataRef.current, currentTransformRef.current);
+    const layer = d3.select(svgRef.current).select<SVGGElement>(".peer-layer");
+
+    layer.selectAll<SVGLineElement, typeof layout.edges[number]>("line")
+      .data(layout.edges, d => d.key)
+      .join("line")
+      .attr("x1", d => d.x1)
+      .attr("y1", d => d.y1)
+      .attr("x2", d => d.x2)
+      .attr("y2", d => d.y2)
+      .attr("stroke", d => d.color)
+      .attr("stroke-width", 2);
+
+    layer.selectAll<SVGCircleElement, typeof layout.rings[number]>("circle")
+      .data(layout.rings, d => d.key)
+      .join("circle")
+      .attr("cx", d => d.x)
+      .attr("cy", d => d.y)
+      .attr("r", d => d.radius)
+      .attr("fill", "none")
+      .attr("stroke", d => d.color)
+      .attr("stroke-width", 2);
+
+    const cursors = layer.selectAll<SVGGElement, typeof layout.cursors[number]>("g.peer-cursor")
+      .data(layout.cursors, d => d.key)
+      .join(enter => {
+        const cursor = enter.append("g").attr("class", "peer-cursor");
+        cursor.append("path").attr("d", PEER_CURSOR_PATH).attr("stroke", "#ffffff");
+        cursor.append("rect").attr("x", PEER_LABEL_OFFSET.x).attr("y", PEER_LABEL_OFFSET.y - 8).attr("height", 16);
+        cursor.append("text")
+          .attr("x", PEER_LABEL_OFFSET.x + 4)
+          .attr("y", PEER_LABEL_OFFSET.y)
+          .attr("dominant-baseline", "middle")
+          .attr("fill", "#ffffff")
+          .style("font-size", "11px");
+        return cursor;
+      })
+      .attr("transform", d => `translate(${d.x},${d.y})`);
+
+    cursors.select("path").attr("fill", d => d.color);
+    cursors.select("text").text(d => d.name);
+    cursors.select<SVGRectElement>("rect")
+      .attr("fill", d => d.color)
+      .attr("width", function () {
+        const text = (this.parentNode as SVGGElement).querySelector("text");
+        return (text?.getComputedTextLength() ?? 0) + 8;
+      });
+  }, []);
 
-  // Helper function to get unconnected nodes
-  const getUnconnectedNodes = useCallback((sourceNodeId: string) => {
-    const connectedNodeIds = new Set();
-    
-    data.links.forEach(link => {
-      const sourceId = typeof link.source === 'object' ? link.source.id : link.source;
-      const targetId = typeof link.target === 'object' ? link.target.id : link.target;
-      
-      if (sourceId === sourceNodeId) {
-        connectedNodeIds.add(targetId);
-      } else if (targetId === sourceNodeId) {
-        connectedNodeIds.add(sourceId);
-      }
-    });
-    
-    return data.nodes.filter(node => 
-      node.id !== sourceNodeId && !connectedNodeIds.has(node.id)
-    );
-  }, [data.links, data.nodes]);
+  useEffect(() => {
+    peersRef.current = peers ?? [];
+    drawPeers();
+  }, [peers, drawPeers]);
+
+  // Physics panel changes retune the running simulation
+  useEffect(() => {
+    physicsRef.current = physics;
+    if (simulationRef.current) applyPhysicsSettings(simulationRef.current, physics);
+  }, [physics]);
 
   // Handle window resize
   useEffect(() => {
@@ -104,18 +166,6 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // Close context menu on outside click
-  useEffect(() => {
-    const handleClickOutside = () => {
-      setContextMenu(prev => ({ ...prev, show: false }));
-    };
-
-    if (contextMenu.show) {
-      document.addEventListener('click', handleClickOutside);
-      return () => document.removeEventListener('click', handleClickOutside);
-    }
-  }, [contextMenu.show]);
-
   // Initialize SVG and zoom behavior (only once)
   useEffect(() => {
     if (!svgRef.current) return;
@@ -155,34 +205,115 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
       .attr("fill", "#ffffff")
       .style("stroke", "none");
 
+    // Arrow marker for edges matched by a query
+    defs.append("marker")
+      .attr("id", "arrowhead-highlighted")
+      .attr("viewBox", "0 -5 10 10")
+      .attr("refX", 15)
+      .attr("refY", 0)
+      .attr("orient", "auto")
+      .attr("markerWidth", 6)
+      .attr("markerHeight", 6)
+      .attr("xoverflow", "visible")
+      .append("svg:path")
+      .attr("d", "M 0,-5 L 10 ,0 L 0,5")
+      .attr("fill", "#22d3ee")
+      .style("stroke", "none");
+
     // Create main container
     const container = svg.append("g");
     containerRef.current = container;
 
-    // Add zoom behavior
+    // Add zoom behavior (Shift is reserved for box/lasso selection)
     const zoom = d3.zoom<SVGSVGElement, unknown>()
       .scaleExtent([0.1, 5])
+      .filter((event) => !event.shiftKey && (!event.ctrlKey || event.type === 'wheel') && !event.button)
       .on("zoom", (event) => {
         currentTransformRef.current = event.transform;
         container.attr("transform", event.transform);
+        if (peersRef.current.length > 0) drawPeers();
+      })
+      .on("end", (event) => {
+        const { x, y, k } = event.transform;
+        onViewChangeRef.current?.({ x, y, k });
       });
 
     svg.call(zoom);
     zoomRef.current = zoom;
 
+    svg.append("g")
+      .attr("class", "peer-layer")
+      .style("pointer-events", "none");
+
+    // Pointer position for the other users' view of this one
+    svg
+      .on("mousemove.presence", (event: MouseEvent) => {
+        const [x, y] = d3.pointer(event, container.node());
+        onPointerMoveRef.current?.({ x, y });
+      })
+      .on("mouseleave.presence", () => onPointerMoveRef.current?.(null));
+
     // Handle background click
     svg.on("click", (event) => {
-      if (event.target === event.currentTarget) {
+      if (event.target === event.currentTarget && !event.shiftKey) {
         const [x, y] = d3.pointer(event, container.node());
         onBackgroundClickRef.current?.({ x, y });
       }
     });
 
+    // Shift+drag on the background draws a selection rectangle, Shift+Alt+drag a freehand lasso
+    const selectionOutline = svg.append("path")
+      .attr("class", "selection-outline")
+      .style("display", "none");
+
+    svg.on("mousedown.select", (event: MouseEvent) => {
+      if (!event.shiftKey || event.button !== 0 || event.target !== event.currentTarget) return;
+      event.preventDefault();
+
+      const isLasso = event.altKey;
+      const start = d3.pointer(event, svg.node());
+      let points: [number, number][] = [start];
+
+      const toPolygon = (): [number, number][] => {
+        if (isLasso) return points;
+        const [x0, y0] = start;
+        const [x1, y1] = points[points.length - 1];
+        return [[x0, y0], [x1, y0], [x1, y1], [x0, y1]];
+      };
+
+      selectionOutline.style("display", null).attr("d", null);
+
+      d3.select(window)
+        .on("mousemove.select", (moveEvent: MouseEvent) => {
+          const point = d3.pointer(moveEvent, svg.node());
+          points = isLasso ? [...points, point] : [start, point];
+          selectionOutline.attr("d", `M${toPolygon().join("L")}Z`);
+        })
+        .on("mouseup.select", (upEvent: MouseEvent) => {
+          d3.select(window).on("mousemove.select", null).on("mouseup.select", null);
+          selectionOutline.style("display", "none").attr("d", null);
+
+          const end = d3.pointer(upEvent, svg.node());
+          if (Math.hypot(end[0] - start[0], end[1] - start[1]) < 3) return;
+
+          // Node positions are in graph space; the outline is in screen space
+          const polygon = toPolygon();
+          const transform = currentTransformRef.current;
+          const isInside = (n: any) =>
+            typeof n.x === 'number' && d3.polygonContains(polygon, transform.apply([n.x, n.y]));
+
+          const nodeIds = (simulationRef.current?.nodes() ?? []).filter(isInside).map((n: any) => n.id as string);
+          const nodeIdSet = new Set(nodeIds);
+          const edgeIds = dataRef.current.links
+            .filter(link => nodeIdSet.has(link.source.id) && nodeIdSet.has(link.target.id))
+            .map(link => link.id);
+
+          onBoxSelectRef.current?.({ nodeIds, edgeIds });
+        });
+    });
+
     // Initialize simulation (will be configured in data update effect)
-    const simulation = d3.forceSimulation()
-      .alphaDecay(PHYSICS_CONFIG.ALPHA_DECAY)
-      .velocityDecay(PHYSICS_CONFIG.VELOCITY_DECAY)
-      .alphaTarget(PHYSICS_CONFIG.ALPHA_TARGET);
+    const simulation = createForceSimulation(physicsRef.current);
     
     simulationRef.current = simulation;
 
@@ -191,7 +322,7 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
         simulation.stop();
       }
     };
-  }, [dimensions.width, dimensions.height]);
+  }, [dimensions.width, dimensions.height, drawPeers]);
 
   // Update graph data and maintain smooth transitions
   useEffect(() => {
@@ -226,43 +357,7 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
       return;
     }
 
-    // Configure simulation forces
-    simulation
-      .force("link", d3.forceLink(data.links as any)
-        .id((d: any) => d.id)
-        .distance(PHYSICS_CONFIG.LINK_DISTANCE)
-        .strength(0.6))
-      .force("charge", d3.forceManyBody()
-        .strength(PHYSICS_CONFIG.CHARGE_STRENGTH)
-        .distanceMax(300))
-      .force("center", d3.forceCenter(dimensions.width / 2, dimensions.height / 2))
-      .force("collision", d3.forceCollide()
-        .radius(PHYSICS_CONFIG.COLLISION_RADIUS)
-        .strength(0.8));
-
-    // Update simulation nodes with smooth transition
-    const existingNodes = simulation.nodes();
-    const newNodes = [...data.nodes] as any[];
-    
-    // Preserve positions and fixed states for existing nodes
-    newNodes.forEach((newNode: any) => {
-      const existingNode = existingNodes.find((n: any) => n.id === newNode.id);
-      if (existingNode) {
-        newNode.x = existingNode.x;
-        newNode.y = existingNode.y;
-        newNode.vx = existingNode.vx || 0;
-        newNode.vy = existingNode.vy || 0;
-        newNode.fx = existingNode.fx;
-        newNode.fy = existingNode.fy;
-      }
-    });
-
-    simulation.nodes(newNodes);
-    
-    // Gently reheat simulation for smooth transitions
-    if (simulation.alpha() < PHYSICS_CONFIG.ALPHA_TARGET) {
-      simulation.alpha(PHYSICS_CONFIG.REHEAT_STRENGTH).restart();
-    }
+    updateForceSimulation(simulation, data, dimensions.width, dimensions.height, physicsRef.current);
 
     // Create/update links with smooth transitions
     const linkSelection = container.selectAll(".links")
@@ -293,6 +388,10 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
       .style("cursor", "pointer")
       .on("click", (event, d) => {
         event.stopPropagation();
+        if (event.shiftKey && onToggleSelectionRef.current) {
+          onToggleSelectionRef.current({ type: 'edge', id: (d as ForceGraphEdge).id });
+          return;
+        }
         onEdgeClick(d as ForceGraphEdge);
       });
 
@@ -342,27 +441,38 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
       .attr("class", "nodes")
       .merge(nodeSelection as any);
 
-    const node = nodeContainer.selectAll("circle")
+    // Node shapes are paths centered on the origin and moved into place with a transform
+    const nodeType = (d: any) => getNodeType(nodeTypesRef.current, d.type);
+    const nodePath = (d: any, radius: number) => nodeShapePath(nodeType(d).shape, radius);
+
+    const node = nodeContainer.selectAll("path")
       .data(data.nodes, (d: any) => d.id);
 
     // Remove old nodes with scale out
     node.exit()
       .transition()
       .duration(300)
-      .attr("r", 0)
+      .attr("d", (d: any) => nodePath(d, 0))
       .remove();
 
     // Add new nodes with scale in
+    // Other selected nodes that follow the dragged node, as offsets from it
+    let dragGroup: { id: string; dx: number; dy: number }[] = [];
+
     const nodeEnter = node.enter()
-      .append("circle")
-      .attr("r", 0)
+      .append("path")
+      .attr("d", (d: any) => nodePath(d, 0))
       .attr("data-node-id", (d: any) => d.id)
-      .attr("fill", (d: any) => NODE_TYPE_COLORS[d.type] || NODE_TYPE_COLORS.default)
+      .attr("fill", (d: any) => nodeType(d).color)
       .attr("stroke", "#333")
       .attr("stroke-width", 1)
       .style("cursor", "pointer")
       .on("click", (event, d) => {
         event.stopPropagation();
+        if (event.shiftKey && onToggleSelectionRef.current) {
+          onToggleSelectionRef.current({ type: 'node', id: (d as ForceGraphNode).id });
+          return;
+        }
         onNodeClick(d as ForceGraphNode);
         // Trigger center on node after a short delay to ensure positioning
         setTimeout(() => {
@@ -371,28 +481,50 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
           }
         }, 100);
       })
+      .on("dblclick", (event, d) => {
+        // Keep d3-zoom from zooming in on the double-click
+        event.stopPropagation();
+        onNodeDoubleClickRef.current?.(d as ForceGraphNode);
+      })
       .on("contextmenu", (event, d) => {
         event.preventDefault();
         event.stopPropagation();
         const [x, y] = d3.pointer(event, document.body);
-        setContextMenu({
-          show: true,
-          x,
-          y,
-          sourceNode: d as ForceGraphNode,
-          targetNode: null
-        });
+        setContextMenu({ x, y, node: d as ForceGraphNode });
       })
       .call(d3.drag<any, any>()
         .on("start", (event, d: any) => {
+          onNodeDragStart?.({ ...d });
           if (!event.active) simulation.alphaTarget(0.3).restart();
           // Fix node position during drag
           d.fx = d.x;
           d.fy = d.y;
+
+          // Dragging a node that is part of the multi-selection moves the whole selection
+          dragGroup = [];
+          const selectedIds = selectionRef.current?.nodeIds ?? [];
+          if (selectedIds.includes(d.id)) {
+            simulation.nodes().forEach((n: any) => {
+              if (n.id !== d.id && selectedIds.includes(n.id)) {
+                onNodeDragStart?.({ ...n });
+                dragGroup.push({ id: n.id, dx: n.x - d.x, dy: n.y - d.y });
+              }
+            });
+          }
         })
         .on("drag", (event, d: any) => {
           d.fx = event.x;
           d.fy = event.y;
+          if (dragGroup.length > 0) {
+            const simulationNodes = simulation.nodes() as any[];
+            dragGroup.forEach(({ id, dx, dy }) => {
+              const member = simulationNodes.find(n => n.id === id);
+              if (member) {
+                member.fx = event.x + dx;
+                member.fy = event.y + dy;
+              }
+            });
+          }
           onNodeDrag(d);
         })
         .on("end", (event, d: any) => {
@@ -403,15 +535,48 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
           d.fx = d.x;
           d.fy = d.y;
           
-          onNodeDragEnd(d);
+          if (dragGroup.length > 0 && onNodeGroupDragEndRef.current) {
+            const simulationNodes = simulation.nodes() as any[];
+            const members = dragGroup
+              .map(({ id }) => simulationNodes.find(n => n.id === id))
+              .filter(Boolean) as ForceGraphNode[];
+            dragGroup = [];
+            onNodeGroupDragEndRef.current([d, ...members]);
+          } else {
+            onNodeDragEnd(d);
+          }
         })
       );
 
     const nodeMerged = nodeEnter.merge(node as any)
       .transition()
       .duration(300)
-      .attr("r", 8)
-      .attr("fill", (d: any) => NODE_TYPE_COLORS[d.type] || NODE_TYPE_COLORS.default);
+      .attr("d", (d: any) => nodePath(d, NODE_TYPE_CONFIG.NODE_RADIUS))
+      .attr("fill", (d: any) => nodeType(d).color);
+
+    // Type icons drawn on top of the nodes
+    const nodeIconSelection = container.selectAll(".node-icons")
+      .data([0]);
+
+    const nodeIconContainer = nodeIconSelection.enter()
+      .append("g")
+      .attr("class", "node-icons")
+      .merge(nodeIconSelection as any);
+
+    const nodeIcon = nodeIconContainer.selectAll("text")
+      .data(data.nodes, (d: any) => d.id);
+
+    nodeIcon.exit().remove();
+
+    nodeIcon.enter()
+      .append("text")
+      .attr("text-anchor", "middle")
+      .attr("dominant-baseline", "central")
+      .attr("font-size", "9px")
+      .attr("fill", "#ffffff")
+      .style("pointer-events", "none")
+      .merge(nodeIcon as any)
+      .text((d: any) => nodeType(d).icon ?? '');
 
     // Create/update node labels
     const nodeLabelSelection = container.selectAll(".node-labels")
@@ -462,14 +627,20 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
         .attr("y", (d: any) => (d.source.y + d.target.y) / 2);
 
       // Update nodes
-      container.selectAll(".nodes circle")
-        .attr("cx", (d: any) => d.x)
-        .attr("cy", (d: any) => d.y);
+      container.selectAll(".nodes path")
+        .attr("transform", (d: any) => `translate(${d.x},${d.y})`);
+
+      // Update node icons
+      container.selectAll(".node-icons text")
+        .attr("x", (d: any) => d.x)
+        .attr("y", (d: any) => d.y);
 
       // Update node labels
       container.selectAll(".node-labels text")
         .attr("x", (d: any) => d.x)
         .attr("y", (d: any) => d.y);
+
+      if (peersRef.current.length > 0) drawPeers();
     });
 
     // Fit to screen function that preserves current zoom/pan
@@ -531,15 +702,15 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
         );
 
         // Add a temporary pulse effect to the centered node
-        const centeredNodeElement = container.select(`circle[data-node-id="${nodeId}"]`);
+        const centeredNodeElement = container.select(`.nodes path[data-node-id="${nodeId}"]`);
         if (!centeredNodeElement.empty()) {
           centeredNodeElement
             .transition()
             .duration(300)
-            .attr("r", 12)
+            .attr("d", (d: any) => nodePath(d, NODE_TYPE_CONFIG.NODE_RADIUS * 1.5))
             .transition()
             .duration(300)
-            .attr("r", 8);
+            .attr("d", (d: any) => nodePath(d, NODE_TYPE_CONFIG.NODE_RADIUS));
         }
       }
     };
@@ -553,7 +724,53 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
       (onCenterOnNode as any).current = centerOnNode;
     }
 
-  }, [data, dimensions.width, dimensions.height]);
+  }, [data, dimensions.width, dimensions.height, drawPeers]);
+
+  // Expose programmatic node placement (used by undo/redo of moves and by layouts)
+  useEffect(() => {
+    if (typeof onMoveNodes !== 'object' || onMoveNodes === null) return;
+
+    onMoveNodes.current = (positions, duration) => {
+      const simulation = simulationRef.current;
+      if (simulation) moveSimulationNodes(simulation, positions, duration);
+    };
+
+    return () => {
+      onMoveNodes.current = null;
+    };
+  }, [onMoveNodes]);
+
+  // Expose jumping to a zoom and pan
+  useEffect(() => {
+    if (typeof onSetView !== 'object' || onSetView === null) return;
+
+    onSetView.current = (view) => {
+      if (!svgRef.current || !zoomRef.current) return;
+      d3.select(svgRef.current).call(
+        zoomRef.current.transform as any,
+        d3.zoomIdentity.translate(view.x, view.y).scale(view.k)
+      );
+    };
+
+    return () => {
+      onSetView.current = null;
+    };
+  }, [onSetView]);
+
+  // Expose a self-contained copy of the rendered SVG for image export
+  useEffect(() => {
+    if (typeof onSnapshotSvg !== 'object' || onSnapshotSvg === null) return;
+
+    onSnapshotSvg.current = (region, background) => {
+      const container = containerRef.current?.node();
+      if (!svgRef.current || !container) return null;
+      return buildStandaloneSvg(svgRef.current, container, region, background);
+    };
+
+    return () => {
+      onSnapshotSvg.current = null;
+    };
+  }, [onSnapshotSvg]);
 
   // Update visual styling when selection or highlights change (without recreating elements)
   useEffect(() => {
@@ -561,52 +778,78 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
 
     const container = containerRef.current;
 
+    const isNodeSelected = (id: string) =>
+      (selectedItem?.type === 'node' && selectedItem.item.id === id) || !!selection?.nodeIds.includes(id);
+    const isEdgeSelected = (id: string) =>
+      (selectedItem?.type === 'edge' && selectedItem.item.id === id) || !!selection?.edgeIds.includes(id);
+
+    // A query match or found path is emphasized and everything else dimmed
+    const highlightedNodeIds = subgraphHighlights ? new Set(subgraphHighlights.nodeIds) : null;
+    const highlightedEdgeIds = subgraphHighlights ? new Set(subgraphHighlights.edgeIds) : null;
+    const nodeOpacity = (d: any) => (highlightedNodeIds && !highlightedNodeIds.has(d.id) ? 0.2 : null);
+    const edgeOpacity = (d: any) => (highlightedEdgeIds && !highlightedEdgeIds.has(d.id) ? 0.15 : null);
+
     // Update node styling
-    container.selectAll(".nodes circle")
+    container.selectAll(".nodes path")
       .attr("stroke", (d: any) => {
-        const isSelected = selectedItem?.type === 'node' && selectedItem.item.id === d.id;
+        const isSelected = isNodeSelected(d.id);
         const isHighlighted = searchHighlights.includes(d.id);
-        return isSelected ? '#ffffff' : isHighlighted ? '#f59e0b' : '#333';
+        const isMatched = !!highlightedNodeIds?.has(d.id);
+        return isSelected ? '#ffffff' : isHighlighted ? '#f59e0b' : isMatched ? '#22d3ee' : '#333';
       })
       .attr("stroke-width", (d: any) => {
-        const isSelected = selectedItem?.type === 'node' && selectedItem.item.id === d.id;
+        const isSelected = isNodeSelected(d.id);
         const isHighlighted = searchHighlights.includes(d.id);
-        return isSelected || isHighlighted ? 3 : 1;
-      });
+        const isMatched = !!highlightedNodeIds?.has(d.id);
+        return isSelected || isHighlighted || isMatched ? 3 : 1;
+      })
+      // Focus-mode boundary nodes can be expanded, shown with a dashed ring
+      .attr("stroke-dasharray", (d: any) => (boundaryNodeIds?.includes(d.id) ? "3,2" : null))
+      .style("opacity", nodeOpacity);
+
+    container.selectAll(".node-labels text, .node-icons text")
+      .style("opacity", nodeOpacity);
 
     // Update link styling
     container.selectAll(".links line")
       .attr("stroke", (d: any) => {
-        const isSelected = selectedItem?.type === 'edge' && selectedItem.item.id === d.id;
-        return isSelected ? '#ffffff' : '#6b7280';
+        const isSelected = isEdgeSelected(d.id);
+        const isMatched = !!highlightedEdgeIds?.has(d.id);
+        return isSelected ? '#ffffff' : isMatched ? '#22d3ee' : '#6b7280';
       })
       .attr("stroke-width", (d: any) => {
-        const isSelected = selectedItem?.type === 'edge' && selectedItem.item.id === d.id;
-        return isSelected ? 3 : 2;
+        const isSelected = isEdgeSelected(d.id);
+        const isMatched = !!highlightedEdgeIds?.has(d.id);
+        return isSelected || isMatched ? 3 : 2;
       })
       .attr("marker-end", (d: any) => {
         if (d.directed) {
-          const isSelected = selectedItem?.type === 'edge' && selectedItem.item.id === d.id;
-          return isSelected ? "url(#arrowhead-selected)" : "url(#arrowhead)";
+          const isSelected = isEdgeSelected(d.id);
+          const isMatched = !!highlightedEdgeIds?.has(d.id);
+          return isSelected ? "url(#arrowhead-selected)" : isMatched ? "url(#arrowhead-highlighted)" : "url(#arrowhead)";
         }
         return null;
-      });
-  }, [selectedItem, searchHighlights]);
+      })
+      .style("opacity", edgeOpacity);
 
-  // Handle context menu actions
-  const handleCreateEdgeFromContext = (targetNode: ForceGraphNode) => {
-    if (contextMenu.sourceNode && targetNode.id !== contextMenu.sourceNode.id) {
-      onCreateEdge(contextMenu.sourceNode.id, targetNode.id);
-    }
-    setContextMenu(prev => ({ ...prev, show: false }));
-  };
+    container.selectAll(".link-labels text")
+      .style("opacity", edgeOpacity);
+  }, [selectedItem, selection, searchHighlights, subgraphHighlights, boundaryNodeIds]);
 
-  const handleUnlinkEdge = (edgeId: string) => {
-    if (onDeleteEdge) {
-      onDeleteEdge(edgeId);
-    }
-    setContextMenu(prev => ({ ...prev, show: false }));
-  };
+  // Restyle nodes when a type is recolored, reshaped or given an icon
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const container = containerRef.current;
+
+    container.selectAll(".nodes path")
+      .attr("d", (d: any) => nodeShapePath(getNodeType(nodeTypes, d.type).shape, NODE_TYPE_CONFIG.NODE_RADIUS))
+      .attr("fill", (d: any) => getNodeType(nodeTypes, d.type).color);
+
+    container.selectAll(".node-icons text")
+      .text((d: any) => getNodeType(nodeTypes, d.type).icon ?? '');
+  }, [nodeTypes]);
+
+  const handleCloseContextMenu = useCallback(() => setContextMenu(null), []);
 
   return (
     <div className={`relative w-full h-full ${className}`}>
@@ -618,108 +861,21 @@ const GraphCanvas: React.FC<GraphCanvasProps> = ({
       />
       
       {/* Enhanced Context Menu for Edge Creation */}
-      {contextMenu.show && (() => {
-        const connectedNodesInfo = contextMenu.sourceNode ? getConnectedNodesInfo(contextMenu.sourceNode.id) : [];
-        const unconnectedNodes = contextMenu.sourceNode ? getUnconnectedNodes(contextMenu.sourceNode.id) : [];
-        
-        return (
-          <div
-            className="fixed z-50 bg-gray-800 border border-gray-600 rounded-md shadow-lg py-2 min-w-[250px] max-w-[350px]"
-            style={{ left: contextMenu.x, top: contextMenu.y }}
-            onClick={(e) => e.stopPropagation()}
-          >
-            <div className="px-3 py-1 text-sm text-gray-300 border-b border-gray-600">
-              Node: <span className="text-white font-medium">{contextMenu.sourceNode?.label}</span>
-            </div>
-            
-            {/* Connected Nodes Section */}
-            {connectedNodesInfo.length > 0 && (
-              <div className="border-b border-gray-600">
-                <div className="px-3 py-2 text-xs text-gray-400 font-medium uppercase tracking-wide">
-                  Connected Nodes ({connectedNodesInfo.length})
-                </div>
-                <div className="max-h-32 overflow-y-auto">
-                  {connectedNodesInfo.map(({ node, edgeId, isSource }) => (
-                    <div
-                      key={`connected-${node.id}`}
-                      className="px-3 py-2 text-sm text-white hover:bg-gray-700 flex items-center justify-between group"
-                    >
-                      <div className="flex items-center flex-1 min-w-0">
-                        <div 
-                          className="w-3 h-3 rounded-full mr-2 flex-shrink-0" 
-                          style={{ backgroundColor: NODE_TYPE_COLORS[node.type] || NODE_TYPE_COLORS.default }}
-                        />
-                        <span className="truncate">{node.label}</span>
-                        <div className="ml-2 flex-shrink-0">
-                          {isSource ? (
-                            <svg className="w-3 h-3 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
-                              <path fillRule="evenodd" d="M10.293 3.293a1 1 0 011.414 0l6 6a1 1 0 010 1.414l-6 6a1 1 0 01-1.414-1.414L14.586 11H3a1 1 0 110-2h11.586l-4.293-4.293a1 1 0 010-1.414z" clipRule="evenodd" />
-                            </svg>
-                          ) : (
-                            <svg className="w-3 h-3 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
-                              <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
-                            </svg>
-                          )}
-                        </div>
-                      </div>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleUnlinkEdge(edgeId);
-                        }}
-                        className="ml-2 p-1 rounded hover:bg-red-600 text-gray-400 hover:text-white transition-colors opacity-0 group-hover:opacity-100"
-                        title="Unlink"
-                      >
-                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                      </button>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-            
-            {/* Unconnected Nodes Section */}
-            {unconnectedNodes.length > 0 && (
-              <div>
-                <div className="px-3 py-2 text-xs text-gray-400 font-medium uppercase tracking-wide">
-                  Unconnected Nodes ({unconnectedNodes.length})
-                </div>
-                <div className="max-h-40 overflow-y-auto">
-                  {unconnectedNodes.map(node => (
-                    <button
-                      key={`unconnected-${node.id}`}
-                      className="w-full text-left px-3 py-2 text-sm text-white hover:bg-gray-700 flex items-center group"
-                      onClick={() => handleCreateEdgeFromContext(node)}
-                    >
-                      <div 
-                        className="w-3 h-3 rounded-full mr-2 flex-shrink-0" 
-                        style={{ backgroundColor: NODE_TYPE_COLORS[node.type] || NODE_TYPE_COLORS.default }}
-                      />
-                      <span className="truncate flex-1">{node.label}</span>
-                      <svg className="w-3 h-3 text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                      </svg>
-                    </button>
-                  ))}
-                </div>
-              </div>
-            )}
-            
-            {/* Empty state */}
-            {connectedNodesInfo.length === 0 && unconnectedNodes.length === 0 && (
-              <div className="px-3 py-4 text-sm text-gray-400 text-center">
-                No other nodes available
-              </div>
-            )}
-            
-            <div className="px-3 py-1 text-xs text-gray-500 border-t border-gray-600 mt-1">
-              Click to connect • X to unlink
-            </div>
-          </div>
-        );
-      })()}
+      {contextMenu && (
+        <NodeContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          sourceNode={contextMenu.node}
+          data={data}
+          nodeTypes={nodeTypes}
+          planConnection={planConnection}
+          onCreateEdge={onCreateEdge}
+          onDeleteEdge={onDeleteEdge}
+          onPickPathEndpoint={onPickPathEndpoint}
+          onFocusNode={onFocusNode}
+          onClose={handleCloseContextMenu}
+        />
+      )}
     </div>
   );
 };
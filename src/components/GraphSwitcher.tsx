@@ -0,0 +1,138 @@
+import React, { useState, useCallback } from 'react';
+import type { GraphSwitcherProps } from '../types/graph';
+
+// Which name the input at the bottom of the menu is for
+type NameEdit = { kind: 'create' } | { kind: 'rename'; id: string };
+
+const GraphSwitcher: React.FC<GraphSwitcherProps> = ({
+  graphs,
+  activeGraphId,
+  onSwitchGraph,
+  onCreateGraph,
+  onRenameGraph,
+  onDuplicateGraph,
+  onDeleteGraph
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [nameEdit, setNameEdit] = useState<NameEdit | null>(null);
+  const [name, setName] = useState('');
+
+  const activeGraph = graphs.find(graph => graph.id === activeGraphId);
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+    setNameEdit(null);
+  }, []);
+
+  const startNameEdit = useCallback((edit: NameEdit, initialName: string) => {
+    setNameEdit(edit);
+    setName(initialName);
+  }, []);
+
+  const handleNameSubmit = useCallback((event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed || !nameEdit) return;
+    if (nameEdit.kind === 'create') onCreateGraph(trimmed);
+    else onRenameGraph(nameEdit.id, trimmed);
+    close();
+  }, [name, nameEdit, onCreateGraph, onRenameGraph, close]);
+
+  const runAction = (action: () => void) => {
+    close();
+    action();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        className="btn btn-secondary btn-sm flex items-center space-x-1 max-w-[12rem]"
+        title="Switch, create or manage graphs"
+      >
+        <span className="truncate">{activeGraph?.name ?? 'Graph'}</span>
+        <span aria-hidden>▾</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-1 w-64 bg-gray-800 border border-gray-600 rounded-md shadow-lg py-1 z-20">
+          <div className="max-h-64 overflow-y-auto">
+            {graphs.map(graph => (
+              <button
+                key={graph.id}
+                onClick={() => runAction(() => onSwitchGraph(graph.id))}
+                className={`w-full text-left px-3 py-2 text-sm hover:bg-gray-700 truncate ${
+                  graph.id === activeGraphId ? 'text-blue-400 font-medium' : 'text-white'
+                }`}
+                title={graph.name}
+              >
+                {graph.id === activeGraphId ? '✓ ' : ''}{graph.name}
+              </button>
+            ))}
+          </div>
+
+          <div className="border-t border-gray-600 my-1" />
+
+          {nameEdit ? (
+            <form onSubmit={handleNameSubmit} className="px-3 py-2 space-y-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') setNameEdit(null);
+                }}
+                placeholder="Graph name"
+                autoFocus
+                className="form-input text-sm py-1"
+              />
+              <div className="flex justify-end space-x-2">
+                <button type="button" onClick={() => setNameEdit(null)} className="btn btn-secondary btn-sm">
+                  Cancel
+                </button>
+                <button type="submit" disabled={!name.trim()} className="btn btn-primary btn-sm disabled:opacity-50">
+                  {nameEdit.kind === 'create' ? 'Create' : 'Rename'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <button
+                onClick={() => startNameEdit({ kind: 'create' }, '')}
+                className="w-full text-left px-3 py-2 text-sm text-white hover:bg-gray-700"
+              >
+                New graph...
+              </button>
+              {activeGraph && (
+                <>
+                  <button
+                    onClick={() => startNameEdit({ kind: 'rename', id: activeGraph.id }, activeGraph.name)}
+                    className="w-full text-left px-3 py-2 text-sm text-white hover:bg-gray-700"
+                  >
+                    Rename "{activeGraph.name}"...
+                  </button>
+                  <button
+                    onClick={() => runAction(() => onDuplicateGraph(activeGraph.id))}
+                    className="w-full text-left px-3 py-2 text-sm text-white hover:bg-gray-700"
+                  >
+                    Duplicate
+                  </button>
+                  <button
+                    onClick={() => runAction(() => onDeleteGraph(activeGraph.id))}
+                    disabled={graphs.length <= 1}
+                    className="w-full text-left px-3 py-2 text-sm text-red-400 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title={graphs.length <= 1 ? 'The last graph can\'t be deleted' : undefined}
+                  >
+                    Delete...
+                  </button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GraphSwitcher;
@@ -1,10 +1,49 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo, useDeferredValue } from 'react';
 import GraphCanvas from './GraphCanvas';
+import CanvasGraphRenderer from './CanvasGraphRenderer';
 import Toolbar from './Toolbar';
 import PropertiesPanel from './PropertiesPanel';
 import ConfirmModal from './ConfirmModal';
+import MergeConflictDialog from './MergeConflictDialog';
 import ErrorBoundary from './ErrorBoundary';
-import { graphApi, debouncedUpdateNodePosition } from '../api/apiClient';
+import ImportPreviewModal from './ImportPreviewModal';
+import ImageExportModal from './ImageExportModal';
+import QueryConsole from './QueryConsole';
+import PathFinderPanel from './PathFinderPanel';
+import FocusBar from './FocusBar';
+import FilterPanel from './FilterPanel';
+import PhysicsPanel from './PhysicsPanel';
+import NodeTypeManager from './NodeTypeManager';
+import SchemaEditor from './SchemaEditor';
+import { offlineGraphApi, createTempId, isTempId } from '../api/offlineGraphApi';
+import { queueNodePositions, flushNodePositions, forgetNodePosition } from '../api/positionSync';
+import { newNodeRecord, newEdgeRecord } from '../api/graphRecords';
+import { isConflictError, describeFailure } from '../api/errors';
+import { logout } from '../api/auth';
+import { useCommandHistory } from '../hooks/useCommandHistory';
+import { useNodeTypeRegistry } from '../hooks/useNodeTypeRegistry';
+import { useGraphSchema } from '../hooks/useGraphSchema';
+import { usePhysicsSettings } from '../hooks/usePhysicsSettings';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { usePositionSyncStatus } from '../hooks/usePositionSyncStatus';
+import { useAuth } from '../hooks/useAuth';
+import { useCollaboration } from '../hooks/useCollaboration';
+import { useWorkspaces } from '../hooks/useWorkspaces';
+import { useUrlState } from '../hooks/useUrlState';
+import { isEditableTarget } from '../utils/keyboard';
+import { mapWithConcurrency } from '../utils/async';
+import { downloadFile } from '../utils/download';
+import { renderSvgToPng } from '../utils/imageExport';
+import { GRAPH_FORMATS, serializeGraph, parseGraph, detectGraphFormat } from '../utils/graphFormats';
+import { runGraphQuery } from '../utils/graphQuery';
+import { buildSearchIndex, searchGraph } from '../utils/graphSearch';
+import { findShortestPath, findAllSimplePaths } from '../utils/pathFinding';
+import { getKHopNeighborhood } from '../utils/graphAdjacency';
+import { EMPTY_FILTER, buildFilterFacets, applyGraphFilter, countHiddenEntries } from '../utils/graphFilter';
+import { edgeEndsOf, planEdge, validateEdge, applyPropertyDefaults } from '../utils/graphSchema';
+import { LAYOUTS, computeLayout } from '../utils/graphLayouts';
+import { buildMergeFields, hasTheirChanges, applyMergeChoices } from '../utils/threeWayMerge';
+import { IMPORT_CONFIG, FOCUS_CONFIG, RENDERER_CONFIG, LAYOUT_CONFIG, COLLAB_CONFIG } from '../types/constants';
 import type {
   GraphData,
   GraphNode,
@@ -13,20 +52,175 @@ import type {
   ForceGraphNode,
   ForceGraphEdge,
   SelectedItem,
+  GraphFormat,
+  ImageExportOptions,
+  ImageExportRegion,
+  StandaloneSvg,
+  ImportPreview,
+  ImportCollisionMode,
+  GraphSelection,
+  SelectionToggle,
+  MultiSelectionItems,
+  BulkUpdateRequest,
+  NodePosition,
+  QueryResult,
+  GraphPath,
+  PathEndpoint,
+  PathSearchOptions,
+  GraphFilter,
+  UrlState,
+  ViewTransform,
+  LayoutKind,
+  CreateNodeRequest,
+  CreateEdgeRequest,
   UpdateNodeRequest,
-  UpdateEdgeRequest
+  UpdateEdgeRequest,
+  CollabChange,
+  MergeConflict,
+  MergeChoice,
+  GraphViewProps
 } from '../types/graph';
 
-const GraphView: React.FC = () => {
+// Convert a ForceGraphEdge back to the basic GraphEdge shape used by the UI and API
+function toGraphEdge(edge: ForceGraphEdge): GraphEdge {
+  return {
+    id: edge.id,
+    _id: edge._id,
+    source: typeof edge.source === 'object' ? edge.source.id : edge.source,
+    target: typeof edge.target === 'object' ? edge.target.id : edge.target,
+    label: edge.label,
+    properties: edge.properties,
+    directed: edge.directed,
+    createdAt: edge.createdAt,
+    updatedAt: edge.updatedAt
+  };
+}
+
+// Give a node or edge a new ID; the node keeps its simulation state and its edges follow it
+function renameForceGraphItem(data: ForceGraphData, oldId: string, newId: string): ForceGraphData {
+  const renamedNode = data.nodes.find(node => node.id === oldId);
+  const replacement = renamedNode && { ...renamedNode, id: newId };
+  const follow = (node: ForceGraphNode) => (node === renamedNode ? replacement! : node);
+
+  return {
+    nodes: data.nodes.map(follow),
+    links: data.links.map(link => (link.id === oldId || link.source === renamedNode || link.target === renamedNode
+      ? { ...link, id: link.id === oldId ? newId : link.id, source: follow(link.source), target: follow(link.target) }
+      : link))
+  };
+}
+
+// Plain GraphData snapshot of the canvas data, without simulation state
+function toGraphData(data: ForceGraphData): GraphData {
+  return {
+    nodes: data.nodes.map(node => ({
+      id: node.id,
+      _id: node._id,
+      label: node.label,
+      type: node.type,
+      properties: node.properties,
+      x: node.x,
+      y: node.y,
+      fx: node.fx,
+      fy: node.fy,
+      createdAt: node.createdAt,
+      updatedAt: node.updatedAt
+    })),
+    edges: data.links.map(toGraphEdge)
+  };
+}
+
+// Copy of a properties bag with its description set, or removed when blank
+function withDescription(properties: Record<string, any> | undefined, description: string): Record<string, any> {
+  const next = { ...(properties || {}) };
+  if (description.trim()) {
+    next.description = description.trim();
+  } else {
+    delete next.description;
+  }
+  return next;
+}
+
+function toCreateNodeRequest(node: GraphNode): CreateNodeRequest {
+  return {
+    label: node.label,
+    type: node.type,
+    properties: node.properties,
+    x: node.x,
+    y: node.y
+  };
+}
+
+function toCreateEdgeRequest(edge: GraphEdge): CreateEdgeRequest {
+  return {
+    source: edge.source,
+    target: edge.target,
+    label: edge.label,
+    properties: edge.properties,
+    directed: edge.directed
+  };
+}
+
+// Values an update is about to overwrite, to put back if the server refuses it
+function previousValues<T extends object>(item: T, updates: object): Partial<T> {
+  const previous: Partial<T> = {};
+  (Object.keys(updates) as (keyof T)[]).forEach(key => {
+    previous[key] = item[key];
+  });
+  return previous;
+}
+
+// Error for a change the server did not accept, naming the item it was about
+function changeFailed(action: string, cause: unknown): Error {
+  console.error(`Could not ${action}:`, cause);
+  return new Error(describeFailure(action, cause));
+}
+
+const GraphView: React.FC<GraphViewProps> = ({ graphId }) => {
   // State management
   const [graphData, setGraphData] = useState<ForceGraphData>({ nodes: [], links: [] });
   const [selectedItem, setSelectedItem] = useState<SelectedItem | null>(null);
+  const [multiSelection, setMultiSelection] = useState<GraphSelection | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchHighlights, setSearchHighlights] = useState<string[]>([]);
   const [isPropertiesPanelOpen, setIsPropertiesPanelOpen] = useState(false);
 
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isImageExportOpen, setIsImageExportOpen] = useState(false);
+  const [isNodeTypeManagerOpen, setIsNodeTypeManagerOpen] = useState(false);
+  const [isSchemaEditorOpen, setIsSchemaEditorOpen] = useState(false);
+
+  const [isQueryConsoleOpen, setIsQueryConsoleOpen] = useState(false);
+  const [queryResult, setQueryResult] = useState<QueryResult | null>(null);
+  const [queryError, setQueryError] = useState<string | null>(null);
+
+  // Fixed layouts stay local until saved; `origins` are the positions from before the first one
+  const [activeLayout, setActiveLayout] = useState<LayoutKind>('force');
+  const [unsavedLayout, setUnsavedLayout] = useState<{
+    origins: Record<string, NodePosition>;
+    positions: Record<string, NodePosition>;
+  } | null>(null);
+
+  const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
+  const [isPhysicsPanelOpen, setIsPhysicsPanelOpen] = useState(false);
+  const [graphFilter, setGraphFilter] = useState<GraphFilter>(EMPTY_FILTER);
+
+  const [isPathFinderOpen, setIsPathFinderOpen] = useState(false);
+  const [pathEndpoints, setPathEndpoints] = useState<Record<PathEndpoint, string | null>>({ start: null, end: null });
+  const [pathResults, setPathResults] = useState<{ paths: GraphPath[]; truncated: boolean } | null>(null);
+  const [activePathIndex, setActivePathIndex] = useState(0);
+  const [pathError, setPathError] = useState<string | null>(null);
+
+  // Focus mode: node IDs whose neighborhoods are shown, in the order they were focused/expanded
+  const [focusTrail, setFocusTrail] = useState<string[]>([]);
+  const [focusHops, setFocusHops] = useState<number>(FOCUS_CONFIG.DEFAULT_HOPS);
+  // Nodes created while focused stay visible even though they are outside the neighborhood
+  const [focusAdditions, setFocusAdditions] = useState<string[]>([]);
+
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // The error banner offers a retry while it shows the failure the retry belongs to
+  const [retryableError, setRetryableError] = useState<{ message: string; retry: () => void } | null>(null);
   const [confirmModal, setConfirmModal] = useState<{
     isOpen: boolean;
     title: string;
@@ -38,10 +232,73 @@ const GraphView: React.FC = () => {
     message: '',
     onConfirm: () => {}
   });
+  // A save refused because someone else changed the item first, waiting for the user's merge
+  const [mergeConflict, setMergeConflict] = useState<{
+    conflict: MergeConflict;
+    onResolve: (choices: Record<string, MergeChoice>) => void;
+    onCancel: () => void;
+  } | null>(null);
 
   // Ref to track if initial data has been loaded to prevent double loading in StrictMode
   const hasLoadedInitialData = useRef(false);
 
+  // Latest graph data for async handlers that must not capture a stale render
+  const graphDataRef = useRef(graphData);
+  useEffect(() => {
+    graphDataRef.current = graphData;
+  }, [graphData]);
+
+  // Imperative canvas controls, filled in by GraphCanvas
+  const fitToScreenRef = useRef<(() => void) | null>(null);
+  const centerOnNodeRef = useRef<((nodeId: string) => void) | null>(null);
+  const moveNodesRef = useRef<((positions: Record<string, NodePosition>, duration?: number) => void) | null>(null);
+  const snapshotSvgRef = useRef<((region: ImageExportRegion, background: string | null) => StandaloneSvg | null) | null>(null);
+  const setViewRef = useRef<((view: ViewTransform) => void) | null>(null);
+
+  // Drag start positions, keyed by node ID, for undoable moves
+  const dragOriginsRef = useRef(new Map<string, NodePosition>());
+
+  // Undo/redo history
+  const {
+    push: pushHistory,
+    undo,
+    redo,
+    resolveId,
+    remapId,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel
+  } = useCommandHistory();
+
+  // User-defined node types
+  const { nodeTypes, createNodeType, updateNodeType, deleteNodeType } = useNodeTypeRegistry(graphId, setError);
+
+  // Property schemas and edge rules
+  const { schema, saveSchema } = useGraphSchema(graphId, setError);
+
+  // Connection state and queued offline changes
+  const syncStatus = useSyncStatus();
+  const positionSyncStatus = usePositionSyncStatus();
+
+  // Signed-in user; null while sign-in is turned off
+  const { session } = useAuth();
+
+  // The other graphs, and switching to them
+  const { graphs, switchGraph, createGraph, renameGraph, duplicateGraph, deleteGraph } = useWorkspaces(graphId, setError);
+
+  // Force simulation tuning from the physics panel
+  const { physics, updatePhysics } = usePhysicsSettings();
+
+  // Live sync with other users editing the same graph
+  const { status: collaboration, peers, publishChange, publishPresence, onRemoteChange, onReconnect } = useCollaboration(graphId);
+
+  // Label and schema problems of a new edge between two nodes
+  const planConnection = useCallback((sourceId: string, targetId: string) => {
+    const { nodes, links } = graphDataRef.current;
+    return planEdge(schema, nodes, edgeEndsOf(links), sourceId, targetId);
+  }, [schema]);
+
   // Convert backend data to force graph format
   const convertToForceGraphData = useCallback((data: GraphData): ForceGraphData => {
     const nodeMap = new Map<string, ForceGraphNode>();
@@ -90,12 +347,15 @@ const GraphView: React.FC = () => {
       hasLoadedInitialData.current = true;
       setIsLoading(true);
       setError(null);
-      const data = await graphApi.getGraph();
+      const { data, isCached } = await offlineGraphApi.loadGraph();
       const forceGraphData = convertToForceGraphData(data);
       setGraphData(forceGraphData);
+      if (isCached) {
+        setError('Server unreachable: showing the cached graph. Changes will sync when it is back.');
+      }
     } catch (err) {
       console.error('Failed to load graph:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load graph data');
+      setError(describeFailure('load the graph', err));
       // Reset the flag on error so user can retry
       hasLoadedInitialData.current = false;
     } finally {
@@ -108,91 +368,611 @@ const GraphView: React.FC = () => {
     loadGraphData();
   }, [loadGraphData]);
 
-  // Search functionality
-  const handleSearch = useCallback(async (query: string) => {
-    setSearchQuery(query);
-    
-    if (!query.trim()) {
-      setSearchHighlights([]);
+  // Give a locally created item its real ID everywhere the UI refers to it
+  const renameItem = useCallback((tempId: string, serverId: string) => {
+    const rename = (id: string) => (id === tempId ? serverId : id);
+    remapId(tempId, serverId);
+
+    setGraphData(prev => renameForceGraphItem(prev, tempId, serverId));
+    setSelectedItem(prev => {
+      if (!prev) return prev;
+      if (prev.type === 'node') return prev.item.id === tempId ? { type: 'node', item: { ...prev.item, id: serverId } } : prev;
+      const edge = prev.item as GraphEdge;
+      return edge.id === tempId || edge.source === tempId || edge.target === tempId
+        ? { type: 'edge', item: { ...edge, id: rename(edge.id), source: rename(edge.source), target: rename(edge.target) } }
+        : prev;
+    });
+    setMultiSelection(prev => prev && { nodeIds: prev.nodeIds.map(rename), edgeIds: prev.edgeIds.map(rename) });
+    setFocusTrail(prev => prev.map(rename));
+    setFocusAdditions(prev => prev.map(rename));
+    setPathEndpoints(prev => ({ start: prev.start && rename(prev.start), end: prev.end && rename(prev.end) }));
+  }, [remapId]);
+
+  // Items created offline get their server IDs when the queued changes are replayed
+  useEffect(() => offlineGraphApi.onIdRemap(renameItem), [renameItem]);
+
+  useEffect(() => offlineGraphApi.onSyncError(setError), []);
+
+  // Graph mutations: each call changes local state at once, then persists through the API and
+  // reconciles with its answer; if the server refuses, exactly that change is rolled back.
+  // They take IDs explicitly (never the current selection) so undo/redo can replay them later.
+
+  // Tell the other users about a saved change; changes queued offline (temporary IDs) are not announced
+  const announce = useCallback((change: CollabChange) => {
+    if (change.kind === 'nodesMoved') {
+      const positions = Object.fromEntries(Object.entries(change.positions).filter(([id]) => !isTempId(id)));
+      if (Object.keys(positions).length > 0) publishChange({ kind: 'nodesMoved', positions });
       return;
     }
-    
+    const ids = 'node' in change ? [change.node.id]
+      : 'edge' in change ? [change.edge.id, change.edge.source, change.edge.target]
+      : [change.id];
+    if (!ids.some(isTempId)) publishChange(change);
+  }, [publishChange]);
+
+  // Creates still waiting for the server, so changes to those items can wait for the real ID
+  const pendingCreatesRef = useRef(new Map<string, Promise<string>>());
+
+  const trackPendingCreate = useCallback((tempId: string, request: Promise<{ id: string }>) => {
+    const settled = request.then(item => item.id);
+    pendingCreatesRef.current.set(tempId, settled);
+    settled.catch(() => undefined).finally(() => pendingCreatesRef.current.delete(tempId));
+  }, []);
+
+  // The ID to send to the server for an item shown locally, once it has one
+  const settleId = useCallback(async (id: string): Promise<string> => {
+    return pendingCreatesRef.current.get(id) ?? id;
+  }, []);
+
+  // Merge fields into a node or edge in local state and in the selection
+  const patchNode = useCallback((id: string, fields: Partial<GraphNode>) => {
+    setGraphData(prev => ({
+      ...prev,
+      nodes: prev.nodes.map(node => (node.id === id ? { ...node, ...fields } : node))
+    }));
+    setSelectedItem(prev =>
+      prev?.type === 'node' && prev.item.id === id ? { type: 'node', item: { ...prev.item, ...fields } } : prev
+    );
+  }, []);
+
+  const patchEdge = useCallback((id: string, fields: Partial<Omit<GraphEdge, 'source' | 'target'>>) => {
+    setGraphData(prev => ({
+      ...prev,
+      links: prev.links.map(link => (link.id === id ? { ...link, ...fields } : link))
+    }));
+    setSelectedItem(prev =>
+      prev?.type === 'edge' && prev.item.id === id ? { type: 'edge', item: { ...prev.item as GraphEdge, ...fields } } : prev
+    );
+  }, []);
+
+  // Put back nodes and edges whose delete failed; edges only where both ends still exist
+  const restoreLocally = useCallback((nodes: ForceGraphNode[], links: ForceGraphEdge[]) => {
+    setGraphData(prev => {
+      const presentNodes = new Set(prev.nodes.map(node => node.id));
+      const presentLinks = new Set(prev.links.map(link => link.id));
+      const restoredNodes = nodes.filter(node => !presentNodes.has(node.id));
+      const nodesById = new Map([...prev.nodes, ...restoredNodes].map(node => [node.id, node]));
+      const restoredLinks = links.flatMap(link => {
+        const source = nodesById.get(link.source.id);
+        const target = nodesById.get(link.target.id);
+        return source && target && !presentLinks.has(link.id) ? [{ ...link, source, target }] : [];
+      });
+      return { nodes: [...prev.nodes, ...restoredNodes], links: [...prev.links, ...restoredLinks] };
+    });
+  }, []);
+
+  // Drop a node and its edges from local state and the selection
+  const removeNodeLocally = useCallback((id: string) => {
+    setGraphData(prev => ({
+      nodes: prev.nodes.filter(n => n.id !== id),
+      links: prev.links.filter(link => link.source.id !== id && link.target.id !== id)
+    }));
+
+    setSelectedItem(prev => {
+      if (!prev) return prev;
+      const isDeletedNode = prev.type === 'node' && prev.item.id === id;
+      const isCascadedEdge = prev.type === 'edge' &&
+        ((prev.item as GraphEdge).source === id || (prev.item as GraphEdge).target === id);
+      return isDeletedNode || isCascadedEdge ? null : prev;
+    });
+  }, []);
+
+  const removeEdgeLocally = useCallback((id: string) => {
+    setGraphData(prev => ({
+      ...prev,
+      links: prev.links.filter(link => link.id !== id)
+    }));
+
+    // If the deleted edge was selected, clear selection
+    setSelectedItem(prev => (prev?.type === 'edge' && prev.item.id === id ? null : prev));
+  }, []);
+
+  // How failure messages name an edge: by its label, or by the nodes it connects
+  const describeEdge = useCallback((label: string | undefined, sourceId: string, targetId: string) => {
+    if (label) return `edge "${label}"`;
+    const labelOf = (id: string) => graphDataRef.current.nodes.find(n => n.id === id)?.label ?? id;
+    return `edge from "${labelOf(sourceId)}" to "${labelOf(targetId)}"`;
+  }, []);
+
+  const applyCreateNode = useCallback((data: CreateNodeRequest, tempId: string = createTempId()): Promise<ForceGraphNode> => {
+    setGraphData(prev => ({
+      ...prev,
+      nodes: [...prev.nodes, newNodeRecord(tempId, data)]
+    }));
+
+    const request = offlineGraphApi.createNode(data).then(newNode => {
+      const nodeId = newNode._id || newNode.id;
+      renameItem(tempId, nodeId);
+      // Keep the position the node has reached on the canvas in the meantime
+      patchNode(nodeId, {
+        _id: newNode._id,
+        label: newNode.label,
+        type: newNode.type,
+        properties: newNode.properties,
+        createdAt: newNode.createdAt,
+        updatedAt: newNode.updatedAt
+      });
+      announce({ kind: 'nodeCreated', node: { ...newNode, id: nodeId } });
+      return { ...newNode, id: nodeId } as ForceGraphNode;
+    }, err => {
+      setGraphData(prev => ({
+        nodes: prev.nodes.filter(node => node.id !== tempId),
+        links: prev.links.filter(link => link.source.id !== tempId && link.target.id !== tempId)
+      }));
+      setSelectedItem(prev => (prev?.item.id === tempId ? null : prev));
+      throw changeFailed(`create node "${data.label}"`, err);
+    });
+
+    trackPendingCreate(tempId, request);
+    return request;
+  }, [renameItem, patchNode, trackPendingCreate, announce]);
+
+  const applyUpdateNode = useCallback(async (id: string, updates: UpdateNodeRequest, baseUpdatedAt?: string): Promise<GraphNode> => {
+    const localId = resolveId(id);
+    const current = graphDataRef.current.nodes.find(node => node.id === localId);
+    const previous = current && previousValues(current, updates);
+    patchNode(localId, updates);
+
+    let serverId = localId;
+    let updatedNode: GraphNode;
     try {
-      const results = await graphApi.searchNodes(query);
-      
-      // Sort results to prioritize exact matches first
-      const sortedResults = results.sort((a, b) => {
-        const aLabel = a.label.toLowerCase();
-        const bLabel = b.label.toLowerCase();
-        const queryLower = query.toLowerCase();
-        
-        // Exact match first
-        if (aLabel === queryLower && bLabel !== queryLower) return -1;
-        if (bLabel === queryLower && aLabel !== queryLower) return 1;
-        
-        // Starts with query second
-        if (aLabel.startsWith(queryLower) && !bLabel.startsWith(queryLower)) return -1;
-        if (bLabel.startsWith(queryLower) && !aLabel.startsWith(queryLower)) return 1;
-        
-        // Alphabetical order for the rest
-        return aLabel.localeCompare(bLabel);
+      serverId = await settleId(localId);
+      updatedNode = await offlineGraphApi.updateNode(serverId, updates, baseUpdatedAt);
+    } catch (err) {
+      if (isConflictError(err) && err.current) {
+        // Show what is stored now; the caller decides how to merge
+        const { label, type, properties, updatedAt } = err.current as GraphNode;
+        patchNode(serverId, { label, type, properties, updatedAt });
+        throw err;
+      }
+      if (previous) patchNode(serverId, previous);
+      throw changeFailed(`update node "${current?.label ?? localId}"`, err);
+    }
+
+    patchNode(serverId, { ...updatedNode, id: serverId });
+    announce({ kind: 'nodeUpdated', node: { ...updatedNode, id: serverId } });
+    return updatedNode;
+  }, [resolveId, settleId, patchNode, announce]);
+
+  const applyDeleteNode = useCallback(async (id: string) => {
+    const localId = resolveId(id);
+    const { nodes, links } = graphDataRef.current;
+    const node = nodes.find(n => n.id === localId);
+    const cascaded = links.filter(link => link.source.id === localId || link.target.id === localId);
+    removeNodeLocally(localId);
+
+    let serverId = localId;
+    try {
+      serverId = await settleId(localId);
+      forgetNodePosition(serverId, graphId);
+      await offlineGraphApi.deleteNode(serverId);
+    } catch (err) {
+      if (node) restoreLocally([node], cascaded);
+      throw changeFailed(`delete node "${node?.label ?? localId}"`, err);
+    }
+    announce({ kind: 'nodeDeleted', id: serverId });
+  }, [resolveId, settleId, removeNodeLocally, restoreLocally, announce, graphId]);
+
+  const applyCreateEdge = useCallback(async (data: CreateEdgeRequest, tempId: string = createTempId()): Promise<GraphEdge> => {
+    const sourceId = resolveId(data.source);
+    const targetId = resolveId(data.target);
+    const name = describeEdge(data.label, sourceId, targetId);
+
+    setGraphData(prev => {
+      const sourceNode = prev.nodes.find(n => n.id === sourceId);
+      const targetNode = prev.nodes.find(n => n.id === targetId);
+
+      if (!sourceNode || !targetNode) {
+        console.warn(`Edge references non-existent node: ${sourceId} -> ${targetId}`);
+        return prev;
+      }
+
+      const edge = newEdgeRecord(tempId, data);
+      return {
+        ...prev,
+        links: [...prev.links, { ...edge, source: sourceNode, target: targetNode }]
+      };
+    });
+
+    // An end that is still being created has to exist on the server first
+    const request = Promise.all([settleId(sourceId), settleId(targetId)])
+      .then(([source, target]) => offlineGraphApi.createEdge({ ...data, source, target }))
+      .then(newEdge => {
+        const edgeId = newEdge._id || newEdge.id;
+        renameItem(tempId, edgeId);
+        patchEdge(edgeId, {
+          _id: newEdge._id,
+          label: newEdge.label,
+          properties: newEdge.properties,
+          directed: newEdge.directed,
+          createdAt: newEdge.createdAt,
+          updatedAt: newEdge.updatedAt
+        });
+        announce({ kind: 'edgeCreated', edge: { ...newEdge, id: edgeId } });
+        return { ...newEdge, id: edgeId };
+      }, err => {
+        setGraphData(prev => ({ ...prev, links: prev.links.filter(link => link.id !== tempId) }));
+        setSelectedItem(prev => (prev?.item.id === tempId ? null : prev));
+        throw changeFailed(`create ${name}`, err);
       });
-      
-      const highlightIds = sortedResults.map(node => node._id || node.id);
-      setSearchHighlights(highlightIds);
-      
-      // Auto-center on the first matching node (which is now the best match)
-      if (sortedResults.length > 0 && centerOnNodeRef.current) {
-        const bestMatch = sortedResults[0];
-        const nodeId = bestMatch._id || bestMatch.id;
-        
-        // Small delay to ensure the highlighting is applied first
-        setTimeout(() => {
-          centerOnNodeRef.current?.(nodeId);
-        }, 100);
+
+    trackPendingCreate(tempId, request);
+    return request;
+  }, [resolveId, settleId, renameItem, patchEdge, describeEdge, trackPendingCreate, announce]);
+
+  const applyUpdateEdge = useCallback(async (id: string, updates: UpdateEdgeRequest, baseUpdatedAt?: string): Promise<GraphEdge> => {
+    const localId = resolveId(id);
+    const current = graphDataRef.current.links.find(link => link.id === localId);
+    const previous = current && previousValues(current, updates);
+    patchEdge(localId, updates);
+
+    let serverId = localId;
+    let updatedEdge: GraphEdge;
+    try {
+      serverId = await settleId(localId);
+      updatedEdge = await offlineGraphApi.updateEdge(serverId, updates, baseUpdatedAt);
+    } catch (err) {
+      if (isConflictError(err) && err.current) {
+        const { label, properties, directed, updatedAt } = err.current as GraphEdge;
+        patchEdge(serverId, { label, properties, directed, updatedAt });
+        throw err;
+      }
+      if (previous) patchEdge(serverId, previous);
+      const name = current ? describeEdge(current.label, current.source.id, current.target.id) : `edge ${localId}`;
+      throw changeFailed(`update ${name}`, err);
+    }
+
+    patchEdge(serverId, {
+      label: updatedEdge.label,
+      properties: updatedEdge.properties,
+      directed: updatedEdge.directed,
+      updatedAt: updatedEdge.updatedAt
+    });
+    announce({ kind: 'edgeUpdated', edge: { ...updatedEdge, id: serverId } });
+    return updatedEdge;
+  }, [resolveId, settleId, patchEdge, describeEdge, announce]);
+
+  const applyDeleteEdge = useCallback(async (id: string) => {
+    const localId = resolveId(id);
+    const edge = graphDataRef.current.links.find(link => link.id === localId);
+    removeEdgeLocally(localId);
+
+    let serverId = localId;
+    try {
+      serverId = await settleId(localId);
+      await offlineGraphApi.deleteEdge(serverId);
+    } catch (err) {
+      if (edge) restoreLocally([], [edge]);
+      const name = edge ? describeEdge(edge.label, edge.source.id, edge.target.id) : `edge ${localId}`;
+      throw changeFailed(`delete ${name}`, err);
+    }
+    announce({ kind: 'edgeDeleted', id: serverId });
+  }, [resolveId, settleId, removeEdgeLocally, restoreLocally, describeEdge, announce]);
+
+  // Move nodes on the canvas and in local state without saving them
+  const placeNodes = useCallback((positions: Record<string, NodePosition>, duration?: number) => {
+    moveNodesRef.current?.(positions, duration);
+
+    setGraphData(prev => ({
+      ...prev,
+      nodes: prev.nodes.map(n => {
+        const position = positions[n.id];
+        return position
+          ? { ...n, x: position.x, y: position.y, fx: position.fx ?? undefined, fy: position.fy ?? undefined }
+          : n;
+      })
+    }));
+  }, []);
+
+  // Nodes still being created are saved once they have their server ID
+  const settlePositions = useCallback(async (positions: Record<string, NodePosition>) => {
+    const entries = await Promise.all(
+      Object.entries(positions).map(async ([id, position]) => [await settleId(id), position] as const)
+    );
+    return Object.fromEntries(entries);
+  }, [settleId]);
+
+  const applyMoveNodes = useCallback(async (positions: Record<string, NodePosition>) => {
+    placeNodes(positions);
+    const settled = await settlePositions(positions);
+    await queueNodePositions(settled, graphId);
+    announce({ kind: 'nodesMoved', positions: settled });
+  }, [placeNodes, settlePositions, announce, graphId]);
+
+  // Changes saved by other users: merged into local state without restarting the simulation.
+  // They are not recorded in the undo history, which only holds this user's own edits.
+  const applyRemoteChange = useCallback((change: CollabChange) => {
+    switch (change.kind) {
+      case 'nodeCreated': {
+        const { node } = change;
+        setGraphData(prev => (prev.nodes.some(n => n.id === node.id) ? prev : { ...prev, nodes: [...prev.nodes, { ...node }] }));
+        break;
+      }
+      case 'nodeUpdated': {
+        const { node } = change;
+        patchNode(node.id, { label: node.label, type: node.type, properties: node.properties, updatedAt: node.updatedAt });
+        break;
       }
+      case 'nodeDeleted':
+        removeNodeLocally(change.id);
+        break;
+      case 'edgeCreated': {
+        const { edge } = change;
+        setGraphData(prev => {
+          const source = prev.nodes.find(n => n.id === edge.source);
+          const target = prev.nodes.find(n => n.id === edge.target);
+          if (!source || !target || prev.links.some(link => link.id === edge.id)) return prev;
+          return { ...prev, links: [...prev.links, { ...edge, source, target }] };
+        });
+        break;
+      }
+      case 'edgeUpdated': {
+        const { edge } = change;
+        patchEdge(edge.id, { label: edge.label, properties: edge.properties, directed: edge.directed, updatedAt: edge.updatedAt });
+        break;
+      }
+      case 'edgeDeleted':
+        removeEdgeLocally(change.id);
+        break;
+      case 'nodesMoved':
+        placeNodes(change.positions, COLLAB_CONFIG.MOVE_DURATION);
+        break;
+    }
+  }, [patchNode, patchEdge, removeNodeLocally, removeEdgeLocally, placeNodes]);
+
+  useEffect(() => onRemoteChange(applyRemoteChange), [onRemoteChange, applyRemoteChange]);
+
+  // Live sync was down, so changes the others made meanwhile were missed: merge in the server's
+  // graph. Own moves are saved first so the server's positions include them.
+  const catchUpWithServer = useCallback(async () => {
+    try {
+      await flushNodePositions();
+      const { data, isCached } = await offlineGraphApi.loadGraph();
+      // Own changes are still queued, so the server wasn't asked
+      if (isCached) return;
+
+      const server = convertToForceGraphData(data);
+
+      // Pins the others set or moved glide into place like their live moves
+      const current = new Map(graphDataRef.current.nodes.map(node => [node.id, node]));
+      const moved: Record<string, NodePosition> = {};
+      server.nodes.forEach(node => {
+        const local = current.get(node.id);
+        if (local && ((node.fx ?? null) !== (local.fx ?? null) || (node.fy ?? null) !== (local.fy ?? null))) {
+          moved[node.id] = { x: node.x, y: node.y, fx: node.fx ?? null, fy: node.fy ?? null };
+        }
+      });
+
+      // Nodes keep their place in the simulation; items still being created aren't on the server yet
+      setGraphData(prev => {
+        const localNodes = new Map(prev.nodes.map(node => [node.id, node]));
+        const nodes = [
+          ...server.nodes.map(node => {
+            const local = localNodes.get(node.id);
+            return local
+              ? { ...local, label: node.label, type: node.type, properties: node.properties, updatedAt: node.updatedAt }
+              : node;
+          }),
+          ...prev.nodes.filter(node => isTempId(node.id))
+        ];
+        const nodesById = new Map(nodes.map(node => [node.id, node]));
+        const links = [...server.links, ...prev.links.filter(link => isTempId(link.id))].flatMap(link => {
+          const source = nodesById.get(link.source.id);
+          const target = nodesById.get(link.target.id);
+          return source && target ? [{ ...link, source, target }] : [];
+        });
+        return { nodes, links };
+      });
+      if (Object.keys(moved).length > 0) placeNodes(moved, COLLAB_CONFIG.MOVE_DURATION);
+
+      // The selected item as the server has it, or none if it was deleted meanwhile
+      const serverNodes = new Map(server.nodes.map(node => [node.id, node]));
+      const serverLinks = new Map(server.links.map(link => [link.id, link]));
+      setSelectedItem(prev => {
+        if (!prev || isTempId(prev.item.id)) return prev;
+        if (prev.type === 'node') {
+          const node = serverNodes.get(prev.item.id);
+          return node
+            ? { type: 'node', item: { ...prev.item, label: node.label, type: node.type, properties: node.properties, updatedAt: node.updatedAt } }
+            : null;
+        }
+        const link = serverLinks.get(prev.item.id);
+        return link
+          ? { type: 'edge', item: { ...prev.item as GraphEdge, label: link.label, properties: link.properties, directed: link.directed, updatedAt: link.updatedAt } }
+          : null;
+      });
     } catch (err) {
-      console.error('Search failed:', err);
-      setSearchHighlights([]);
+      console.error('Failed to catch up after live sync reconnected:', err);
+      setError(describeFailure('load the changes made while live sync was disconnected', err));
+    }
+  }, [convertToForceGraphData, placeNodes]);
+
+  useEffect(() => onReconnect(() => { void catchUpWithServer(); }), [onReconnect, catchUpWithServer]);
+
+  // Delete edges first, then nodes (the server cascades their remaining edges)
+  const applyDeleteItems = useCallback(async (nodeIds: string[], edgeIds: string[]) => {
+    await Promise.all(edgeIds.map(id => applyDeleteEdge(id)));
+    await Promise.all(nodeIds.map(id => applyDeleteNode(id)));
+  }, [applyDeleteEdge, applyDeleteNode]);
+
+  // Recreate deleted nodes together with the edges that were cascaded away with them
+  const restoreItems = useCallback(async (nodes: GraphNode[], edges: GraphEdge[]) => {
+    for (const node of nodes) {
+      const restored = await applyCreateNode(toCreateNodeRequest(node));
+      remapId(node.id, restored.id);
+    }
+
+    for (const edge of edges) {
+      const recreated = await applyCreateEdge({
+        ...toCreateEdgeRequest(edge),
+        source: resolveId(edge.source),
+        target: resolveId(edge.target)
+      });
+      remapId(edge.id, recreated.id);
+    }
+  }, [applyCreateNode, applyCreateEdge, resolveId, remapId]);
+
+  // Map recorded positions onto the IDs their nodes have now
+  const resolvePositions = useCallback((positions: Record<string, NodePosition>) => {
+    const resolved: Record<string, NodePosition> = {};
+    Object.entries(positions).forEach(([id, position]) => {
+      resolved[resolveId(id)] = position;
+    });
+    return resolved;
+  }, [resolveId]);
+
+  // Selection: one item lives in selectedItem, two or more in multiSelection
+  const applySelection = useCallback((selection: GraphSelection) => {
+    const count = selection.nodeIds.length + selection.edgeIds.length;
+
+    if (count === 0) {
+      setSelectedItem(null);
+      setMultiSelection(null);
+      setIsPropertiesPanelOpen(false);
+      return;
+    }
+
+    if (count === 1) {
+      const { nodes, links } = graphDataRef.current;
+      const node = nodes.find(n => n.id === selection.nodeIds[0]);
+      const link = links.find(l => l.id === selection.edgeIds[0]);
+      setSelectedItem(
+        node ? { type: 'node', item: node } : link ? { type: 'edge', item: toGraphEdge(link) } : null
+      );
+      setMultiSelection(null);
+    } else {
+      setSelectedItem(null);
+      setMultiSelection(selection);
+    }
+    setIsPropertiesPanelOpen(true);
+  }, []);
+
+  const handleToggleSelection = useCallback((toggle: SelectionToggle) => {
+    const current: GraphSelection = multiSelection ?? {
+      nodeIds: selectedItem?.type === 'node' ? [selectedItem.item.id] : [],
+      edgeIds: selectedItem?.type === 'edge' ? [selectedItem.item.id] : []
+    };
+    const key = toggle.type === 'node' ? 'nodeIds' : 'edgeIds';
+    const ids = current[key].includes(toggle.id)
+      ? current[key].filter(id => id !== toggle.id)
+      : [...current[key], toggle.id];
+
+    applySelection({ ...current, [key]: ids });
+  }, [multiSelection, selectedItem, applySelection]);
+
+  const handleBoxSelect = useCallback((selection: GraphSelection) => {
+    applySelection(selection);
+  }, [applySelection]);
+
+  // Show the other users what is selected here
+  useEffect(() => {
+    if (multiSelection) {
+      publishPresence(multiSelection);
+    } else {
+      publishPresence({
+        nodeIds: selectedItem?.type === 'node' ? [selectedItem.item.id] : [],
+        edgeIds: selectedItem?.type === 'edge' ? [selectedItem.item.id] : []
+      });
     }
+  }, [selectedItem, multiSelection, publishPresence]);
+
+  const handlePointerMove = useCallback((cursor: { x: number; y: number } | null) => {
+    publishPresence({ cursor });
+  }, [publishPresence]);
+
+  // Drop items from the multi-selection once they no longer exist
+  useEffect(() => {
+    setMultiSelection(prev => {
+      if (!prev) return prev;
+      const nodeIds = prev.nodeIds.filter(id => graphData.nodes.some(n => n.id === id));
+      const edgeIds = prev.edgeIds.filter(id => graphData.links.some(l => l.id === id));
+      if (nodeIds.length === prev.nodeIds.length && edgeIds.length === prev.edgeIds.length) return prev;
+      return nodeIds.length + edgeIds.length > 1 ? { nodeIds, edgeIds } : null;
+    });
+  }, [graphData]);
+
+  const multiSelectionItems = useMemo<MultiSelectionItems | null>(() => {
+    if (!multiSelection) return null;
+    return {
+      nodes: graphData.nodes.filter(n => multiSelection.nodeIds.includes(n.id)),
+      edges: graphData.links.filter(l => multiSelection.edgeIds.includes(l.id)).map(toGraphEdge)
+    };
+  }, [multiSelection, graphData]);
+
+  // Show a failed change with a way to try it again
+  const reportFailure = useCallback((err: unknown, fallback: string, retry: () => void) => {
+    const message = err instanceof Error ? err.message : fallback;
+    setError(message);
+    setRetryableError({ message, retry });
   }, []);
 
   // Node operations
   const handleCreateNode = useCallback(async (event: { x: number; y: number }) => {
     console.log('🎯 Background clicked at coordinates:', event.x, event.y);
+    const request: CreateNodeRequest = {
+      label: `Node ${graphDataRef.current.nodes.length + 1}`,
+      type: 'default',
+      properties: applyPropertyDefaults(schema, 'default', {}),
+      x: event.x,
+      y: event.y
+    };
+    const tempId = createTempId();
+    const created = applyCreateNode(request, tempId);
+
+    // Auto-select the new node right away; the selection follows it to its server ID
+    setFocusAdditions(prev => [...prev, tempId]);
+    setMultiSelection(null);
+    setSelectedItem({ type: 'node', item: newNodeRecord(tempId, request) });
+    setIsPropertiesPanelOpen(true);
+
     try {
-      const newNode = await graphApi.createNode({
-        label: `Node ${graphData.nodes.length + 1}`,
-        type: 'default',
-        properties: {},
-        x: event.x,
-        y: event.y
+      const newNode = await created;
+
+      pushHistory({
+        label: `create node "${newNode.label}"`,
+        undo: () => applyDeleteNode(resolveId(newNode.id)),
+        redo: async () => {
+          const recreated = await applyCreateNode(request);
+          remapId(newNode.id, recreated.id);
+        }
       });
-      
-      const forceNode: ForceGraphNode = {
-        ...newNode,
-        id: newNode._id || newNode.id
-      };
-      
-      setGraphData(prev => ({
-        ...prev,
-        nodes: [...prev.nodes, forceNode]
-      }));
-      
-      // Auto-select new node
-      setSelectedItem({ type: 'node', item: newNode });
-      setIsPropertiesPanelOpen(true);
     } catch (err) {
-      console.error('Failed to create node:', err);
-      setError('Failed to create node');
+      setFocusAdditions(prev => prev.filter(id => id !== tempId));
+      reportFailure(err, 'Failed to create node', () => handleCreateNode(event));
     }
-  }, [graphData.nodes.length]);
+  }, [schema, applyCreateNode, applyDeleteNode, pushHistory, resolveId, remapId, reportFailure]);
 
   const handleNodeClick = useCallback((node: ForceGraphNode) => {
+    setMultiSelection(null);
     setSelectedItem({ type: 'node', item: node });
     setIsPropertiesPanelOpen(true);
   }, []);
 
+  const handleNodeDragStart = useCallback((node: ForceGraphNode) => {
+    // Remember where the drag started so the move can be undone
+    dragOriginsRef.current.set(node.id, { x: node.x, y: node.y, fx: node.fx, fy: node.fy });
+  }, []);
+
   const handleNodeDrag = useCallback((node: ForceGraphNode) => {
     // Update local position immediately for smooth UI
     setGraphData(prev => ({
@@ -204,137 +984,305 @@ const GraphView: React.FC = () => {
   }, []);
 
   const handleNodeDragEnd = useCallback((node: ForceGraphNode) => {
-    // Debounced API call to save position
-    debouncedUpdateNodePosition(node.id, node.x, node.y);
-  }, []);
+    const origin = dragOriginsRef.current.get(node.id);
+    dragOriginsRef.current.delete(node.id);
+
+    // Plain clicks also fire drag start/end; only save and record real moves
+    if (!origin || Math.hypot(node.x - origin.x, node.y - origin.y) < 1) return;
+
+    // Saved with other moves in the background; failures show in the toolbar's save status
+    // (and a node whose create fails is gone anyway)
+    const destination: NodePosition = { x: node.x, y: node.y, fx: node.x, fy: node.y };
+    settleId(node.id)
+      .then(async id => {
+        await queueNodePositions({ [id]: destination }, graphId);
+        announce({ kind: 'nodesMoved', positions: { [id]: destination } });
+      })
+      .catch(() => undefined);
+
+    pushHistory({
+      label: `move node "${node.label}"`,
+      undo: () => applyMoveNodes({ [resolveId(node.id)]: origin }),
+      redo: () => applyMoveNodes({ [resolveId(node.id)]: destination })
+    });
+  }, [applyMoveNodes, settleId, pushHistory, resolveId, announce, graphId]);
+
+  // A multi-selection was dragged together: save every member and record a single move
+  const handleNodeGroupDragEnd = useCallback((nodes: ForceGraphNode[]) => {
+    const origins: Record<string, NodePosition> = {};
+    const destinations: Record<string, NodePosition> = {};
+
+    nodes.forEach(node => {
+      const origin = dragOriginsRef.current.get(node.id);
+      dragOriginsRef.current.delete(node.id);
+      if (!origin) return;
+
+      const x = node.fx ?? node.x;
+      const y = node.fy ?? node.y;
+      origins[node.id] = origin;
+      destinations[node.id] = { x, y, fx: x, fy: y };
+    });
+
+    const [dragged] = nodes;
+    const draggedOrigin = origins[dragged?.id];
+    const draggedDestination = destinations[dragged?.id];
+    if (!draggedOrigin || !draggedDestination ||
+        Math.hypot(draggedDestination.x - draggedOrigin.x, draggedDestination.y - draggedOrigin.y) < 1) {
+      return;
+    }
+
+    applyMoveNodes(destinations).catch(err => {
+      console.error('Failed to save node positions:', err);
+      setError(describeFailure('save node positions', err));
+    });
+
+    pushHistory({
+      label: `move ${Object.keys(destinations).length} nodes`,
+      undo: () => applyMoveNodes(resolvePositions(origins)),
+      redo: () => applyMoveNodes(resolvePositions(destinations))
+    });
+  }, [applyMoveNodes, pushHistory, resolvePositions]);
 
   // Edge operations
   const handleCreateEdge = useCallback(async (sourceId: string, targetId: string) => {
+    const plan = planConnection(sourceId, targetId);
+    if (plan.blocked) {
+      setError(`Cannot connect: ${plan.violations.map(v => v.message).join('; ')}`);
+      return;
+    }
+
+    const request: CreateEdgeRequest = {
+      source: sourceId,
+      target: targetId,
+      label: plan.label,
+      properties: {},
+      directed: true
+    };
+    const tempId = createTempId();
+    const created = applyCreateEdge(request, tempId);
+
+    // Auto-select the new edge right away; the selection follows it to its server ID
+    setMultiSelection(null);
+    setSelectedItem({ type: 'edge', item: newEdgeRecord(tempId, request) });
+    setIsPropertiesPanelOpen(true);
+
+    // Auto-center on the source node of the newly created edge for better UX
+    if (centerOnNodeRef.current) {
+      setTimeout(() => {
+        centerOnNodeRef.current?.(sourceId);
+      }, 200);
+    }
+
     try {
-      const newEdge = await graphApi.createEdge({
-        source: sourceId,
-        target: targetId,
-        label: 'connects',
-        properties: {},
-        directed: true
-      });
-      
-      const sourceNode = graphData.nodes.find(n => n.id === sourceId);
-      const targetNode = graphData.nodes.find(n => n.id === targetId);
-      
-      if (!sourceNode || !targetNode) {
-        throw new Error('Source or target node not found');
-      }
-      
-      const forceEdge: ForceGraphEdge = {
-        ...newEdge,
-        id: newEdge._id || newEdge.id,
-        source: sourceNode,
-        target: targetNode
-      };
-      
-      setGraphData(prev => ({
-        ...prev,
-        links: [...prev.links, forceEdge]
-      }));
-      
-      // Auto-select new edge (convert back to basic edge for UI)
-      const basicEdge: GraphEdge = {
-        id: newEdge._id || newEdge.id,
-        _id: newEdge._id,
-        source: sourceId,
-        target: targetId,
-        label: newEdge.label,
-        properties: newEdge.properties,
-        directed: newEdge.directed,
-        createdAt: newEdge.createdAt,
-        updatedAt: newEdge.updatedAt
-      };
-      setSelectedItem({ type: 'edge', item: basicEdge });
-      setIsPropertiesPanelOpen(true);
-      
-      // Auto-center on the source node of the newly created edge for better UX
-      if (centerOnNodeRef.current) {
-        setTimeout(() => {
-          centerOnNodeRef.current?.(sourceId);
-        }, 200);
+      const newEdge = await created;
+      if (plan.violations.length > 0) {
+        setError(`Schema warning: ${plan.violations.map(v => v.message).join('; ')}`);
       }
+
+      pushHistory({
+        label: `connect "${newEdge.label}"`,
+        undo: () => applyDeleteEdge(resolveId(newEdge.id)),
+        redo: async () => {
+          const recreated = await applyCreateEdge({
+            ...request,
+            source: resolveId(sourceId),
+            target: resolveId(targetId)
+          });
+          remapId(newEdge.id, recreated.id);
+        }
+      });
     } catch (err) {
-      console.error('Failed to create edge:', err);
-      setError('Failed to create edge');
+      reportFailure(err, 'Failed to create edge', () => handleCreateEdge(sourceId, targetId));
     }
-  }, [graphData.nodes]);
+  }, [planConnection, applyCreateEdge, applyDeleteEdge, pushHistory, resolveId, remapId, reportFailure]);
 
   const handleEdgeClick = useCallback((edge: ForceGraphEdge) => {
     // Convert ForceGraphEdge back to basic GraphEdge for the UI
-    const basicEdge: GraphEdge = {
-      id: edge.id,
-      _id: edge._id,
-      source: typeof edge.source === 'object' ? edge.source.id : edge.source,
-      target: typeof edge.target === 'object' ? edge.target.id : edge.target,
-      label: edge.label,
-      properties: edge.properties,
-      directed: edge.directed,
-      createdAt: edge.createdAt,
-      updatedAt: edge.updatedAt
-    };
-    setSelectedItem({ type: 'edge', item: basicEdge });
+    setMultiSelection(null);
+    setSelectedItem({ type: 'edge', item: toGraphEdge(edge) });
     setIsPropertiesPanelOpen(true);
   }, []);
 
   // Update operations
-  const handleUpdateItem = useCallback(async (updates: UpdateNodeRequest | UpdateEdgeRequest) => {
-    if (!selectedItem) return;
-    
+  // Someone else saved the item first. If they changed nothing the edit covers, save on top of
+  // their version; otherwise let the user merge. Resolves once the merged version is saved.
+  const resolveConflict = useCallback((
+    target: SelectedItem,
+    mine: UpdateNodeRequest | UpdateEdgeRequest,
+    base: GraphNode | GraphEdge,
+    theirs: GraphNode | GraphEdge,
+    save: (merged: UpdateNodeRequest | UpdateEdgeRequest, newBase: GraphNode | GraphEdge) => Promise<void>
+  ): Promise<void> => {
+    const fields = buildMergeFields(target.type, base, mine, theirs);
+    if (!hasTheirChanges(fields)) return save(mine, theirs);
+
+    return new Promise((resolve, reject) => {
+      setMergeConflict({
+        conflict: { itemType: target.type, itemLabel: theirs.label, fields },
+        onResolve: choices => {
+          setMergeConflict(null);
+          save(applyMergeChoices(fields, choices), theirs).then(resolve, reject);
+        },
+        onCancel: () => {
+          setMergeConflict(null);
+          reject(new Error('Merge cancelled; the edits were not saved'));
+        }
+      });
+    });
+  }, []);
+
+  // `base` is the version the edit started from; without it the update overwrites whatever is stored
+  const updateItem = useCallback(async (
+    target: SelectedItem,
+    updates: UpdateNodeRequest | UpdateEdgeRequest,
+    base?: GraphNode | GraphEdge
+  ): Promise<void> => {
+    const id = target.item.id;
     try {
-      if (selectedItem.type === 'node') {
-        const updatedNode = await graphApi.updateNode(selectedItem.item.id, updates as UpdateNodeRequest);
-        const updatedId = (updatedNode as any)._id || (updatedNode as any).id;
-        
-        setGraphData(prev => ({
-          ...prev,
-          nodes: prev.nodes.map(node => 
-            node.id === updatedId ? { ...node, ...updatedNode } : node
-          )
-        }));
-        
-        // Preserve normalized id in selection
-        setSelectedItem({ type: 'node', item: { ...selectedItem.item, ...updatedNode } });
+      if (target.type === 'node') {
+        const node = target.item as GraphNode;
+        const previous: UpdateNodeRequest = {
+          label: node.label,
+          type: node.type,
+          properties: node.properties
+        };
+        await applyUpdateNode(id, updates as UpdateNodeRequest, base?.updatedAt);
+
+        pushHistory({
+          label: `edit node "${node.label}"`,
+          undo: async () => { await applyUpdateNode(resolveId(id), previous); },
+          redo: async () => { await applyUpdateNode(resolveId(id), updates as UpdateNodeRequest); }
+        });
       } else {
-        const updatedEdge = await graphApi.updateEdge(selectedItem.item.id, updates as UpdateEdgeRequest);
-        
-        // Find and update the edge while maintaining ForceGraph structure
-        setGraphData(prev => ({
-          ...prev,
-          links: prev.links.map(link => {
-            if (link.id === updatedEdge.id) {
-              return {
-                ...link,
-                label: updatedEdge.label,
-                properties: updatedEdge.properties,
-                directed: updatedEdge.directed,
-                updatedAt: updatedEdge.updatedAt
-              };
-            }
-            return link;
-          })
-        }));
-        
-        setSelectedItem({ type: 'edge', item: updatedEdge });
+        const edge = target.item as GraphEdge;
+        const previous: UpdateEdgeRequest = {
+          label: edge.label,
+          properties: edge.properties,
+          directed: edge.directed
+        };
+        await applyUpdateEdge(id, updates as UpdateEdgeRequest, base?.updatedAt);
+
+        pushHistory({
+          label: `edit edge "${edge.label}"`,
+          undo: async () => { await applyUpdateEdge(resolveId(id), previous); },
+          redo: async () => { await applyUpdateEdge(resolveId(id), updates as UpdateEdgeRequest); }
+        });
       }
     } catch (err) {
-      console.error('Failed to update item:', err);
-      setError('Failed to update item');
+      if (base && isConflictError(err) && err.current) {
+        const theirs = err.current;
+        return resolveConflict(target, updates, base, theirs, (merged, newBase) =>
+          updateItem({ type: target.type, item: theirs } as SelectedItem, merged, newBase));
+      }
+      reportFailure(err, 'Failed to update item', () => updateItem(target, updates, base));
     }
-  }, [selectedItem]);
+  }, [applyUpdateNode, applyUpdateEdge, pushHistory, resolveId, reportFailure, resolveConflict]);
+
+  const handleUpdateItem = useCallback(async (updates: UpdateNodeRequest | UpdateEdgeRequest, base: GraphNode | GraphEdge) => {
+    if (selectedItem) await updateItem(selectedItem, updates, base);
+  }, [selectedItem, updateItem]);
+
+  // Delete a single edge and record how to bring it back
+  const deleteEdgeWithHistory = useCallback(async (edgeId: string) => {
+    const link = graphDataRef.current.links.find(l => l.id === edgeId);
+    await applyDeleteEdge(edgeId);
+    if (!link) return;
+
+    const edge = toGraphEdge(link);
+    pushHistory({
+      label: `delete edge "${edge.label}"`,
+      undo: async () => {
+        const recreated = await applyCreateEdge({
+          ...toCreateEdgeRequest(edge),
+          source: resolveId(edge.source),
+          target: resolveId(edge.target)
+        });
+        remapId(edge.id, recreated.id);
+      },
+      redo: () => applyDeleteEdge(resolveId(edge.id))
+    });
+  }, [applyCreateEdge, applyDeleteEdge, pushHistory, resolveId, remapId]);
+
+  // Delete a single node and record how to bring it back with its cascaded edges
+  const deleteNodeWithHistory = useCallback(async (nodeId: string) => {
+    // Snapshot the node and its cascaded edges before they disappear
+    const { nodes, links } = graphDataRef.current;
+    const node = nodes.find(n => n.id === nodeId);
+    const edges = links
+      .filter(link => link.source.id === nodeId || link.target.id === nodeId)
+      .map(toGraphEdge);
 
-  // Delete operations
+    await applyDeleteNode(nodeId);
+    if (!node) return;
+
+    pushHistory({
+      label: `delete node "${node.label}"`,
+      undo: () => restoreItems([node], edges),
+      redo: () => applyDeleteNode(resolveId(nodeId))
+    });
+  }, [applyDeleteNode, restoreItems, pushHistory, resolveId]);
+
+  // Delete nodes and edges together; on a retry only what is still there is deleted
+  const deleteItemsWithHistory = useCallback(async (nodeIds: string[], edgeIds: string[]) => {
+    try {
+      // Snapshot everything that will disappear, including cascaded edges
+      const { nodes, links } = graphDataRef.current;
+      const deletedNodes = nodes.filter(n => nodeIds.includes(n.id));
+      const deletedNodeIds = new Set(deletedNodes.map(n => n.id));
+      const deletedEdges = links
+        .filter(link =>
+          edgeIds.includes(link.id) ||
+          deletedNodeIds.has(link.source.id) ||
+          deletedNodeIds.has(link.target.id)
+        )
+        .map(toGraphEdge);
+      const standaloneEdgeIds = deletedEdges
+        .filter(edge => !deletedNodeIds.has(edge.source) && !deletedNodeIds.has(edge.target))
+        .map(edge => edge.id);
+
+      await applyDeleteItems([...deletedNodeIds], standaloneEdgeIds);
+
+      pushHistory({
+        label: `delete ${deletedNodeIds.size + standaloneEdgeIds.length} items`,
+        undo: () => restoreItems(deletedNodes, deletedEdges),
+        redo: () => applyDeleteItems(
+          [...deletedNodeIds].map(resolveId),
+          standaloneEdgeIds.map(resolveId)
+        )
+      });
+    } catch (err) {
+      reportFailure(err, 'Failed to delete selected items', () => deleteItemsWithHistory(nodeIds, edgeIds));
+    }
+  }, [applyDeleteItems, restoreItems, pushHistory, resolveId, reportFailure]);
+
+  // Delete operations; the items disappear as soon as the deletion is confirmed
   const handleDeleteItem = useCallback(() => {
+    if (multiSelection) {
+      const nodeCount = multiSelection.nodeIds.length;
+      const edgeCount = multiSelection.edgeIds.length;
+
+      setConfirmModal({
+        isOpen: true,
+        title: `Delete ${nodeCount + edgeCount} items`,
+        message: `Are you sure you want to delete ${nodeCount} node${nodeCount === 1 ? '' : 's'} and ${
+          edgeCount} edge${edgeCount === 1 ? '' : 's'}?${
+          nodeCount > 0 ? ' This will also delete all edges connected to the selected nodes.' : ''
+        }`,
+        onConfirm: () => {
+          setConfirmModal(prev => ({ ...prev, isOpen: false }));
+          applySelection({ nodeIds: [], edgeIds: [] });
+          deleteItemsWithHistory(multiSelection.nodeIds, multiSelection.edgeIds);
+        }
+      });
+      return;
+    }
+
     if (!selectedItem) return;
     
     const isNode = selectedItem.type === 'node';
     const itemName = isNode ? 'node' : 'edge';
     const itemLabel = selectedItem.item.label || 'Unnamed';
+    const itemId = selectedItem.item.id;
     
     setConfirmModal({
       isOpen: true,
@@ -342,59 +1290,732 @@ const GraphView: React.FC = () => {
       message: `Are you sure you want to delete the ${itemName} "${itemLabel}"?${
         isNode ? ' This will also delete all connected edges.' : ''
       }`,
+      onConfirm: () => {
+        setSelectedItem(null);
+        setIsPropertiesPanelOpen(false);
+        setConfirmModal(prev => ({ ...prev, isOpen: false }));
+
+        const deleteItem = async () => {
+          try {
+            await (isNode ? deleteNodeWithHistory(itemId) : deleteEdgeWithHistory(itemId));
+          } catch (err) {
+            reportFailure(err, `Failed to delete ${itemName}`, deleteItem);
+          }
+        };
+        deleteItem();
+      }
+    });
+  }, [
+    selectedItem,
+    multiSelection,
+    deleteNodeWithHistory,
+    deleteEdgeWithHistory,
+    deleteItemsWithHistory,
+    applySelection,
+    reportFailure
+  ]);
+
+  // Bulk operations on the multi-selection
+  const handleBulkUpdate = useCallback(async (updates: BulkUpdateRequest) => {
+    if (!multiSelection) return;
+
+    const { nodes, links } = graphDataRef.current;
+    const nodeChanges: { id: string; previous: UpdateNodeRequest; next: UpdateNodeRequest }[] = [];
+    const edgeChanges: { id: string; previous: UpdateEdgeRequest; next: UpdateEdgeRequest }[] = [];
+
+    nodes.filter(n => multiSelection.nodeIds.includes(n.id)).forEach(node => {
+      const next: UpdateNodeRequest = {};
+      const previous: UpdateNodeRequest = {};
+      if (updates.type !== undefined) {
+        next.type = updates.type;
+        previous.type = node.type;
+      }
+      if (updates.description !== undefined) {
+        next.properties = withDescription(node.properties, updates.description);
+        previous.properties = node.properties;
+      }
+      if (Object.keys(next).length > 0) nodeChanges.push({ id: node.id, previous, next });
+    });
+
+    links.filter(l => multiSelection.edgeIds.includes(l.id)).forEach(link => {
+      const next: UpdateEdgeRequest = {};
+      const previous: UpdateEdgeRequest = {};
+      if (updates.label !== undefined) {
+        next.label = updates.label;
+        previous.label = link.label;
+      }
+      if (updates.directed !== undefined) {
+        next.directed = updates.directed;
+        previous.directed = link.directed;
+      }
+      if (updates.description !== undefined) {
+        next.properties = withDescription(link.properties, updates.description);
+        previous.properties = link.properties;
+      }
+      if (Object.keys(next).length > 0) edgeChanges.push({ id: link.id, previous, next });
+    });
+
+    const apply = (which: 'previous' | 'next') => Promise.all([
+      ...nodeChanges.map(change => applyUpdateNode(resolveId(change.id), change[which])),
+      ...edgeChanges.map(change => applyUpdateEdge(resolveId(change.id), change[which]))
+    ]).then(() => undefined);
+
+    try {
+      await apply('next');
+      pushHistory({
+        label: `edit ${nodeChanges.length + edgeChanges.length} items`,
+        undo: () => apply('previous'),
+        redo: () => apply('next')
+      });
+    } catch (err) {
+      console.error('Failed to update selection:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update selected items');
+    }
+  }, [multiSelection, applyUpdateNode, applyUpdateEdge, pushHistory, resolveId]);
+
+  // Node type registry
+  const nodeTypeUsage = useMemo(() => {
+    const counts: Record<string, number> = {};
+    graphData.nodes.forEach(node => {
+      const type = node.type || 'default';
+      counts[type] = (counts[type] ?? 0) + 1;
+    });
+    return counts;
+  }, [graphData]);
+
+  // Nodes of a deleted type become 'default'; that part can be undone
+  const handleDeleteNodeType = useCallback((id: string) => {
+    const affected = graphDataRef.current.nodes.filter(n => (n.type || 'default') === id);
+    if (affected.length === 0) {
+      deleteNodeType(id);
+      return;
+    }
+
+    const label = nodeTypes.find(type => type.id === id)?.label ?? id;
+    setConfirmModal({
+      isOpen: true,
+      title: 'Delete Node Type',
+      message: `${affected.length} node${affected.length === 1 ? ' uses' : 's use'} the type "${label}" and will be changed to Default.`,
       onConfirm: async () => {
+        const apply = (type: (node: ForceGraphNode) => string) => Promise.all(
+          affected.map(node => applyUpdateNode(resolveId(node.id), { type: type(node) }))
+        ).then(() => undefined);
+
         try {
-          if (isNode) {
-            await graphApi.deleteNode(selectedItem.item.id);
-            setGraphData(prev => ({
-              nodes: prev.nodes.filter(node => node.id !== selectedItem.item.id),
-              links: prev.links.filter(link => 
-                link.source.id !== selectedItem.item.id && link.target.id !== selectedItem.item.id
-              )
-            }));
-          } else {
-            await graphApi.deleteEdge(selectedItem.item.id);
-            setGraphData(prev => ({
-              ...prev,
-              links: prev.links.filter(link => link.id !== selectedItem.item.id)
-            }));
-          }
-          
-          setSelectedItem(null);
-          setIsPropertiesPanelOpen(false);
+          await apply(() => 'default');
+          deleteNodeType(id);
+          pushHistory({
+            label: `retype ${affected.length} nodes`,
+            undo: () => apply(node => node.type),
+            redo: () => apply(() => 'default')
+          });
           setConfirmModal(prev => ({ ...prev, isOpen: false }));
         } catch (err) {
-          console.error(`Failed to delete ${itemName}:`, err);
-          setError(`Failed to delete ${itemName}`);
+          console.error('Failed to change node types:', err);
+          setError(`Failed to change the type of nodes using "${label}"`);
         }
       }
     });
-  }, [selectedItem]);
+  }, [nodeTypes, deleteNodeType, applyUpdateNode, pushHistory, resolveId]);
+
+  const handleBulkPin = useCallback(async (pinned: boolean) => {
+    if (!multiSelection) return;
+
+    const previous: Record<string, NodePosition> = {};
+    const next: Record<string, NodePosition> = {};
+    graphDataRef.current.nodes
+      .filter(n => multiSelection.nodeIds.includes(n.id))
+      .forEach(node => {
+        previous[node.id] = { x: node.x, y: node.y, fx: node.fx ?? null, fy: node.fy ?? null };
+        next[node.id] = { x: node.x, y: node.y, fx: pinned ? node.x : null, fy: pinned ? node.y : null };
+      });
+
+    try {
+      await applyMoveNodes(next);
+      pushHistory({
+        label: `${pinned ? 'pin' : 'unpin'} ${Object.keys(next).length} nodes`,
+        undo: () => applyMoveNodes(resolvePositions(previous)),
+        redo: () => applyMoveNodes(resolvePositions(next))
+      });
+    } catch (err) {
+      console.error('Failed to pin nodes:', err);
+      setError(describeFailure(`${pinned ? 'pin' : 'unpin'} nodes`, err));
+    }
+  }, [multiSelection, applyMoveNodes, pushHistory, resolvePositions]);
+
+  const handleBulkConnect = useCallback(async (targetId: string, label: string) => {
+    if (!multiSelection) return;
+
+    // Skip nodes that already have an edge of this direction to the target
+    const existing = new Set(graphDataRef.current.links.map(l => `${l.source.id}->${l.target.id}`));
+    const candidateIds = multiSelection.nodeIds.filter(id => id !== targetId && !existing.has(`${id}->${targetId}`));
+
+    if (candidateIds.length === 0) {
+      setError('All selected nodes are already connected to that target');
+      return;
+    }
+
+    // Check each new edge against the schema, counting the ones accepted before it for cardinality
+    const { nodes, links } = graphDataRef.current;
+    const edges = edgeEndsOf(links);
+    const sourceIds: string[] = [];
+    const problems: string[] = [];
+    candidateIds.forEach(sourceId => {
+      const candidate = { label, sourceId, targetId };
+      const violations = validateEdge(schema, nodes, edges, candidate);
+      problems.push(...violations.map(v => v.message));
+      if (violations.length === 0 || schema.enforcement === 'warn') {
+        sourceIds.push(sourceId);
+        edges.push(candidate);
+      }
+    });
+
+    if (problems.length > 0) {
+      const skipped = candidateIds.length - sourceIds.length;
+      setError(schema.enforcement === 'enforce'
+        ? `Skipped ${skipped} of ${candidateIds.length} connections: ${problems[0]}${problems.length > 1 ? ` (+${problems.length - 1} more)` : ''}`
+        : `Schema warning: ${problems[0]}${problems.length > 1 ? ` (+${problems.length - 1} more)` : ''}`);
+    }
+    if (sourceIds.length === 0) return;
+
+    const requests: CreateEdgeRequest[] = sourceIds.map(source => ({
+      source,
+      target: targetId,
+      label,
+      properties: {},
+      directed: true
+    }));
+
+    try {
+      const created = await Promise.all(requests.map(request => applyCreateEdge(request)));
+      pushHistory({
+        label: `connect ${created.length} nodes`,
+        undo: async () => {
+          await Promise.all(created.map(edge => applyDeleteEdge(resolveId(edge.id))));
+        },
+        redo: async () => {
+          await Promise.all(requests.map(async (request, index) => {
+            const recreated = await applyCreateEdge({
+              ...request,
+              source: resolveId(request.source),
+              target: resolveId(request.target)
+            });
+            remapId(created[index].id, recreated.id);
+          }));
+        }
+      });
+    } catch (err) {
+      console.error('Failed to connect nodes:', err);
+      setError(err instanceof Error ? err.message : 'Failed to connect selected nodes');
+    }
+  }, [multiSelection, schema, applyCreateEdge, applyDeleteEdge, pushHistory, resolveId, remapId]);
 
   // Handle edge deletion from context menu (direct deletion without confirmation)
   const handleDeleteEdgeFromContext = useCallback(async (edgeId: string) => {
     try {
-      await graphApi.deleteEdge(edgeId);
-      setGraphData(prev => ({
-        ...prev,
-        links: prev.links.filter(link => link.id !== edgeId)
-      }));
-      
-      // If the deleted edge was selected, clear selection
-      if (selectedItem?.type === 'edge' && selectedItem.item.id === edgeId) {
-        setSelectedItem(null);
-        setIsPropertiesPanelOpen(false);
+      await deleteEdgeWithHistory(edgeId);
+    } catch (err) {
+      reportFailure(err, 'Failed to delete edge', () => handleDeleteEdgeFromContext(edgeId));
+    }
+  }, [deleteEdgeWithHistory, reportFailure]);
+
+  // File import/export
+  const handleExportGraph = useCallback((format: GraphFormat) => {
+    const { extension, mimeType } = GRAPH_FORMATS[format];
+    try {
+      const content = serializeGraph(toGraphData(graphDataRef.current), format, nodeTypes);
+      downloadFile(content, `knowledge-graph.${extension}`, mimeType);
+    } catch (err) {
+      console.error('Failed to export graph:', err);
+      setError(`Failed to export ${GRAPH_FORMATS[format].label}`);
+    }
+  }, [nodeTypes]);
+
+  const handleImportGraph = useCallback(async (file: File) => {
+    try {
+      const text = await file.text();
+      const format = detectGraphFormat(file.name, text);
+      if (!format) {
+        setError(`Unrecognized file format: ${file.name}`);
+        return;
+      }
+
+      const graph = parseGraph(text, format);
+      const { nodes, links } = graphDataRef.current;
+      const existingNodeIds = new Set(nodes.map(n => n.id));
+      const existingEdgeIds = new Set(links.map(l => l.id));
+      const importedNodeIds = new Set(graph.nodes.map(n => n.id));
+
+      setImportPreview({
+        fileName: file.name,
+        format,
+        graph,
+        nodeCollisions: graph.nodes.filter(n => existingNodeIds.has(n.id)).map(n => n.id),
+        edgeCollisions: graph.edges.filter(e => existingEdgeIds.has(e.id)).map(e => e.id),
+        danglingEdges: graph.edges.filter(e => !importedNodeIds.has(e.source) || !importedNodeIds.has(e.target)).length
+      });
+    } catch (err) {
+      console.error('Failed to read import file:', err);
+      setError(`Could not import ${file.name}: ${err instanceof Error ? err.message : 'invalid file'}`);
+    }
+  }, []);
+
+  const handleConfirmImport = useCallback(async (mode: ImportCollisionMode) => {
+    if (!importPreview) return;
+
+    const { graph } = importPreview;
+    const { nodes, links } = graphDataRef.current;
+    const existingNodeIds = new Set(nodes.map(n => n.id));
+    const existingEdgeIds = new Set(links.map(l => l.id));
+
+    // Imported node ID → ID of the node it ended up as in this graph
+    const idMap = new Map<string, string>();
+    const createdNodes: GraphNode[] = [];
+    const createdEdges: GraphEdge[] = [];
+
+    setIsImporting(true);
+    try {
+      const nodesToCreate = graph.nodes.filter(node => {
+        if (mode === 'skip' && existingNodeIds.has(node.id)) {
+          idMap.set(node.id, node.id);
+          return false;
+        }
+        return true;
+      });
+
+      await mapWithConcurrency(nodesToCreate, IMPORT_CONFIG.CONCURRENCY, async node => {
+        const created = await applyCreateNode(toCreateNodeRequest(node));
+        idMap.set(node.id, created.id);
+        createdNodes.push(created);
+      });
+
+      const edgesToCreate = graph.edges.filter(edge =>
+        idMap.has(edge.source) && idMap.has(edge.target) &&
+        !(mode === 'skip' && existingEdgeIds.has(edge.id))
+      );
+
+      await mapWithConcurrency(edgesToCreate, IMPORT_CONFIG.CONCURRENCY, async edge => {
+        const created = await applyCreateEdge({
+          ...toCreateEdgeRequest(edge),
+          source: idMap.get(edge.source)!,
+          target: idMap.get(edge.target)!
+        });
+        createdEdges.push(created);
+      });
+
+      setImportPreview(null);
+      setTimeout(() => fitToScreenRef.current?.(), 300);
+    } catch (err) {
+      console.error('Import failed:', err);
+      setError(`Import stopped after ${createdNodes.length} nodes and ${createdEdges.length} edges`);
+    } finally {
+      setIsImporting(false);
+
+      // Whatever made it in can be undone as one step
+      if (createdNodes.length + createdEdges.length > 0) {
+        pushHistory({
+          label: `import ${importPreview.fileName}`,
+          undo: () => applyDeleteItems(createdNodes.map(n => resolveId(n.id)), createdEdges.map(e => resolveId(e.id))),
+          redo: () => restoreItems(createdNodes, createdEdges)
+        });
+      }
+    }
+  }, [importPreview, applyCreateNode, applyCreateEdge, applyDeleteItems, restoreItems, pushHistory, resolveId]);
+
+  const handleExportImage = useCallback(async (options: ImageExportOptions) => {
+    setIsImageExportOpen(false);
+    try {
+      const svg = snapshotSvgRef.current?.(options.region, options.background);
+      if (!svg) throw new Error('Canvas is not ready');
+
+      if (options.format === 'svg') {
+        downloadFile(svg.markup, 'knowledge-graph.svg', 'image/svg+xml');
+      } else {
+        const png = await renderSvgToPng(svg, options.scale);
+        downloadFile(png, 'knowledge-graph.png');
+      }
+    } catch (err) {
+      console.error('Failed to export image:', err);
+      setError(`Failed to export ${options.format.toUpperCase()} image`);
+    }
+  }, []);
+
+  // Pattern queries run in the browser over the graph on the canvas
+  const handleRunQuery = useCallback((query: string) => {
+    try {
+      setQueryResult(runGraphQuery(query, graphDataRef.current));
+      setQueryError(null);
+    } catch (err) {
+      setQueryResult(null);
+      setQueryError(err instanceof Error ? err.message : 'Invalid query');
+    }
+  }, []);
+
+  const handleClearQuery = useCallback(() => {
+    setQueryResult(null);
+    setQueryError(null);
+  }, []);
+
+  const handleToggleQueryConsole = useCallback(() => {
+    setIsQueryConsoleOpen(open => !open);
+    handleClearQuery();
+  }, [handleClearQuery]);
+
+
+  const handleSelectQueryNode = useCallback((nodeId: string) => {
+    applySelection({ nodeIds: [nodeId], edgeIds: [] });
+    centerOnNodeRef.current?.(nodeId);
+  }, [applySelection]);
+
+  const handleSelectQueryEdge = useCallback((edgeId: string) => {
+    applySelection({ nodeIds: [], edgeIds: [edgeId] });
+  }, [applySelection]);
+
+  // Path finder
+  const clearPathResults = useCallback(() => {
+    setPathResults(null);
+    setActivePathIndex(0);
+    setPathError(null);
+  }, []);
+
+  const handleChangePathEndpoint = useCallback((endpoint: PathEndpoint, nodeId: string | null) => {
+    setPathEndpoints(prev => ({ ...prev, [endpoint]: nodeId }));
+    clearPathResults();
+  }, [clearPathResults]);
+
+  // Picked from the node context menu on the canvas
+  const handlePickPathEndpoint = useCallback((nodeId: string, endpoint: PathEndpoint) => {
+    handleChangePathEndpoint(endpoint, nodeId);
+    setIsPathFinderOpen(true);
+  }, [handleChangePathEndpoint]);
+
+  const handleSwapPathEndpoints = useCallback(() => {
+    setPathEndpoints(prev => ({ start: prev.end, end: prev.start }));
+    clearPathResults();
+  }, [clearPathResults]);
+
+  const handleTogglePathFinder = useCallback(() => {
+    setIsPathFinderOpen(open => !open);
+    clearPathResults();
+  }, [clearPathResults]);
+
+  // Bring the middle of a path into view
+  const centerOnPath = useCallback((path: GraphPath | undefined) => {
+    if (path) {
+      centerOnNodeRef.current?.(path.nodeIds[Math.floor(path.nodeIds.length / 2)]);
+    }
+  }, []);
+
+  const handleFindPaths = useCallback((options: PathSearchOptions) => {
+    const { start, end } = pathEndpoints;
+    if (!start || !end) return;
+
+    try {
+      const data = graphDataRef.current;
+      let results: { paths: GraphPath[]; truncated: boolean };
+      if (options.mode === 'shortest') {
+        const path = findShortestPath(data, start, end, options);
+        results = { paths: path ? [path] : [], truncated: false };
+      } else {
+        results = findAllSimplePaths(data, start, end, options);
       }
+
+      setPathResults(results);
+      setActivePathIndex(0);
+      setPathError(null);
+      centerOnPath(results.paths[0]);
+    } catch (err) {
+      setPathResults(null);
+      setPathError(err instanceof Error ? err.message : 'Path search failed');
+    }
+  }, [pathEndpoints, centerOnPath]);
+
+  const handleSelectPath = useCallback((index: number) => {
+    setActivePathIndex(index);
+    centerOnPath(pathResults?.paths[index]);
+  }, [pathResults, centerOnPath]);
+
+  // The active path wins over a query result when both are shown
+  const subgraphHighlights = useMemo<GraphSelection | null>(() => {
+    const activePath = pathResults?.paths[activePathIndex];
+    if (activePath) return { nodeIds: activePath.nodeIds, edgeIds: activePath.edgeIds };
+    if (queryResult) return { nodeIds: queryResult.nodeIds, edgeIds: queryResult.edgeIds };
+    return null;
+  }, [pathResults, activePathIndex, queryResult]);
+
+  // Filters
+  const filterFacets = useMemo(() => buildFilterFacets(graphData), [graphData]);
+  const filteredGraphData = useMemo(() => applyGraphFilter(graphData, graphFilter), [graphData, graphFilter]);
+  const hiddenFilterCount = countHiddenEntries(graphFilter);
+
+  const handleToggleFilterPanel = useCallback(() => {
+    setIsFilterPanelOpen(prev => !prev);
+  }, []);
+
+  const handleClearFilter = useCallback(() => {
+    setGraphFilter(EMPTY_FILTER);
+  }, []);
+
+  // Links: the URL carries the selection, view, search and filter (see utils/urlState.ts)
+  const restoreFromUrl = useCallback((state: UrlState): SelectionToggle | null => {
+    setGraphFilter(state.filter);
+    setSearchQuery(state.search);
+    if (state.view) setViewRef.current?.(state.view);
+
+    const { nodes, links } = graphDataRef.current;
+    const selection = state.selection;
+    const exists = !!selection && (selection.type === 'node'
+      ? nodes.some(n => n.id === selection.id)
+      : links.some(l => l.id === selection.id));
+    applySelection({
+      nodeIds: exists && selection.type === 'node' ? [selection.id] : [],
+      edgeIds: exists && selection.type === 'edge' ? [selection.id] : []
+    });
+    return exists ? selection : null;
+  }, [applySelection]);
+
+  const { handleViewChange } = useUrlState({
+    graphId,
+    isLoaded: !isLoading,
+    selectedItem,
+    searchQuery,
+    filter: graphFilter,
+    onRestore: restoreFromUrl
+  });
+
+  const handleTogglePhysicsPanel = useCallback(() => {
+    setIsPhysicsPanelOpen(prev => !prev);
+  }, []);
+
+  // Focus mode works on what the filter leaves visible
+  const focusNeighborhood = useMemo(
+    () => (focusTrail.length > 0 ? getKHopNeighborhood(filteredGraphData, focusTrail, focusHops) : null),
+    [filteredGraphData, focusTrail, focusHops]
+  );
+
+  // Only the filtered, focused part is handed to the canvas, so the layout runs on it alone
+  const visibleGraphData = useMemo<ForceGraphData>(() => {
+    if (!focusNeighborhood) return filteredGraphData;
+    const nodeIds = new Set([...focusNeighborhood.nodeIds, ...focusAdditions]);
+    return {
+      nodes: filteredGraphData.nodes.filter(n => nodeIds.has(n.id)),
+      links: filteredGraphData.links.filter(l => nodeIds.has(l.source.id) && nodeIds.has(l.target.id))
+    };
+  }, [filteredGraphData, focusNeighborhood, focusAdditions]);
+
+  // Search runs in the browser over the nodes on the canvas (see utils/graphSearch)
+  const searchIndex = useMemo(() => buildSearchIndex(visibleGraphData.nodes), [visibleGraphData]);
+  // Typing stays responsive on large graphs; the results catch up right after
+  const deferredSearchQuery = useDeferredValue(searchQuery);
+  const searchResults = useMemo(
+    () => searchGraph(searchIndex, deferredSearchQuery),
+    [searchIndex, deferredSearchQuery]
+  );
+  const searchHighlights = useMemo(() => searchResults.map(result => result.node.id), [searchResults]);
+
+  const handlePickSearchResult = useCallback((nodeId: string) => {
+    applySelection({ nodeIds: [nodeId], edgeIds: [] });
+    centerOnNodeRef.current?.(nodeId);
+  }, [applySelection]);
+
+  // Large graphs are drawn on a canvas; both renderers take the same props
+  const GraphRenderer = visibleGraphData.nodes.length > RENDERER_CONFIG.CANVAS_NODE_THRESHOLD
+    ? CanvasGraphRenderer
+    : GraphCanvas;
+
+  // Layouts arrange the visible nodes; fixed layouts pin them, the force layout releases them
+  const handleApplyLayout = useCallback((layout: LayoutKind) => {
+    const { nodes } = visibleGraphData;
+    if (nodes.length === 0) return;
+
+    if (layout === 'force') {
+      const released: Record<string, NodePosition> = {};
+      nodes.forEach(n => { released[n.id] = { x: n.x, y: n.y, fx: null, fy: null }; });
+      placeNodes(released);
+      setActiveLayout('force');
+      setUnsavedLayout(null);
+      return;
+    }
+
+    const origins: Record<string, NodePosition> = {};
+    nodes.forEach(n => { origins[n.id] = { x: n.x, y: n.y, fx: n.fx, fy: n.fy }; });
+
+    // Keep the arrangement where the nodes already are, so the view doesn't jump
+    const center = {
+      x: nodes.reduce((sum, n) => sum + n.x, 0) / nodes.length,
+      y: nodes.reduce((sum, n) => sum + n.y, 0) / nodes.length
+    };
+    const rootId = selectedItem?.type === 'node' ? selectedItem.item.id : null;
+
+    const positions: Record<string, NodePosition> = {};
+    Object.entries(computeLayout(layout, visibleGraphData, { center, rootId })).forEach(([id, { x, y }]) => {
+      positions[id] = { x, y, fx: x, fy: y };
+    });
+
+    placeNodes(positions, LAYOUT_CONFIG.ANIMATION_DURATION);
+    setActiveLayout(layout);
+    setUnsavedLayout(prev => ({ origins: { ...origins, ...prev?.origins }, positions }));
+    window.setTimeout(() => fitToScreenRef.current?.(), LAYOUT_CONFIG.ANIMATION_DURATION);
+  }, [visibleGraphData, selectedItem, placeNodes]);
+
+  // Persist the active layout's coordinates as one undoable step
+  const handleSaveLayout = useCallback(async () => {
+    if (!unsavedLayout) return;
+    const { origins, positions } = unsavedLayout;
+    setUnsavedLayout(null);
+
+    try {
+      const settled = await settlePositions(positions);
+      // Saved explicitly, so don't wait for the usual pause
+      const saved = queueNodePositions(settled, graphId);
+      void flushNodePositions();
+      await saved;
+      announce({ kind: 'nodesMoved', positions: settled });
+      pushHistory({
+        label: `${LAYOUTS[activeLayout].label.toLowerCase()} layout`,
+        undo: () => applyMoveNodes(resolvePositions(origins)),
+        redo: () => applyMoveNodes(resolvePositions(positions))
+      });
     } catch (err) {
-      console.error('Failed to delete edge:', err);
-      setError('Failed to delete edge');
+      console.error('Failed to save layout:', err);
+      setError(describeFailure('save layout positions', err));
+      setUnsavedLayout(unsavedLayout);
     }
-  }, [selectedItem]);
+  }, [unsavedLayout, activeLayout, applyMoveNodes, pushHistory, resolvePositions, settlePositions, announce, graphId]);
+
+  const boundaryNodeIds = useMemo(
+    () => (focusNeighborhood ? Array.from(focusNeighborhood.boundaryIds) : null),
+    [focusNeighborhood]
+  );
+
+  const focusTrailNodes = useMemo(
+    () => focusTrail
+      .map(id => graphData.nodes.find(n => n.id === id))
+      .filter((node): node is ForceGraphNode => !!node),
+    [focusTrail, graphData]
+  );
+
+  // Forget focused nodes once they are deleted
+  useEffect(() => {
+    setFocusTrail(prev => {
+      const remaining = prev.filter(id => graphData.nodes.some(n => n.id === id));
+      return remaining.length === prev.length ? prev : remaining;
+    });
+  }, [graphData]);
+
+  const changeFocus = useCallback((update: (trail: string[]) => string[]) => {
+    setFocusTrail(update);
+    setFocusAdditions([]);
+    // Let the new subgraph settle before framing it
+    setTimeout(() => fitToScreenRef.current?.(), 300);
+  }, []);
+
+  const handleFocusNode = useCallback((nodeId: string) => {
+    changeFocus(() => [nodeId]);
+  }, [changeFocus]);
+
+  // Double-clicking a boundary node adds its neighborhood to the view
+  const handleNodeDoubleClick = useCallback((node: ForceGraphNode) => {
+    if (focusNeighborhood?.boundaryIds.has(node.id)) {
+      changeFocus(prev => [...prev, node.id]);
+    }
+  }, [focusNeighborhood, changeFocus]);
+
+  const handleFocusStepBack = useCallback((index: number) => {
+    changeFocus(prev => prev.slice(0, index + 1));
+  }, [changeFocus]);
+
+  const handleExitFocus = useCallback(() => {
+    changeFocus(() => []);
+  }, [changeFocus]);
+
+  const handleChangeFocusHops = useCallback((hops: number) => {
+    setFocusHops(hops);
+  }, []);
+
+  const handleDeleteGraph = useCallback((id: string) => {
+    const graph = graphs.find(g => g.id === id);
+    setConfirmModal({
+      isOpen: true,
+      title: 'Delete graph',
+      message: `Are you sure you want to delete the graph "${graph?.name ?? id}" with all its nodes and edges? This cannot be undone.`,
+      onConfirm: () => {
+        setConfirmModal(prev => ({ ...prev, isOpen: false }));
+        void deleteGraph(id);
+      }
+    });
+  }, [graphs, deleteGraph]);
+
+  // Moved nodes are saved with the current token before it is thrown away
+  const handleLogout = useCallback(async () => {
+    try {
+      await flushNodePositions();
+    } catch (err) {
+      console.error('Failed to save node positions before signing out:', err);
+    }
+    await logout();
+  }, []);
+
+  // Undo/redo
+  const handleUndo = useCallback(async () => {
+    try {
+      await undo();
+    } catch (err) {
+      console.error('Undo failed:', err);
+      setError('Failed to undo the last change');
+    }
+  }, [undo]);
+
+  const handleRedo = useCallback(async () => {
+    try {
+      await redo();
+    } catch (err) {
+      console.error('Redo failed:', err);
+      setError('Failed to redo the last change');
+    }
+  }, [redo]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Selection shortcuts: Escape clears, Delete removes, Ctrl+A selects everything
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target) || confirmModal.isOpen) return;
+
+      if (event.key === 'Escape') {
+        applySelection({ nodeIds: [], edgeIds: [] });
+      } else if ((event.key === 'Delete' || event.key === 'Backspace') && (selectedItem || multiSelection)) {
+        event.preventDefault();
+        handleDeleteItem();
+      } else if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'a') {
+        event.preventDefault();
+        // Only what is on screen; nodes hidden by focus mode stay unselected
+        const { nodes, links } = visibleGraphData;
+        applySelection({ nodeIds: nodes.map(n => n.id), edgeIds: links.map(l => l.id) });
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [applySelection, handleDeleteItem, selectedItem, multiSelection, confirmModal.isOpen, visibleGraphData]);
 
   // UI controls
-  const fitToScreenRef = useRef<(() => void) | null>(null);
-  const centerOnNodeRef = useRef<((nodeId: string) => void) | null>(null);
-  
   const handleFitToScreen = useCallback(() => {
     if (fitToScreenRef.current) {
       fitToScreenRef.current();
@@ -406,6 +2027,7 @@ const GraphView: React.FC = () => {
   const handleClosePropertiesPanel = useCallback(() => {
     setIsPropertiesPanelOpen(false);
     setSelectedItem(null);
+    setMultiSelection(null);
   }, []);
 
   const handleCloseConfirmModal = useCallback(() => {
@@ -427,12 +2049,26 @@ const GraphView: React.FC = () => {
         <div className="absolute top-0 left-0 right-0 bg-red-600 text-white px-4 py-2 z-30 animate-fade-in">
           <div className="flex justify-between items-center">
             <span>{error}</span>
-            <button
-              onClick={() => setError(null)}
-              className="text-white hover:text-gray-200"
-            >
-              ×
-            </button>
+            <div className="flex items-center space-x-3">
+              {retryableError?.message === error && (
+                <button
+                  onClick={() => {
+                    setError(null);
+                    setRetryableError(null);
+                    retryableError.retry();
+                  }}
+                  className="px-2 py-0.5 rounded border border-white text-sm hover:bg-red-700"
+                >
+                  Retry
+                </button>
+              )}
+              <button
+                onClick={() => setError(null)}
+                className="text-white hover:text-gray-200"
+              >
+                ×
+              </button>
+            </div>
           </div>
         </div>
       )}
@@ -450,35 +2086,197 @@ const GraphView: React.FC = () => {
       {/* Toolbar */}
       <Toolbar
         searchQuery={searchQuery}
-        onSearchChange={handleSearch}
+        searchResults={searchResults}
+        onSearchChange={setSearchQuery}
+        onPickSearchResult={handlePickSearchResult}
+        graphSwitcher={{
+          graphs,
+          activeGraphId: graphId,
+          onSwitchGraph: switchGraph,
+          onCreateGraph: createGraph,
+          onRenameGraph: renameGraph,
+          onDuplicateGraph: duplicateGraph,
+          onDeleteGraph: handleDeleteGraph
+        }}
         onFitToScreen={handleFitToScreen}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        undoLabel={undoLabel}
+        redoLabel={redoLabel}
+        onExportGraph={handleExportGraph}
+        onImportGraph={handleImportGraph}
+        onExportImage={() => setIsImageExportOpen(true)}
+        isQueryConsoleOpen={isQueryConsoleOpen}
+        onToggleQueryConsole={handleToggleQueryConsole}
+        isPathFinderOpen={isPathFinderOpen}
+        onTogglePathFinder={handleTogglePathFinder}
+        isFilterPanelOpen={isFilterPanelOpen}
+        onToggleFilterPanel={handleToggleFilterPanel}
+        hiddenFilterCount={hiddenFilterCount}
+        onClearFilter={handleClearFilter}
+        onManageNodeTypes={() => setIsNodeTypeManagerOpen(true)}
+        onManageSchema={() => setIsSchemaEditorOpen(true)}
+        syncStatus={syncStatus}
+        positionSyncStatus={positionSyncStatus}
+        collaboration={collaboration}
+        user={session?.user ?? null}
+        onLogout={handleLogout}
+        isPhysicsPanelOpen={isPhysicsPanelOpen}
+        onTogglePhysicsPanel={handleTogglePhysicsPanel}
+        activeLayout={activeLayout}
+        hasUnsavedLayout={unsavedLayout !== null}
+        onApplyLayout={handleApplyLayout}
+        onSaveLayout={handleSaveLayout}
       />
       
       {/* Graph canvas */}
       <ErrorBoundary>
-        <GraphCanvas
-          data={graphData}
+        <GraphRenderer
+          data={visibleGraphData}
           selectedItem={selectedItem}
+          selection={multiSelection}
           searchHighlights={searchHighlights}
+          subgraphHighlights={subgraphHighlights}
+          boundaryNodeIds={boundaryNodeIds}
+          nodeTypes={nodeTypes}
+          physics={physics}
+          peers={peers}
           onNodeClick={handleNodeClick}
           onEdgeClick={handleEdgeClick}
           onBackgroundClick={handleCreateNode}
+          onNodeDragStart={handleNodeDragStart}
           onNodeDrag={handleNodeDrag}
           onNodeDragEnd={handleNodeDragEnd}
+          onNodeGroupDragEnd={handleNodeGroupDragEnd}
+          onToggleSelection={handleToggleSelection}
+          onBoxSelect={handleBoxSelect}
           onCreateEdge={handleCreateEdge}
+          planConnection={planConnection}
           onDeleteEdge={handleDeleteEdgeFromContext}
+          onPickPathEndpoint={handlePickPathEndpoint}
+          onFocusNode={handleFocusNode}
+          onNodeDoubleClick={handleNodeDoubleClick}
+          onPointerMove={handlePointerMove}
           onFitToScreen={fitToScreenRef}
           onCenterOnNode={centerOnNodeRef}
+          onMoveNodes={moveNodesRef}
+          onSnapshotSvg={snapshotSvgRef}
+          onSetView={setViewRef}
+          onViewChange={handleViewChange}
         />
       </ErrorBoundary>
       
+      {/* Focus mode breadcrumbs */}
+      <FocusBar
+        trail={focusTrailNodes}
+        nodeTypes={nodeTypes}
+        hops={focusHops}
+        visibleCount={visibleGraphData.nodes.length}
+        totalCount={graphData.nodes.length}
+        onChangeHops={handleChangeFocusHops}
+        onStepBack={handleFocusStepBack}
+        onExit={handleExitFocus}
+      />
+      
+      {/* Query console */}
+      <QueryConsole
+        isOpen={isQueryConsoleOpen}
+        result={queryResult}
+        error={queryError}
+        nodeTypes={nodeTypes}
+        onRun={handleRunQuery}
+        onClear={handleClearQuery}
+        onClose={handleToggleQueryConsole}
+        onSelectNode={handleSelectQueryNode}
+        onSelectEdge={handleSelectQueryEdge}
+      />
+      
+      {/* Left-hand panels, side by side when several are open */}
+      <div className="absolute top-20 bottom-8 left-4 z-20 flex items-start space-x-3 pointer-events-none">
+        <FilterPanel
+          isOpen={isFilterPanelOpen}
+          facets={filterFacets}
+          filter={graphFilter}
+          nodeTypes={nodeTypes}
+          onChange={setGraphFilter}
+          onClose={handleToggleFilterPanel}
+        />
+        <PathFinderPanel
+          isOpen={isPathFinderOpen}
+          nodes={graphData.nodes}
+          nodeTypes={nodeTypes}
+          startId={pathEndpoints.start}
+          endId={pathEndpoints.end}
+          paths={pathResults?.paths ?? null}
+          truncated={pathResults?.truncated ?? false}
+          activePathIndex={activePathIndex}
+          error={pathError}
+          onChangeEndpoint={handleChangePathEndpoint}
+          onSwapEndpoints={handleSwapPathEndpoints}
+          onFind={handleFindPaths}
+          onSelectPath={handleSelectPath}
+          onClose={handleTogglePathFinder}
+        />
+        <PhysicsPanel
+          isOpen={isPhysicsPanelOpen}
+          settings={physics}
+          onChange={updatePhysics}
+          onClose={handleTogglePhysicsPanel}
+        />
+      </div>
+      
       {/* Properties panel */}
       <PropertiesPanel
         selectedItem={selectedItem}
+        multiSelection={multiSelectionItems}
+        allNodes={graphData.nodes}
+        allEdges={graphData.links}
+        nodeTypes={nodeTypes}
+        schema={schema}
         isOpen={isPropertiesPanelOpen}
         onClose={handleClosePropertiesPanel}
         onUpdateItem={handleUpdateItem}
         onDeleteItem={handleDeleteItem}
+        onBulkUpdate={handleBulkUpdate}
+        onBulkPin={handleBulkPin}
+        onBulkConnect={handleBulkConnect}
+      />
+      
+      {/* Import preview */}
+      <ImportPreviewModal
+        preview={importPreview}
+        isImporting={isImporting}
+        onConfirm={handleConfirmImport}
+        onCancel={() => setImportPreview(null)}
+      />
+      
+      {/* Image export options */}
+      <ImageExportModal
+        isOpen={isImageExportOpen}
+        onExport={handleExportImage}
+        onCancel={() => setIsImageExportOpen(false)}
+      />
+      
+      {/* Node type registry */}
+      <NodeTypeManager
+        isOpen={isNodeTypeManagerOpen}
+        nodeTypes={nodeTypes}
+        usageCounts={nodeTypeUsage}
+        onCreate={createNodeType}
+        onUpdate={updateNodeType}
+        onDelete={handleDeleteNodeType}
+        onClose={() => setIsNodeTypeManagerOpen(false)}
+      />
+      
+      {/* Property schemas and edge rules */}
+      <SchemaEditor
+        isOpen={isSchemaEditorOpen}
+        schema={schema}
+        nodeTypes={nodeTypes}
+        onSave={saveSchema}
+        onClose={() => setIsSchemaEditorOpen(false)}
       />
       
       {/* Confirm modal */}
@@ -489,6 +2287,13 @@ const GraphView: React.FC = () => {
         onConfirm={confirmModal.onConfirm}
         onCancel={handleCloseConfirmModal}
       />
+
+      {/* Three-way merge after a conflicting save */}
+      <MergeConflictDialog
+        conflict={mergeConflict?.conflict ?? null}
+        onResolve={choices => mergeConflict?.onResolve(choices)}
+        onCancel={() => mergeConflict?.onCancel()}
+      />
     </div>
   );
 };
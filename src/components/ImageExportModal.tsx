@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { IMAGE_EXPORT_CONFIG } from '../types/constants';
+import type { ImageExportModalProps, ImageExportOptions, ImageExportRegion } from '../types/graph';
+
+const ImageExportModal: React.FC<ImageExportModalProps> = ({
+  isOpen,
+  onExport,
+  onCancel
+}) => {
+  const [format, setFormat] = useState<ImageExportOptions['format']>('png');
+  const [region, setRegion] = useState<ImageExportRegion>('graph');
+  const [scale, setScale] = useState<number>(IMAGE_EXPORT_CONFIG.DEFAULT_SCALE);
+  const [isTransparent, setIsTransparent] = useState(false);
+  const [backgroundColor, setBackgroundColor] = useState<string>(IMAGE_EXPORT_CONFIG.DEFAULT_BACKGROUND);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleExport = () => {
+    onExport({
+      format,
+      region,
+      scale: format === 'png' ? scale : 1,
+      background: isTransparent ? null : backgroundColor
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={onCancel}
+      />
+
+      {/* Modal */}
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
+        <div className="relative inline-block align-bottom bg-gray-800 rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-md sm:w-full sm:p-6">
+          <h3 className="text-lg leading-6 font-medium text-white">
+            Export Image
+          </h3>
+
+          <div className="mt-4 space-y-4 text-sm text-gray-300">
+            {/* Format */}
+            <div>
+              <div className="font-medium mb-2">Format</div>
+              <div className="flex space-x-4">
+                {(['png', 'svg'] as const).map(option => (
+                  <label key={option} className="flex items-center space-x-2">
+                    <input type="radio" checked={format === option} onChange={() => setFormat(option)} />
+                    <span>{option.toUpperCase()}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Region */}
+            <div>
+              <div className="font-medium mb-2">Area</div>
+              <div className="flex space-x-4">
+                <label className="flex items-center space-x-2">
+                  <input type="radio" checked={region === 'graph'} onChange={() => setRegion('graph')} />
+                  <span>Full graph</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input type="radio" checked={region === 'viewport'} onChange={() => setRegion('viewport')} />
+                  <span>Current view</span>
+                </label>
+              </div>
+            </div>
+
+            {/* Scale (PNG only) */}
+            {format === 'png' && (
+              <div>
+                <div className="font-medium mb-2">Scale</div>
+                <select
+                  value={scale}
+                  onChange={(e) => setScale(Number(e.target.value))}
+                  className="form-input"
+                >
+                  {IMAGE_EXPORT_CONFIG.SCALES.map(option => (
+                    <option key={option} value={option}>{option}×</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Background */}
+            <div>
+              <div className="font-medium mb-2">Background</div>
+              <div className="flex items-center space-x-4">
+                <label className="flex items-center space-x-2">
+                  <input type="radio" checked={isTransparent} onChange={() => setIsTransparent(true)} />
+                  <span>Transparent</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input type="radio" checked={!isTransparent} onChange={() => setIsTransparent(false)} />
+                  <span>Solid</span>
+                </label>
+                <input
+                  type="color"
+                  value={backgroundColor}
+                  onChange={(e) => {
+                    setBackgroundColor(e.target.value);
+                    setIsTransparent(false);
+                  }}
+                  className="w-8 h-8 bg-transparent border border-gray-600 rounded cursor-pointer"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="mt-5 sm:mt-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={handleExport}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm"
+            >
+              Export
+            </button>
+            <button
+              type="button"
+              onClick={onCancel}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-600 shadow-sm px-4 py-2 bg-gray-700 text-base font-medium text-white hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 sm:mt-0 sm:w-auto sm:text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageExportModal;
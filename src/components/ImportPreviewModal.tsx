@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { GRAPH_FORMATS } from '../utils/graphFormats';
+import type { ImportPreviewModalProps, ImportCollisionMode } from '../types/graph';
+
+const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
+  preview,
+  isImporting,
+  onConfirm,
+  onCancel
+}) => {
+  const [mode, setMode] = useState<ImportCollisionMode>('skip');
+
+  // Default back to merging whenever a new file is previewed
+  useEffect(() => {
+    setMode('skip');
+  }, [preview]);
+
+  if (!preview) {
+    return null;
+  }
+
+  const { graph, nodeCollisions, edgeCollisions, danglingEdges } = preview;
+  const hasCollisions = nodeCollisions.length > 0 || edgeCollisions.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={isImporting ? undefined : onCancel}
+      />
+
+      {/* Modal */}
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
+        <div className="relative inline-block align-bottom bg-gray-800 rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full sm:p-6">
+          {/* Header */}
+          <h3 className="text-lg leading-6 font-medium text-white">
+            Import {GRAPH_FORMATS[preview.format].label}
+          </h3>
+          <p className="mt-1 text-sm text-gray-400 truncate">{preview.fileName}</p>
+
+          {/* Counts */}
+          <div className="mt-4 grid grid-cols-2 gap-3 text-center">
+            <div className="bg-gray-700 rounded-md py-3">
+              <div className="text-2xl font-semibold text-white">{graph.nodes.length}</div>
+              <div className="text-xs text-gray-400 uppercase tracking-wide">Nodes</div>
+            </div>
+            <div className="bg-gray-700 rounded-md py-3">
+              <div className="text-2xl font-semibold text-white">{graph.edges.length}</div>
+              <div className="text-xs text-gray-400 uppercase tracking-wide">Edges</div>
+            </div>
+          </div>
+
+          {/* Warnings */}
+          <div className="mt-4 space-y-2 text-sm">
+            {danglingEdges > 0 && (
+              <p className="text-amber-400">
+                {danglingEdges} edge{danglingEdges === 1 ? '' : 's'} reference missing nodes and will be skipped.
+              </p>
+            )}
+            {hasCollisions ? (
+              <>
+                <p className="text-amber-400">
+                  {nodeCollisions.length} node ID{nodeCollisions.length === 1 ? '' : 's'} and {edgeCollisions.length} edge
+                  ID{edgeCollisions.length === 1 ? '' : 's'} already exist in this graph.
+                </p>
+                <div className="max-h-24 overflow-y-auto text-xs text-gray-400 bg-gray-900 rounded p-2 font-mono">
+                  {[...nodeCollisions, ...edgeCollisions].map(id => (
+                    <div key={id} className="truncate">{id}</div>
+                  ))}
+                </div>
+                <label className="flex items-center space-x-2 text-gray-300">
+                  <input
+                    type="radio"
+                    checked={mode === 'skip'}
+                    onChange={() => setMode('skip')}
+                    disabled={isImporting}
+                  />
+                  <span>Skip existing items and connect imported edges to them</span>
+                </label>
+                <label className="flex items-center space-x-2 text-gray-300">
+                  <input
+                    type="radio"
+                    checked={mode === 'duplicate'}
+                    onChange={() => setMode('duplicate')}
+                    disabled={isImporting}
+                  />
+                  <span>Import everything as new copies</span>
+                </label>
+              </>
+            ) : (
+              <p className="text-gray-400">No ID collisions with the current graph.</p>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="mt-5 sm:mt-4 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={() => onConfirm(mode)}
+              disabled={isImporting || graph.nodes.length + graph.edges.length === 0}
+              className="w-full inline-flex justify-center items-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed sm:ml-3 sm:w-auto sm:text-sm"
+            >
+              {isImporting && <span className="loading-spinner w-4 h-4 mr-2" />}
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isImporting}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-600 shadow-sm px-4 py-2 bg-gray-700 text-base font-medium text-white hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 sm:mt-0 sm:w-auto sm:text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewModal;
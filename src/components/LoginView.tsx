@@ -0,0 +1,80 @@
+import React, { useState, useCallback } from 'react';
+import { login } from '../api/auth';
+import type { LoginViewProps } from '../types/graph';
+
+const LoginView: React.FC<LoginViewProps> = ({ notice }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      // The app switches to the graph once the session is stored
+      await login(username.trim(), password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed.');
+      setIsSubmitting(false);
+    }
+  }, [username, password]);
+
+  return (
+    <div className="flex items-center justify-center w-full h-full px-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-gray-800 rounded-lg shadow-xl p-6 space-y-4">
+        <div>
+          <h1 className="text-xl font-semibold text-white">Knowledge Graph</h1>
+          <p className="mt-1 text-sm text-gray-400">Sign in to open your graph.</p>
+        </div>
+
+        {notice && !error && (
+          <div className="text-sm text-yellow-300 bg-yellow-900 bg-opacity-30 border border-yellow-700 rounded-md px-3 py-2">
+            {notice}
+          </div>
+        )}
+        {error && (
+          <div className="text-sm text-red-300 bg-red-900 bg-opacity-30 border border-red-700 rounded-md px-3 py-2" role="alert">
+            {error}
+          </div>
+        )}
+
+        <label className="block text-sm">
+          <span className="block font-medium text-gray-300 mb-1">Username</span>
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+            required
+            className="form-input"
+          />
+        </label>
+
+        <label className="block text-sm">
+          <span className="block font-medium text-gray-300 mb-1">Password</span>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+            className="form-input"
+          />
+        </label>
+
+        <button
+          type="submit"
+          disabled={isSubmitting || !username.trim() || !password}
+          className="btn btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginView;
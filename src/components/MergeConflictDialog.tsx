@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { defaultMergeChoices, isSameValue } from '../utils/threeWayMerge';
+import type { MergeConflictDialogProps, MergeChoice, MergeField } from '../types/graph';
+
+const COLUMNS: { choice: MergeChoice; title: string }[] = [
+  { choice: 'base', title: 'Base' },
+  { choice: 'mine', title: 'Mine' },
+  { choice: 'theirs', title: 'Theirs' }
+];
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+const isChanged = (field: MergeField) =>
+  !isSameValue(field.mine, field.base) || !isSameValue(field.theirs, field.base);
+
+const MergeConflictDialog: React.FC<MergeConflictDialogProps> = ({
+  conflict,
+  onResolve,
+  onCancel
+}) => {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+  // Start from the automatic merge for every new conflict
+  useEffect(() => {
+    setChoices(conflict ? defaultMergeChoices(conflict.fields) : {});
+  }, [conflict]);
+
+  if (!conflict) {
+    return null;
+  }
+
+  const changedFields = conflict.fields.filter(isChanged);
+  const conflictCount = changedFields.filter(field => field.isConflict).length;
+
+  const chooseAll = (choice: MergeChoice) => {
+    setChoices(Object.fromEntries(conflict.fields.map(field => [field.key, choice])));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={onCancel}
+      />
+
+      {/* Modal */}
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
+        <div className="relative inline-block align-bottom bg-gray-800 rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full sm:p-6">
+          {/* Header */}
+          <h3 className="text-lg leading-6 font-medium text-white">
+            {conflict.itemType === 'node' ? 'Node' : 'Edge'} "{conflict.itemLabel}" was changed by someone else
+          </h3>
+          <p className="mt-1 text-sm text-gray-400">
+            {conflictCount > 0
+              ? `${conflictCount} field${conflictCount === 1 ? ' was' : 's were'} changed on both sides. `
+              : 'Your changes and theirs do not overlap. '}
+            Pick the value to keep for each field.
+          </p>
+
+          {/* Quick picks */}
+          <div className="mt-3 flex items-center space-x-3 text-sm">
+            <span className="text-gray-400">Use:</span>
+            <button onClick={() => setChoices(defaultMergeChoices(conflict.fields))} className="text-blue-400 hover:text-blue-300">
+              Merge all
+            </button>
+            <button onClick={() => chooseAll('mine')} className="text-blue-400 hover:text-blue-300">
+              All mine
+            </button>
+            <button onClick={() => chooseAll('theirs')} className="text-blue-400 hover:text-blue-300">
+              All theirs
+            </button>
+          </div>
+
+          {/* Fields */}
+          <div className="mt-3 max-h-80 overflow-y-auto">
+            <table className="w-full table-fixed text-sm">
+              <thead>
+                <tr className="text-xs text-gray-400 uppercase tracking-wide">
+                  <th className="w-1/4 py-1 text-left font-medium">Field</th>
+                  {COLUMNS.map(({ choice, title }) => (
+                    <th key={choice} className="py-1 text-left font-medium">{title}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {changedFields.map(field => (
+                  <tr key={field.key} className={`border-t border-gray-700 ${field.isConflict ? 'bg-amber-900 bg-opacity-20' : ''}`}>
+                    <td className="py-2 pr-2 text-gray-200 truncate" title={field.name}>
+                      {field.isConflict && <span className="text-amber-400 mr-1" title="Changed on both sides">⚠</span>}
+                      {field.name}
+                    </td>
+                    {COLUMNS.map(({ choice }) => (
+                      <td key={choice} className="py-2 pr-2">
+                        <label className="flex items-start space-x-2 cursor-pointer">
+                          <input
+                            type="radio"
+                            name={field.key}
+                            checked={choices[field.key] === choice}
+                            onChange={() => setChoices(prev => ({ ...prev, [field.key]: choice }))}
+                            className="mt-0.5"
+                          />
+                          <span
+                            className={`break-all ${field[choice] === undefined ? 'text-gray-500 italic' : 'text-gray-200'}`}
+                            title={formatValue(field[choice])}
+                          >
+                            {formatValue(field[choice])}
+                          </span>
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Actions */}
+          <div className="mt-5 sm:mt-4 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={() => onResolve(choices)}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm"
+            >
+              Save merged version
+            </button>
+            <button
+              type="button"
+              onClick={onCancel}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-600 shadow-sm px-4 py-2 bg-gray-700 text-base font-medium text-white hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 sm:mt-0 sm:w-auto sm:text-sm"
+            >
+              Keep editing
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeConflictDialog;
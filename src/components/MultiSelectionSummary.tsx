@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import NodeTypeSwatch from './NodeTypeSwatch';
+import { getNodeType } from '../utils/nodeTypes';
+import type { MultiSelectionSummaryProps, BulkUpdateRequest } from '../types/graph';
+
+// Common value of a field across all items, or undefined when the items disagree
+function sharedValue<T>(values: T[]): T | undefined {
+  if (values.length === 0) return undefined;
+  return values.every(value => value === values[0]) ? values[0] : undefined;
+}
+
+const MultiSelectionSummary: React.FC<MultiSelectionSummaryProps> = ({
+  items,
+  allNodes,
+  nodeTypes,
+  onClose,
+  onBulkUpdate,
+  onBulkDelete,
+  onBulkPin,
+  onBulkConnect
+}) => {
+  const { nodes, edges } = items;
+
+  // Values shared by every selected item; mixed fields start out blank
+  const shared = useMemo(() => ({
+    type: sharedValue(nodes.map(n => n.type || 'default')),
+    label: sharedValue(edges.map(e => e.label)),
+    directed: sharedValue(edges.map(e => e.directed)),
+    description: sharedValue(
+      [...nodes, ...edges].map(item => (item.properties?.description as string | undefined) || '')
+    )
+  }), [nodes, edges]);
+
+  const [changes, setChanges] = useState<BulkUpdateRequest>({});
+  const [connectTarget, setConnectTarget] = useState('');
+  const [connectLabel, setConnectLabel] = useState('connects');
+
+  // Reset pending edits whenever the set of selected items changes
+  const selectionKey = [...nodes.map(n => n.id), ...edges.map(e => e.id)].join(',');
+  useEffect(() => {
+    setChanges({});
+    setConnectTarget('');
+  }, [selectionKey]);
+
+  const handleChange = useCallback(<K extends keyof BulkUpdateRequest>(field: K, value: BulkUpdateRequest[K]) => {
+    setChanges(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  const handleSave = useCallback(() => {
+    onBulkUpdate(changes);
+    setChanges({});
+  }, [changes, onBulkUpdate]);
+
+  const handleConnect = useCallback(() => {
+    if (!connectTarget) return;
+    onBulkConnect(connectTarget, connectLabel.trim() || 'connects');
+    setConnectTarget('');
+  }, [connectTarget, connectLabel, onBulkConnect]);
+
+  // Count of selected nodes per type, for the summary chips
+  const typeCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    nodes.forEach(node => counts.set(node.type || 'default', (counts.get(node.type || 'default') || 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [nodes]);
+
+  const hasChanges = Object.keys(changes).length > 0;
+  const typeValue = changes.type ?? shared.type ?? '';
+  const labelValue = changes.label ?? shared.label ?? '';
+  const directedValue = changes.directed ?? shared.directed;
+  const descriptionValue = changes.description ?? shared.description ?? '';
+
+  return (
+    <div className="p-6 h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-white">
+          {nodes.length + edges.length} Items Selected
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white transition-colors"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="flex-1 space-y-4 overflow-y-auto">
+        {/* Summary */}
+        <div className="text-sm text-gray-300 space-y-2">
+          <div>
+            {nodes.length} node{nodes.length === 1 ? '' : 's'}, {edges.length} edge{edges.length === 1 ? '' : 's'}
+          </div>
+          {typeCounts.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {typeCounts.map(([type, count]) => (
+                <span key={type} className="flex items-center text-xs bg-gray-700 rounded px-2 py-1">
+                  <span className="mr-1">
+                    <NodeTypeSwatch type={getNodeType(nodeTypes, type)} size={8} />
+                  </span>
+                  {getNodeType(nodeTypes, type).label} × {count}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Type (nodes only) */}
+        {nodes.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Type
+            </label>
+            <select
+              value={typeValue}
+              onChange={(e) => handleChange('type', e.target.value)}
+              className="form-input"
+            >
+              {!typeValue && <option value="">— Mixed —</option>}
+              {typeValue && !nodeTypes.some(type => type.id === typeValue) && (
+                <option value={typeValue}>{typeValue}</option>
+              )}
+              {nodeTypes.map(type => (
+                <option key={type.id} value={type.id}>{type.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Label and direction (edges only) */}
+        {edges.length > 0 && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">
+                Edge Label
+              </label>
+              <input
+                type="text"
+                value={labelValue}
+                onChange={(e) => handleChange('label', e.target.value)}
+                className="form-input"
+                placeholder={shared.label === undefined ? 'Mixed values' : 'Enter label...'}
+              />
+            </div>
+            <div>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={directedValue === true}
+                  ref={(el) => {
+                    if (el) el.indeterminate = directedValue === undefined;
+                  }}
+                  onChange={(e) => handleChange('directed', e.target.checked)}
+                  className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-gray-300">Directed Edges</span>
+              </label>
+            </div>
+          </>
+        )}
+
+        {/* Description */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Description
+          </label>
+          <textarea
+            value={descriptionValue}
+            onChange={(e) => handleChange('description', e.target.value)}
+            className="form-textarea"
+            placeholder={shared.description === undefined ? 'Mixed values' : 'Describe these items...'}
+            rows={3}
+          />
+        </div>
+
+        {/* Pin / unpin */}
+        {nodes.length > 0 && (
+          <div className="flex space-x-2">
+            <button onClick={() => onBulkPin(true)} className="btn btn-secondary btn-sm flex-1">
+              Pin Nodes
+            </button>
+            <button onClick={() => onBulkPin(false)} className="btn btn-secondary btn-sm flex-1">
+              Unpin Nodes
+            </button>
+          </div>
+        )}
+
+        {/* Connect every selected node to a target */}
+        {nodes.length > 0 && (
+          <div className="pt-4 border-t border-gray-700 space-y-2">
+            <label className="block text-sm font-medium text-gray-300">
+              Connect Selected Nodes To
+            </label>
+            <select
+              value={connectTarget}
+              onChange={(e) => setConnectTarget(e.target.value)}
+              className="form-input"
+            >
+              <option value="">Choose target node...</option>
+              {allNodes.map(node => (
+                <option key={node.id} value={node.id}>{node.label}</option>
+              ))}
+            </select>
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={connectLabel}
+                onChange={(e) => setConnectLabel(e.target.value)}
+                className="form-input"
+                placeholder="Edge label"
+              />
+              <button
+                onClick={handleConnect}
+                disabled={!connectTarget}
+                className="btn btn-secondary btn-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Connect
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="flex space-x-3 pt-4 border-t border-gray-700">
+        <button
+          onClick={handleSave}
+          disabled={!hasChanges}
+          className="btn btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Apply to All
+        </button>
+        <button
+          onClick={onBulkDelete}
+          className="btn btn-danger"
+        >
+          Delete All
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MultiSelectionSummary;
@@ -0,0 +1,200 @@
+import React, { useEffect, useMemo } from 'react';
+import { RENDERER_CONFIG } from '../types/constants';
+import { getConnectedNodesInfo } from '../utils/graphAdjacency';
+import { getNodeType } from '../utils/nodeTypes';
+import { DEFAULT_EDGE_LABEL } from '../utils/graphSchema';
+import type { NodeContextMenuProps, ForceGraphNode, PathEndpoint } from '../types/graph';
+
+// Right-click menu of a node, shared by the SVG and canvas renderers
+const NodeContextMenu: React.FC<NodeContextMenuProps> = ({
+  x,
+  y,
+  sourceNode,
+  data,
+  nodeTypes,
+  planConnection,
+  onCreateEdge,
+  onDeleteEdge,
+  onPickPathEndpoint,
+  onFocusNode,
+  onClose
+}) => {
+  // Close on outside click
+  useEffect(() => {
+    document.addEventListener('click', onClose);
+    return () => document.removeEventListener('click', onClose);
+  }, [onClose]);
+
+  const connectedNodesInfo = useMemo(() => getConnectedNodesInfo(data, sourceNode.id), [data, sourceNode.id]);
+
+  const unconnectedNodes = useMemo(() => {
+    const connectedNodeIds = new Set(connectedNodesInfo.map(info => info.node.id));
+    return data.nodes.filter(node => node.id !== sourceNode.id && !connectedNodeIds.has(node.id));
+  }, [data.nodes, connectedNodesInfo, sourceNode.id]);
+
+  const handleCreateEdge = (targetNode: ForceGraphNode) => {
+    if (targetNode.id !== sourceNode.id) {
+      onCreateEdge(sourceNode.id, targetNode.id);
+    }
+    onClose();
+  };
+
+  const handlePickPathEndpoint = (endpoint: PathEndpoint) => {
+    onPickPathEndpoint?.(sourceNode.id, endpoint);
+    onClose();
+  };
+
+  const handleFocus = () => {
+    onFocusNode?.(sourceNode.id);
+    onClose();
+  };
+
+  const handleUnlinkEdge = (edgeId: string) => {
+    onDeleteEdge?.(edgeId);
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed z-50 bg-gray-800 border border-gray-600 rounded-md shadow-lg py-2 min-w-[250px] max-w-[350px]"
+      style={{ left: x, top: y }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="px-3 py-1 text-sm text-gray-300 border-b border-gray-600">
+        Node: <span className="text-white font-medium">{sourceNode.label}</span>
+      </div>
+
+      {onFocusNode && (
+        <button
+          className="w-full text-left px-3 py-2 text-sm text-white hover:bg-gray-700 border-b border-gray-600"
+          onClick={handleFocus}
+        >
+          Focus on neighborhood
+        </button>
+      )}
+
+      {/* Path finder endpoints */}
+      {onPickPathEndpoint && (
+        <div className="flex border-b border-gray-600">
+          <button
+            className="flex-1 px-3 py-2 text-sm text-white hover:bg-gray-700 text-left"
+            onClick={() => handlePickPathEndpoint('start')}
+          >
+            Path from here
+          </button>
+          <button
+            className="flex-1 px-3 py-2 text-sm text-white hover:bg-gray-700 text-left border-l border-gray-600"
+            onClick={() => handlePickPathEndpoint('end')}
+          >
+            Path to here
+          </button>
+        </div>
+      )}
+      
+      {/* Connected Nodes Section */}
+      {connectedNodesInfo.length > 0 && (
+        <div className="border-b border-gray-600">
+          <div className="px-3 py-2 text-xs text-gray-400 font-medium uppercase tracking-wide">
+            Connected Nodes ({connectedNodesInfo.length})
+          </div>
+          <div className="max-h-32 overflow-y-auto">
+            {connectedNodesInfo.map(({ node, edgeId, isSource }) => (
+              <div
+                key={`connected-${node.id}`}
+                className="px-3 py-2 text-sm text-white hover:bg-gray-700 flex items-center justify-between group"
+              >
+                <div className="flex items-center flex-1 min-w-0">
+                  <div 
+                    className="w-3 h-3 rounded-full mr-2 flex-shrink-0" 
+                    style={{ backgroundColor: getNodeType(nodeTypes, node.type).color }}
+                  />
+                  <span className="truncate">{node.label}</span>
+                  <div className="ml-2 flex-shrink-0">
+                    {isSource ? (
+                      <svg className="w-3 h-3 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M10.293 3.293a1 1 0 011.414 0l6 6a1 1 0 010 1.414l-6 6a1 1 0 01-1.414-1.414L14.586 11H3a1 1 0 110-2h11.586l-4.293-4.293a1 1 0 010-1.414z" clipRule="evenodd" />
+                      </svg>
+                    ) : (
+                      <svg className="w-3 h-3 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
+                      </svg>
+                    )}
+                  </div>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleUnlinkEdge(edgeId);
+                  }}
+                  className="ml-2 p-1 rounded hover:bg-red-600 text-gray-400 hover:text-white transition-colors opacity-0 group-hover:opacity-100"
+                  title="Unlink"
+                >
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      
+      {/* Unconnected Nodes Section */}
+      {unconnectedNodes.length > 0 && (
+        <div>
+          <div className="px-3 py-2 text-xs text-gray-400 font-medium uppercase tracking-wide">
+            Unconnected Nodes ({unconnectedNodes.length})
+          </div>
+          <div className="max-h-40 overflow-y-auto">
+            {unconnectedNodes.slice(0, RENDERER_CONFIG.MAX_MENU_NODES).map(node => {
+              const plan = planConnection?.(sourceNode.id, node.id);
+              const problems = plan ? plan.violations.map(v => v.message).join('\n') : '';
+              return (
+                <button
+                  key={`unconnected-${node.id}`}
+                  className="w-full text-left px-3 py-2 text-sm text-white hover:bg-gray-700 flex items-center group disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                  onClick={() => handleCreateEdge(node)}
+                  disabled={!!plan && plan.blocked}
+                  title={problems || undefined}
+                >
+                  <div 
+                    className="w-3 h-3 rounded-full mr-2 flex-shrink-0" 
+                    style={{ backgroundColor: getNodeType(nodeTypes, node.type).color }}
+                  />
+                  <span className="truncate flex-1">{node.label}</span>
+                  {plan && plan.label !== DEFAULT_EDGE_LABEL && (
+                    <span className="ml-2 text-xs text-gray-400 flex-shrink-0">{plan.label}</span>
+                  )}
+                  {problems && (
+                    <span className={`ml-2 text-xs flex-shrink-0 ${plan?.blocked ? 'text-red-400' : 'text-yellow-400'}`}>⚠</span>
+                  )}
+                  <svg className="w-3 h-3 text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  </svg>
+                </button>
+              );
+            })}
+            {unconnectedNodes.length > RENDERER_CONFIG.MAX_MENU_NODES && (
+              <div className="px-3 py-2 text-xs text-gray-500">
+                and {unconnectedNodes.length - RENDERER_CONFIG.MAX_MENU_NODES} more
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+      
+      {/* Empty state */}
+      {connectedNodesInfo.length === 0 && unconnectedNodes.length === 0 && (
+        <div className="px-3 py-4 text-sm text-gray-400 text-center">
+          No other nodes available
+        </div>
+      )}
+      
+      <div className="px-3 py-1 text-xs text-gray-500 border-t border-gray-600 mt-1">
+        Click to connect • X to unlink
+      </div>
+    </div>
+  );
+};
+
+export default NodeContextMenu;
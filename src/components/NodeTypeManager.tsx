@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import NodeTypeSwatch from './NodeTypeSwatch';
+import { NODE_SHAPE_LABELS, NODE_TYPE_COLORS, NODE_TYPE_CONFIG } from '../types/constants';
+import { clampIcon } from '../utils/nodeTypes';
+import type { NodeTypeManagerProps, NodeTypeDefinition, NodeShape } from '../types/graph';
+
+// Text field that only reports its value once editing is finished (blur or Enter)
+const CommitInput: React.FC<{
+  value: string;
+  onCommit: (value: string) => void;
+  className: string;
+  placeholder?: string;
+  title?: string;
+}> = ({ value, onCommit, className, placeholder, title }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(value);
+      }}
+      className={className}
+      placeholder={placeholder}
+      title={title}
+    />
+  );
+};
+
+const NodeTypeManager: React.FC<NodeTypeManagerProps> = ({
+  isOpen,
+  nodeTypes,
+  usageCounts,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onClose
+}) => {
+  const [newLabel, setNewLabel] = useState('');
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    const label = newLabel.trim();
+    if (!label) return;
+    onCreate({ label, color: NODE_TYPE_COLORS.default, shape: 'circle' });
+    setNewLabel('');
+  };
+
+  const renderRow = (type: NodeTypeDefinition) => (
+    <tr key={type.id} className="border-t border-gray-700">
+      <td className="py-2 pr-2">
+        <NodeTypeSwatch type={type} size={16} />
+      </td>
+      <td className="py-2 pr-2">
+        <CommitInput
+          value={type.label}
+          onCommit={(label) => label.trim() && onUpdate(type.id, { label: label.trim() })}
+          className="form-input text-sm py-1"
+          title={`ID: ${type.id}`}
+        />
+      </td>
+      <td className="py-2 pr-2">
+        <input
+          type="color"
+          value={type.color}
+          onChange={(e) => onUpdate(type.id, { color: e.target.value })}
+          className="w-8 h-8 bg-transparent border border-gray-600 rounded cursor-pointer"
+        />
+      </td>
+      <td className="py-2 pr-2">
+        <select
+          value={type.shape}
+          onChange={(e) => onUpdate(type.id, { shape: e.target.value as NodeShape })}
+          className="form-input text-sm py-1"
+        >
+          {Object.entries(NODE_SHAPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </td>
+      <td className="py-2 pr-2">
+        <CommitInput
+          value={type.icon ?? ''}
+          onCommit={(icon) => onUpdate(type.id, { icon: clampIcon(icon) || undefined })}
+          className="form-input text-sm py-1 w-14 text-center"
+          placeholder="—"
+          title={`Emoji or up to ${NODE_TYPE_CONFIG.MAX_ICON_LENGTH} characters`}
+        />
+      </td>
+      <td className="py-2 pr-2 text-right text-xs text-gray-400">
+        {usageCounts[type.id] ?? 0}
+      </td>
+      <td className="py-2 text-right">
+        {type.id !== 'default' && (
+          <button
+            onClick={() => onDelete(type.id)}
+            className="px-2 text-gray-400 hover:text-red-400"
+            title="Delete type"
+          >
+            ×
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
+        <div className="relative inline-block align-bottom bg-gray-800 rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full sm:p-6">
+          <h3 className="text-lg leading-6 font-medium text-white">
+            Node Types
+          </h3>
+          <p className="mt-1 text-sm text-gray-400">
+            Changes apply immediately. Renaming keeps existing nodes attached to their type.
+          </p>
+
+          <div className="mt-4 max-h-[55vh] overflow-y-auto">
+            <table className="w-full text-sm text-white">
+              <thead>
+                <tr className="text-xs font-medium text-gray-400 uppercase tracking-wide text-left">
+                  <th className="pb-2" />
+                  <th className="pb-2">Name</th>
+                  <th className="pb-2">Color</th>
+                  <th className="pb-2">Shape</th>
+                  <th className="pb-2">Icon</th>
+                  <th className="pb-2 text-right">Nodes</th>
+                  <th className="pb-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {nodeTypes.map(renderRow)}
+              </tbody>
+            </table>
+          </div>
+
+          {/* New type */}
+          <form onSubmit={handleCreate} className="mt-4 flex space-x-2">
+            <input
+              type="text"
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              className="form-input text-sm flex-1"
+              placeholder="New type name..."
+            />
+            <button type="submit" disabled={!newLabel.trim()} className="btn btn-primary btn-sm disabled:opacity-50 disabled:cursor-not-allowed">
+              Add Type
+            </button>
+          </form>
+
+          {/* Actions */}
+          <div className="mt-5 sm:mt-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-600 shadow-sm px-4 py-2 bg-gray-700 text-base font-medium text-white hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 sm:mt-0 sm:w-auto sm:text-sm"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NodeTypeManager;
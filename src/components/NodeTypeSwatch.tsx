@@ -0,0 +1,12 @@
+import React from 'react';
+import { nodeShapePath } from '../utils/nodeTypes';
+import type { NodeTypeDefinition } from '../types/graph';
+
+// A node type drawn the way the canvas draws it, for legends and pickers
+const NodeTypeSwatch: React.FC<{ type: NodeTypeDefinition; size?: number }> = ({ type, size = 12 }) => (
+  <svg width={size} height={size} viewBox="-10 -10 20 20" className="flex-shrink-0">
+    <path d={nodeShapePath(type.shape, 8)} fill={type.color} />
+  </svg>
+);
+
+export default NodeTypeSwatch;
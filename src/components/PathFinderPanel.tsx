@@ -0,0 +1,211 @@
+import React, { useState, useMemo } from 'react';
+import { PATH_CONFIG } from '../types/constants';
+import { getNodeType } from '../utils/nodeTypes';
+import type { PathFinderPanelProps, PathSearchOptions, GraphNode } from '../types/graph';
+
+const PathFinderPanel: React.FC<PathFinderPanelProps> = ({
+  isOpen,
+  nodes,
+  nodeTypes,
+  startId,
+  endId,
+  paths,
+  truncated,
+  activePathIndex,
+  error,
+  onChangeEndpoint,
+  onSwapEndpoints,
+  onFind,
+  onSelectPath,
+  onClose
+}) => {
+  const [directed, setDirected] = useState(true);
+  const [weightProperty, setWeightProperty] = useState('');
+  const [maxLength, setMaxLength] = useState<number>(PATH_CONFIG.DEFAULT_MAX_LENGTH);
+
+  const nodesById = useMemo(() => new Map(nodes.map(node => [node.id, node])), [nodes]);
+  const sortedNodes = useMemo(
+    () => [...nodes].sort((a, b) => (a.label || '').localeCompare(b.label || '')),
+    [nodes]
+  );
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const canSearch = !!startId && !!endId && startId !== endId;
+
+  const handleFind = (mode: PathSearchOptions['mode']) => {
+    onFind({ mode, directed, weightProperty: weightProperty.trim(), maxLength });
+  };
+
+  const renderEndpoint = (label: string, value: string | null, endpoint: 'start' | 'end') => (
+    <div>
+      <label className="block text-xs font-medium text-gray-400 mb-1">{label}</label>
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChangeEndpoint(endpoint, e.target.value || null)}
+        className="form-input text-sm"
+      >
+        <option value="">Choose node...</option>
+        {sortedNodes.map(node => (
+          <option key={node.id} value={node.id}>{node.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const renderNode = (node: GraphNode | undefined, id: string) => (
+    <span className="inline-flex items-center">
+      <span
+        className="w-2 h-2 rounded-full mr-1 flex-shrink-0"
+        style={{ backgroundColor: getNodeType(nodeTypes, node?.type).color }}
+      />
+      {node?.label ?? id}
+    </span>
+  );
+
+  return (
+    <div className="w-80 max-h-full flex flex-col pointer-events-auto bg-gray-800 bg-opacity-95 backdrop-blur-sm border border-gray-700 rounded-lg shadow-xl">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700">
+        <h2 className="text-sm font-semibold text-white">Find Paths</h2>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white transition-colors"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* Options */}
+      <div className="p-4 space-y-3">
+        {renderEndpoint('From', startId, 'start')}
+        <div className="flex justify-center">
+          <button
+            onClick={onSwapEndpoints}
+            className="text-xs text-gray-400 hover:text-white"
+            title="Swap start and end"
+          >
+            ⇅ Swap
+          </button>
+        </div>
+        {renderEndpoint('To', endId, 'end')}
+
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={directed}
+            onChange={(e) => setDirected(e.target.checked)}
+            className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500"
+          />
+          <span className="text-sm text-gray-300">Follow edge direction</span>
+        </label>
+
+        <div className="flex space-x-2">
+          <div className="flex-1">
+            <label className="block text-xs font-medium text-gray-400 mb-1">Weight property</label>
+            <input
+              type="text"
+              value={weightProperty}
+              onChange={(e) => setWeightProperty(e.target.value)}
+              className="form-input text-sm"
+              placeholder="none (hops)"
+            />
+          </div>
+          <div className="w-20">
+            <label className="block text-xs font-medium text-gray-400 mb-1">Max hops</label>
+            <input
+              type="number"
+              min={1}
+              max={PATH_CONFIG.MAX_LENGTH}
+              value={maxLength}
+              onChange={(e) => setMaxLength(Math.min(PATH_CONFIG.MAX_LENGTH, Math.max(1, Number(e.target.value) || 1)))}
+              className="form-input text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="flex space-x-2">
+          <button
+            onClick={() => handleFind('shortest')}
+            disabled={!canSearch}
+            className="btn btn-primary btn-sm flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Shortest Path
+          </button>
+          <button
+            onClick={() => handleFind('all')}
+            disabled={!canSearch}
+            className="btn btn-secondary btn-sm flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={`All paths up to ${maxLength} hops`}
+          >
+            All Paths
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+
+      {/* Results */}
+      {paths && (
+        <div className="flex-1 flex flex-col min-h-0 border-t border-gray-700">
+          <div className="flex items-center justify-between px-4 py-2 text-xs text-gray-400">
+            <span>
+              {paths.length === 0 ? 'No path found' : `${paths.length} path${paths.length === 1 ? '' : 's'}`}
+              {truncated && <span className="text-amber-400"> (first {paths.length} only)</span>}
+            </span>
+            {paths.length > 1 && (
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => onSelectPath(activePathIndex - 1)}
+                  disabled={activePathIndex === 0}
+                  className="px-2 text-white hover:text-blue-300 disabled:opacity-40"
+                  title="Previous path"
+                >
+                  ‹
+                </button>
+                <span>{activePathIndex + 1} / {paths.length}</span>
+                <button
+                  onClick={() => onSelectPath(activePathIndex + 1)}
+                  disabled={activePathIndex === paths.length - 1}
+                  className="px-2 text-white hover:text-blue-300 disabled:opacity-40"
+                  title="Next path"
+                >
+                  ›
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-1">
+            {paths.map((path, index) => (
+              <button
+                key={path.edgeIds.join(',')}
+                onClick={() => onSelectPath(index)}
+                className={`w-full text-left rounded px-2 py-2 text-sm text-white ${
+                  index === activePathIndex ? 'bg-gray-700 ring-1 ring-cyan-400' : 'hover:bg-gray-700'
+                }`}
+              >
+                <div className="flex flex-wrap items-center gap-x-1">
+                  {path.nodeIds.map((id, position) => (
+                    <React.Fragment key={`${id}-${position}`}>
+                      {position > 0 && <span className="text-gray-500">→</span>}
+                      {renderNode(nodesById.get(id), id)}
+                    </React.Fragment>
+                  ))}
+                </div>
+                <div className="text-xs text-gray-400 mt-1">
+                  {path.edgeIds.length} hop{path.edgeIds.length === 1 ? '' : 's'}
+                  {path.cost !== path.edgeIds.length && ` · cost ${path.cost}`}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PathFinderPanel;
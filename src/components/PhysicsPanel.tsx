@@ -0,0 +1,89 @@
+import React from 'react';
+import { PHYSICS_PRESETS, PHYSICS_SLIDERS, DEFAULT_PHYSICS_SETTINGS, findPhysicsPreset } from '../utils/physicsSettings';
+import type { PhysicsPanelProps, PhysicsSettings } from '../types/graph';
+
+// Enough decimals to show a slider's step
+function formatValue(value: number, step: number): string {
+  const decimals = step < 1 ? Math.ceil(-Math.log10(step)) : 0;
+  return value.toFixed(decimals);
+}
+
+const PhysicsPanel: React.FC<PhysicsPanelProps> = ({
+  isOpen,
+  settings,
+  onChange,
+  onClose
+}) => {
+  if (!isOpen) {
+    return null;
+  }
+
+  const activePreset = findPhysicsPreset(settings);
+
+  return (
+    <div className="w-64 max-h-full flex flex-col pointer-events-auto bg-gray-800 bg-opacity-95 backdrop-blur-sm border border-gray-700 rounded-lg shadow-xl">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700">
+        <h2 className="text-sm font-semibold text-white">Physics</h2>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => onChange(DEFAULT_PHYSICS_SETTINGS)}
+            className="text-xs text-gray-400 hover:text-white"
+            title="Back to the default settings"
+          >
+            Reset
+          </button>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div>
+          <h3 className="text-xs font-medium text-gray-400 uppercase tracking-wide mb-1">Presets</h3>
+          <div className="grid grid-cols-2 gap-2">
+            {PHYSICS_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => onChange(preset.settings)}
+                className={`btn ${activePreset?.id === preset.id ? 'btn-primary' : 'btn-secondary'} btn-sm`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          {!activePreset && <p className="mt-1 text-xs text-gray-500">Custom settings</p>}
+        </div>
+
+        {(Object.keys(PHYSICS_SLIDERS) as (keyof PhysicsSettings)[]).map(key => {
+          const { label, min, max, step } = PHYSICS_SLIDERS[key];
+          return (
+            <label key={key} className="block">
+              <div className="flex items-center justify-between text-sm text-gray-200">
+                <span>{label}</span>
+                <span className="text-xs text-gray-400">{formatValue(settings[key], step)}</span>
+              </div>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={settings[key]}
+                onChange={(e) => onChange({ [key]: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+          );
+        })}
+
+        <p className="text-xs text-gray-500">Changes apply immediately and are remembered in this browser.</p>
+      </div>
+    </div>
+  );
+};
+
+export default PhysicsPanel;
@@ -1,12 +1,38 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import type { PropertiesPanelProps, GraphNode, GraphEdge, UpdateNodeRequest, UpdateEdgeRequest } from '../types/graph';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import MultiSelectionSummary from './MultiSelectionSummary';
+import PropertyEditor from './PropertyEditor';
+import {
+  DEDICATED_PROPERTY_KEYS,
+  createPropertyRow,
+  formatPropertyDraft,
+  propertiesToRows,
+  validatePropertyRows,
+  applyPropertyRows
+} from '../utils/propertyValues';
+import { getTypeSchema, validateNodeProperties, validateEdge, edgeEndsOf } from '../utils/graphSchema';
+import type {
+  PropertiesPanelProps,
+  GraphNode,
+  GraphEdge,
+  UpdateNodeRequest,
+  UpdateEdgeRequest,
+  PropertyRow
+} from '../types/graph';
 
 const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   selectedItem,
+  multiSelection = null,
+  allNodes = [],
+  allEdges = [],
+  nodeTypes,
+  schema,
   isOpen,
   onClose,
   onUpdateItem,
   onDeleteItem,
+  onBulkUpdate,
+  onBulkPin,
+  onBulkConnect,
   className = ''
 }) => {
   const [formData, setFormData] = useState<{
@@ -20,10 +46,19 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     directed: true,
     description: ''
   });
+  // Custom properties as loaded, and as currently edited
+  const [originalRows, setOriginalRows] = useState<PropertyRow[]>([]);
+  const [propertyRows, setPropertyRows] = useState<PropertyRow[]>([]);
   const [hasChanges, setHasChanges] = useState(false);
+  // The item as it was when the form was filled; saves send its version
+  const [baseItem, setBaseItem] = useState<GraphNode | GraphEdge | null>(null);
 
   // Update form when selected item changes
   useEffect(() => {
+    // Someone else saving the item being edited must not wipe the edits; saving detects the conflict
+    if (hasChanges && selectedItem && baseItem?.id === selectedItem.item.id) return;
+
+    setBaseItem(selectedItem?.item ?? null);
     if (selectedItem) {
       const item = selectedItem.item;
       const props = item.properties || {};
@@ -34,6 +69,9 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
         directed: selectedItem.type === 'edge' ? (item as GraphEdge).directed : true,
         description: props.description || ''
       });
+      const rows = propertiesToRows(props);
+      setOriginalRows(rows);
+      setPropertyRows(rows);
       setHasChanges(false);
     } else {
       setFormData({
@@ -42,9 +80,11 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
         directed: true,
         description: ''
       });
+      setOriginalRows([]);
+      setPropertyRows([]);
       setHasChanges(false);
     }
-  }, [selectedItem]);
+  }, [selectedItem, hasChanges, baseItem]);
 
   // Handle form changes
   const handleInputChange = useCallback((field: string, value: string | boolean) => {
@@ -52,52 +92,113 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     setHasChanges(true);
   }, []);
 
+  // Picking a type adds rows for the properties its schema declares, filled with their defaults
+  const handleTypeChange = useCallback((type: string) => {
+    handleInputChange('type', type);
+    setPropertyRows(rows => {
+      const missing = getTypeSchema(schema, type).filter(({ key }) =>
+        !DEDICATED_PROPERTY_KEYS.includes(key) &&
+        !rows.some(row => row.key.trim() === key) &&
+        selectedItem?.item.properties?.[key] === undefined
+      );
+      return [
+        ...rows,
+        ...missing.map(({ key, valueType, default: defaultValue }) =>
+          createPropertyRow(key, valueType, formatPropertyDraft(defaultValue, valueType)))
+      ];
+    });
+  }, [schema, selectedItem, handleInputChange]);
+
+  const handlePropertyRowsChange = useCallback((rows: PropertyRow[]) => {
+    setPropertyRows(rows);
+    setHasChanges(true);
+  }, []);
+
+  const propertyErrors = useMemo(() => validatePropertyRows(propertyRows), [propertyRows]);
+  const hasPropertyErrors = Object.keys(propertyErrors).length > 0;
+
+  // Edited properties on top of the stored ones, so keys the form does not show are kept
+  const buildProperties = useCallback((): Record<string, any> => {
+    const properties = applyPropertyRows(selectedItem?.item.properties, originalRows, propertyRows);
+
+    // Only include description if not empty
+    if (formData.description.trim()) {
+      properties.description = formData.description.trim();
+    } else {
+      delete properties.description;
+    }
+    return properties;
+  }, [selectedItem, originalRows, propertyRows, formData.description]);
+
+  // Schema problems of the item as edited
+  const schemaViolations = useMemo(() => {
+    if (!selectedItem) return [];
+    if (selectedItem.type === 'node') {
+      return validateNodeProperties(schema, formData.type, buildProperties());
+    }
+    const edge = selectedItem.item as GraphEdge;
+    return validateEdge(schema, allNodes, edgeEndsOf(allEdges), {
+      id: edge.id,
+      label: formData.label,
+      sourceId: edge.source,
+      targetId: edge.target
+    });
+  }, [selectedItem, schema, formData.type, formData.label, buildProperties, allNodes, allEdges]);
+  const isBlockedBySchema = schema.enforcement === 'enforce' && schemaViolations.length > 0;
+
   // Handle save
   const handleSave = useCallback(async () => {
-    if (!selectedItem) return;
+    if (!selectedItem || !baseItem || hasPropertyErrors || isBlockedBySchema) return;
 
     try {
       if (selectedItem.type === 'node') {
-        const properties: Record<string, any> = {};
-        
-        // Only include description if not empty
-        if (formData.description.trim()) {
-          properties.description = formData.description.trim();
-        }
+        const properties = buildProperties();
 
         const updates: UpdateNodeRequest = {
           label: formData.label,
           type: formData.type,
           properties
         };
-        await onUpdateItem(updates);
+        await onUpdateItem(updates, baseItem);
       } else {
-        const properties: Record<string, any> = {};
-        
-        // Only include description if not empty
-        if (formData.description.trim()) {
-          properties.description = formData.description.trim();
-        }
+        const properties = buildProperties();
 
         const updates: UpdateEdgeRequest = {
           label: formData.label,
           properties,
           directed: formData.directed
         };
-        await onUpdateItem(updates);
+        await onUpdateItem(updates, baseItem);
       }
       
       setHasChanges(false);
     } catch (error) {
       console.error('Failed to save changes:', error);
     }
-  }, [selectedItem, formData, onUpdateItem]);
+  }, [selectedItem, baseItem, formData, hasPropertyErrors, isBlockedBySchema, buildProperties, onUpdateItem]);
 
   // Handle delete
   const handleDelete = useCallback(() => {
     onDeleteItem();
   }, [onDeleteItem]);
 
+  if (multiSelection && onBulkUpdate && onBulkPin && onBulkConnect) {
+    return (
+      <div className={`properties-panel ${isOpen ? 'open' : 'closed'} ${className}`}>
+        <MultiSelectionSummary
+          items={multiSelection}
+          allNodes={allNodes}
+          nodeTypes={nodeTypes}
+          onClose={onClose}
+          onBulkUpdate={onBulkUpdate}
+          onBulkDelete={onDeleteItem}
+          onBulkPin={onBulkPin}
+          onBulkConnect={onBulkConnect}
+        />
+      </div>
+    );
+  }
+
   if (!selectedItem) {
     return null;
   }
@@ -122,7 +223,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
         </div>
 
         {/* Form */}
-        <div className="flex-1 space-y-4">
+        <div className="flex-1 space-y-4 overflow-y-auto">
           {/* ID (read-only) */}
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -158,24 +259,16 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
               </label>
               <select
                 value={formData.type}
-                onChange={(e) => handleInputChange('type', e.target.value)}
+                onChange={(e) => handleTypeChange(e.target.value)}
                 className="form-input"
               >
-                <option value="default">Default</option>
-                <option value="frontend-framework">Frontend Framework</option>
-                <option value="backend-framework">Backend Framework</option>
-                <option value="programming-language">Programming Language</option>
-                <option value="database">Database</option>
-                <option value="runtime">Runtime</option>
-                <option value="visualization-library">Visualization Library</option>
-                <option value="component">Component</option>
-                <option value="architecture">Architecture</option>
-                <option value="concept">Concept</option>
-                <option value="css-framework">CSS Framework</option>
-                <option value="build-tool">Build Tool</option>
-                <option value="cloud-database">Cloud Database</option>
-                <option value="orm">ORM</option>
-                <option value="graph-database">Graph Database</option>
+                {/* Keep a type that is no longer in the registry selectable */}
+                {!nodeTypes.some(type => type.id === formData.type) && (
+                  <option value={formData.type}>{formData.type}</option>
+                )}
+                {nodeTypes.map(type => (
+                  <option key={type.id} value={type.id}>{type.label}</option>
+                ))}
               </select>
             </div>
           )}
@@ -212,6 +305,32 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
             />
           </div>
 
+          {/* Custom properties */}
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Properties
+            </label>
+            <PropertyEditor
+              rows={propertyRows}
+              errors={propertyErrors}
+              onChange={handlePropertyRowsChange}
+            />
+          </div>
+
+          {/* Schema problems */}
+          {schemaViolations.length > 0 && (
+            <div className={`rounded border p-3 text-sm ${isBlockedBySchema ? 'border-red-700 text-red-300' : 'border-yellow-700 text-yellow-300'}`}>
+              <div className="font-medium mb-1">
+                {isBlockedBySchema ? 'Fix these to save:' : 'Schema warnings:'}
+              </div>
+              <ul className="list-disc list-inside space-y-0.5">
+                {schemaViolations.map((violation, index) => (
+                  <li key={index}>{violation.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Timestamps */}
           {item.createdAt && (
             <div className="text-xs text-gray-500 space-y-1 pt-4 border-t border-gray-700">
@@ -227,7 +346,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
         <div className="flex space-x-3 pt-4 border-t border-gray-700">
           <button
             onClick={handleSave}
-            disabled={!hasChanges}
+            disabled={!hasChanges || hasPropertyErrors || isBlockedBySchema}
             className="btn btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             Save Changes
@@ -0,0 +1,129 @@
+import React from 'react';
+import { PROPERTY_VALUE_TYPE_LABELS } from '../types/constants';
+import { createPropertyRow, convertPropertyRow } from '../utils/propertyValues';
+import type { PropertyEditorProps, PropertyRow, PropertyValueType } from '../types/graph';
+
+const PropertyEditor: React.FC<PropertyEditorProps> = ({
+  rows,
+  errors,
+  onChange
+}) => {
+  const updateRow = (rowId: string, update: (row: PropertyRow) => PropertyRow) => {
+    onChange(rows.map(row => (row.rowId === rowId ? update(row) : row)));
+  };
+
+  const renderValueInput = (row: PropertyRow) => {
+    const setDraft = (draft: string) => updateRow(row.rowId, prev => ({ ...prev, draft }));
+    const hasError = !!errors[row.rowId];
+    const inputClass = `form-input text-sm py-1 ${hasError ? 'border-red-500' : ''}`;
+
+    switch (row.valueType) {
+      case 'boolean':
+        return (
+          <label className="flex items-center space-x-2 py-1">
+            <input
+              type="checkbox"
+              checked={row.draft === 'true'}
+              onChange={(e) => setDraft(String(e.target.checked))}
+              className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-300">{row.draft === 'true' ? 'Yes' : 'No'}</span>
+          </label>
+        );
+      case 'number':
+        return <input type="number" value={row.draft} onChange={(e) => setDraft(e.target.value)} className={inputClass} />;
+      case 'date':
+        return <input type="date" value={row.draft} onChange={(e) => setDraft(e.target.value)} className={inputClass} />;
+      case 'url':
+        return (
+          <div className="flex items-center space-x-2">
+            <input
+              type="url"
+              value={row.draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className={inputClass}
+              placeholder="https://"
+            />
+            {!hasError && row.draft && (
+              <a href={row.draft} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-white" title="Open link">
+                ↗
+              </a>
+            )}
+          </div>
+        );
+      case 'list':
+        return (
+          <textarea
+            value={row.draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className={`form-textarea text-sm ${hasError ? 'border-red-500' : ''}`}
+            placeholder="One item per line"
+            rows={3}
+          />
+        );
+      case 'json':
+        return (
+          <textarea
+            value={row.draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className={`form-textarea text-sm font-mono ${hasError ? 'border-red-500' : ''}`}
+            rows={3}
+            spellCheck={false}
+          />
+        );
+      default:
+        return <input type="text" value={row.draft} onChange={(e) => setDraft(e.target.value)} className={inputClass} />;
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {rows.length === 0 && (
+        <p className="text-sm text-gray-500">No custom properties</p>
+      )}
+
+      {rows.map(row => (
+        <div key={row.rowId} className="space-y-1">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={row.key}
+              onChange={(e) => updateRow(row.rowId, prev => ({ ...prev, key: e.target.value }))}
+              className="form-input text-sm py-1 font-mono min-w-0"
+              placeholder="key"
+            />
+            <select
+              value={row.valueType}
+              onChange={(e) => updateRow(row.rowId, prev => convertPropertyRow(prev, e.target.value as PropertyValueType))}
+              className="form-input text-sm py-1 w-28 flex-shrink-0"
+            >
+              {Object.entries(PROPERTY_VALUE_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange(rows.filter(other => other.rowId !== row.rowId))}
+              className="px-1 text-gray-400 hover:text-red-400 flex-shrink-0"
+              title="Remove property"
+            >
+              ×
+            </button>
+          </div>
+          {renderValueInput(row)}
+          {errors[row.rowId] && (
+            <p className="text-xs text-red-400">{errors[row.rowId]}</p>
+          )}
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...rows, createPropertyRow()])}
+        className="btn btn-secondary btn-sm"
+      >
+        + Add Property
+      </button>
+    </div>
+  );
+};
+
+export default PropertyEditor;
@@ -0,0 +1,164 @@
+import React, { useState, useCallback } from 'react';
+import { QUERY_EXAMPLES } from '../utils/graphQuery';
+import { getNodeType } from '../utils/nodeTypes';
+import type { QueryConsoleProps, QueryCell } from '../types/graph';
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+const QueryConsole: React.FC<QueryConsoleProps> = ({
+  isOpen,
+  result,
+  error,
+  nodeTypes,
+  onRun,
+  onClear,
+  onClose,
+  onSelectNode,
+  onSelectEdge
+}) => {
+  const [query, setQuery] = useState(QUERY_EXAMPLES[0]);
+
+  const handleRun = useCallback(() => {
+    if (query.trim()) {
+      onRun(query);
+    }
+  }, [query, onRun]);
+
+  // Ctrl/Cmd+Enter runs the query; plain Enter inserts a newline
+  const handleKeyDown = useCallback((event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      handleRun();
+    }
+  }, [handleRun]);
+
+  const renderCell = (cell: QueryCell) => {
+    switch (cell.kind) {
+      case 'node':
+        return (
+          <button
+            onClick={() => onSelectNode(cell.node.id)}
+            className="flex items-center text-left hover:text-cyan-300"
+            title={getNodeType(nodeTypes, cell.node.type).label}
+          >
+            <span
+              className="w-2 h-2 rounded-full mr-1 flex-shrink-0"
+              style={{ backgroundColor: getNodeType(nodeTypes, cell.node.type).color }}
+            />
+            <span className="truncate">{cell.node.label}</span>
+          </button>
+        );
+      case 'edge':
+        return (
+          <button
+            onClick={() => onSelectEdge(cell.edge.id)}
+            className="text-left text-gray-300 hover:text-cyan-300 truncate"
+          >
+            {cell.edge.source.label} –{cell.edge.label}{cell.edge.directed ? '→' : '–'} {cell.edge.target.label}
+          </button>
+        );
+      case 'path':
+        return (
+          <span className="text-gray-300" title={cell.edges.map(edge => edge.label).join(', ')}>
+            {cell.edges.length} hop{cell.edges.length === 1 ? '' : 's'}
+          </span>
+        );
+      case 'value':
+        return <span className="text-gray-300 font-mono break-all">{formatValue(cell.value)}</span>;
+    }
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="absolute bottom-4 left-4 z-20 w-[36rem] max-w-[calc(100%-2rem)] max-h-[50vh] flex flex-col bg-gray-800 bg-opacity-95 backdrop-blur-sm border border-gray-700 rounded-lg shadow-xl">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700">
+        <h2 className="text-sm font-semibold text-white">Pattern Query</h2>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white transition-colors"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* Editor */}
+      <div className="p-4 space-y-2">
+        <textarea
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className="form-textarea font-mono text-sm min-h-[60px]"
+          placeholder="MATCH (a:database)<-[:uses]-(b) RETURN a, b"
+          rows={3}
+          spellCheck={false}
+        />
+        <div className="flex items-center space-x-2">
+          <button onClick={handleRun} className="btn btn-primary btn-sm" title="Run (Ctrl+Enter)">
+            Run
+          </button>
+          <button onClick={onClear} disabled={!result && !error} className="btn btn-secondary btn-sm disabled:opacity-50 disabled:cursor-not-allowed">
+            Clear
+          </button>
+          <select
+            value=""
+            onChange={(e) => e.target.value && setQuery(e.target.value)}
+            className="form-input text-sm py-1"
+          >
+            <option value="">Examples...</option>
+            {QUERY_EXAMPLES.map(example => (
+              <option key={example} value={example}>{example}</option>
+            ))}
+          </select>
+        </div>
+        {error && (
+          <p className="text-sm text-red-400 font-mono break-words">{error}</p>
+        )}
+        {result && (
+          <p className="text-xs text-gray-400">
+            {result.rows.length} row{result.rows.length === 1 ? '' : 's'} · {result.nodeIds.length} node
+            {result.nodeIds.length === 1 ? '' : 's'} and {result.edgeIds.length} edge{result.edgeIds.length === 1 ? '' : 's'} matched
+            {result.truncated && <span className="text-amber-400"> · results cut off, add LIMIT or narrow the pattern</span>}
+          </p>
+        )}
+      </div>
+
+      {/* Results */}
+      {result && result.rows.length > 0 && (
+        <div className="flex-1 overflow-auto border-t border-gray-700">
+          <table className="w-full text-sm text-white">
+            <thead className="sticky top-0 bg-gray-800">
+              <tr>
+                {result.columns.map((column, index) => (
+                  <th key={index} className="px-3 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wide">
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {result.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-gray-700 hover:bg-gray-700">
+                  {row.map((cell, cellIndex) => (
+                    <td key={cellIndex} className="px-3 py-1 max-w-[12rem]">
+                      {renderCell(cell)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueryConsole;
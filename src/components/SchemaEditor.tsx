@@ -0,0 +1,422 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PROPERTY_VALUE_TYPE_LABELS, EDGE_CARDINALITY_LABELS, SCHEMA_CONFIG } from '../types/constants';
+import { parseGraphSchema } from '../utils/graphSchema';
+import { formatPropertyDraft, parsePropertyDraft, isPropertyValueOfType } from '../utils/propertyValues';
+import { downloadFile } from '../utils/download';
+import type {
+  SchemaEditorProps,
+  GraphSchema,
+  EdgeRule,
+  EdgeCardinality,
+  PropertyValueType,
+  SchemaEnforcement
+} from '../types/graph';
+
+// Property declarations are edited with their default value as text
+interface PropertyDraft {
+  key: string;
+  valueType: PropertyValueType;
+  required: boolean;
+  defaultDraft: string;
+}
+
+interface SchemaDraft {
+  enforcement: SchemaEnforcement;
+  allowUndeclaredEdgeLabels: boolean;
+  nodeTypes: Record<string, PropertyDraft[]>;
+  edgeRules: EdgeRule[];
+}
+
+// Defaults sit in a single-line field, so list items are separated by commas there
+function formatDefault(value: unknown, valueType: PropertyValueType): string {
+  if (value === undefined) return '';
+  if (valueType === 'list' && Array.isArray(value)) return value.join(', ');
+  if (valueType === 'json') return JSON.stringify(value);
+  return formatPropertyDraft(value, valueType);
+}
+
+function parseDefault(draft: string, valueType: PropertyValueType): { value: unknown } | { error: string } {
+  if (valueType === 'list') return parsePropertyDraft(draft.split(',').join('\n'), 'list');
+  if (valueType === 'boolean') {
+    return draft === 'true' || draft === 'false' ? { value: draft === 'true' } : { error: 'Use true or false' };
+  }
+  return parsePropertyDraft(draft, valueType);
+}
+
+function toDraft(schema: GraphSchema): SchemaDraft {
+  return {
+    enforcement: schema.enforcement,
+    allowUndeclaredEdgeLabels: schema.allowUndeclaredEdgeLabels,
+    nodeTypes: Object.fromEntries(schema.nodeTypes.map(type => [
+      type.typeId,
+      type.properties.map(property => ({
+        key: property.key,
+        valueType: property.valueType,
+        required: property.required,
+        defaultDraft: formatDefault(property.default, property.valueType)
+      }))
+    ])),
+    edgeRules: schema.edgeRules
+  };
+}
+
+// Schema for a draft; throws with a message naming the first problem
+function toSchema(draft: SchemaDraft): GraphSchema {
+  const nodeTypes = Object.entries(draft.nodeTypes)
+    .filter(([, properties]) => properties.length > 0)
+    .map(([typeId, properties]) => {
+      const keys = new Set<string>();
+      return {
+        typeId,
+        properties: properties.map(({ key, valueType, required, defaultDraft }) => {
+          const trimmedKey = key.trim();
+          if (!trimmedKey) throw new Error(`A property of ${typeId} has no key`);
+          if (keys.has(trimmedKey)) throw new Error(`${typeId} declares "${trimmedKey}" twice`);
+          keys.add(trimmedKey);
+
+          if (!defaultDraft.trim()) return { key: trimmedKey, valueType, required };
+          const parsed = parseDefault(defaultDraft, valueType);
+          if ('error' in parsed || !isPropertyValueOfType(parsed.value, valueType)) {
+            throw new Error(`Default of "${trimmedKey}" (${typeId}): ${'error' in parsed ? parsed.error : 'wrong type'}`);
+          }
+          return { key: trimmedKey, valueType, required, default: parsed.value };
+        })
+      };
+    });
+
+  const labels = new Set<string>();
+  const edgeRules = draft.edgeRules.map(rule => {
+    const label = rule.label.trim();
+    if (!label) throw new Error('An edge rule has no label');
+    if (labels.has(label)) throw new Error(`There are two rules for "${label}" edges`);
+    labels.add(label);
+    return { ...rule, label };
+  });
+
+  return {
+    version: 1,
+    enforcement: draft.enforcement,
+    allowUndeclaredEdgeLabels: draft.allowUndeclaredEdgeLabels,
+    nodeTypes,
+    edgeRules
+  };
+}
+
+const SchemaEditor: React.FC<SchemaEditorProps> = ({
+  isOpen,
+  schema,
+  nodeTypes,
+  onSave,
+  onClose
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<SchemaDraft>(() => toDraft(schema));
+  const [tab, setTab] = useState<'types' | 'edges'>('types');
+  const [typeId, setTypeId] = useState('default');
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved schema every time the editor opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(toDraft(schema));
+      setError(null);
+    }
+  }, [isOpen, schema]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  // Types in the registry plus any the schema still mentions
+  const typeOptions = [
+    ...nodeTypes.map(type => ({ id: type.id, label: type.label })),
+    ...Object.keys(draft.nodeTypes)
+      .filter(id => !nodeTypes.some(type => type.id === id))
+      .map(id => ({ id, label: `${id} (not in registry)` }))
+  ];
+  const properties = draft.nodeTypes[typeId] ?? [];
+
+  const updateProperties = (update: (properties: PropertyDraft[]) => PropertyDraft[]) => {
+    setDraft(prev => ({ ...prev, nodeTypes: { ...prev.nodeTypes, [typeId]: update(prev.nodeTypes[typeId] ?? []) } }));
+  };
+
+  const updateProperty = (index: number, changes: Partial<PropertyDraft>) => {
+    updateProperties(list => list.map((property, i) => (i === index ? { ...property, ...changes } : property)));
+  };
+
+  const updateRule = (index: number, changes: Partial<EdgeRule>) => {
+    setDraft(prev => ({ ...prev, edgeRules: prev.edgeRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)) }));
+  };
+
+  const handleSave = () => {
+    try {
+      onSave(toSchema(draft));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleExport = () => {
+    try {
+      downloadFile(JSON.stringify(toSchema(draft), null, 2), SCHEMA_CONFIG.FILE_NAME, 'application/json');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setDraft(toDraft(parseGraphSchema(JSON.parse(await file.text()))));
+      setError(null);
+    } catch (err) {
+      setError(`Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const renderTypeSelect = (value: string[], onChange: (types: string[]) => void) => (
+    <select
+      multiple
+      size={4}
+      value={value}
+      onChange={(e) => onChange(Array.from(e.target.selectedOptions, option => option.value))}
+      className="form-input text-sm py-1"
+      title="Ctrl/Cmd-click to pick several; none picked means any type"
+    >
+      {typeOptions.map(option => (
+        <option key={option.id} value={option.id}>{option.label}</option>
+      ))}
+    </select>
+  );
+
+  const renderNodeTypesTab = () => (
+    <div className="space-y-3">
+      <select value={typeId} onChange={(e) => setTypeId(e.target.value)} className="form-input text-sm">
+        {typeOptions.map(option => (
+          <option key={option.id} value={option.id}>
+            {option.label}{draft.nodeTypes[option.id]?.length ? ` (${draft.nodeTypes[option.id].length})` : ''}
+          </option>
+        ))}
+      </select>
+
+      {properties.length === 0 && (
+        <p className="text-sm text-gray-500">No declared properties; nodes of this type accept anything.</p>
+      )}
+
+      {properties.map((property, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={property.key}
+            onChange={(e) => updateProperty(index, { key: e.target.value })}
+            className="form-input text-sm py-1 font-mono min-w-0"
+            placeholder="key"
+          />
+          <select
+            value={property.valueType}
+            onChange={(e) => updateProperty(index, { valueType: e.target.value as PropertyValueType, defaultDraft: '' })}
+            className="form-input text-sm py-1 w-28 flex-shrink-0"
+          >
+            {Object.entries(PROPERTY_VALUE_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-1 text-xs text-gray-300 flex-shrink-0">
+            <input
+              type="checkbox"
+              checked={property.required}
+              onChange={(e) => updateProperty(index, { required: e.target.checked })}
+              className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500"
+            />
+            <span>Required</span>
+          </label>
+          <input
+            type="text"
+            value={property.defaultDraft}
+            onChange={(e) => updateProperty(index, { defaultDraft: e.target.value })}
+            className="form-input text-sm py-1 min-w-0"
+            placeholder={property.valueType === 'list' ? 'default: a, b' : 'default'}
+          />
+          <button
+            onClick={() => updateProperties(list => list.filter((_, i) => i !== index))}
+            className="px-1 text-gray-400 hover:text-red-400 flex-shrink-0"
+            title="Remove property"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={() => updateProperties(list => [...list, { key: '', valueType: 'string', required: false, defaultDraft: '' }])}
+        className="btn btn-secondary btn-sm"
+      >
+        + Add Property
+      </button>
+    </div>
+  );
+
+  const renderEdgeRulesTab = () => (
+    <div className="space-y-3">
+      <label className="flex items-center space-x-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={draft.allowUndeclaredEdgeLabels}
+          onChange={(e) => setDraft(prev => ({ ...prev, allowUndeclaredEdgeLabels: e.target.checked }))}
+          className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500"
+        />
+        <span>Allow edge labels that have no rule</span>
+      </label>
+
+      {draft.edgeRules.length === 0 && (
+        <p className="text-sm text-gray-500">No edge rules; any node can connect to any other.</p>
+      )}
+
+      {draft.edgeRules.map((rule, index) => (
+        <div key={index} className="rounded border border-gray-700 p-3 space-y-2">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={rule.label}
+              onChange={(e) => updateRule(index, { label: e.target.value })}
+              className="form-input text-sm py-1 min-w-0"
+              placeholder="edge label"
+            />
+            <select
+              value={rule.cardinality}
+              onChange={(e) => updateRule(index, { cardinality: e.target.value as EdgeCardinality })}
+              className="form-input text-sm py-1 w-36 flex-shrink-0"
+            >
+              {Object.entries(EDGE_CARDINALITY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setDraft(prev => ({ ...prev, edgeRules: prev.edgeRules.filter((_, i) => i !== index) }))}
+              className="px-1 text-gray-400 hover:text-red-400 flex-shrink-0"
+              title="Remove rule"
+            >
+              ×
+            </button>
+          </div>
+          <div className="flex space-x-2">
+            <div className="flex-1">
+              <div className="text-xs text-gray-400 mb-1">From {rule.sourceTypes.length === 0 && '(any type)'}</div>
+              {renderTypeSelect(rule.sourceTypes, sourceTypes => updateRule(index, { sourceTypes }))}
+            </div>
+            <div className="flex-1">
+              <div className="text-xs text-gray-400 mb-1">To {rule.targetTypes.length === 0 && '(any type)'}</div>
+              {renderTypeSelect(rule.targetTypes, targetTypes => updateRule(index, { targetTypes }))}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => setDraft(prev => ({
+          ...prev,
+          edgeRules: [...prev.edgeRules, { label: '', sourceTypes: [], targetTypes: [], cardinality: 'many-to-many' }]
+        }))}
+        className="btn btn-secondary btn-sm"
+      >
+        + Add Edge Rule
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="flex items-center justify-center min-h-screen px-4 pt-4 pb-20 text-center sm:block sm:p-0">
+        <div className="relative inline-block align-bottom bg-gray-800 rounded-lg px-4 pt-5 pb-4 text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full sm:p-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg leading-6 font-medium text-white">
+              Schema
+            </h3>
+            <div className="flex items-center space-x-2">
+              <button onClick={() => fileInputRef.current?.click()} className="btn btn-secondary btn-sm">
+                Import JSON
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleImport}
+                className="hidden"
+              />
+              <button onClick={handleExport} className="btn btn-secondary btn-sm">
+                Export JSON
+              </button>
+            </div>
+          </div>
+
+          {/* Enforcement */}
+          <div className="mt-4 flex items-center space-x-4 text-sm text-gray-300">
+            <span className="font-medium">On violations</span>
+            {(['warn', 'enforce'] as const).map(option => (
+              <label key={option} className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  checked={draft.enforcement === option}
+                  onChange={() => setDraft(prev => ({ ...prev, enforcement: option }))}
+                />
+                <span>{option === 'warn' ? 'Warn' : 'Block the change'}</span>
+              </label>
+            ))}
+          </div>
+
+          {/* Tabs */}
+          <div className="mt-4 flex space-x-4 border-b border-gray-700 text-sm">
+            {([['types', 'Node Properties'], ['edges', 'Edge Rules']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setTab(value)}
+                className={`pb-2 -mb-px border-b-2 ${tab === value ? 'border-blue-500 text-white' : 'border-transparent text-gray-400 hover:text-white'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-4 max-h-[50vh] overflow-y-auto">
+            {tab === 'types' ? renderNodeTypesTab() : renderEdgeRulesTab()}
+          </div>
+
+          {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+
+          {/* Actions */}
+          <div className="mt-5 sm:mt-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={handleSave}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm"
+            >
+              Save Schema
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-600 shadow-sm px-4 py-2 bg-gray-700 text-base font-medium text-white hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 sm:mt-0 sm:w-auto sm:text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SchemaEditor;
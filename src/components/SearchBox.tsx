@@ -0,0 +1,148 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { SEARCH_CONFIG } from '../types/constants';
+import type { HighlightedText, SearchBoxProps } from '../types/graph';
+
+const LISTBOX_ID = 'search-results';
+
+function Highlighted({ text, ranges }: HighlightedText) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(<mark key={start} className="bg-transparent text-yellow-300 font-semibold">{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+  return <>{parts}</>;
+}
+
+const SearchBox: React.FC<SearchBoxProps> = ({ query, results, onQueryChange, onPickResult }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const activeOptionRef = useRef<HTMLLIElement>(null);
+
+  const listed = results.slice(0, SEARCH_CONFIG.MAX_LISTED);
+  const showList = isOpen && query.trim() !== '';
+
+  // Each new query starts again at its best match
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    activeOptionRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const pick = useCallback((nodeId: string) => {
+    setIsOpen(false);
+    onPickResult(nodeId);
+  }, [onPickResult]);
+
+  const handleKeyDown = useCallback((event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(prev => Math.max(0, Math.min(prev + 1, listed.length - 1)));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex(prev => Math.max(prev - 1, 0));
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (showList && listed[activeIndex]) pick(listed[activeIndex].node.id);
+        break;
+      case 'Escape':
+        // First close the list, then clear the search
+        if (showList) setIsOpen(false);
+        else onQueryChange('');
+        break;
+    }
+  }, [listed, activeIndex, showList, pick, onQueryChange]);
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        placeholder="Search nodes (try type:database)"
+        value={query}
+        onChange={(e) => {
+          onQueryChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={LISTBOX_ID}
+        aria-activedescendant={showList && listed[activeIndex] ? `${LISTBOX_ID}-${activeIndex}` : undefined}
+        aria-autocomplete="list"
+        className="search-input w-64"
+      />
+      <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+        <svg
+          className="h-4 w-4 text-gray-400"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+          />
+        </svg>
+      </div>
+
+      {showList && (
+        <div className="absolute left-0 mt-1 w-96 bg-gray-800 border border-gray-600 rounded-md shadow-lg z-20">
+          {listed.length === 0 ? (
+            <div className="px-3 py-2 text-sm text-gray-400">No matching nodes</div>
+          ) : (
+            <ul id={LISTBOX_ID} role="listbox" className="max-h-80 overflow-y-auto py-1">
+              {listed.map((result, index) => (
+                <li
+                  key={result.node.id}
+                  id={`${LISTBOX_ID}-${index}`}
+                  ref={index === activeIndex ? activeOptionRef : undefined}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  // mousedown, so the input doesn't lose focus (and close the list) first
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    pick(result.node.id);
+                  }}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={`px-3 py-2 cursor-pointer ${index === activeIndex ? 'bg-gray-700' : ''}`}
+                >
+                  <div className="flex items-baseline justify-between space-x-2 text-sm">
+                    <span className="text-white truncate">
+                      <Highlighted {...result.label} />
+                    </span>
+                    <span className="text-xs text-gray-400 flex-shrink-0">{result.node.type || 'default'}</span>
+                  </div>
+                  {result.snippet && (
+                    <div className="text-xs text-gray-400 truncate">
+                      <span className="text-gray-500">{result.snippet.field}: </span>
+                      <Highlighted {...result.snippet} />
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {results.length > listed.length && (
+            <div className="px-3 py-1 text-xs text-gray-500 border-t border-gray-700">
+              {listed.length} of {results.length} matches; all are highlighted on the canvas
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
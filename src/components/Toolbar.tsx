@@ -1,60 +1,317 @@
-import React, { useCallback } from 'react';
-import type { ToolbarProps } from '../types/graph';
+import React, { useCallback, useRef, useState } from 'react';
+import { GRAPH_FORMATS, IMPORT_EXTENSIONS } from '../utils/graphFormats';
+import { LAYOUTS } from '../utils/graphLayouts';
+import GraphSwitcher from './GraphSwitcher';
+import SearchBox from './SearchBox';
+import type { ToolbarProps, GraphFormat, LayoutKind } from '../types/graph';
 
 const Toolbar: React.FC<ToolbarProps> = ({
   searchQuery,
+  searchResults,
   onSearchChange,
+  onPickSearchResult,
+  graphSwitcher,
   onFitToScreen,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  undoLabel,
+  redoLabel,
+  onExportGraph,
+  onImportGraph,
+  onExportImage,
+  isQueryConsoleOpen,
+  onToggleQueryConsole,
+  isPathFinderOpen,
+  onTogglePathFinder,
+  isFilterPanelOpen,
+  onToggleFilterPanel,
+  hiddenFilterCount,
+  onClearFilter,
+  onManageNodeTypes,
+  onManageSchema,
+  syncStatus,
+  positionSyncStatus,
+  collaboration,
+  user,
+  onLogout,
+  isPhysicsPanelOpen,
+  onTogglePhysicsPanel,
+  activeLayout,
+  hasUnsavedLayout,
+  onApplyLayout,
+  onSaveLayout,
   className = ''
 }) => {
-  const handleSearchInput = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    onSearchChange(event.target.value);
-  }, [onSearchChange]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [isLayoutMenuOpen, setIsLayoutMenuOpen] = useState(false);
 
-  const handleSearchSubmit = useCallback((event: React.FormEvent) => {
-    event.preventDefault();
-  }, []);
+  const handleFileSelected = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onImportGraph(file);
+    }
+    // Allow picking the same file again
+    event.target.value = '';
+  }, [onImportGraph]);
+
+  const handleExport = useCallback((format: GraphFormat) => {
+    setIsExportMenuOpen(false);
+    onExportGraph(format);
+  }, [onExportGraph]);
+
+  const handleLayout = useCallback((layout: LayoutKind) => {
+    setIsLayoutMenuOpen(false);
+    onApplyLayout(layout);
+  }, [onApplyLayout]);
 
   return (
     <div className={`toolbar ${className}`}>
-      {/* Left side - Search */}
+      {/* Left side - Graph and search */}
       <div className="flex items-center space-x-4">
-        <form onSubmit={handleSearchSubmit} className="flex items-center">
-          <div className="relative">
-            <input
-              type="text"
-              placeholder="Search nodes"
-              value={searchQuery}
-              onChange={handleSearchInput}
-              className="search-input w-64"
-            />
-            <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
-              <svg
-                className="h-4 w-4 text-gray-400"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
-                />
-              </svg>
-            </div>
-          </div>
-        </form>
-        
-        {searchQuery && (
+        <GraphSwitcher {...graphSwitcher} />
+
+        <SearchBox
+          query={searchQuery}
+          results={searchResults}
+          onQueryChange={onSearchChange}
+          onPickResult={onPickSearchResult}
+        />
+
+        {searchQuery.trim() && (
           <span className="text-sm text-gray-400">
-            Search: "{searchQuery}"
+            {searchResults.length === 1 ? '1 match' : `${searchResults.length} matches`}
+          </span>
+        )}
+
+        {hiddenFilterCount > 0 && (
+          <span className="flex items-center space-x-1 rounded-full bg-gray-700 pl-3 pr-1 py-0.5 text-sm text-gray-200">
+            <button onClick={onToggleFilterPanel} className="hover:text-white" title="Show filters">
+              Filter: {hiddenFilterCount} hidden
+            </button>
+            <button
+              onClick={onClearFilter}
+              className="px-1 text-gray-400 hover:text-white"
+              title="Clear filter"
+            >
+              ×
+            </button>
           </span>
         )}
+
+        <span
+          className={`flex items-center space-x-2 text-sm ${syncStatus.isOnline ? 'text-gray-400' : 'text-yellow-400'}`}
+          title={syncStatus.isOnline
+            ? 'Connected to the server'
+            : 'Server unreachable; changes are kept in this browser and sent when it is back'}
+        >
+          <span className={`w-2 h-2 rounded-full ${syncStatus.isOnline ? 'bg-green-500' : 'bg-yellow-500'}`} />
+          <span>
+            {syncStatus.isOnline ? 'Online' : 'Offline'}
+            {syncStatus.pendingCount > 0 && ` · ${syncStatus.pendingCount} pending`}
+            {syncStatus.isSyncing && ' · syncing...'}
+            {positionSyncStatus.pendingCount > 0 &&
+              ` · saving ${positionSyncStatus.pendingCount} position${positionSyncStatus.pendingCount === 1 ? '' : 's'}...`}
+          </span>
+        </span>
+
+        {positionSyncStatus.error && positionSyncStatus.pendingCount === 0 && (
+          <span className="text-sm text-red-400" title={positionSyncStatus.error}>
+            Positions not saved
+          </span>
+        )}
+
+        {collaboration && (
+          collaboration.isConnected ? (
+            <span
+              className="flex items-center space-x-2 text-sm text-gray-400"
+              title={collaboration.peers.map(peer => peer.name).join(', ') || 'Nobody else is editing'}
+            >
+              <span className="flex -space-x-1">
+                {collaboration.peers.map(peer => (
+                  <span
+                    key={peer.clientId}
+                    className="flex w-5 h-5 items-center justify-center rounded-full border border-gray-800 text-[10px] font-semibold text-white"
+                    style={{ backgroundColor: peer.color }}
+                  >
+                    {peer.name.charAt(0).toUpperCase()}
+                  </span>
+                ))}
+              </span>
+              <span>
+                {collaboration.peers.length === 0
+                  ? 'Only you'
+                  : `${collaboration.peers.length} other${collaboration.peers.length === 1 ? '' : 's'} editing`}
+              </span>
+            </span>
+          ) : (
+            <span className="text-sm text-yellow-400" title="Reconnecting to the live sync relay">
+              Live sync disconnected
+            </span>
+          )
+        )}
       </div>
 
       {/* Right side - Controls */}
       <div className="flex items-center space-x-2">
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          className="btn btn-secondary btn-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+          </svg>
+        </button>
+
+        <button
+          onClick={onRedo}
+          disabled={!canRedo}
+          className="btn btn-secondary btn-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+          </svg>
+        </button>
+
+        <button
+          onClick={onManageNodeTypes}
+          className="btn btn-secondary btn-sm"
+          title="Create and edit node types"
+        >
+          Types
+        </button>
+
+        <button
+          onClick={onManageSchema}
+          className="btn btn-secondary btn-sm"
+          title="Property schemas and edge rules"
+        >
+          Schema
+        </button>
+
+        <button
+          onClick={onToggleFilterPanel}
+          className={`btn ${isFilterPanelOpen ? 'btn-primary' : 'btn-secondary'} btn-sm`}
+          title="Filter node types, edge labels and properties"
+        >
+          Filters
+        </button>
+
+        <button
+          onClick={onToggleQueryConsole}
+          className={`btn ${isQueryConsoleOpen ? 'btn-primary' : 'btn-secondary'} btn-sm`}
+          title="Pattern query console"
+        >
+          Query
+        </button>
+
+        <button
+          onClick={onTogglePathFinder}
+          className={`btn ${isPathFinderOpen ? 'btn-primary' : 'btn-secondary'} btn-sm`}
+          title="Find paths between two nodes"
+        >
+          Paths
+        </button>
+
+        <button
+          onClick={onTogglePhysicsPanel}
+          className={`btn ${isPhysicsPanelOpen ? 'btn-primary' : 'btn-secondary'} btn-sm`}
+          title="Tune the force simulation"
+        >
+          Physics
+        </button>
+
+        <div className="relative">
+          <button
+            onClick={() => setIsLayoutMenuOpen(open => !open)}
+            className={`btn ${activeLayout === 'force' ? 'btn-secondary' : 'btn-primary'} btn-sm`}
+            title={hasUnsavedLayout ? 'Arrange nodes (positions not saved)' : 'Arrange nodes'}
+          >
+            Layout{activeLayout !== 'force' && `: ${LAYOUTS[activeLayout].label}`}{hasUnsavedLayout && ' *'}
+          </button>
+          {isLayoutMenuOpen && (
+            <div className="absolute right-0 mt-1 w-64 bg-gray-800 border border-gray-600 rounded-md shadow-lg py-1 z-20">
+              {(Object.keys(LAYOUTS) as LayoutKind[]).map(layout => (
+                <button
+                  key={layout}
+                  onClick={() => handleLayout(layout)}
+                  className="w-full text-left px-3 py-2 text-sm text-white hover:bg-gray-700"
+                >
+                  <div className="flex items-center justify-between">
+                    <span>{LAYOUTS[layout].label}</span>
+                    {layout === activeLayout && <span className="text-xs text-blue-400">active</span>}
+                  </div>
+                  <div className="text-xs text-gray-400">{LAYOUTS[layout].description}</div>
+                </button>
+              ))}
+              <div className="border-t border-gray-600 my-1" />
+              <button
+                onClick={() => {
+                  setIsLayoutMenuOpen(false);
+                  onSaveLayout();
+                }}
+                disabled={!hasUnsavedLayout}
+                className="w-full text-left px-3 py-2 text-sm text-white hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+              >
+                Save positions
+              </button>
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="btn btn-secondary btn-sm"
+          title="Import GraphML, GEXF or DOT"
+        >
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMPORT_EXTENSIONS.join(',')}
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+
+        <div className="relative">
+          <button
+            onClick={() => setIsExportMenuOpen(open => !open)}
+            className="btn btn-secondary btn-sm"
+            title="Export graph"
+          >
+            Export
+          </button>
+          {isExportMenuOpen && (
+            <div className="absolute right-0 mt-1 w-40 bg-gray-800 border border-gray-600 rounded-md shadow-lg py-1 z-20">
+              {(Object.keys(GRAPH_FORMATS) as GraphFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  className="w-full text-left px-3 py-2 text-sm text-white hover:bg-gray-700"
+                >
+                  {GRAPH_FORMATS[format].label}
+                </button>
+              ))}
+              <div className="border-t border-gray-600 my-1" />
+              <button
+                onClick={() => {
+                  setIsExportMenuOpen(false);
+                  onExportImage();
+                }}
+                className="w-full text-left px-3 py-2 text-sm text-white hover:bg-gray-700"
+              >
+                Image (SVG / PNG)...
+              </button>
+            </div>
+          )}
+        </div>
+
         <button
           onClick={onFitToScreen}
           className="btn btn-secondary btn-sm"
@@ -66,10 +323,22 @@ const Toolbar: React.FC<ToolbarProps> = ({
           Fit
         </button>
 
+        {user && (
+          <button
+            onClick={onLogout}
+            className="btn btn-secondary btn-sm"
+            title={`Signed in as ${user.name}`}
+          >
+            Sign out
+          </button>
+        )}
+
         <div className="text-xs text-gray-400 ml-2">
           <div>Click empty space to create node (auto-centers)</div>
-          <div>Right-click node to connect/unlink</div>
+          <div>Right-click node to connect/unlink, focus or find paths</div>
           <div>Search auto-centers on best match</div>
+          <div>Shift+click or Shift+drag to multi-select (add Alt for lasso)</div>
+          <div>Ctrl+Z / Ctrl+Shift+Z to undo/redo</div>
         </div>
       </div>
     </div>
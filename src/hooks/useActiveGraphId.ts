@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { getActiveGraphId, setActiveGraphId, subscribeToActiveGraph } from '../api/activeGraph';
+import { savePendingPositions } from '../api/positionSync';
+import { graphIdFromPath } from '../utils/urlState';
+
+// ID of the graph the app works on
+export function useActiveGraphId(): string {
+  const [graphId, setGraphId] = useState(getActiveGraphId);
+
+  useEffect(() => subscribeToActiveGraph(setGraphId), []);
+
+  // Back and forward can lead to a page of another graph
+  useEffect(() => {
+    const handlePopState = async () => {
+      const linkedGraphId = graphIdFromPath(window.location.pathname);
+      if (!linkedGraphId || linkedGraphId === getActiveGraphId()) return;
+      await savePendingPositions();
+      // Another step back or forward may have happened meanwhile
+      if (graphIdFromPath(window.location.pathname) === linkedGraphId) setActiveGraphId(linkedGraphId);
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  return graphId;
+}
@@ -0,0 +1,12 @@
+import { useState, useEffect } from 'react';
+import { getAuthState, subscribeToAuth } from '../api/auth';
+import type { AuthState } from '../types/graph';
+
+// The signed-in session, and why the last one ended
+export function useAuth(): AuthState {
+  const [state, setState] = useState<AuthState>(getAuthState);
+
+  useEffect(() => subscribeToAuth(setState), []);
+
+  return state;
+}
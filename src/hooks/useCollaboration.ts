@@ -0,0 +1,177 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { COLLAB_CONFIG } from '../types/constants';
+import type { CollabChange, CollabMessage, CollabPeer, CollabPresence, CollaborationStatus } from '../types/graph';
+
+const EMPTY_PRESENCE: CollabPresence = { cursor: null, nodeIds: [], edgeIds: [] };
+
+function hashColor(id: string): string {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  return COLLAB_CONFIG.PEER_COLORS[Math.abs(hash) % COLLAB_CONFIG.PEER_COLORS.length];
+}
+
+// The name is kept per browser so the others recognize the same person after a reload
+function loadName(): string {
+  try {
+    const stored = localStorage.getItem(COLLAB_CONFIG.NAME_STORAGE_KEY);
+    if (stored) return stored;
+    const name = `Guest ${Math.floor(1000 + Math.random() * 9000)}`;
+    localStorage.setItem(COLLAB_CONFIG.NAME_STORAGE_KEY, name);
+    return name;
+  } catch {
+    return 'Guest';
+  }
+}
+
+// One identity per tab: two tabs of the same user are two cursors
+function createIdentity(): Omit<CollabPeer, 'presence'> {
+  const clientId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  return { clientId, name: loadName(), color: hashColor(clientId) };
+}
+
+// The relay forwards messages only between clients of the same graph
+function roomUrl(graphId: string): string {
+  const url = new URL(COLLAB_CONFIG.URL);
+  url.searchParams.set('graph', graphId);
+  return url.toString();
+}
+
+/**
+ * Live sync with the other users of a graph through a WebSocket relay (COLLAB_CONFIG.URL).
+ *
+ * Changes this client has saved are announced with `publishChange`; the others' go to the
+ * listeners registered with `onRemoteChange`. Presence (cursor and selection) is sent at most
+ * every PRESENCE_INTERVAL.
+ * The relay only forwards messages, so the REST backend stays the source of truth: changes
+ * made while this client was disconnected are missed, and the listeners registered with
+ * `onReconnect` are told to catch up from the server.
+ */
+export function useCollaboration(graphId: string) {
+  const [isConnected, setIsConnected] = useState(false);
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+
+  const identityRef = useRef(createIdentity());
+  const socketRef = useRef<WebSocket | null>(null);
+  const presenceRef = useRef<CollabPresence>(EMPTY_PRESENCE);
+  const presenceTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const lastPresenceSentRef = useRef(0);
+  const changeListenersRef = useRef(new Set<(change: CollabChange) => void>());
+  const reconnectListenersRef = useRef(new Set<() => void>());
+
+  const send = useCallback((message: CollabMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!COLLAB_CONFIG.URL) return;
+
+    let socket: WebSocket;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let isClosed = false;
+    let hasConnected = false;
+
+    const handleMessage = (message: CollabMessage) => {
+      switch (message.type) {
+        case 'peers':
+          setPeers(message.peers);
+          break;
+        case 'hello':
+          setPeers(prev => [...prev.filter(p => p.clientId !== message.peer.clientId), message.peer]);
+          break;
+        case 'presence':
+          setPeers(prev => prev.map(p => (p.clientId === message.clientId ? { ...p, presence: message.presence } : p)));
+          break;
+        case 'leave':
+          setPeers(prev => prev.filter(p => p.clientId !== message.clientId));
+          break;
+        case 'change':
+          changeListenersRef.current.forEach(listener => listener(message.change));
+          break;
+      }
+    };
+
+    const connect = () => {
+      socket = new WebSocket(roomUrl(graphId));
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        setIsConnected(true);
+        send({ type: 'hello', peer: { ...identityRef.current, presence: presenceRef.current } });
+        if (hasConnected) reconnectListenersRef.current.forEach(listener => listener());
+        hasConnected = true;
+      };
+      socket.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data) as CollabMessage);
+        } catch (error) {
+          console.warn('Ignoring malformed live-sync message:', error);
+        }
+      };
+      socket.onclose = () => {
+        if (isClosed) return;
+        setIsConnected(false);
+        setPeers([]);
+        retryTimer = setTimeout(connect, COLLAB_CONFIG.RECONNECT_DELAY);
+      };
+    };
+
+    connect();
+
+    return () => {
+      isClosed = true;
+      clearTimeout(retryTimer);
+      clearTimeout(presenceTimerRef.current);
+      socket.close();
+      socketRef.current = null;
+      // onclose ignores a socket closed here, so the state is reset for the next graph
+      setIsConnected(false);
+      setPeers([]);
+    };
+  }, [graphId, send]);
+
+  const publishChange = useCallback((change: CollabChange) => {
+    send({ type: 'change', clientId: identityRef.current.clientId, change });
+  }, [send]);
+
+  // Merge into this client's presence; bursts (pointer moves) are throttled, the last state always goes out
+  const publishPresence = useCallback((changes: Partial<CollabPresence>) => {
+    if (!COLLAB_CONFIG.URL) return;
+    presenceRef.current = { ...presenceRef.current, ...changes };
+    if (presenceTimerRef.current) return;
+
+    const flush = () => {
+      presenceTimerRef.current = undefined;
+      lastPresenceSentRef.current = Date.now();
+      send({ type: 'presence', clientId: identityRef.current.clientId, presence: presenceRef.current });
+    };
+    const wait = lastPresenceSentRef.current + COLLAB_CONFIG.PRESENCE_INTERVAL - Date.now();
+    if (wait <= 0) {
+      flush();
+    } else {
+      presenceTimerRef.current = setTimeout(flush, wait);
+    }
+  }, [send]);
+
+  // Returns an unsubscribe function
+  const onRemoteChange = useCallback((listener: (change: CollabChange) => void) => {
+    changeListenersRef.current.add(listener);
+    return () => {
+      changeListenersRef.current.delete(listener);
+    };
+  }, []);
+
+  // Called when the connection is back after a drop; returns an unsubscribe function
+  const onReconnect = useCallback((listener: () => void) => {
+    reconnectListenersRef.current.add(listener);
+    return () => {
+      reconnectListenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const status: CollaborationStatus | null = COLLAB_CONFIG.URL ? { isConnected, peers } : null;
+
+  return { status, peers, publishChange, publishPresence, onRemoteChange, onReconnect };
+}
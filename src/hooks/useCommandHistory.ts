@@ -0,0 +1,96 @@
+import { useState, useCallback, useRef, type MutableRefObject } from 'react';
+import { HISTORY_CONFIG } from '../types/constants';
+import type { HistoryCommand } from '../types/graph';
+
+/**
+ * Undo/redo stack for graph mutations.
+ *
+ * Commands are recorded after they have been applied, together with their inverse.
+ * Because recreating a deleted node or edge yields a new server ID, the history also
+ * keeps an alias table so older commands can resolve the ID an item has *now*.
+ */
+export function useCommandHistory(maxEntries: number = HISTORY_CONFIG.MAX_ENTRIES) {
+  const undoStackRef = useRef<HistoryCommand[]>([]);
+  const redoStackRef = useRef<HistoryCommand[]>([]);
+  const idAliasesRef = useRef(new Map<string, string>());
+  const isBusyRef = useRef(false);
+  const [isBusy, setIsBusy] = useState(false);
+  // Stacks live in refs so commands can be pushed from async handlers; bump this to re-render
+  const [, setVersion] = useState(0);
+
+  const notify = useCallback(() => setVersion(v => v + 1), []);
+
+  // Follow the alias chain to the most recent ID of an item
+  const resolveId = useCallback((id: string): string => {
+    let current = id;
+    const seen = new Set<string>();
+    while (idAliasesRef.current.has(current) && !seen.has(current)) {
+      seen.add(current);
+      current = idAliasesRef.current.get(current)!;
+    }
+    return current;
+  }, []);
+
+  // Record that an item previously known as `oldId` now lives under `newId`
+  const remapId = useCallback((oldId: string, newId: string) => {
+    const resolved = resolveId(oldId);
+    if (resolved !== newId) {
+      idAliasesRef.current.set(resolved, newId);
+    }
+  }, [resolveId]);
+
+  const push = useCallback((command: HistoryCommand) => {
+    undoStackRef.current = [...undoStackRef.current, command].slice(-maxEntries);
+    redoStackRef.current = [];
+    notify();
+  }, [maxEntries, notify]);
+
+  const run = useCallback(async (
+    from: MutableRefObject<HistoryCommand[]>,
+    to: MutableRefObject<HistoryCommand[]>,
+    direction: 'undo' | 'redo'
+  ) => {
+    if (isBusyRef.current || from.current.length === 0) return;
+
+    const command = from.current[from.current.length - 1];
+    isBusyRef.current = true;
+    setIsBusy(true);
+
+    try {
+      await command[direction]();
+      from.current = from.current.slice(0, -1);
+      to.current = [...to.current, command];
+    } finally {
+      isBusyRef.current = false;
+      setIsBusy(false);
+      notify();
+    }
+  }, [notify]);
+
+  const undo = useCallback(() => run(undoStackRef, redoStackRef, 'undo'), [run]);
+  const redo = useCallback(() => run(redoStackRef, undoStackRef, 'redo'), [run]);
+
+  const clear = useCallback(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    idAliasesRef.current.clear();
+    notify();
+  }, [notify]);
+
+  const undoStack = undoStackRef.current;
+  const redoStack = redoStackRef.current;
+
+  return {
+    push,
+    undo,
+    redo,
+    clear,
+    resolveId,
+    remapId,
+    isBusy,
+    canUndo: undoStack.length > 0 && !isBusy,
+    canRedo: redoStack.length > 0 && !isBusy,
+    undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+    redoLabel: redoStack[redoStack.length - 1]?.label ?? null
+  };
+}
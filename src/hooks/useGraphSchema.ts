@@ -0,0 +1,38 @@
+import { useCallback } from 'react';
+import { workspaceRepository } from '../api/repositories';
+import { scopedStorageKey } from '../api/activeGraph';
+import { SCHEMA_CONFIG } from '../types/constants';
+import { EMPTY_SCHEMA, parseGraphSchema } from '../utils/graphSchema';
+import { useSyncedDocument } from './useSyncedDocument';
+import type { GraphSchema } from '../types/graph';
+
+function parseStoredSchema(raw: unknown): GraphSchema | null {
+  try {
+    return parseGraphSchema(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Property schemas and edge rules of a graph, kept through the API's `/schema` endpoint when
+ * there is one and in localStorage otherwise.
+ */
+export function useGraphSchema(graphId: string, onError: (message: string) => void) {
+  const graphRepository = workspaceRepository.openGraph(graphId);
+  const [schema, commit] = useSyncedDocument<GraphSchema>({
+    storageKey: scopedStorageKey(SCHEMA_CONFIG.STORAGE_KEY, graphId),
+    fallback: EMPTY_SCHEMA,
+    parse: parseStoredSchema,
+    load: () => graphRepository.getSchema?.() ?? Promise.resolve(null),
+    save: schema => graphRepository.saveSchema?.(schema) ?? Promise.resolve(schema),
+    saveDelay: SCHEMA_CONFIG.SAVE_DELAY,
+    isEmpty: remote => typeof remote !== 'object' || remote === null || Object.keys(remote).length === 0,
+    name: 'schema',
+    onError
+  });
+
+  const saveSchema = useCallback((next: GraphSchema) => commit(() => next), [commit]);
+
+  return { schema, saveSchema };
+}
@@ -0,0 +1,54 @@
+import { useCallback } from 'react';
+import { workspaceRepository } from '../api/repositories';
+import { scopedStorageKey } from '../api/activeGraph';
+import { NODE_TYPE_CONFIG } from '../types/constants';
+import { DEFAULT_NODE_TYPES, createNodeTypeId, parseNodeTypes } from '../utils/nodeTypes';
+import { useSyncedDocument } from './useSyncedDocument';
+import type { NodeTypeDefinition } from '../types/graph';
+
+/**
+ * User-defined node types of a graph, kept through the API's `/node-types` endpoint when
+ * there is one and in localStorage otherwise.
+ */
+export function useNodeTypeRegistry(graphId: string, onError: (message: string) => void) {
+  const graphRepository = workspaceRepository.openGraph(graphId);
+  const [nodeTypes, commit] = useSyncedDocument<NodeTypeDefinition[]>({
+    storageKey: scopedStorageKey(NODE_TYPE_CONFIG.STORAGE_KEY, graphId),
+    fallback: DEFAULT_NODE_TYPES,
+    parse: parseNodeTypes,
+    load: () => graphRepository.getNodeTypes?.() ?? Promise.resolve(null),
+    save: types => graphRepository.saveNodeTypes?.(types) ?? Promise.resolve(types),
+    saveDelay: NODE_TYPE_CONFIG.SAVE_DELAY,
+    // An empty registry on the server keeps the local one until it is first saved
+    isEmpty: remote => Array.isArray(remote) && remote.length === 0,
+    name: 'node types',
+    onError
+  });
+
+  // Adds a type and returns its ID
+  const createNodeType = useCallback((definition: Omit<NodeTypeDefinition, 'id'>): string => {
+    let id = '';
+    commit(prev => {
+      id = createNodeTypeId(definition.label, prev);
+      return [...prev, { ...definition, id }];
+    });
+    return id;
+  }, [commit]);
+
+  // Renames keep the ID, so nodes of the type are unaffected
+  const updateNodeType = useCallback((id: string, changes: Partial<Omit<NodeTypeDefinition, 'id'>>) => {
+    commit(prev => prev.map(type => (type.id === id ? { ...type, ...changes } : type)));
+  }, [commit]);
+
+  const deleteNodeType = useCallback((id: string) => {
+    if (id === 'default') return;
+    commit(prev => prev.filter(type => type.id !== id));
+  }, [commit]);
+
+  return {
+    nodeTypes,
+    createNodeType,
+    updateNodeType,
+    deleteNodeType
+  };
+}
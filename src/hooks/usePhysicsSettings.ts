@@ -0,0 +1,33 @@
+import { useState, useCallback, useEffect } from 'react';
+import { PHYSICS_CONFIG } from '../types/constants';
+import { DEFAULT_PHYSICS_SETTINGS, parsePhysicsSettings } from '../utils/physicsSettings';
+import type { PhysicsSettings } from '../types/graph';
+
+/**
+ * Force simulation tuning. It is a per-browser preference (screen size and graph density
+ * differ between machines), so unlike node types and schemas it stays in localStorage.
+ */
+export function usePhysicsSettings() {
+  const [physics, setPhysics] = useState<PhysicsSettings>(() => {
+    try {
+      const stored = localStorage.getItem(PHYSICS_CONFIG.STORAGE_KEY);
+      return (stored && parsePhysicsSettings(JSON.parse(stored))) || DEFAULT_PHYSICS_SETTINGS;
+    } catch {
+      return DEFAULT_PHYSICS_SETTINGS;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(PHYSICS_CONFIG.STORAGE_KEY, JSON.stringify(physics));
+    } catch (error) {
+      console.warn('Could not store physics settings locally:', error);
+    }
+  }, [physics]);
+
+  const updatePhysics = useCallback((changes: Partial<PhysicsSettings>) => {
+    setPhysics(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  return { physics, updatePhysics };
+}
@@ -0,0 +1,12 @@
+import { useState, useEffect } from 'react';
+import { getPositionSyncStatus, subscribeToPositionSync } from '../api/positionSync';
+import type { PositionSyncStatus } from '../types/graph';
+
+// Whether moved nodes are still being saved, and why the last save failed
+export function usePositionSyncStatus(): PositionSyncStatus {
+  const [status, setStatus] = useState<PositionSyncStatus>(getPositionSyncStatus);
+
+  useEffect(() => subscribeToPositionSync(setStatus), []);
+
+  return status;
+}
@@ -0,0 +1,12 @@
+import { useState, useEffect } from 'react';
+import { offlineGraphApi } from '../api/offlineGraphApi';
+import type { SyncStatus } from '../types/graph';
+
+// Connection state and number of changes waiting to be sent to the server
+export function useSyncStatus(): SyncStatus {
+  const [status, setStatus] = useState<SyncStatus>(offlineGraphApi.getStatus);
+
+  useEffect(() => offlineGraphApi.subscribe(setStatus), []);
+
+  return status;
+}
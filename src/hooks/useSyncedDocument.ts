@@ -0,0 +1,117 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+
+interface SyncedDocumentOptions<T> {
+  storageKey: string;
+  // Used when nothing usable is stored locally
+  fallback: T;
+  // Validated value, or null when the raw data is unusable
+  parse: (raw: unknown) => T | null;
+  // Resolves to null when the server has no endpoint for the document
+  load: () => Promise<unknown | null>;
+  save: (value: T) => Promise<unknown>;
+  saveDelay: number;
+  // A remote value that counts as "never saved" keeps the local one
+  isEmpty?: (raw: unknown) => boolean;
+  // Name used in error messages, e.g. "node types"
+  name: string;
+  onError: (message: string) => void;
+}
+
+/**
+ * A settings document kept on the server when it supports it and in localStorage otherwise.
+ *
+ * A local copy is always written, so the last known value is available immediately on the
+ * next load. Changes apply at once; saving to the API is debounced because editors such as
+ * color pickers and text fields change on every keystroke. A save still waiting is sent on
+ * unmount, and changes made before the server's copy arrives win over it.
+ */
+export function useSyncedDocument<T>(options: SyncedDocumentOptions<T>): [T, (update: (prev: T) => T) => void] {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const stored = localStorage.getItem(options.storageKey);
+      return (stored && options.parse(JSON.parse(stored))) || options.fallback;
+    } catch {
+      return options.fallback;
+    }
+  });
+  // Changes build on the latest value even when several arrive before a re-render
+  const valueRef = useRef(value);
+  const hasApiSupportRef = useRef(false);
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  // The value waiting for the debounced save
+  const pendingSaveRef = useRef<{ value: T } | null>(null);
+  // Set by the first change, so a server value arriving later doesn't replace it
+  const hasChangesRef = useRef(false);
+
+  const storeLocally = useCallback((next: T) => {
+    try {
+      localStorage.setItem(optionsRef.current.storageKey, JSON.stringify(next));
+    } catch (error) {
+      console.warn(`Could not store ${optionsRef.current.name} locally:`, error);
+    }
+  }, []);
+
+  const saveNow = useCallback(() => {
+    clearTimeout(saveTimeoutRef.current);
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (!pending) return;
+
+    const { save, name, onError } = optionsRef.current;
+    save(pending.value).catch(() => onError(`Failed to save ${name}`));
+  }, []);
+
+  const scheduleSave = useCallback((next: T) => {
+    pendingSaveRef.current = { value: next };
+    clearTimeout(saveTimeoutRef.current);
+    saveTimeoutRef.current = setTimeout(saveNow, optionsRef.current.saveDelay);
+  }, [saveNow]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const { load, parse, isEmpty, name } = optionsRef.current;
+
+    load()
+      .then(remote => {
+        if (cancelled || remote === null) return;
+        hasApiSupportRef.current = true;
+        // Changes made while loading are newer than the server's copy
+        if (hasChangesRef.current) {
+          scheduleSave(valueRef.current);
+          return;
+        }
+        if (isEmpty?.(remote)) return;
+
+        const parsed = parse(remote);
+        if (parsed) {
+          valueRef.current = parsed;
+          setValue(parsed);
+          storeLocally(parsed);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) optionsRef.current.onError(`Failed to load ${name}; using the local copy`);
+      });
+
+    return () => {
+      cancelled = true;
+      // Send a change still waiting for the debounce instead of dropping it
+      saveNow();
+    };
+  }, [storeLocally, saveNow, scheduleSave]);
+
+  const commit = useCallback((update: (prev: T) => T) => {
+    const next = update(valueRef.current);
+    valueRef.current = next;
+    setValue(next);
+    storeLocally(next);
+    hasChangesRef.current = true;
+
+    if (hasApiSupportRef.current) scheduleSave(next);
+  }, [storeLocally, scheduleSave]);
+
+  return [value, commit];
+}
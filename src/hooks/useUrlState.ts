@@ -0,0 +1,101 @@
+import { useEffect, useRef, useCallback, useMemo } from 'react';
+import { isTempId } from '../api/offlineGraphApi';
+import { parseUrlState, formatUrlState, graphUrl, selectionKey } from '../utils/urlState';
+import type { GraphFilter, SelectedItem, SelectionToggle, UrlState, ViewTransform } from '../types/graph';
+
+interface UrlStateOptions {
+  graphId: string;
+  isLoaded: boolean;                 // The URL is applied once the graph is there
+  selectedItem: SelectedItem | null;
+  searchQuery: string;
+  filter: GraphFilter;
+  // Applies state from the URL; returns the selection that could be applied (its item may be gone)
+  onRestore: (state: UrlState) => SelectionToggle | null;
+}
+
+/**
+ * Keeps the URL in step with the selection, the view, the search and the filter, so it can be
+ * shared. A new selection adds a history entry and everything else updates the current one, so
+ * back and forward step through what was selected.
+ */
+export function useUrlState({ graphId, isLoaded, selectedItem, searchQuery, filter, onRestore }: UrlStateOptions) {
+  const hasRestoredRef = useRef(false);
+  const viewRef = useRef<ViewTransform | null>(null);
+  // Selection the current history entry is for
+  const entrySelectionRef = useRef('');
+  const onRestoreRef = useRef(onRestore);
+
+  useEffect(() => {
+    onRestoreRef.current = onRestore;
+  }, [onRestore]);
+
+  // Items that only exist here so far have no link yet
+  const selectedType = selectedItem?.type;
+  const selectedId = selectedItem?.item.id;
+  const selection = useMemo<SelectionToggle | null>(
+    () => (selectedType && selectedId && !isTempId(selectedId) ? { type: selectedType, id: selectedId } : null),
+    [selectedType, selectedId]
+  );
+
+  const stateRef = useRef({ selection, searchQuery, filter });
+  useEffect(() => {
+    stateRef.current = { selection, searchQuery, filter };
+  }, [selection, searchQuery, filter]);
+
+  const writeUrl = useCallback((addEntry: boolean) => {
+    const { selection, searchQuery, filter } = stateRef.current;
+    const url = formatUrlState({ graphId, selection, view: viewRef.current, search: searchQuery, filter });
+    if (url === window.location.pathname + window.location.search) return;
+    if (addEntry) window.history.pushState(null, '', url);
+    else window.history.replaceState(null, '', url);
+  }, [graphId]);
+
+  const restore = useCallback((state: UrlState) => {
+    if (state.view) viewRef.current = state.view;
+    entrySelectionRef.current = selectionKey(onRestoreRef.current(state));
+  }, []);
+
+  // Apply the link the app was opened with, once the graph has loaded
+  useEffect(() => {
+    if (!isLoaded || hasRestoredRef.current) return;
+    hasRestoredRef.current = true;
+
+    const state = parseUrlState(window.location);
+    if (state.graphId === null || state.graphId === graphId) {
+      restore(state);
+      writeUrl(false);
+    } else {
+      // Switched here from another graph, which keeps its own entry
+      window.history.pushState(null, '', graphUrl(graphId));
+    }
+  }, [isLoaded, graphId, restore, writeUrl]);
+
+  useEffect(() => {
+    if (!hasRestoredRef.current) return;
+    const key = selectionKey(selection);
+    const isNewSelection = key !== entrySelectionRef.current;
+    entrySelectionRef.current = key;
+    writeUrl(isNewSelection);
+  }, [selection, searchQuery, filter, writeUrl]);
+
+  // Back and forward within this graph; App opens a new view for another graph
+  useEffect(() => {
+    const handlePopState = () => {
+      if (!hasRestoredRef.current) return;
+      const state = parseUrlState(window.location);
+      if (state.graphId !== null && state.graphId !== graphId) return;
+      restore(state);
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [graphId, restore]);
+
+  // Zoom and pan only update the current entry
+  const handleViewChange = useCallback((view: ViewTransform) => {
+    viewRef.current = view;
+    if (hasRestoredRef.current) writeUrl(false);
+  }, [writeUrl]);
+
+  return { handleViewChange };
+}
@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import { workspaceRepository } from '../api/repositories';
+import { setActiveGraphId } from '../api/activeGraph';
+import { offlineGraphApi } from '../api/offlineGraphApi';
+import { savePendingPositions } from '../api/positionSync';
+import { describeFailure, isNetworkError } from '../api/errors';
+import type { GraphSummary } from '../types/graph';
+
+/**
+ * The list of graphs and what can be done with them. Opening another graph changes the active
+ * graph ID, which gives the app a fresh view of it.
+ */
+export function useWorkspaces(activeGraphId: string, onError: (message: string) => void) {
+  const [graphs, setGraphs] = useState<GraphSummary[]>([]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    workspaceRepository.listGraphs()
+      .then(async list => {
+        if (!isCurrent) return;
+        setGraphs(list);
+        // The graph opened last may have been deleted elsewhere
+        if (list.length > 0 && !list.some(graph => graph.id === activeGraphId)) {
+          await savePendingPositions();
+          if (isCurrent) setActiveGraphId(list[0].id);
+        }
+      })
+      .catch(err => {
+        console.error('Failed to load the list of graphs:', err);
+        // Offline the open graph still works from its cache; the banner already says so
+        if (isCurrent && !isNetworkError(err)) onError(describeFailure('load the list of graphs', err));
+      });
+    return () => { isCurrent = false; };
+  }, [activeGraphId, onError]);
+
+  const switchGraph = useCallback(async (id: string) => {
+    if (id === activeGraphId) return;
+    await savePendingPositions();
+    setActiveGraphId(id);
+  }, [activeGraphId]);
+
+  const createGraph = useCallback(async (name: string) => {
+    try {
+      const graph = await workspaceRepository.createGraph(name);
+      setGraphs(prev => [...prev, graph]);
+      await switchGraph(graph.id);
+    } catch (err) {
+      onError(describeFailure(`create graph "${name}"`, err));
+    }
+  }, [switchGraph, onError]);
+
+  const renameGraph = useCallback(async (id: string, name: string) => {
+    try {
+      const graph = await workspaceRepository.renameGraph(id, name);
+      setGraphs(prev => prev.map(g => (g.id === id ? graph : g)));
+    } catch (err) {
+      onError(describeFailure(`rename graph to "${name}"`, err));
+    }
+  }, [onError]);
+
+  // The copy opens right away; it includes positions that were still being saved
+  const duplicateGraph = useCallback(async (id: string) => {
+    const source = graphs.find(g => g.id === id);
+    const name = `${source?.name ?? 'Graph'} (copy)`;
+    try {
+      if (id === activeGraphId) await savePendingPositions();
+      const graph = await workspaceRepository.duplicateGraph(id, name);
+      setGraphs(prev => [...prev, graph]);
+      await switchGraph(graph.id);
+    } catch (err) {
+      onError(describeFailure(`duplicate graph "${source?.name ?? id}"`, err));
+    }
+  }, [graphs, activeGraphId, switchGraph, onError]);
+
+  // Deleting the open graph opens the first of the others
+  const deleteGraph = useCallback(async (id: string) => {
+    const source = graphs.find(g => g.id === id);
+    const remaining = graphs.filter(g => g.id !== id);
+    if (remaining.length === 0) {
+      onError('The last graph can\'t be deleted.');
+      return;
+    }
+    try {
+      if (id === activeGraphId) await savePendingPositions();
+      await workspaceRepository.deleteGraph(id);
+      await offlineGraphApi.forgetGraph(id);
+      setGraphs(remaining);
+      if (id === activeGraphId) setActiveGraphId(remaining[0].id);
+    } catch (err) {
+      onError(describeFailure(`delete graph "${source?.name ?? id}"`, err));
+    }
+  }, [graphs, activeGraphId, onError]);
+
+  return {
+    graphs,
+    switchGraph,
+    createGraph,
+    renameGraph,
+    duplicateGraph,
+    deleteGraph
+  };
+}
@@ -1,4 +1,6 @@
-// Node type colors mapping
+import type { NodeShape, PropertyValueType, EdgeCardinality } from './graph';
+
+// Built-in node type colors; the user-editable registry starts out from these
 export const NODE_TYPE_COLORS: Record<string, string> = {
   'frontend-framework': '#3b82f6', // blue
   'backend-framework': '#10b981', // emerald
@@ -17,6 +19,67 @@ export const NODE_TYPE_COLORS: Record<string, string> = {
   'default': '#6b7280' // gray
 };
 
+// Display names of the built-in node types, in registry order
+export const NODE_TYPE_LABELS: Record<string, string> = {
+  'default': 'Default',
+  'frontend-framework': 'Frontend Framework',
+  'backend-framework': 'Backend Framework',
+  'programming-language': 'Programming Language',
+  'database': 'Database',
+  'runtime': 'Runtime',
+  'visualization-library': 'Visualization Library',
+  'component': 'Component',
+  'architecture': 'Architecture',
+  'concept': 'Concept',
+  'css-framework': 'CSS Framework',
+  'build-tool': 'Build Tool',
+  'cloud-database': 'Cloud Database',
+  'orm': 'ORM',
+  'graph-database': 'Graph Database'
+};
+
+// Value types of the property editor, in picker order
+export const PROPERTY_VALUE_TYPE_LABELS: Record<PropertyValueType, string> = {
+  'string': 'Text',
+  'number': 'Number',
+  'boolean': 'Yes/No',
+  'date': 'Date',
+  'url': 'URL',
+  'list': 'List',
+  'json': 'JSON'
+};
+
+// Edge rule cardinalities, in picker order
+export const EDGE_CARDINALITY_LABELS: Record<EdgeCardinality, string> = {
+  'many-to-many': 'many to many',
+  'one-to-many': 'one to many',
+  'many-to-one': 'many to one',
+  'one-to-one': 'one to one'
+};
+
+// Property schemas and edge rules
+export const SCHEMA_CONFIG = {
+  STORAGE_KEY: 'knowledge-graph:schema', // Local copy, and the only copy without API support
+  SAVE_DELAY: 500,            // Debounce before edits are sent to the API
+  FILE_NAME: 'graph-schema.json'
+} as const;
+
+// Shapes a node type can be drawn with, in picker order
+export const NODE_SHAPE_LABELS: Record<NodeShape, string> = {
+  'circle': 'Circle',
+  'square': 'Square',
+  'diamond': 'Diamond',
+  'hexagon': 'Hexagon'
+};
+
+// User-defined node type registry
+export const NODE_TYPE_CONFIG = {
+  STORAGE_KEY: 'knowledge-graph:node-types', // Local copy, and the only copy without API support
+  SAVE_DELAY: 500,            // Debounce before edits are sent to the API
+  NODE_RADIUS: 8,             // Radius of the circle a node shape fits in
+  MAX_ICON_LENGTH: 2          // Icons are an emoji or a couple of letters
+} as const;
+
 // Physics simulation constants - tuned for better stability
 export const PHYSICS_CONFIG = {
   CHARGE_STRENGTH: -400,      // Increased repulsion for better separation
@@ -25,5 +88,152 @@ export const PHYSICS_CONFIG = {
   ALPHA_DECAY: 0.015,         // Slower decay for more stable settling
   VELOCITY_DECAY: 0.4,        // Higher drag to reduce oscillation
   ALPHA_TARGET: 0.05,         // Minimum energy level before simulation stops
-  REHEAT_STRENGTH: 0.2        // Gentle reheat for smooth transitions
-} as const; 
\ No newline at end of file
+  REHEAT_STRENGTH: 0.2,       // Gentle reheat for smooth transitions
+  CHARGE_DISTANCE_MAX: 300,   // Nodes further apart than this don't repel each other
+  STORAGE_KEY: 'knowledge-graph:physics' // Tuning from the physics panel, kept per browser
+} as const; 
+
+// Canvas renderer, used instead of SVG for large graphs
+export const RENDERER_CONFIG = {
+  // More visible nodes than this switch to the canvas renderer (VITE_CANVAS_NODE_THRESHOLD overrides)
+  CANVAS_NODE_THRESHOLD: Number(import.meta.env.VITE_CANVAS_NODE_THRESHOLD) || 1500,
+  NODE_LABEL_MIN_SCALE: 0.6,  // Zoom below which node labels are hidden (the hovered node keeps its label)
+  EDGE_LABEL_MIN_SCALE: 1.2,  // Zoom below which edge labels are hidden
+  ICON_MIN_SCALE: 0.5,        // Zoom below which type icons are hidden
+  MAX_LABELS: 2000,           // More items on screen than this are drawn without text
+  HIT_TOLERANCE: 4,           // Screen pixels around nodes and edges that still count as a hit
+  EDGE_INDEX_MAX_HALF_LENGTH: 150, // Edges longer than twice this are hit-tested one by one, not through the quadtree
+  SNAPSHOT_RESOLUTION: 2,     // Pixels per unit in exported images
+  MAX_SNAPSHOT_PIXELS: 16000000, // Exported images are scaled down to stay within browser canvas limits
+  MAX_MENU_NODES: 200         // Unconnected nodes listed in the context menu
+} as const;
+
+// REST client (src/api/apiClient.ts)
+export const API_CONFIG = {
+  BASE_URL: import.meta.env.VITE_API_BASE_URL || '/api',
+  TIMEOUT: 10000,             // ms before a request without an answer fails
+  RETRIES: 2,                 // Extra attempts for idempotent calls that failed for a passing reason
+  RETRY_BASE_DELAY: 300,      // ms before the first retry; doubles with each attempt, with jitter
+  RETRY_MAX_DELAY: 4000       // Upper bound of a retry delay
+} as const;
+
+// Sign-in (src/api/auth.ts)
+export const AUTH_CONFIG = {
+  URL: import.meta.env.VITE_AUTH_URL || '', // Base URL of the auth endpoints; empty turns sign-in off
+  REFRESH_MARGIN: 30000,      // ms before expiry at which an access token is refreshed ahead of use
+  STORAGE_KEY: 'knowledge-graph:session', // Session kept per browser, so a reload stays signed in
+  REFRESH_LOCK: 'knowledge-graph:refresh' // Web lock that lets one tab at a time refresh the shared session
+} as const;
+
+// Workspaces: named graphs picked in the toolbar
+export const WORKSPACE_CONFIG = {
+  DEFAULT_GRAPH_ID: 'default', // The first graph, and the only one of servers without workspaces
+  DEFAULT_GRAPH_NAME: 'My graph',
+  STORAGE_KEY: 'knowledge-graph:active-graph' // Graph opened last, kept per browser
+} as const;
+
+// Graph storage backend (see src/api/repositories)
+export const STORAGE_CONFIG = {
+  BACKEND: import.meta.env.VITE_GRAPH_STORAGE || 'rest', // rest, memory, local (IndexedDB) or file
+  FILE_URL: import.meta.env.VITE_GRAPH_FILE || '/demo-graph.json', // JSON graph read by the file backend
+  LOCAL_GRAPH_KEY: 'standalone', // Record of the local backend in the offline database
+  LOCAL_GRAPH_LIST_KEY: 'standalone-graphs' // Its list of graphs
+} as const;
+
+// Offline cache and queued changes
+export const OFFLINE_CONFIG = {
+  DB_NAME: 'knowledge-graph',
+  DB_VERSION: 1,
+  TEMP_ID_PREFIX: 'temp-',    // IDs of items created offline, replaced once the server assigns one
+  RETRY_INTERVAL: 15000,      // ms between attempts to reach the server while changes are pending
+  CACHE_SAVE_DELAY: 1000      // ms to wait before writing the cached graph after a change
+} as const;
+
+// Saving moved nodes in the background (src/api/positionSync.ts)
+export const POSITION_SYNC_CONFIG = {
+  FLUSH_DELAY: 500,           // ms to collect moves before saving them together
+  BATCH_SIZE: 200,            // Positions per bulk request
+  CONCURRENCY: 4,             // Parallel update requests when the backend has no bulk endpoint
+  RETRY_BASE_DELAY: 2000,     // ms before saving again after a failed round; doubles with each failure
+  RETRY_MAX_DELAY: 30000      // Upper bound of that delay
+} as const;
+
+// Live collaboration through the relay in server/collabRelay.js
+export const COLLAB_CONFIG = {
+  URL: import.meta.env.VITE_COLLAB_URL || '', // WebSocket URL of the relay; empty turns live sync off
+  RECONNECT_DELAY: 3000,      // ms before reconnecting after the relay went away
+  PRESENCE_INTERVAL: 50,      // Minimum ms between cursor updates sent to the others
+  MOVE_DURATION: 300,         // ms for nodes moved by someone else to glide into place
+  NAME_STORAGE_KEY: 'knowledge-graph:collab-name', // Name shown to the others, kept per browser
+  PEER_COLORS: ['#f472b6', '#a78bfa', '#34d399', '#fbbf24', '#60a5fa', '#f87171', '#2dd4bf', '#fb923c']
+} as const;
+
+// Alternative layouts picked from the toolbar
+export const LAYOUT_CONFIG = {
+  NODE_SPACING: 80,           // Distance between neighbours in a layer or on a ring
+  LAYER_SPACING: 120,         // Distance between the layers of the layered layout
+  RING_SPACING: 120,          // Distance between the rings of the radial layout
+  GRID_SPACING: 100,          // Distance between grid cells
+  CROSSING_SWEEPS: 8,         // Barycenter passes used to reduce edge crossings in the layered layout
+  MAX_DUMMY_NODES: 20000,     // Routing points the layered layout may add for edges that skip layers
+  ANIMATION_DURATION: 750     // ms for nodes to travel to their new positions
+} as const;
+
+// Undo/redo history limits
+export const HISTORY_CONFIG = {
+  MAX_ENTRIES: 100            // Oldest commands are dropped beyond this
+} as const;
+
+
+// Bulk import settings
+export const IMPORT_CONFIG = {
+  CONCURRENCY: 4              // Parallel create requests while importing
+} as const;
+
+// Image export defaults
+export const IMAGE_EXPORT_CONFIG = {
+  SCALES: [1, 2, 3, 4],
+  DEFAULT_SCALE: 2,
+  DEFAULT_BACKGROUND: '#0a0a0a' // Matches the canvas background
+} as const;
+
+// Pattern query limits
+export const QUERY_CONFIG = {
+  MAX_RESULTS: 500,           // Rows returned before the result is cut off
+  MAX_PATH_LENGTH: 8          // Longest variable-length path, also the bound of `*`
+} as const;
+
+// In-browser node search
+export const SEARCH_CONFIG = {
+  MAX_LISTED: 20,             // Results shown in the search dropdown
+  SNIPPET_LENGTH: 60,         // Characters of a snippet, around the first match
+  ONE_TYPO_LENGTH: 4,         // Shortest word that may have one typo
+  TWO_TYPOS_LENGTH: 8,        // Shortest word that may have two
+  FIELD_WEIGHTS: {            // How much a match counts, by where it is
+    label: 3,
+    type: 2,
+    description: 1.5,
+    property: 1
+  }
+} as const;
+
+// Path finder limits
+export const PATH_CONFIG = {
+  DEFAULT_MAX_LENGTH: 4,      // Default hop limit when listing all paths
+  MAX_LENGTH: 10,             // Highest hop limit the panel offers
+  MAX_PATHS: 200              // Paths listed before the search stops
+} as const;
+
+// Ego-network focus mode
+export const FOCUS_CONFIG = {
+  DEFAULT_HOPS: 2,
+  MAX_HOPS: 5
+} as const;
+
+// Filter sidebar property facets
+export const FILTER_CONFIG = {
+  MIN_KEY_COUNT: 2,           // A property key needs this many items to get a facet
+  MAX_PROPERTY_KEYS: 8,       // Most common keys shown
+  MAX_VALUES_PER_KEY: 10,     // Most common values shown per key
+  EXCLUDED_KEYS: ['description'] // Free text, never useful as a facet
+} as const;
@@ -7,8 +7,8 @@ export interface GraphNode {
   properties: Record<string, any>;
   x: number;
   y: number;
-  fx?: number;
-  fy?: number;
+  fx?: number | null;
+  fy?: number | null;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -53,18 +53,264 @@ export interface SelectedItem {
   item: GraphNode | GraphEdge;
 }
 
+// Multi-item selection (two or more items); a single selection stays in SelectedItem
+export interface GraphSelection {
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+export interface SelectionToggle {
+  type: 'node' | 'edge';
+  id: string;
+}
+
 export interface DragState {
   isDragging: boolean;
   sourceNode: ForceGraphNode | null;
   currentPosition: { x: number; y: number } | null;
 }
 
+export interface NodePosition {
+  x: number;
+  y: number;
+  fx?: number | null;
+  fy?: number | null;
+}
+
+// Force simulation parameters, tunable from the physics panel
+export interface PhysicsSettings {
+  chargeStrength: number;
+  linkDistance: number;
+  collisionRadius: number;
+  alphaDecay: number;
+  velocityDecay: number;
+  chargeDistanceMax: number;
+}
+
+export interface PhysicsPreset {
+  id: string;
+  label: string;
+  settings: PhysicsSettings;
+}
+
+// Node arrangement: the live force simulation, or fixed positions from a layout algorithm
+export type LayoutKind = 'force' | 'layered' | 'radial' | 'circular' | 'grid';
+
+export interface LayoutOptions {
+  // Point the layout is centered on
+  center: { x: number; y: number };
+  // Root of the radial layout; the best-connected node when missing
+  rootId?: string | null;
+}
+
+// Undo/redo history entry: a mutation that has been applied, plus its inverse
+export interface HistoryCommand {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
 export interface SearchState {
   query: string;
   results: GraphNode[];
   highlightedNodes: string[];
 }
 
+// Graph file import/export
+export type GraphFormat = 'graphml' | 'gexf' | 'dot';
+
+// What to do with imported nodes/edges whose ID already exists in the graph
+export type ImportCollisionMode = 'skip' | 'duplicate';
+
+export interface ImportPreview {
+  fileName: string;
+  format: GraphFormat;
+  graph: GraphData;
+  nodeCollisions: string[];
+  edgeCollisions: string[];
+  danglingEdges: number;
+}
+
+// Image export of the rendered canvas
+export type ImageExportRegion = 'viewport' | 'graph';
+
+export interface ImageExportOptions {
+  format: 'svg' | 'png';
+  region: ImageExportRegion;
+  scale: number;
+  background: string | null;
+}
+
+export interface StandaloneSvg {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+// Pattern query results
+export type QueryCell =
+  | { kind: 'node'; node: ForceGraphNode }
+  | { kind: 'edge'; edge: ForceGraphEdge }
+  | { kind: 'path'; edges: ForceGraphEdge[] }
+  | { kind: 'value'; value: unknown };
+
+export interface QueryResult {
+  columns: string[];
+  rows: QueryCell[][];
+  // Every node and edge that took part in a match, for highlighting
+  nodeIds: string[];
+  edgeIds: string[];
+  truncated: boolean;
+}
+
+// In-browser node search (see utils/graphSearch)
+export interface HighlightedText {
+  text: string;
+  // [start, end) character ranges that matched
+  ranges: [number, number][];
+}
+
+export interface SearchResult {
+  node: ForceGraphNode;
+  score: number;
+  label: HighlightedText;
+  // Best match in the description ('description') or another property ('prop.<key>'), cut down around it
+  snippet: (HighlightedText & { field: string }) | null;
+}
+
+// Path finder
+export interface GraphPath {
+  nodeIds: string[];
+  edgeIds: string[];
+  // Sum of edge weights (hop count when unweighted)
+  cost: number;
+}
+
+export type PathEndpoint = 'start' | 'end';
+
+export interface PathSearchOptions {
+  mode: 'shortest' | 'all';
+  directed: boolean;
+  weightProperty: string;
+  maxLength: number;
+}
+
+// Value types offered by the property editor
+export type PropertyValueType = 'string' | 'number' | 'boolean' | 'date' | 'url' | 'list' | 'json';
+
+// One key/value row of the property editor; values are edited as text
+export interface PropertyRow {
+  // Stable React key, unrelated to the property key
+  rowId: string;
+  key: string;
+  valueType: PropertyValueType;
+  draft: string;
+}
+
+export interface PropertyEditorProps {
+  rows: PropertyRow[];
+  // Problems per row ID, shown under the row
+  errors: Record<string, string>;
+  onChange: (rows: PropertyRow[]) => void;
+}
+
+// Schema: per-type property declarations and per-label edge rules
+export type SchemaEnforcement = 'warn' | 'enforce';
+
+// "one-to-many": a source may have many edges of the label, a target only one
+export type EdgeCardinality = 'many-to-many' | 'one-to-many' | 'many-to-one' | 'one-to-one';
+
+export interface PropertySchema {
+  key: string;
+  valueType: PropertyValueType;
+  required: boolean;
+  // Filled in when a node gets the type and has no value yet
+  default?: unknown;
+}
+
+export interface NodeTypeSchema {
+  typeId: string;
+  properties: PropertySchema[];
+}
+
+export interface EdgeRule {
+  label: string;
+  // Allowed node type IDs at either end; empty means any type
+  sourceTypes: string[];
+  targetTypes: string[];
+  cardinality: EdgeCardinality;
+}
+
+export interface GraphSchema {
+  version: 1;
+  enforcement: SchemaEnforcement;
+  // Whether labels without an edge rule may be used at all
+  allowUndeclaredEdgeLabels: boolean;
+  nodeTypes: NodeTypeSchema[];
+  edgeRules: EdgeRule[];
+}
+
+export interface SchemaViolation {
+  message: string;
+  // Property the violation is about, if any
+  key?: string;
+}
+
+// Label picked for a new edge between two nodes, and what the schema says about it
+export interface EdgePlan {
+  label: string;
+  violations: SchemaViolation[];
+  // Violations under enforcement: the edge must not be created
+  blocked: boolean;
+}
+
+// User-defined node types; nodes refer to a definition by its ID in their `type` field
+export type NodeShape = 'circle' | 'square' | 'diamond' | 'hexagon';
+
+export interface NodeTypeDefinition {
+  id: string;
+  label: string;
+  color: string;
+  shape: NodeShape;
+  // Short text (an emoji or a letter or two) drawn inside the node
+  icon?: string;
+}
+
+// Filter sidebar: everything listed here is hidden from the canvas (but not deleted)
+export interface GraphFilter {
+  hiddenNodeTypes: string[];
+  hiddenEdgeLabels: string[];
+  // Property key → hidden values, as shown in the facet (strings, or JSON for other values)
+  hiddenPropertyValues: Record<string, string[]>;
+}
+
+export interface FilterFacetValue {
+  value: string;
+  count: number;
+}
+
+export interface FilterFacets {
+  nodeTypes: FilterFacetValue[];
+  edgeLabels: FilterFacetValue[];
+  properties: { key: string; values: FilterFacetValue[] }[];
+}
+
+// Zoom and pan of the canvas, as in d3.ZoomTransform
+export interface ViewTransform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+// What a link to the app encodes (see utils/urlState.ts)
+export interface UrlState {
+  graphId: string | null;      // Null when the URL names no graph
+  selection: SelectionToggle | null;
+  view: ViewTransform | null;
+  search: string;
+  filter: GraphFilter;
+}
+
 // API types
 export interface ApiResponse<T> {
   data?: T;
@@ -86,8 +332,8 @@ export interface UpdateNodeRequest {
   properties?: Record<string, any>;
   x?: number;
   y?: number;
-  fx?: number;
-  fy?: number;
+  fx?: number | null;          // null releases the pin
+  fy?: number | null;
 }
 
 export interface CreateEdgeRequest {
@@ -104,43 +350,310 @@ export interface UpdateEdgeRequest {
   directed?: boolean;
 }
 
+// Where the graph is stored; picked with VITE_GRAPH_STORAGE
+export type GraphStorageKind = 'rest' | 'memory' | 'local' | 'file';
+
+// Per-call settings of a backend request
+export interface RequestOptions {
+  signal?: AbortSignal;        // Aborting rejects the call with a CancelledError
+  timeout?: number;            // ms; API_CONFIG.TIMEOUT when not given
+}
+
+// A storage backend for the graph. Failures reject with the typed errors of src/api/errors.ts:
+// unknown IDs with a NotFoundError, and updates given `baseUpdatedAt` (the version they were
+// edited from) with a ConflictError when the stored item has changed since.
+export interface GraphRepository {
+  getGraph(options?: RequestOptions): Promise<GraphData>;
+  createNode(data: CreateNodeRequest, options?: RequestOptions): Promise<GraphNode>;
+  updateNode(id: string, data: UpdateNodeRequest, baseUpdatedAt?: string, options?: RequestOptions): Promise<GraphNode>;
+  deleteNode(id: string, options?: RequestOptions): Promise<void>;   // Also deletes the node's edges
+  createEdge(data: CreateEdgeRequest, options?: RequestOptions): Promise<GraphEdge>;
+  updateEdge(id: string, data: UpdateEdgeRequest, baseUpdatedAt?: string, options?: RequestOptions): Promise<GraphEdge>;
+  deleteEdge(id: string, options?: RequestOptions): Promise<void>;
+  searchNodes(query: string, options?: RequestOptions): Promise<GraphNode[]>;
+  // Saves many node positions (and pins) in one request, where the backend supports it
+  updateNodePositions?(positions: Record<string, NodePosition>, options?: RequestOptions): Promise<void>;
+  // The same as a request that outlives the page; false when the backend can't send it that way
+  sendNodePositionsOnUnload?(positions: Record<string, NodePosition>): boolean;
+  // Settings documents; without them node types and schemas stay in localStorage
+  getNodeTypes?(): Promise<NodeTypeDefinition[] | null>;
+  saveNodeTypes?(types: NodeTypeDefinition[]): Promise<NodeTypeDefinition[]>;
+  getSchema?(): Promise<GraphSchema | null>;
+  saveSchema?(schema: GraphSchema): Promise<GraphSchema>;
+}
+
+// A named graph of its own (a workspace)
+export interface GraphSummary {
+  id: string;
+  name: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// The graphs of a storage backend, and the backend of each one
+export interface WorkspaceRepository {
+  listGraphs(options?: RequestOptions): Promise<GraphSummary[]>;
+  createGraph(name: string): Promise<GraphSummary>;
+  renameGraph(id: string, name: string): Promise<GraphSummary>;
+  duplicateGraph(id: string, name: string): Promise<GraphSummary>;   // Copies nodes, edges and their IDs
+  deleteGraph(id: string): Promise<void>;
+  openGraph(id: string): GraphRepository;
+}
+
+// A confirmed graph change, sent to the other clients on the live-sync channel
+export type CollabChange =
+  | { kind: 'nodeCreated'; node: GraphNode }
+  | { kind: 'nodeUpdated'; node: GraphNode }
+  | { kind: 'nodeDeleted'; id: string }
+  | { kind: 'edgeCreated'; edge: GraphEdge }
+  | { kind: 'edgeUpdated'; edge: GraphEdge }
+  | { kind: 'edgeDeleted'; id: string }
+  | { kind: 'nodesMoved'; positions: Record<string, NodePosition> };
+
+// Where a user is pointing (graph coordinates) and what they have selected
+export interface CollabPresence {
+  cursor: { x: number; y: number } | null;
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+export interface CollabPeer {
+  clientId: string;
+  name: string;
+  color: string;
+  presence: CollabPresence;
+}
+
+// Messages on the live-sync channel; the relay (server/collabRelay.js) forwards them to the other clients
+export type CollabMessage =
+  | { type: 'hello'; peer: CollabPeer }
+  | { type: 'peers'; peers: CollabPeer[] }   // Sent by the relay to a client that just said hello
+  | { type: 'presence'; clientId: string; presence: CollabPresence }
+  | { type: 'change'; clientId: string; change: CollabChange }
+  | { type: 'leave'; clientId: string };
+
+export interface CollaborationStatus {
+  isConnected: boolean;
+  peers: CollabPeer[];
+}
+
+// A graph change as recorded while the server is unreachable; created items carry a temporary ID
+export type GraphMutation =
+  | { kind: 'createNode'; tempId: string; data: CreateNodeRequest }
+  | { kind: 'updateNode'; id: string; data: UpdateNodeRequest; baseUpdatedAt?: string }
+  | { kind: 'deleteNode'; id: string }
+  | { kind: 'createEdge'; tempId: string; data: CreateEdgeRequest }
+  | { kind: 'updateEdge'; id: string; data: UpdateEdgeRequest; baseUpdatedAt?: string }
+  | { kind: 'deleteEdge'; id: string }
+  | { kind: 'moveNodes'; positions: Record<string, NodePosition> };
+
+// Entry of the durable outbound queue, replayed in `seq` order
+export interface QueuedMutation {
+  seq: number;
+  mutation: GraphMutation;
+  queuedAt: string;
+  graphId?: string;            // Graph the change belongs to; absent in entries from before workspaces
+}
+
+export interface SyncStatus {
+  // Whether the last request reached the server
+  isOnline: boolean;
+  pendingCount: number;
+  isSyncing: boolean;
+}
+
+// Background saving of moved nodes
+export interface PositionSyncStatus {
+  pendingCount: number;        // Nodes whose latest position is not saved yet
+  isSaving: boolean;
+  error: string | null;        // Why the last save failed; cleared by the next one that works
+}
+
+// Signed-in user, as the auth endpoint describes them
+export interface AuthUser {
+  id: string;
+  name: string;
+}
+
+export interface AuthSession {
+  accessToken: string;         // Sent as a bearer token with every API request
+  refreshToken: string;        // Trades for a new access token when that one expires
+  expiresAt: number;           // ms timestamp at which the access token expires
+  user: AuthUser;
+}
+
+export interface AuthState {
+  session: AuthSession | null;   // null while signed out
+  notice: string | null;         // Why the session ended, when it wasn't a logout
+}
+
+// Fields that can be applied to every item of a multi-selection at once
+export interface BulkUpdateRequest {
+  type?: string;
+  label?: string;
+  directed?: boolean;
+  description?: string;
+}
+
 // Component props types
 export interface GraphViewProps {
+  graphId: string;             // The view shows this graph only; a new graph gets a new view
   className?: string;
 }
 
 export interface GraphCanvasProps {
   data: ForceGraphData;
   selectedItem: SelectedItem | null;
+  selection?: GraphSelection | null;
   searchHighlights: string[];
+  subgraphHighlights?: GraphSelection | null;
+  boundaryNodeIds?: string[] | null;
+  nodeTypes: NodeTypeDefinition[];
+  physics: PhysicsSettings;
   onNodeClick: (node: ForceGraphNode) => void;
   onEdgeClick: (edge: ForceGraphEdge) => void;
   onBackgroundClick: (event: { x: number; y: number }) => void;
+  onNodeDragStart?: (node: ForceGraphNode) => void;
   onNodeDrag: (node: ForceGraphNode) => void;
   onNodeDragEnd: (node: ForceGraphNode) => void;
+  onNodeGroupDragEnd?: (nodes: ForceGraphNode[]) => void;
+  onToggleSelection?: (item: SelectionToggle) => void;
+  onBoxSelect?: (selection: GraphSelection) => void;
   onCreateEdge: (source: string, target: string) => void;
+  // Label and schema problems of connecting two nodes, shown in the context menu
+  planConnection?: (source: string, target: string) => EdgePlan;
   onDeleteEdge?: (edgeId: string) => void;
+  onPickPathEndpoint?: (nodeId: string, endpoint: PathEndpoint) => void;
+  onFocusNode?: (nodeId: string) => void;
+  onNodeDoubleClick?: (node: ForceGraphNode) => void;
   onFitToScreen: (() => void) | React.MutableRefObject<(() => void) | null>;
   onCenterOnNode?: React.MutableRefObject<((nodeId: string) => void) | null>;
+  // Optional duration (ms) animates nodes from where they are
+  onMoveNodes?: React.MutableRefObject<((positions: Record<string, NodePosition>, duration?: number) => void) | null>;
+  onSnapshotSvg?: React.MutableRefObject<((region: ImageExportRegion, background: string | null) => StandaloneSvg | null) | null>;
+  // Jump to a zoom and pan, e.g. one restored from a link
+  onSetView?: React.MutableRefObject<((view: ViewTransform) => void) | null>;
+  // Zoom and pan once a gesture or transition ends
+  onViewChange?: (view: ViewTransform) => void;
+  // Other users' cursors and selections, drawn over the graph
+  peers?: CollabPeer[];
+  // Pointer position in graph coordinates, null when it leaves the canvas
+  onPointerMove?: (point: { x: number; y: number } | null) => void;
   className?: string;
 }
 
+export interface NodeContextMenuProps {
+  // Screen position of the menu
+  x: number;
+  y: number;
+  sourceNode: ForceGraphNode;
+  data: ForceGraphData;
+  nodeTypes: NodeTypeDefinition[];
+  planConnection?: (source: string, target: string) => EdgePlan;
+  onCreateEdge: (source: string, target: string) => void;
+  onDeleteEdge?: (edgeId: string) => void;
+  onPickPathEndpoint?: (nodeId: string, endpoint: PathEndpoint) => void;
+  onFocusNode?: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+export interface GraphSwitcherProps {
+  graphs: GraphSummary[];
+  activeGraphId: string;
+  onSwitchGraph: (id: string) => void;
+  onCreateGraph: (name: string) => void;
+  onRenameGraph: (id: string, name: string) => void;
+  onDuplicateGraph: (id: string) => void;
+  onDeleteGraph: (id: string) => void;
+}
+
+export interface SearchBoxProps {
+  query: string;
+  results: SearchResult[];
+  onQueryChange: (query: string) => void;
+  onPickResult: (nodeId: string) => void;
+}
+
 export interface ToolbarProps {
   searchQuery: string;
+  searchResults: SearchResult[];
   onSearchChange: (query: string) => void;
+  onPickSearchResult: (nodeId: string) => void;
+  graphSwitcher: GraphSwitcherProps;
   onFitToScreen: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string | null;
+  redoLabel?: string | null;
+  onExportGraph: (format: GraphFormat) => void;
+  onImportGraph: (file: File) => void;
+  onExportImage: () => void;
+  isQueryConsoleOpen: boolean;
+  onToggleQueryConsole: () => void;
+  isPathFinderOpen: boolean;
+  onTogglePathFinder: () => void;
+  isFilterPanelOpen: boolean;
+  onToggleFilterPanel: () => void;
+  hiddenFilterCount: number;
+  onClearFilter: () => void;
+  onManageNodeTypes: () => void;
+  onManageSchema: () => void;
+  syncStatus: SyncStatus;
+  positionSyncStatus: PositionSyncStatus;
+  collaboration: CollaborationStatus | null;   // null while live sync is turned off
+  user: AuthUser | null;                       // null while sign-in is turned off
+  onLogout: () => void;
+  isPhysicsPanelOpen: boolean;
+  onTogglePhysicsPanel: () => void;
+  activeLayout: LayoutKind;
+  // A fixed layout has moved nodes that are not saved yet
+  hasUnsavedLayout: boolean;
+  onApplyLayout: (layout: LayoutKind) => void;
+  onSaveLayout: () => void;
   className?: string;
 }
 
 export interface PropertiesPanelProps {
   selectedItem: SelectedItem | null;
+  multiSelection?: MultiSelectionItems | null;
+  allNodes?: GraphNode[];
+  allEdges?: ForceGraphEdge[];
+  nodeTypes: NodeTypeDefinition[];
+  schema: GraphSchema;
   isOpen: boolean;
   onClose: () => void;
-  onUpdateItem: (updates: UpdateNodeRequest | UpdateEdgeRequest) => void;
+  // `base` is the item as it was when editing started, to detect changes made meanwhile
+  onUpdateItem: (updates: UpdateNodeRequest | UpdateEdgeRequest, base: GraphNode | GraphEdge) => void;
   onDeleteItem: () => void;
+  onBulkUpdate?: (updates: BulkUpdateRequest) => void;
+  onBulkPin?: (pinned: boolean) => void;
+  onBulkConnect?: (targetId: string, label: string) => void;
   className?: string;
 }
 
+// Resolved items of a multi-selection, as shown in the properties panel
+export interface MultiSelectionItems {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface MultiSelectionSummaryProps {
+  items: MultiSelectionItems;
+  allNodes: GraphNode[];
+  nodeTypes: NodeTypeDefinition[];
+  onClose: () => void;
+  onBulkUpdate: (updates: BulkUpdateRequest) => void;
+  onBulkDelete: () => void;
+  onBulkPin: (pinned: boolean) => void;
+  onBulkConnect: (targetId: string, label: string) => void;
+}
+
+export interface LoginViewProps {
+  notice?: string | null;      // Shown above the form, e.g. why the last session ended
+}
+
 export interface ConfirmModalProps {
   isOpen: boolean;
   title: string;
@@ -151,4 +664,117 @@ export interface ConfirmModalProps {
   onCancel: () => void;
 }
 
- 
\ No newline at end of file
+ 
+// One editable field of an item in a three-way merge; undefined means the field is absent
+export interface MergeField {
+  key: string;                 // 'label', 'type', 'directed' or 'properties.<name>'
+  name: string;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  isConflict: boolean;         // Both sides changed it, differently
+}
+
+export type MergeChoice = 'base' | 'mine' | 'theirs';
+
+// An update the server refused because someone else changed the item first
+export interface MergeConflict {
+  itemType: 'node' | 'edge';
+  itemLabel: string;
+  fields: MergeField[];
+}
+
+export interface MergeConflictDialogProps {
+  conflict: MergeConflict | null;
+  onResolve: (choices: Record<string, MergeChoice>) => void;
+  onCancel: () => void;
+}
+
+export interface ImportPreviewModalProps {
+  preview: ImportPreview | null;
+  isImporting: boolean;
+  onConfirm: (mode: ImportCollisionMode) => void;
+  onCancel: () => void;
+}
+
+export interface ImageExportModalProps {
+  isOpen: boolean;
+  onExport: (options: ImageExportOptions) => void;
+  onCancel: () => void;
+}
+
+export interface QueryConsoleProps {
+  isOpen: boolean;
+  result: QueryResult | null;
+  error: string | null;
+  nodeTypes: NodeTypeDefinition[];
+  onRun: (query: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+  onSelectNode: (nodeId: string) => void;
+  onSelectEdge: (edgeId: string) => void;
+}
+
+export interface PathFinderPanelProps {
+  isOpen: boolean;
+  nodes: GraphNode[];
+  nodeTypes: NodeTypeDefinition[];
+  startId: string | null;
+  endId: string | null;
+  paths: GraphPath[] | null;
+  truncated: boolean;
+  activePathIndex: number;
+  error: string | null;
+  onChangeEndpoint: (endpoint: PathEndpoint, nodeId: string | null) => void;
+  onSwapEndpoints: () => void;
+  onFind: (options: PathSearchOptions) => void;
+  onSelectPath: (index: number) => void;
+  onClose: () => void;
+}
+
+export interface FocusBarProps {
+  // Focused nodes, from the first one to the most recently expanded
+  trail: GraphNode[];
+  nodeTypes: NodeTypeDefinition[];
+  hops: number;
+  visibleCount: number;
+  totalCount: number;
+  onChangeHops: (hops: number) => void;
+  onStepBack: (index: number) => void;
+  onExit: () => void;
+}
+
+export interface FilterPanelProps {
+  isOpen: boolean;
+  facets: FilterFacets;
+  filter: GraphFilter;
+  nodeTypes: NodeTypeDefinition[];
+  onChange: (filter: GraphFilter) => void;
+  onClose: () => void;
+}
+
+export interface PhysicsPanelProps {
+  isOpen: boolean;
+  settings: PhysicsSettings;
+  onChange: (changes: Partial<PhysicsSettings>) => void;
+  onClose: () => void;
+}
+
+export interface NodeTypeManagerProps {
+  isOpen: boolean;
+  nodeTypes: NodeTypeDefinition[];
+  // Nodes currently using each type ID
+  usageCounts: Record<string, number>;
+  onCreate: (definition: Omit<NodeTypeDefinition, 'id'>) => void;
+  onUpdate: (id: string, changes: Partial<Omit<NodeTypeDefinition, 'id'>>) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export interface SchemaEditorProps {
+  isOpen: boolean;
+  schema: GraphSchema;
+  nodeTypes: NodeTypeDefinition[];
+  onSave: (schema: GraphSchema) => void;
+  onClose: () => void;
+}
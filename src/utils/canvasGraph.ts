@@ -0,0 +1,420 @@
+import * as d3 from 'd3';
+import { NODE_TYPE_CONFIG, RENDERER_CONFIG } from '../types/constants';
+import { getNodeType, nodeShapePath } from './nodeTypes';
+import { PEER_CURSOR_PATH, PEER_LABEL_OFFSET } from './collabPresence';
+import type { PeerPresenceLayout } from './collabPresence';
+import type {
+  ForceGraphNode,
+  ForceGraphEdge,
+  GraphSelection,
+  NodeShape,
+  NodeTypeDefinition,
+  SelectedItem
+} from '../types/graph';
+
+// Same palette as the SVG renderer
+const COLORS = {
+  NODE_STROKE: '#333',
+  EDGE: '#6b7280',
+  SELECTED: '#ffffff',
+  SEARCH: '#f59e0b',
+  MATCHED: '#22d3ee',
+  TEXT: '#ffffff'
+} as const;
+
+const FONT_FAMILY = 'ui-sans-serif, system-ui, sans-serif';
+// Node labels sit this far below the node center, as in the SVG renderer
+const LABEL_OFFSET = 25;
+
+// Emphasis of nodes and edges, looked up by ID while drawing
+export interface CanvasGraphStyle {
+  selectedNodeIds: Set<string>;
+  selectedEdgeIds: Set<string>;
+  searchNodeIds: Set<string>;
+  // A query match or found path; everything else is dimmed
+  highlightedNodeIds: Set<string> | null;
+  highlightedEdgeIds: Set<string> | null;
+  boundaryNodeIds: Set<string>;
+}
+
+export function buildCanvasGraphStyle(
+  selectedItem: SelectedItem | null,
+  selection: GraphSelection | null,
+  searchHighlights: string[],
+  subgraphHighlights: GraphSelection | null,
+  boundaryNodeIds: string[] | null
+): CanvasGraphStyle {
+  const selectedNodeIds = new Set(selection?.nodeIds ?? []);
+  const selectedEdgeIds = new Set(selection?.edgeIds ?? []);
+  if (selectedItem) {
+    (selectedItem.type === 'node' ? selectedNodeIds : selectedEdgeIds).add(selectedItem.item.id);
+  }
+
+  return {
+    selectedNodeIds,
+    selectedEdgeIds,
+    searchNodeIds: new Set(searchHighlights),
+    highlightedNodeIds: subgraphHighlights ? new Set(subgraphHighlights.nodeIds) : null,
+    highlightedEdgeIds: subgraphHighlights ? new Set(subgraphHighlights.edgeIds) : null,
+    boundaryNodeIds: new Set(boundaryNodeIds ?? [])
+  };
+}
+
+// Color, icon and outline of a node type, with the outline centered on the origin
+export interface NodeLook {
+  color: string;
+  icon: string;
+  shape: Path2D;
+}
+
+// Node type lookup that builds each shape's path only once
+export function createNodeLookup(nodeTypes: NodeTypeDefinition[]): (typeId: string) => NodeLook {
+  const shapes = new Map<NodeShape, Path2D>();
+  const looks = new Map<string, NodeLook>();
+
+  return (typeId) => {
+    let look = looks.get(typeId);
+    if (!look) {
+      const definition = getNodeType(nodeTypes, typeId);
+      let shape = shapes.get(definition.shape);
+      if (!shape) {
+        shape = new Path2D(nodeShapePath(definition.shape, NODE_TYPE_CONFIG.NODE_RADIUS));
+        shapes.set(definition.shape, shape);
+      }
+      look = { color: definition.color, icon: definition.icon ?? '', shape };
+      looks.set(typeId, look);
+    }
+    return look;
+  };
+}
+
+export interface GraphBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Area covered by the nodes and their labels, or null before any node has a position
+export function getGraphBounds(nodes: ForceGraphNode[]): GraphBounds | null {
+  const placed = nodes.filter(n => Number.isFinite(n.x) && Number.isFinite(n.y));
+  if (placed.length === 0) return null;
+
+  const radius = NODE_TYPE_CONFIG.NODE_RADIUS;
+  const [x0, x1] = d3.extent(placed, n => n.x) as [number, number];
+  const [y0, y1] = d3.extent(placed, n => n.y) as [number, number];
+  return {
+    x: x0 - radius,
+    y: y0 - radius,
+    width: x1 - x0 + radius * 2,
+    height: y1 - y0 + radius + LABEL_OFFSET
+  };
+}
+
+export interface DrawGraphOptions {
+  nodes: ForceGraphNode[];
+  links: ForceGraphEdge[];
+  style: CanvasGraphStyle;
+  lookup: (typeId: string) => NodeLook;
+  // Zoom factor; labels and icons are left out when zoomed far out
+  scale: number;
+  // Visible area in graph coordinates; null draws everything
+  viewport: GraphBounds | null;
+  hoveredNodeId?: string | null;
+  // Node currently pulsing after being centered on, and its size factor
+  pulse?: { nodeId: string; factor: number } | null;
+}
+
+/**
+ * Draw the graph onto a context that is already transformed to graph coordinates.
+ *
+ * Work is kept proportional to what is on screen: items outside the viewport are skipped,
+ * plain edges and nodes are batched into one path per color so a frame needs only a handful
+ * of stroke/fill calls, and text is only drawn once it is readable.
+ */
+export function drawGraph(ctx: CanvasRenderingContext2D, options: DrawGraphOptions) {
+  const { nodes, links, style, lookup, scale, viewport, hoveredNodeId = null, pulse = null } = options;
+  const radius = NODE_TYPE_CONFIG.NODE_RADIUS;
+
+  // Labels can stick out of the viewport even when their node does not
+  const margin = LABEL_OFFSET * 2;
+  const left = viewport ? viewport.x - margin : -Infinity;
+  const top = viewport ? viewport.y - margin : -Infinity;
+  const right = viewport ? viewport.x + viewport.width + margin : Infinity;
+  const bottom = viewport ? viewport.y + viewport.height + margin : Infinity;
+
+  // Edges, batched by stroke
+  const edgeBatches = new Map<string, { color: string; width: number; alpha: number; lines: Path2D; arrows: Path2D }>();
+  const visibleLinks: { link: ForceGraphEdge; alpha: number }[] = [];
+
+  links.forEach(link => {
+    const { source, target } = link;
+    if (!Number.isFinite(source.x) || !Number.isFinite(target.x)) return;
+    if (Math.max(source.x, target.x) < left || Math.min(source.x, target.x) > right ||
+        Math.max(source.y, target.y) < top || Math.min(source.y, target.y) > bottom) {
+      return;
+    }
+
+    const isSelected = style.selectedEdgeIds.has(link.id);
+    const isMatched = !!style.highlightedEdgeIds?.has(link.id);
+    const color = isSelected ? COLORS.SELECTED : isMatched ? COLORS.MATCHED : COLORS.EDGE;
+    const width = isSelected || isMatched ? 3 : 2;
+    const alpha = style.highlightedEdgeIds && !isMatched ? 0.15 : 1;
+
+    const key = `${color}|${width}|${alpha}`;
+    let batch = edgeBatches.get(key);
+    if (!batch) {
+      batch = { color, width, alpha, lines: new Path2D(), arrows: new Path2D() };
+      edgeBatches.set(key, batch);
+    }
+    batch.lines.moveTo(source.x, source.y);
+    batch.lines.lineTo(target.x, target.y);
+
+    // Arrowhead just outside the target node
+    const length = Math.hypot(target.x - source.x, target.y - source.y);
+    if (link.directed && length > radius * 2) {
+      const ux = (target.x - source.x) / length;
+      const uy = (target.y - source.y) / length;
+      const tipX = target.x - ux * (radius + 1);
+      const tipY = target.y - uy * (radius + 1);
+      const size = width * 2.5;
+      batch.arrows.moveTo(tipX, tipY);
+      batch.arrows.lineTo(tipX - ux * size * 2 - uy * size, tipY - uy * size * 2 + ux * size);
+      batch.arrows.lineTo(tipX - ux * size * 2 + uy * size, tipY - uy * size * 2 - ux * size);
+      batch.arrows.closePath();
+    }
+    visibleLinks.push({ link, alpha });
+  });
+
+  edgeBatches.forEach(batch => {
+    ctx.globalAlpha = batch.alpha;
+    ctx.strokeStyle = batch.color;
+    ctx.lineWidth = batch.width;
+    ctx.stroke(batch.lines);
+    ctx.fillStyle = batch.color;
+    ctx.fill(batch.arrows);
+  });
+
+  // Nodes: plain ones batched by fill, emphasized ones drawn one by one on top
+  const nodeBatches = new Map<string, { color: string; alpha: number; shapes: Path2D }>();
+  const emphasized: ForceGraphNode[] = [];
+  const visibleNodes: ForceGraphNode[] = [];
+
+  nodes.forEach(node => {
+    if (!Number.isFinite(node.x) || node.x < left || node.x > right || node.y < top || node.y > bottom) return;
+    visibleNodes.push(node);
+
+    const isPlain = !style.selectedNodeIds.has(node.id) && !style.searchNodeIds.has(node.id) &&
+      !style.highlightedNodeIds?.has(node.id) && !style.boundaryNodeIds.has(node.id) && pulse?.nodeId !== node.id;
+    if (!isPlain) {
+      emphasized.push(node);
+      return;
+    }
+
+    const { color, shape } = lookup(node.type);
+    const alpha = style.highlightedNodeIds ? 0.2 : 1;
+    const key = `${color}|${alpha}`;
+    let batch = nodeBatches.get(key);
+    if (!batch) {
+      batch = { color, alpha, shapes: new Path2D() };
+      nodeBatches.set(key, batch);
+    }
+    batch.shapes.addPath(shape, { e: node.x, f: node.y });
+  });
+
+  ctx.strokeStyle = COLORS.NODE_STROKE;
+  ctx.lineWidth = 1;
+  nodeBatches.forEach(batch => {
+    ctx.globalAlpha = batch.alpha;
+    ctx.fillStyle = batch.color;
+    ctx.fill(batch.shapes);
+    ctx.stroke(batch.shapes);
+  });
+
+  emphasized.forEach(node => {
+    const { color, shape } = lookup(node.type);
+    const isSelected = style.selectedNodeIds.has(node.id);
+    const isSearched = style.searchNodeIds.has(node.id);
+    const isMatched = !!style.highlightedNodeIds?.has(node.id);
+
+    ctx.save();
+    ctx.translate(node.x, node.y);
+    if (pulse?.nodeId === node.id) ctx.scale(pulse.factor, pulse.factor);
+    ctx.globalAlpha = style.highlightedNodeIds && !isMatched ? 0.2 : 1;
+    ctx.fillStyle = color;
+    ctx.fill(shape);
+    ctx.strokeStyle = isSelected ? COLORS.SELECTED : isSearched ? COLORS.SEARCH : isMatched ? COLORS.MATCHED : COLORS.NODE_STROKE;
+    ctx.lineWidth = isSelected || isSearched || isMatched ? 3 : 1;
+    // Focus-mode boundary nodes can be expanded, shown with a dashed ring
+    ctx.setLineDash(style.boundaryNodeIds.has(node.id) ? [3, 2] : []);
+    ctx.stroke(shape);
+    ctx.restore();
+  });
+
+  // Text, once it is large enough to read and there is not too much of it
+  const nodeAlpha = (node: ForceGraphNode) => (style.highlightedNodeIds && !style.highlightedNodeIds.has(node.id) ? 0.2 : 1);
+  const showNodeText = (minScale: number) => scale >= minScale && visibleNodes.length <= RENDERER_CONFIG.MAX_LABELS;
+
+  ctx.fillStyle = COLORS.TEXT;
+  ctx.textAlign = 'center';
+
+  if (scale >= RENDERER_CONFIG.EDGE_LABEL_MIN_SCALE && visibleLinks.length <= RENDERER_CONFIG.MAX_LABELS) {
+    ctx.font = `10px ${FONT_FAMILY}`;
+    ctx.textBaseline = 'alphabetic';
+    visibleLinks.forEach(({ link, alpha }) => {
+      ctx.globalAlpha = alpha;
+      ctx.fillText(link.label, (link.source.x + link.target.x) / 2, (link.source.y + link.target.y) / 2);
+    });
+  }
+
+  if (showNodeText(RENDERER_CONFIG.ICON_MIN_SCALE)) {
+    ctx.font = `9px ${FONT_FAMILY}`;
+    ctx.textBaseline = 'middle';
+    visibleNodes.forEach(node => {
+      const { icon } = lookup(node.type);
+      if (!icon) return;
+      ctx.globalAlpha = nodeAlpha(node);
+      ctx.fillText(icon, node.x, node.y);
+    });
+  }
+
+  ctx.font = `12px ${FONT_FAMILY}`;
+  ctx.textBaseline = 'alphabetic';
+  if (showNodeText(RENDERER_CONFIG.NODE_LABEL_MIN_SCALE)) {
+    visibleNodes.forEach(node => {
+      ctx.globalAlpha = nodeAlpha(node);
+      ctx.fillText(node.label, node.x, node.y + LABEL_OFFSET);
+    });
+  } else if (hoveredNodeId) {
+    // Zoomed out, only the node under the pointer is labelled
+    const hovered = visibleNodes.find(node => node.id === hoveredNodeId);
+    if (hovered) {
+      ctx.globalAlpha = 1;
+      ctx.fillText(hovered.label, hovered.x, hovered.y + LABEL_OFFSET);
+    }
+  }
+
+  ctx.globalAlpha = 1;
+}
+
+// Other users' selections and cursors, on a context in screen coordinates
+export function drawPeerPresence(ctx: CanvasRenderingContext2D, layout: PeerPresenceLayout) {
+  ctx.lineWidth = 2;
+  layout.edges.forEach(({ x1, y1, x2, y2, color }) => {
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+    ctx.stroke();
+  });
+
+  layout.rings.forEach(({ x, y, radius, color }) => {
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.stroke();
+  });
+
+  const cursor = new Path2D(PEER_CURSOR_PATH);
+  ctx.font = `11px ${FONT_FAMILY}`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  layout.cursors.forEach(({ x, y, color, name }) => {
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.fillStyle = color;
+    ctx.strokeStyle = COLORS.TEXT;
+    ctx.lineWidth = 1;
+    ctx.fill(cursor);
+    ctx.stroke(cursor);
+
+    const width = ctx.measureText(name).width + 8;
+    ctx.fillRect(PEER_LABEL_OFFSET.x, PEER_LABEL_OFFSET.y - 8, width, 16);
+    ctx.fillStyle = COLORS.TEXT;
+    ctx.fillText(name, PEER_LABEL_OFFSET.x + 4, PEER_LABEL_OFFSET.y);
+    ctx.restore();
+  });
+}
+
+// Edges are indexed by their midpoints; ones too long for that are checked one by one
+export interface EdgeIndex {
+  midpoints: d3.Quadtree<ForceGraphEdge>;
+  // Longest half-length among the indexed edges: every point of one is this close to its midpoint
+  reach: number;
+  longEdges: ForceGraphEdge[];
+}
+
+export function buildNodeIndex(nodes: ForceGraphNode[]): d3.Quadtree<ForceGraphNode> {
+  return d3.quadtree<ForceGraphNode>()
+    .x(n => n.x)
+    .y(n => n.y)
+    .addAll(nodes.filter(n => Number.isFinite(n.x) && Number.isFinite(n.y)));
+}
+
+// Node under a graph-space point, allowing a few screen pixels of slack
+export function findNodeAt(index: d3.Quadtree<ForceGraphNode>, x: number, y: number, scale: number): ForceGraphNode | null {
+  return index.find(x, y, NODE_TYPE_CONFIG.NODE_RADIUS + RENDERER_CONFIG.HIT_TOLERANCE / scale) ?? null;
+}
+
+export function buildEdgeIndex(links: ForceGraphEdge[]): EdgeIndex {
+  const indexed: ForceGraphEdge[] = [];
+  const longEdges: ForceGraphEdge[] = [];
+  let reach = 0;
+
+  links.forEach(link => {
+    const { source, target } = link;
+    if (!Number.isFinite(source.x) || !Number.isFinite(target.x)) return;
+
+    const halfLength = Math.hypot(target.x - source.x, target.y - source.y) / 2;
+    if (halfLength > RENDERER_CONFIG.EDGE_INDEX_MAX_HALF_LENGTH) {
+      longEdges.push(link);
+    } else {
+      indexed.push(link);
+      reach = Math.max(reach, halfLength);
+    }
+  });
+
+  const midpoints = d3.quadtree<ForceGraphEdge>()
+    .x(link => (link.source.x + link.target.x) / 2)
+    .y(link => (link.source.y + link.target.y) / 2)
+    .addAll(indexed);
+  return { midpoints, reach, longEdges };
+}
+
+function distanceToSegment(x: number, y: number, link: ForceGraphEdge): number {
+  const { source, target } = link;
+  const dx = target.x - source.x;
+  const dy = target.y - source.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((x - source.x) * dx + (y - source.y) * dy) / lengthSquared));
+  return Math.hypot(x - (source.x + t * dx), y - (source.y + t * dy));
+}
+
+// Edge closest to a graph-space point, if it is within the line width plus a few screen pixels
+export function findEdgeAt(index: EdgeIndex, x: number, y: number, scale: number): ForceGraphEdge | null {
+  let closest: ForceGraphEdge | null = null;
+  let closestDistance = 1.5 + RENDERER_CONFIG.HIT_TOLERANCE / scale;
+
+  const check = (link: ForceGraphEdge) => {
+    const distance = distanceToSegment(x, y, link);
+    if (distance <= closestDistance) {
+      closest = link;
+      closestDistance = distance;
+    }
+  };
+
+  const reach = index.reach + closestDistance;
+  index.midpoints.visit((quad, x0, y0, x1, y1) => {
+    if (!quad.length) {
+      let leaf: d3.QuadtreeLeaf<ForceGraphEdge> | undefined = quad as d3.QuadtreeLeaf<ForceGraphEdge>;
+      while (leaf) {
+        check(leaf.data);
+        leaf = leaf.next;
+      }
+    }
+    return x0 > x + reach || x1 < x - reach || y0 > y + reach || y1 < y - reach;
+  });
+  index.longEdges.forEach(check);
+
+  return closest;
+}
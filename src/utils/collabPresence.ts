@@ -0,0 +1,55 @@
+import * as d3 from 'd3';
+import { NODE_TYPE_CONFIG } from '../types/constants';
+import type { CollabPeer, ForceGraphData, ForceGraphEdge, ForceGraphNode } from '../types/graph';
+
+// Other users' pointers: an arrow with its tip at (0, 0), in screen pixels
+export const PEER_CURSOR_PATH = 'M0,0 L0,17 L4.5,12.5 L7.5,19.5 L10.5,18.2 L7.5,11.5 L13,11.5 Z';
+// Name tag position relative to the cursor tip
+export const PEER_LABEL_OFFSET = { x: 12, y: 26 };
+// Selection rings sit this many screen pixels outside a node
+const RING_GAP = 5;
+
+// Everything is in screen coordinates so cursors and rings keep their size at any zoom
+export interface PeerPresenceLayout {
+  rings: { key: string; x: number; y: number; radius: number; color: string }[];
+  edges: { key: string; x1: number; y1: number; x2: number; y2: number; color: string }[];
+  cursors: { key: string; x: number; y: number; color: string; name: string }[];
+}
+
+const isPlaced = (node: ForceGraphNode) => Number.isFinite(node.x) && Number.isFinite(node.y);
+
+// Where to draw each peer's cursor and selection, shared by the SVG and canvas renderers
+export function layoutPeerPresence(peers: CollabPeer[], data: ForceGraphData, transform: d3.ZoomTransform): PeerPresenceLayout {
+  const layout: PeerPresenceLayout = { rings: [], edges: [], cursors: [] };
+  if (peers.length === 0) return layout;
+
+  const hasNodeSelections = peers.some(peer => peer.presence.nodeIds.length > 0);
+  const hasEdgeSelections = peers.some(peer => peer.presence.edgeIds.length > 0);
+  const nodesById = hasNodeSelections ? new Map(data.nodes.map(node => [node.id, node])) : null;
+  const linksById = hasEdgeSelections ? new Map(data.links.map(link => [link.id, link])) : null;
+  const radius = NODE_TYPE_CONFIG.NODE_RADIUS * transform.k + RING_GAP;
+
+  peers.forEach(({ clientId, name, color, presence }) => {
+    presence.nodeIds.forEach(id => {
+      const node = nodesById?.get(id);
+      if (!node || !isPlaced(node)) return;
+      const [x, y] = transform.apply([node.x, node.y]);
+      layout.rings.push({ key: `${clientId}:${id}`, x, y, radius, color });
+    });
+
+    presence.edgeIds.forEach(id => {
+      const link: ForceGraphEdge | undefined = linksById?.get(id);
+      if (!link || !isPlaced(link.source) || !isPlaced(link.target)) return;
+      const [x1, y1] = transform.apply([link.source.x, link.source.y]);
+      const [x2, y2] = transform.apply([link.target.x, link.target.y]);
+      layout.edges.push({ key: `${clientId}:${id}`, x1, y1, x2, y2, color });
+    });
+
+    if (presence.cursor) {
+      const [x, y] = transform.apply([presence.cursor.x, presence.cursor.y]);
+      layout.cursors.push({ key: clientId, x, y, color, name });
+    }
+  });
+
+  return layout;
+}
@@ -0,0 +1,143 @@
+import * as d3 from 'd3';
+import { PHYSICS_CONFIG } from '../types/constants';
+import type { ForceGraphData, NodePosition, PhysicsSettings } from '../types/graph';
+
+export type ForceSimulation = d3.Simulation<d3.SimulationNodeDatum, undefined>;
+
+// Running position animation per simulation, so a new move can cancel the previous one
+const activeMoves = new WeakMap<ForceSimulation, d3.Timer>();
+
+// Simulation shared by the SVG and canvas renderers; forces are set once data arrives
+export function createForceSimulation(physics: PhysicsSettings): ForceSimulation {
+  return d3.forceSimulation()
+    .alphaDecay(physics.alphaDecay)
+    .velocityDecay(physics.velocityDecay)
+    .alphaTarget(PHYSICS_CONFIG.ALPHA_TARGET);
+}
+
+/**
+ * Point the simulation at new graph data. Nodes that were already simulated keep their
+ * position, velocity and pin, and the simulation is gently reheated so changes settle
+ * smoothly instead of the whole layout jumping.
+ */
+export function updateForceSimulation(
+  simulation: ForceSimulation,
+  data: ForceGraphData,
+  width: number,
+  height: number,
+  physics: PhysicsSettings
+) {
+  // Configure simulation forces
+  simulation
+    .force("link", d3.forceLink(data.links as any)
+      .id((d: any) => d.id)
+      .distance(physics.linkDistance)
+      .strength(0.6))
+    .force("charge", d3.forceManyBody()
+      .strength(physics.chargeStrength)
+      .distanceMax(physics.chargeDistanceMax))
+    .force("center", d3.forceCenter(width / 2, height / 2))
+    .force("collision", d3.forceCollide()
+      .radius(physics.collisionRadius)
+      .strength(0.8));
+
+  // Update simulation nodes with smooth transition
+  const existingNodes = new Map((simulation.nodes() as any[]).map(n => [n.id, n]));
+  const newNodes = [...data.nodes] as any[];
+
+  // Preserve positions and fixed states for existing nodes
+  newNodes.forEach((newNode: any) => {
+    const existingNode = existingNodes.get(newNode.id);
+    if (existingNode) {
+      newNode.x = existingNode.x;
+      newNode.y = existingNode.y;
+      newNode.vx = existingNode.vx || 0;
+      newNode.vy = existingNode.vy || 0;
+      newNode.fx = existingNode.fx;
+      newNode.fy = existingNode.fy;
+    }
+  });
+
+  simulation.nodes(newNodes);
+
+  // Gently reheat simulation for smooth transitions
+  if (simulation.alpha() < PHYSICS_CONFIG.ALPHA_TARGET) {
+    simulation.alpha(PHYSICS_CONFIG.REHEAT_STRENGTH).restart();
+  }
+}
+
+// Retune the running simulation in place and reheat it so the change is visible right away
+export function applyPhysicsSettings(simulation: ForceSimulation, physics: PhysicsSettings) {
+  simulation
+    .alphaDecay(physics.alphaDecay)
+    .velocityDecay(physics.velocityDecay);
+
+  (simulation.force("link") as d3.ForceLink<any, any> | undefined)?.distance(physics.linkDistance);
+  (simulation.force("charge") as d3.ForceManyBody<any> | undefined)
+    ?.strength(physics.chargeStrength)
+    .distanceMax(physics.chargeDistanceMax);
+  (simulation.force("collision") as d3.ForceCollide<any> | undefined)?.radius(physics.collisionRadius);
+
+  simulation.alpha(Math.max(simulation.alpha(), PHYSICS_CONFIG.REHEAT_STRENGTH)).restart();
+}
+
+function placeNode(node: any, position: NodePosition) {
+  node.x = position.x;
+  node.y = position.y;
+  node.vx = 0;
+  node.vy = 0;
+  node.fx = position.fx;
+  node.fy = position.fy;
+}
+
+/**
+ * Put nodes at the given positions and pins. With a duration they travel there from where
+ * they are, pinned along the way, and only take the final pin when they arrive.
+ */
+export function moveSimulationNodes(simulation: ForceSimulation, positions: Record<string, NodePosition>, duration = 0) {
+  activeMoves.get(simulation)?.stop();
+  activeMoves.delete(simulation);
+
+  if (duration <= 0) {
+    simulation.nodes().forEach((n: any) => {
+      const position = positions[n.id];
+      if (position) placeNode(n, position);
+    });
+    simulation.alpha(PHYSICS_CONFIG.REHEAT_STRENGTH).restart();
+    return;
+  }
+
+  const starts = new Map<string, { x: number; y: number }>();
+  simulation.nodes().forEach((n: any) => {
+    if (positions[n.id]) starts.set(n.id, { x: n.x, y: n.y });
+  });
+
+  // Nodes are looked up on every frame because new data replaces the simulation's node objects
+  const timer = d3.timer(elapsed => {
+    const t = Math.min(1, elapsed / duration);
+    const eased = d3.easeCubicInOut(t);
+
+    simulation.nodes().forEach((n: any) => {
+      const position = positions[n.id];
+      const start = starts.get(n.id);
+      if (!position || !start) return;
+
+      if (t < 1) {
+        n.fx = start.x + (position.x - start.x) * eased;
+        n.fy = start.y + (position.y - start.y) * eased;
+        n.vx = 0;
+        n.vy = 0;
+      } else {
+        placeNode(n, position);
+      }
+    });
+
+    if (t === 1) {
+      timer.stop();
+      activeMoves.delete(simulation);
+    }
+  });
+  activeMoves.set(simulation, timer);
+
+  simulation.alpha(PHYSICS_CONFIG.REHEAT_STRENGTH).restart();
+}
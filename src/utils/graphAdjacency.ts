@@ -0,0 +1,68 @@
+import type { ForceGraphData, ForceGraphNode } from '../types/graph';
+
+export interface ConnectedNodeInfo {
+  node: ForceGraphNode;
+  edgeId: string;
+  // Whether the node the info belongs to is the edge's source
+  isSource: boolean;
+}
+
+// Neighbors of every node, in either direction, with the edge that connects them
+export function buildConnectionIndex(data: ForceGraphData): Map<string, ConnectedNodeInfo[]> {
+  const nodesById = new Map(data.nodes.map(node => [node.id, node]));
+  const index = new Map<string, ConnectedNodeInfo[]>(data.nodes.map(node => [node.id, []]));
+
+  data.links.forEach(link => {
+    const sourceId = typeof link.source === 'object' ? link.source.id : link.source;
+    const targetId = typeof link.target === 'object' ? link.target.id : link.target;
+    const sourceNode = nodesById.get(sourceId);
+    const targetNode = nodesById.get(targetId);
+
+    if (sourceNode && targetNode) {
+      index.get(sourceId)?.push({ node: targetNode, edgeId: link.id, isSource: true });
+      if (sourceId !== targetId) {
+        index.get(targetId)?.push({ node: sourceNode, edgeId: link.id, isSource: false });
+      }
+    }
+  });
+
+  return index;
+}
+
+export function getConnectedNodesInfo(data: ForceGraphData, nodeId: string): ConnectedNodeInfo[] {
+  return buildConnectionIndex(data).get(nodeId) ?? [];
+}
+
+// Nodes within `hops` edges of any root, plus the outermost ones that still have neighbors further out
+export function getKHopNeighborhood(
+  data: ForceGraphData,
+  rootIds: string[],
+  hops: number
+): { nodeIds: Set<string>; boundaryIds: Set<string> } {
+  const index = buildConnectionIndex(data);
+  const distances = new Map<string, number>();
+  let frontier = rootIds.filter(id => index.has(id));
+  frontier.forEach(id => distances.set(id, 0));
+
+  for (let depth = 1; depth <= hops && frontier.length > 0; depth++) {
+    const next: string[] = [];
+    frontier.forEach(id => {
+      index.get(id)!.forEach(({ node }) => {
+        if (!distances.has(node.id)) {
+          distances.set(node.id, depth);
+          next.push(node.id);
+        }
+      });
+    });
+    frontier = next;
+  }
+
+  const nodeIds = new Set(distances.keys());
+  const boundaryIds = new Set(
+    Array.from(distances.entries())
+      .filter(([id, distance]) => distance === hops && index.get(id)!.some(({ node }) => !nodeIds.has(node.id)))
+      .map(([id]) => id)
+  );
+
+  return { nodeIds, boundaryIds };
+}
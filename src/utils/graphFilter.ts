@@ -0,0 +1,82 @@
+import { FILTER_CONFIG } from '../types/constants';
+import type { ForceGraphData, GraphFilter, FilterFacets, FilterFacetValue } from '../types/graph';
+
+export const EMPTY_FILTER: GraphFilter = {
+  hiddenNodeTypes: [],
+  hiddenEdgeLabels: [],
+  hiddenPropertyValues: {}
+};
+
+// How a property value appears in (and is matched against) its facet
+export function facetValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// Number of toggled-off entries, for the Toolbar summary
+export function countHiddenEntries(filter: GraphFilter): number {
+  return filter.hiddenNodeTypes.length +
+    filter.hiddenEdgeLabels.length +
+    Object.values(filter.hiddenPropertyValues).reduce((total, values) => total + values.length, 0);
+}
+
+function tally(values: string[]): FilterFacetValue[] {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+// Node types, edge labels and the most common property keys of both, with counts
+export function buildFilterFacets(data: ForceGraphData): FilterFacets {
+  const items = [...data.nodes, ...data.links];
+  const valuesByKey = new Map<string, string[]>();
+
+  items.forEach(item => {
+    Object.entries(item.properties ?? {}).forEach(([key, value]) => {
+      if ((FILTER_CONFIG.EXCLUDED_KEYS as readonly string[]).includes(key)) return;
+      if (value === undefined || value === null || value === '') return;
+      if (!valuesByKey.has(key)) valuesByKey.set(key, []);
+      valuesByKey.get(key)!.push(facetValue(value));
+    });
+  });
+
+  const properties = Array.from(valuesByKey, ([key, values]) => ({ key, values: tally(values), total: values.length }))
+    // A key whose values are all different (IDs, timestamps) cannot narrow anything down
+    .filter(facet => facet.total >= FILTER_CONFIG.MIN_KEY_COUNT && facet.values.length < facet.total)
+    .sort((a, b) => b.total - a.total || a.key.localeCompare(b.key))
+    .slice(0, FILTER_CONFIG.MAX_PROPERTY_KEYS)
+    .map(({ key, values }) => ({ key, values: values.slice(0, FILTER_CONFIG.MAX_VALUES_PER_KEY) }));
+
+  return {
+    nodeTypes: tally(data.nodes.map(node => node.type)),
+    edgeLabels: tally(data.links.map(link => link.label)),
+    properties
+  };
+}
+
+// The graph minus everything the filter hides; hidden nodes take their edges with them.
+// Node and edge objects are shared with the input so the simulation keeps their positions.
+export function applyGraphFilter(data: ForceGraphData, filter: GraphFilter): ForceGraphData {
+  if (countHiddenEntries(filter) === 0) return data;
+
+  const hiddenTypes = new Set(filter.hiddenNodeTypes);
+  const hiddenLabels = new Set(filter.hiddenEdgeLabels);
+  const hiddenValues = Object.entries(filter.hiddenPropertyValues).map(([key, values]) => [key, new Set(values)] as const);
+
+  const isHiddenByProperty = (properties: Record<string, any> | undefined) =>
+    hiddenValues.some(([key, values]) => {
+      const value = properties?.[key];
+      return value !== undefined && value !== null && values.has(facetValue(value));
+    });
+
+  const nodes = data.nodes.filter(node => !hiddenTypes.has(node.type) && !isHiddenByProperty(node.properties));
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const links = data.links.filter(link =>
+    nodeIds.has(link.source.id) &&
+    nodeIds.has(link.target.id) &&
+    !hiddenLabels.has(link.label) &&
+    !isHiddenByProperty(link.properties)
+  );
+
+  return { nodes, links };
+}
@@ -0,0 +1,368 @@
+import { getNodeType } from '../nodeTypes';
+import type { GraphData, GraphNode, GraphEdge, NodeShape, NodeTypeDefinition } from '../../types/graph';
+import { finalizeImportedGraph, parseNumber } from './shared';
+
+// Graphviz has only string attributes, so properties are written as `"prop:name"` (strings)
+// or `"json:name"` (everything else, JSON-encoded) to survive a round trip.
+const STRING_PROPERTY_PREFIX = 'prop:';
+const JSON_PROPERTY_PREFIX = 'json:';
+
+// Presentation attributes that are not imported as properties
+const GRAPHVIZ_STYLE_ATTRIBUTES = new Set([
+  'id', 'label', 'type', 'pos', 'dir', 'color', 'fillcolor', 'fontcolor', 'fontname', 'fontsize',
+  'shape', 'style', 'width', 'height', 'penwidth', 'arrowhead', 'arrowtail', 'arrowsize', 'fixedsize'
+]);
+
+const GRAPHVIZ_SHAPES: Record<NodeShape, string> = {
+  circle: 'circle',
+  square: 'box',
+  diamond: 'diamond',
+  hexagon: 'hexagon'
+};
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function unquote(value: string): string {
+  return value.replace(/\\\r?\n/g, '').replace(/\\(["\\n])/g, (_, char) => (char === 'n' ? '\n' : char));
+}
+
+function attributeList(attributes: [string, string][]): string {
+  return attributes.map(([name, value]) => `${quote(name)}=${quote(value)}`).join(', ');
+}
+
+function propertyAttributes(properties: Record<string, any>): [string, string][] {
+  return Object.entries(properties || {})
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) =>
+      typeof value === 'string'
+        ? [`${STRING_PROPERTY_PREFIX}${name}`, value]
+        : [`${JSON_PROPERTY_PREFIX}${name}`, JSON.stringify(value)]
+    );
+}
+
+export function serializeDOT(data: GraphData, nodeTypes: NodeTypeDefinition[]): string {
+  const lines: string[] = [
+    'digraph "Knowledge Graph" {',
+    '  node [shape=circle, style=filled, fontcolor=white];'
+  ];
+
+  data.nodes.forEach(node => {
+    const nodeType = getNodeType(nodeTypes, node.type);
+    const attributes: [string, string][] = [
+      ['label', node.label ?? ''],
+      ['type', node.type || 'default'],
+      ['fillcolor', nodeType.color]
+    ];
+    if (nodeType.shape !== 'circle') {
+      attributes.push(['shape', GRAPHVIZ_SHAPES[nodeType.shape]]);
+    }
+    if (Number.isFinite(node.x) && Number.isFinite(node.y)) {
+      attributes.push(['pos', `${node.x},${node.y}!`]);
+    }
+    attributes.push(...propertyAttributes(node.properties));
+    lines.push(`  ${quote(node.id)} [${attributeList(attributes)}];`);
+  });
+
+  data.edges.forEach(edge => {
+    const attributes: [string, string][] = [
+      ['id', edge.id],
+      ['label', edge.label ?? '']
+    ];
+    if (edge.directed === false) attributes.push(['dir', 'none']);
+    attributes.push(...propertyAttributes(edge.properties));
+    lines.push(`  ${quote(edge.source)} -> ${quote(edge.target)} [${attributeList(attributes)}];`);
+  });
+
+  lines.push('}', '');
+  return lines.join('\n');
+}
+
+type Token =
+  // `html` marks an HTML-like ID, `<...>`
+  | { kind: 'id'; value: string; quoted: boolean; html?: boolean }
+  | { kind: 'punct'; value: string };
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (text.startsWith('//', i) || (char === '#' && (i === 0 || text[i - 1] === '\n'))) {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else if (text.startsWith('->', i) || text.startsWith('--', i)) {
+      tokens.push({ kind: 'punct', value: text.slice(i, i + 2) });
+      i += 2;
+    } else if ('{}[];,=:'.includes(char)) {
+      tokens.push({ kind: 'punct', value: char });
+      i++;
+    } else if (char === '"') {
+      let j = i + 1;
+      while (j < text.length && text[j] !== '"') j += text[j] === '\\' ? 2 : 1;
+      if (j >= text.length) throw new Error('Unterminated string in DOT file');
+      const value = unquote(text.slice(i + 1, j));
+      i = j + 1;
+
+      // "a" + "b" concatenation
+      const previous = tokens[tokens.length - 1];
+      const plus = tokens[tokens.length - 2];
+      if (previous?.kind === 'punct' && previous.value === '+' && plus?.kind === 'id' && plus.quoted && !plus.html) {
+        tokens.pop();
+        plus.value += value;
+      } else {
+        tokens.push({ kind: 'id', value, quoted: true });
+      }
+    } else if (char === '+') {
+      tokens.push({ kind: 'punct', value: '+' });
+      i++;
+    } else if (char === '<') {
+      // HTML-like ID: everything up to the matching angle bracket, nested tags included
+      let depth = 0;
+      let j = i;
+      do {
+        if (text[j] === '<') depth++;
+        else if (text[j] === '>') depth--;
+        j++;
+      } while (depth > 0 && j < text.length);
+      if (depth > 0) throw new Error('Unterminated HTML-like label in DOT file');
+      tokens.push({ kind: 'id', value: text.slice(i + 1, j - 1), quoted: true, html: true });
+      i = j;
+    } else {
+      const match = /^(-?(\.\d+|\d+(\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(text.slice(i));
+      if (!match) throw new Error(`Unexpected character "${char}" in DOT file`);
+      tokens.push({ kind: 'id', value: match[0], quoted: false });
+      i += match[0].length;
+    }
+  }
+
+  return tokens;
+}
+
+type Attributes = Record<string, string>;
+
+interface Scope {
+  node: Attributes;
+  edge: Attributes;
+}
+
+class DotParser {
+  private position = 0;
+  private directed = true;
+  private readonly mentionStack: Set<string>[] = [];
+  readonly nodes = new Map<string, Attributes>();
+  readonly edges: { source: string; target: string; attributes: Attributes; directed: boolean }[] = [];
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse() {
+    if (this.isKeyword('strict')) this.position++;
+    if (this.isKeyword('digraph')) {
+      this.directed = true;
+    } else if (this.isKeyword('graph')) {
+      this.directed = false;
+    } else {
+      throw new Error('Expected "graph" or "digraph" at the start of the DOT file');
+    }
+    this.position++;
+    if (this.peek()?.kind === 'id') this.position++;
+    this.expect('{');
+    this.parseStatements({ node: {}, edge: {} });
+    this.expect('}');
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === 'punct' && token.value === value;
+  }
+
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === 'id' && !token.quoted && token.value.toLowerCase() === keyword;
+  }
+
+  private expect(value: string) {
+    if (!this.isPunct(value)) {
+      const token = this.peek();
+      throw new Error(`Expected "${value}" in DOT file but found ${token ? `"${token.value}"` : 'end of file'}`);
+    }
+    this.position++;
+  }
+
+  private expectId(): string {
+    const token = this.peek();
+    if (token?.kind !== 'id') {
+      throw new Error(`Expected an identifier in DOT file but found ${token ? `"${token.value}"` : 'end of file'}`);
+    }
+    this.position++;
+    return token.value;
+  }
+
+  private parseStatements(scope: Scope) {
+    while (this.peek() && !this.isPunct('}')) {
+      this.parseStatement(scope);
+      if (this.isPunct(';') || this.isPunct(',')) this.position++;
+    }
+  }
+
+  private parseAttributeLists(): Attributes {
+    const attributes: Attributes = {};
+    while (this.isPunct('[')) {
+      this.position++;
+      let previous: Token | undefined;
+      while (!this.isPunct(']')) {
+        const name = this.expectId();
+        if (!this.isPunct('=')) {
+          // `label=<b>hi</b>` reads as the HTML ID <b> followed by stray words
+          if (previous?.kind === 'id' && previous.html) {
+            throw new Error(`Unexpected "${name}" after an HTML-like label in DOT file; wrap the whole label in angle brackets, e.g. label=<<b>hi</b>>`);
+          }
+          throw new Error(`Expected "=" after attribute "${name}" in DOT file`);
+        }
+        this.position++;
+        previous = this.peek();
+        attributes[name] = this.expectId();
+        if (this.isPunct(';') || this.isPunct(',')) this.position++;
+      }
+      this.expect(']');
+    }
+    return attributes;
+  }
+
+  private parseStatement(scope: Scope) {
+    // Default attributes: graph/node/edge [ ... ]
+    if ((this.isKeyword('graph') || this.isKeyword('node') || this.isKeyword('edge')) && this.isPunct('[', 1)) {
+      const target = this.expectId().toLowerCase();
+      const attributes = this.parseAttributeLists();
+      if (target === 'node') Object.assign(scope.node, attributes);
+      if (target === 'edge') Object.assign(scope.edge, attributes);
+      return;
+    }
+
+    // Graph attribute: ID = ID
+    if (this.peek()?.kind === 'id' && this.isPunct('=', 1)) {
+      this.position += 3;
+      return;
+    }
+
+    const isSubgraph = this.isKeyword('subgraph') || this.isPunct('{');
+    let left = this.parseEndpoint(scope);
+
+    if (this.isPunct('->') || this.isPunct('--')) {
+      const chain: string[][] = [left];
+      while (this.isPunct('->') || this.isPunct('--')) {
+        this.position++;
+        chain.push(this.parseEndpoint(scope));
+      }
+      const attributes = { ...scope.edge, ...this.parseAttributeLists() };
+      for (let i = 0; i < chain.length - 1; i++) {
+        left = chain[i];
+        chain[i + 1].forEach(target => {
+          left.forEach(source => {
+            this.edges.push({ source, target, attributes, directed: this.directed });
+          });
+        });
+      }
+      return;
+    }
+
+    const attributes = this.parseAttributeLists();
+    if (!isSubgraph) {
+      left.forEach(id => Object.assign(this.nodes.get(id)!, attributes));
+    }
+  }
+
+  // A node ID (with optional port) or a subgraph; returns the node IDs it stands for
+  private parseEndpoint(scope: Scope): string[] {
+    if (this.isKeyword('subgraph') || this.isPunct('{')) {
+      if (this.isKeyword('subgraph')) {
+        this.position++;
+        if (this.peek()?.kind === 'id') this.position++;
+      }
+      const childScope: Scope = { node: { ...scope.node }, edge: { ...scope.edge } };
+
+      // Every node mentioned inside the subgraph takes part in edges to or from it
+      const mentioned = new Set<string>();
+      this.mentionStack.push(mentioned);
+      this.expect('{');
+      this.parseStatements(childScope);
+      this.expect('}');
+      this.mentionStack.pop();
+
+      return Array.from(mentioned);
+    }
+
+    const id = this.expectId();
+    if (this.isPunct(':')) {
+      this.position++;
+      this.expectId();
+      if (this.isPunct(':')) {
+        this.position++;
+        this.expectId();
+      }
+    }
+
+    if (!this.nodes.has(id)) this.nodes.set(id, { ...scope.node });
+    this.mentionStack.forEach(mentioned => mentioned.add(id));
+    return [id];
+  }
+}
+
+function readProperties(attributes: Attributes): Record<string, any> {
+  const properties: Record<string, any> = {};
+  Object.entries(attributes).forEach(([name, value]) => {
+    if (name.startsWith(JSON_PROPERTY_PREFIX)) {
+      const key = name.slice(JSON_PROPERTY_PREFIX.length);
+      try {
+        properties[key] = JSON.parse(value);
+      } catch {
+        properties[key] = value;
+      }
+    } else if (name.startsWith(STRING_PROPERTY_PREFIX)) {
+      properties[name.slice(STRING_PROPERTY_PREFIX.length)] = value;
+    } else if (!GRAPHVIZ_STYLE_ATTRIBUTES.has(name)) {
+      properties[name] = value;
+    }
+  });
+  return properties;
+}
+
+export function parseDOT(text: string): GraphData {
+  const parser = new DotParser(tokenize(text));
+  parser.parse();
+
+  const nodes: GraphNode[] = Array.from(parser.nodes.entries()).map(([id, attributes]) => {
+    const [x, y] = (attributes.pos || '').replace('!', '').split(',');
+    const label = attributes.label;
+    return {
+      id,
+      label: label === undefined || label === '\\N' ? id : label,
+      type: attributes.type || 'default',
+      properties: readProperties(attributes),
+      x: parseNumber(x),
+      y: parseNumber(y)
+    };
+  });
+
+  const edges: GraphEdge[] = parser.edges.map(({ source, target, attributes, directed }) => ({
+    id: attributes.id || '',
+    source,
+    target,
+    label: attributes.label ?? '',
+    properties: readProperties(attributes),
+    directed: directed && attributes.dir !== 'none'
+  }));
+
+  return finalizeImportedGraph(nodes, edges);
+}
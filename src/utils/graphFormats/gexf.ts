@@ -0,0 +1,206 @@
+import { getNodeType } from '../nodeTypes';
+import type { GraphData, GraphNode, GraphEdge, NodeTypeDefinition } from '../../types/graph';
+import {
+  type PropertyKind,
+  JSON_ATTRIBUTE_PREFIX,
+  RESERVED_NODE_FIELDS,
+  RESERVED_EDGE_FIELDS,
+  inferPropertyKinds,
+  encodePropertyValue,
+  decodePropertyValue,
+  exportedPropertyName,
+  importedPropertyName,
+  escapeXml,
+  parseXml,
+  childElements,
+  descendantElements,
+  parseNumber,
+  finalizeImportedGraph
+} from './shared';
+
+const GEXF_TYPES: Record<PropertyKind, string> = {
+  string: 'string',
+  number: 'double',
+  boolean: 'boolean',
+  json: 'string'
+};
+
+interface GexfAttribute {
+  title: string;
+  kind: PropertyKind;
+  defaultValue: string | null;
+}
+
+function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+}
+
+export function serializeGEXF(data: GraphData, nodeTypes: NodeTypeDefinition[]): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    '  <graph defaultedgetype="directed" mode="static">'
+  ];
+
+  // The node type is an ordinary attribute column, followed by one column per property
+  const declareAttributes = (
+    domain: 'node' | 'edge',
+    kinds: Map<string, PropertyKind>,
+    reserved: string[],
+    builtIn: { id: string; title: string }[]
+  ) => {
+    const ids = new Map<string, { id: string; kind: PropertyKind }>();
+    lines.push(`    <attributes class="${domain}">`);
+    builtIn.forEach(({ id, title }) => {
+      lines.push(`      <attribute id="${id}" title="${title}" type="string"/>`);
+    });
+    Array.from(kinds.entries()).forEach(([name, kind], index) => {
+      const id = `${kind === 'json' ? JSON_ATTRIBUTE_PREFIX : ''}${domain[0]}${index}`;
+      ids.set(name, { id, kind });
+      lines.push(
+        `      <attribute id="${id}" title="${escapeXml(exportedPropertyName(name, reserved))}" type="${GEXF_TYPES[kind]}"/>`
+      );
+    });
+    lines.push('    </attributes>');
+    return ids;
+  };
+
+  const nodeAttributes = declareAttributes(
+    'node', inferPropertyKinds(data.nodes), RESERVED_NODE_FIELDS, [{ id: 'type', title: 'type' }]
+  );
+  const edgeAttributes = declareAttributes('edge', inferPropertyKinds(data.edges), RESERVED_EDGE_FIELDS, []);
+
+  const attvalueLines = (properties: Record<string, any>, attributes: Map<string, { id: string; kind: PropertyKind }>) =>
+    Object.entries(properties || {})
+      .filter(([name, value]) => value !== undefined && attributes.has(name))
+      .map(([name, value]) => {
+        const { id, kind } = attributes.get(name)!;
+        return `          <attvalue for="${id}" value="${escapeXml(encodePropertyValue(value, kind))}"/>`;
+      });
+
+  lines.push('    <nodes>');
+  data.nodes.forEach(node => {
+    const { r, g, b } = hexToRgb(getNodeType(nodeTypes, node.type).color);
+    lines.push(`      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label ?? '')}">`);
+    lines.push('        <attvalues>');
+    lines.push(`          <attvalue for="type" value="${escapeXml(node.type || 'default')}"/>`);
+    lines.push(...attvalueLines(node.properties, nodeAttributes));
+    lines.push('        </attvalues>');
+    if (Number.isFinite(node.x) && Number.isFinite(node.y)) {
+      lines.push(`        <viz:position x="${node.x}" y="${node.y}" z="0"/>`);
+    }
+    lines.push(`        <viz:color r="${r}" g="${g}" b="${b}"/>`);
+    lines.push('      </node>');
+  });
+  lines.push('    </nodes>');
+
+  lines.push('    <edges>');
+  data.edges.forEach(edge => {
+    const props = attvalueLines(edge.properties, edgeAttributes);
+    const open = `      <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" label="${escapeXml(edge.label ?? '')}" type="${edge.directed !== false ? 'directed' : 'undirected'}"`;
+    if (props.length === 0) {
+      lines.push(`${open}/>`);
+    } else {
+      lines.push(`${open}>`, '        <attvalues>', ...props, '        </attvalues>', '      </edge>');
+    }
+  });
+  lines.push('    </edges>');
+
+  lines.push('  </graph>', '</gexf>', '');
+  return lines.join('\n');
+}
+
+function attributeKind(id: string, type: string | null): PropertyKind {
+  if (id.startsWith(JSON_ATTRIBUTE_PREFIX)) return 'json';
+  switch (type) {
+    case 'boolean':
+      return 'boolean';
+    case 'integer':
+    case 'long':
+    case 'float':
+    case 'double':
+      return 'number';
+    default:
+      return 'string';
+  }
+}
+
+export function parseGEXF(text: string): GraphData {
+  const doc = parseXml(text, 'gexf');
+  const graph = descendantElements(doc, 'graph')[0];
+  if (!graph) throw new Error('The GEXF file contains no <graph> element');
+
+  const attributes: Record<'node' | 'edge', Map<string, GexfAttribute>> = { node: new Map(), edge: new Map() };
+  childElements(graph, 'attributes').forEach(group => {
+    const domain = group.getAttribute('class') === 'edge' ? 'edge' : 'node';
+    childElements(group, 'attribute').forEach(attribute => {
+      const id = attribute.getAttribute('id') || '';
+      attributes[domain].set(id, {
+        title: attribute.getAttribute('title') || id,
+        kind: attributeKind(id, attribute.getAttribute('type')),
+        defaultValue: childElements(attribute, 'default')[0]?.textContent ?? null
+      });
+    });
+  });
+
+  const readAttvalues = (element: Element, domain: 'node' | 'edge') => {
+    const values = new Map<string, any>();
+    attributes[domain].forEach(attribute => {
+      if (attribute.defaultValue !== null) {
+        values.set(attribute.title, decodePropertyValue(attribute.defaultValue, attribute.kind));
+      }
+    });
+    childElements(element, 'attvalues').forEach(group => {
+      childElements(group, 'attvalue').forEach(attvalue => {
+        const attribute = attributes[domain].get(attvalue.getAttribute('for') || attvalue.getAttribute('id') || '');
+        if (attribute) {
+          values.set(attribute.title, decodePropertyValue(attvalue.getAttribute('value') ?? '', attribute.kind));
+        }
+      });
+    });
+    return values;
+  };
+
+  const nodes: GraphNode[] = descendantElements(graph, 'node').map(element => {
+    const id = element.getAttribute('id') || '';
+    const values = readAttvalues(element, 'node');
+    const position = childElements(element, 'position')[0];
+    const properties: Record<string, any> = {};
+
+    values.forEach((value, name) => {
+      if (!RESERVED_NODE_FIELDS.includes(name)) properties[importedPropertyName(name)] = value;
+    });
+
+    return {
+      id,
+      label: element.getAttribute('label') ?? id,
+      type: values.has('type') ? String(values.get('type')) : 'default',
+      properties,
+      x: parseNumber(position?.getAttribute('x')),
+      y: parseNumber(position?.getAttribute('y'))
+    };
+  });
+
+  const defaultDirected = graph.getAttribute('defaultedgetype') !== 'undirected';
+  const edges: GraphEdge[] = descendantElements(graph, 'edge').map(element => {
+    const values = readAttvalues(element, 'edge');
+    const type = element.getAttribute('type');
+    const properties: Record<string, any> = {};
+
+    values.forEach((value, name) => {
+      if (!RESERVED_EDGE_FIELDS.includes(name)) properties[importedPropertyName(name)] = value;
+    });
+
+    return {
+      id: element.getAttribute('id') || '',
+      source: element.getAttribute('source') || '',
+      target: element.getAttribute('target') || '',
+      label: element.getAttribute('label') ?? '',
+      properties,
+      directed: type === null ? defaultDirected : type === 'directed'
+    };
+  });
+
+  return finalizeImportedGraph(nodes, edges);
+}
@@ -0,0 +1,203 @@
+import type { GraphData, GraphNode, GraphEdge } from '../../types/graph';
+import {
+  type PropertyKind,
+  JSON_ATTRIBUTE_PREFIX,
+  RESERVED_NODE_FIELDS,
+  RESERVED_EDGE_FIELDS,
+  inferPropertyKinds,
+  encodePropertyValue,
+  decodePropertyValue,
+  exportedPropertyName,
+  importedPropertyName,
+  escapeXml,
+  parseXml,
+  childElements,
+  descendantElements,
+  parseNumber,
+  finalizeImportedGraph
+} from './shared';
+
+const GRAPHML_TYPES: Record<PropertyKind, string> = {
+  string: 'string',
+  number: 'double',
+  boolean: 'boolean',
+  json: 'string'
+};
+
+interface GraphMLKey {
+  domain: string;
+  name: string;
+  kind: PropertyKind;
+  defaultValue: string | null;
+  isGraphics: boolean;
+}
+
+export function serializeGraphML(data: GraphData): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"',
+    '    xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '    xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    '  <key id="d_label" for="all" attr.name="label" attr.type="string"/>',
+    '  <key id="d_type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="d_x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="d_y" for="node" attr.name="y" attr.type="double"/>'
+  ];
+
+  // One <key> per property name, per element kind
+  const declareKeys = (kinds: Map<string, PropertyKind>, domain: 'node' | 'edge', reserved: string[]) => {
+    const ids = new Map<string, { id: string; kind: PropertyKind }>();
+    Array.from(kinds.entries()).forEach(([name, kind], index) => {
+      const id = `${kind === 'json' ? JSON_ATTRIBUTE_PREFIX : ''}${domain[0]}${index}`;
+      ids.set(name, { id, kind });
+      lines.push(
+        `  <key id="${id}" for="${domain}" attr.name="${escapeXml(exportedPropertyName(name, reserved))}" attr.type="${GRAPHML_TYPES[kind]}"/>`
+      );
+    });
+    return ids;
+  };
+
+  const nodeKeys = declareKeys(inferPropertyKinds(data.nodes), 'node', RESERVED_NODE_FIELDS);
+  const edgeKeys = declareKeys(inferPropertyKinds(data.edges), 'edge', RESERVED_EDGE_FIELDS);
+
+  const dataLines = (properties: Record<string, any>, keys: Map<string, { id: string; kind: PropertyKind }>) =>
+    Object.entries(properties || {})
+      .filter(([name, value]) => value !== undefined && keys.has(name))
+      .map(([name, value]) => {
+        const { id, kind } = keys.get(name)!;
+        return `      <data key="${id}">${escapeXml(encodePropertyValue(value, kind))}</data>`;
+      });
+
+  lines.push('  <graph id="G" edgedefault="directed">');
+
+  data.nodes.forEach(node => {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(`      <data key="d_label">${escapeXml(node.label ?? '')}</data>`);
+    lines.push(`      <data key="d_type">${escapeXml(node.type || 'default')}</data>`);
+    if (Number.isFinite(node.x)) lines.push(`      <data key="d_x">${node.x}</data>`);
+    if (Number.isFinite(node.y)) lines.push(`      <data key="d_y">${node.y}</data>`);
+    lines.push(...dataLines(node.properties, nodeKeys));
+    lines.push('    </node>');
+  });
+
+  data.edges.forEach(edge => {
+    lines.push(
+      `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" directed="${edge.directed !== false}">`
+    );
+    lines.push(`      <data key="d_label">${escapeXml(edge.label ?? '')}</data>`);
+    lines.push(...dataLines(edge.properties, edgeKeys));
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>', '');
+  return lines.join('\n');
+}
+
+function keyKind(id: string, attrType: string | null): PropertyKind {
+  if (id.startsWith(JSON_ATTRIBUTE_PREFIX)) return 'json';
+  switch (attrType) {
+    case 'boolean':
+      return 'boolean';
+    case 'int':
+    case 'long':
+    case 'float':
+    case 'double':
+      return 'number';
+    default:
+      return 'string';
+  }
+}
+
+// yEd keeps labels and coordinates in its own graphics elements instead of plain <data>
+function readYedGraphics(element: Element): { label?: string; x?: number; y?: number } {
+  const result: { label?: string; x?: number; y?: number } = {};
+  const label = descendantElements(element, 'NodeLabel')[0] ?? descendantElements(element, 'EdgeLabel')[0];
+  if (label?.textContent?.trim()) result.label = label.textContent.trim();
+
+  const geometry = descendantElements(element, 'Geometry')[0];
+  if (geometry) {
+    const width = parseNumber(geometry.getAttribute('width')) || 0;
+    const height = parseNumber(geometry.getAttribute('height')) || 0;
+    result.x = parseNumber(geometry.getAttribute('x')) + width / 2;
+    result.y = parseNumber(geometry.getAttribute('y')) + height / 2;
+  }
+  return result;
+}
+
+export function parseGraphML(text: string): GraphData {
+  const doc = parseXml(text, 'graphml');
+
+  const keys = new Map<string, GraphMLKey>();
+  childElements(doc.documentElement, 'key').forEach(key => {
+    const id = key.getAttribute('id') || '';
+    keys.set(id, {
+      domain: key.getAttribute('for') || 'all',
+      name: key.getAttribute('attr.name') || id,
+      kind: keyKind(id, key.getAttribute('attr.type')),
+      defaultValue: childElements(key, 'default')[0]?.textContent ?? null,
+      isGraphics: key.hasAttribute('yfiles.type')
+    });
+  });
+
+  const graph = descendantElements(doc, 'graph')[0];
+  if (!graph) throw new Error('The GraphML file contains no <graph> element');
+  const defaultDirected = graph.getAttribute('edgedefault') !== 'undirected';
+
+  // Resolve <data> children (and key defaults) into a name → value map
+  const readData = (element: Element, domain: 'node' | 'edge') => {
+    const values = new Map<string, any>();
+    keys.forEach(key => {
+      if (key.defaultValue !== null && (key.domain === domain || key.domain === 'all')) {
+        values.set(key.name, decodePropertyValue(key.defaultValue, key.kind));
+      }
+    });
+    childElements(element, 'data').forEach(dataElement => {
+      const key = keys.get(dataElement.getAttribute('key') || '');
+      if (!key || key.isGraphics) return;
+      values.set(key.name, decodePropertyValue(dataElement.textContent ?? '', key.kind));
+    });
+    return values;
+  };
+
+  const nodes: GraphNode[] = descendantElements(graph, 'node').map(element => {
+    const id = element.getAttribute('id') || '';
+    const values = readData(element, 'node');
+    const graphics = readYedGraphics(element);
+    const properties: Record<string, any> = {};
+
+    values.forEach((value, name) => {
+      if (!RESERVED_NODE_FIELDS.includes(name)) properties[importedPropertyName(name)] = value;
+    });
+
+    return {
+      id,
+      label: values.has('label') ? String(values.get('label')) : graphics.label ?? id,
+      type: values.has('type') ? String(values.get('type')) : 'default',
+      properties,
+      x: values.has('x') ? Number(values.get('x')) : graphics.x ?? NaN,
+      y: values.has('y') ? Number(values.get('y')) : graphics.y ?? NaN
+    };
+  });
+
+  const edges: GraphEdge[] = descendantElements(graph, 'edge').map(element => {
+    const values = readData(element, 'edge');
+    const graphics = readYedGraphics(element);
+    const directedAttr = element.getAttribute('directed');
+    const properties: Record<string, any> = {};
+
+    values.forEach((value, name) => {
+      if (!RESERVED_EDGE_FIELDS.includes(name)) properties[importedPropertyName(name)] = value;
+    });
+
+    return {
+      id: element.getAttribute('id') || '',
+      source: element.getAttribute('source') || '',
+      target: element.getAttribute('target') || '',
+      label: values.has('label') ? String(values.get('label')) : graphics.label ?? '',
+      properties,
+      directed: directedAttr === null ? defaultDirected : directedAttr === 'true'
+    };
+  });
+
+  return finalizeImportedGraph(nodes, edges);
+}
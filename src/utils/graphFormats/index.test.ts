@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { serializeGraph, parseGraph, detectGraphFormat } from './index';
+import { parseDOT } from './dot';
+import { parseGraphML } from './graphml';
+import { parseGEXF } from './gexf';
+import type { GraphData, GraphFormat, NodeTypeDefinition } from '../../types/graph';
+
+const nodeTypes: NodeTypeDefinition[] = [
+  { id: 'framework', label: 'Framework', color: '#61dafb', shape: 'square' }
+];
+
+// Values that need escaping in every format, and properties of every kind
+const graph: GraphData = {
+  nodes: [
+    {
+      id: 'react',
+      label: 'React "UI" & <JSX>',
+      type: 'framework',
+      properties: { description: 'Line one\nline two', stars: 200000, stable: true, tags: ['ui', 'web'], id: 'clashes' },
+      x: 10,
+      y: -20.5
+    },
+    { id: 'js', label: 'JavaScript', type: 'language', properties: {}, x: 0, y: 0 }
+  ],
+  edges: [
+    { id: 'e1', source: 'react', target: 'js', label: 'written in', properties: { since: 2013 }, directed: true },
+    { id: 'e2', source: 'js', target: 'react', label: 'related', properties: { note: 'a\tb' }, directed: false }
+  ]
+};
+
+describe.each<GraphFormat>(['graphml', 'gexf', 'dot'])('%s', format => {
+  it('round-trips nodes, edges and properties', () => {
+    expect(parseGraph(serializeGraph(graph, format, nodeTypes), format)).toEqual(graph);
+  });
+
+  it('is recognized by its content', () => {
+    expect(detectGraphFormat('graph.txt', serializeGraph(graph, format, nodeTypes))).toBe(format);
+  });
+});
+
+describe('malformed GraphML and GEXF', () => {
+  it('rejects files that are not well-formed XML', () => {
+    expect(() => parseGraphML('<graphml><graph>')).toThrow('The file is not well-formed XML');
+    expect(() => parseGEXF('<gexf><graph></gexf>')).toThrow('The file is not well-formed XML');
+  });
+
+  it('rejects other documents and files without a graph', () => {
+    expect(() => parseGraphML('<gexf/>')).toThrow('Expected a <graphml> document, found <gexf>');
+    expect(() => parseGraphML('<graphml/>')).toThrow('The GraphML file contains no <graph> element');
+    expect(() => parseGEXF('<gexf/>')).toThrow('The GEXF file contains no <graph> element');
+  });
+});
+
+describe('DOT', () => {
+  it('reads plain Graphviz files', () => {
+    const data = parseDOT(`
+      // A comment
+      graph G {
+        node [type=tool];
+        a -- b -- c [label="next", weight=2];
+        b [label=<<b>hi</b>>];
+        subgraph cluster { d; e }
+        a -- { d e };
+      }
+    `);
+
+    expect(data.nodes.map(node => [node.id, node.label, node.type])).toEqual([
+      ['a', 'a', 'tool'], ['b', '<b>hi</b>', 'tool'], ['c', 'c', 'tool'], ['d', 'd', 'tool'], ['e', 'e', 'tool']
+    ]);
+    expect(data.edges.map(edge => [edge.source, edge.target, edge.label, edge.directed, edge.properties])).toEqual([
+      ['a', 'b', 'next', false, { weight: '2' }],
+      ['b', 'c', 'next', false, { weight: '2' }],
+      ['a', 'd', '', false, {}],
+      ['a', 'e', '', false, {}]
+    ]);
+    // Nodes without a position are placed around the others
+    expect(data.nodes.every(node => Number.isFinite(node.x) && Number.isFinite(node.y))).toBe(true);
+  });
+
+  it('explains an HTML-like label that is not wrapped as a whole', () => {
+    expect(() => parseDOT('digraph { a [label=<b>hi</b>] }'))
+      .toThrow('Unexpected "hi" after an HTML-like label in DOT file; wrap the whole label in angle brackets, e.g. label=<<b>hi</b>>');
+  });
+
+  it('rejects malformed files', () => {
+    expect(() => parseDOT('digraph { a [label=<<b>hi] }')).toThrow('Unterminated HTML-like label in DOT file');
+    expect(() => parseDOT('digraph { a [label] }')).toThrow('Expected "=" after attribute "label" in DOT file');
+    expect(() => parseDOT('digraph { a [label="hi] }')).toThrow('Unterminated string in DOT file');
+    expect(() => parseDOT('network { a }')).toThrow('Expected "graph" or "digraph" at the start of the DOT file');
+    expect(() => parseDOT('digraph { a -> }')).toThrow('Expected an identifier in DOT file but found "}"');
+    expect(() => parseDOT('digraph { a -> b')).toThrow('Expected "}" in DOT file but found end of file');
+    expect(() => parseDOT('digraph { a @ b }')).toThrow('Unexpected character "@" in DOT file');
+  });
+});
@@ -0,0 +1,50 @@
+import type { GraphData, GraphFormat, NodeTypeDefinition } from '../../types/graph';
+import { serializeGraphML, parseGraphML } from './graphml';
+import { serializeGEXF, parseGEXF } from './gexf';
+import { serializeDOT, parseDOT } from './dot';
+
+export const GRAPH_FORMATS: Record<GraphFormat, { label: string; extension: string; mimeType: string }> = {
+  graphml: { label: 'GraphML', extension: 'graphml', mimeType: 'application/graphml+xml' },
+  gexf: { label: 'GEXF', extension: 'gexf', mimeType: 'application/gexf+xml' },
+  dot: { label: 'Graphviz DOT', extension: 'dot', mimeType: 'text/vnd.graphviz' }
+};
+
+// File extensions accepted by the import picker
+export const IMPORT_EXTENSIONS = ['.graphml', '.xml', '.gexf', '.dot', '.gv'];
+
+// Node type colors go into the formats that can carry them (GEXF and DOT)
+export function serializeGraph(data: GraphData, format: GraphFormat, nodeTypes: NodeTypeDefinition[]): string {
+  switch (format) {
+    case 'graphml':
+      return serializeGraphML(data);
+    case 'gexf':
+      return serializeGEXF(data, nodeTypes);
+    case 'dot':
+      return serializeDOT(data, nodeTypes);
+  }
+}
+
+export function parseGraph(text: string, format: GraphFormat): GraphData {
+  switch (format) {
+    case 'graphml':
+      return parseGraphML(text);
+    case 'gexf':
+      return parseGEXF(text);
+    case 'dot':
+      return parseDOT(text);
+  }
+}
+
+// Pick a format from the file extension, falling back to sniffing the content
+export function detectGraphFormat(fileName: string, text: string): GraphFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'graphml') return 'graphml';
+  if (extension === 'gexf') return 'gexf';
+  if (extension === 'dot' || extension === 'gv') return 'dot';
+
+  const head = text.slice(0, 2000);
+  if (/<graphml[\s>]/.test(head)) return 'graphml';
+  if (/<gexf[\s>]/.test(head)) return 'gexf';
+  if (/^\s*(strict\s+)?(di)?graph\b/i.test(text.replace(/^\s*(\/\/[^\n]*\n|\/\*[\s\S]*?\*\/)*/, ''))) return 'dot';
+  return null;
+}
@@ -0,0 +1,141 @@
+import type { GraphData, GraphNode, GraphEdge } from '../../types/graph';
+
+// How a property's values are written to a typed attribute column
+export type PropertyKind = 'string' | 'number' | 'boolean' | 'json';
+
+// Attribute IDs with this prefix hold JSON-encoded values (objects, arrays, mixed types)
+export const JSON_ATTRIBUTE_PREFIX = 'json_';
+
+// Properties whose name clashes with a built-in field are written under this prefix
+export const PROPERTY_NAME_PREFIX = 'prop:';
+
+export const RESERVED_NODE_FIELDS = ['id', 'label', 'type', 'x', 'y'];
+export const RESERVED_EDGE_FIELDS = ['id', 'label', 'directed'];
+
+// Pick one column type per property name; names whose values disagree fall back to JSON
+export function inferPropertyKinds(items: { properties?: Record<string, any> }[]): Map<string, PropertyKind> {
+  const kinds = new Map<string, PropertyKind>();
+
+  items.forEach(item => {
+    Object.entries(item.properties || {}).forEach(([name, value]) => {
+      if (value === undefined) return;
+      const kind: PropertyKind =
+        typeof value === 'string' ? 'string'
+          : typeof value === 'number' && Number.isFinite(value) ? 'number'
+            : typeof value === 'boolean' ? 'boolean'
+              : 'json';
+      const previous = kinds.get(name);
+      kinds.set(name, previous && previous !== kind ? 'json' : kind);
+    });
+  });
+
+  return kinds;
+}
+
+export function encodePropertyValue(value: any, kind: PropertyKind): string {
+  return kind === 'json' ? JSON.stringify(value) : String(value);
+}
+
+export function decodePropertyValue(text: string, kind: PropertyKind): any {
+  switch (kind) {
+    case 'number': {
+      const value = Number(text);
+      return Number.isNaN(value) ? text : value;
+    }
+    case 'boolean':
+      return text.trim().toLowerCase() === 'true' || text.trim() === '1';
+    case 'json':
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    default:
+      return text;
+  }
+}
+
+// Attribute name under which a property is exported
+export function exportedPropertyName(name: string, reserved: string[]): string {
+  return reserved.includes(name) || name.startsWith(PROPERTY_NAME_PREFIX) ? `${PROPERTY_NAME_PREFIX}${name}` : name;
+}
+
+// Property name for an imported attribute (inverse of exportedPropertyName)
+export function importedPropertyName(name: string): string {
+  return name.startsWith(PROPERTY_NAME_PREFIX) ? name.slice(PROPERTY_NAME_PREFIX.length) : name;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Keep whitespace intact inside attribute values, which XML parsers otherwise normalize
+    .replace(/\n/g, '&#10;')
+    .replace(/\r/g, '&#13;')
+    .replace(/\t/g, '&#9;');
+}
+
+export function parseXml(text: string, rootName: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not well-formed XML');
+  }
+  if (doc.documentElement.localName !== rootName) {
+    throw new Error(`Expected a <${rootName}> document, found <${doc.documentElement.localName}>`);
+  }
+  return doc;
+}
+
+// Direct child elements with the given local name, ignoring XML namespaces
+export function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === localName);
+}
+
+// All descendant elements with the given local name, ignoring XML namespaces
+export function descendantElements(parent: Element | Document, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+export function parseNumber(value: string | null | undefined): number {
+  if (value === null || value === undefined || value.trim() === '') return NaN;
+  return Number(value);
+}
+
+// Give nodes without coordinates a place on a circle around the positioned ones
+export function placeUnpositionedNodes(nodes: GraphNode[]): GraphNode[] {
+  const positioned = nodes.filter(n => Number.isFinite(n.x) && Number.isFinite(n.y));
+  const unpositioned = nodes.filter(n => !Number.isFinite(n.x) || !Number.isFinite(n.y));
+  if (unpositioned.length === 0) return nodes;
+
+  const centerX = positioned.length > 0 ? positioned.reduce((sum, n) => sum + n.x, 0) / positioned.length : 0;
+  const centerY = positioned.length > 0 ? positioned.reduce((sum, n) => sum + n.y, 0) / positioned.length : 0;
+  const radius = Math.max(100, unpositioned.length * 15);
+
+  const placed = new Map<GraphNode, { x: number; y: number }>();
+  unpositioned.forEach((node, index) => {
+    const angle = (2 * Math.PI * index) / unpositioned.length;
+    placed.set(node, { x: centerX + radius * Math.cos(angle), y: centerY + radius * Math.sin(angle) });
+  });
+
+  return nodes.map(node => (placed.has(node) ? { ...node, ...placed.get(node)! } : node));
+}
+
+// Fill in generated edge IDs and coordinates so the result is a complete GraphData
+export function finalizeImportedGraph(nodes: GraphNode[], edges: GraphEdge[]): GraphData {
+  const usedIds = new Set(edges.map(e => e.id).filter(Boolean));
+  let counter = 0;
+  const nextId = () => {
+    let id = `e${counter++}`;
+    while (usedIds.has(id)) id = `e${counter++}`;
+    usedIds.add(id);
+    return id;
+  };
+
+  return {
+    nodes: placeUnpositionedNodes(nodes),
+    edges: edges.map(edge => (edge.id ? edge : { ...edge, id: nextId() }))
+  };
+}
@@ -0,0 +1,317 @@
+import { LAYOUT_CONFIG } from '../types/constants';
+import { buildConnectionIndex } from './graphAdjacency';
+import type { ForceGraphData, ForceGraphNode, LayoutKind, LayoutOptions, NodePosition } from '../types/graph';
+
+export const LAYOUTS: Record<LayoutKind, { label: string; description: string }> = {
+  force: { label: 'Force', description: 'Live physics simulation; releases pinned nodes' },
+  layered: { label: 'Layered', description: 'Hierarchy following directed edges' },
+  radial: { label: 'Radial tree', description: 'Rings around the selected node' },
+  circular: { label: 'Circular', description: 'One circle, grouped by type' },
+  grid: { label: 'Grid', description: 'Rows and columns, grouped by type' }
+};
+
+type Point = { x: number; y: number };
+
+function linkEnds(data: ForceGraphData): { source: string; target: string; directed: boolean }[] {
+  return data.links.map(link => ({
+    source: typeof link.source === 'object' ? link.source.id : link.source,
+    target: typeof link.target === 'object' ? link.target.id : link.target,
+    directed: link.directed !== false
+  }));
+}
+
+function byTypeThenLabel(a: ForceGraphNode, b: ForceGraphNode): number {
+  return a.type.localeCompare(b.type) || a.label.localeCompare(b.label);
+}
+
+// Evenly spaced points on a circle, starting at the top
+function placeOnRing(ids: string[], center: Point, radius: number, positions: Record<string, Point>) {
+  ids.forEach((id, i) => {
+    const angle = (2 * Math.PI * i) / ids.length - Math.PI / 2;
+    positions[id] = { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+  });
+}
+
+// Smallest radius that keeps `count` nodes on a ring NODE_SPACING apart
+function ringRadiusFor(count: number): number {
+  return (count * LAYOUT_CONFIG.NODE_SPACING) / (2 * Math.PI);
+}
+
+/**
+ * Sugiyama-style layering: directed edges point down, undirected edges follow breadth-first
+ * discovery order, and cycles are broken by reversing back edges. Edges that skip layers get
+ * dummy nodes so barycenter sweeps can untangle them along with the real nodes.
+ */
+function layeredLayout(data: ForceGraphData, center: Point): Record<string, Point> {
+  const ids = data.nodes.map(n => n.id);
+  const ends = linkEnds(data).filter(e => e.source !== e.target);
+  const known = new Set(ids);
+  const edges = ends.filter(e => known.has(e.source) && known.has(e.target));
+
+  // Breadth-first order from nodes without incoming directed edges
+  const hasIncoming = new Set(edges.filter(e => e.directed).map(e => e.target));
+  const neighbors = new Map<string, string[]>(ids.map(id => [id, []]));
+  edges.forEach(e => {
+    neighbors.get(e.source)!.push(e.target);
+    neighbors.get(e.target)!.push(e.source);
+  });
+
+  const order = new Map<string, number>();
+  const starts = [...ids.filter(id => !hasIncoming.has(id)), ...ids];
+  starts.forEach(start => {
+    if (order.has(start)) return;
+    order.set(start, order.size);
+    const queue = [start];
+    for (let head = 0; head < queue.length; head++) {
+      neighbors.get(queue[head])!.forEach(next => {
+        if (!order.has(next)) {
+          order.set(next, order.size);
+          queue.push(next);
+        }
+      });
+    }
+  });
+
+  // Orient every edge, then reverse the ones that close a cycle
+  const successors = new Map<string, Set<string>>(ids.map(id => [id, new Set()]));
+  edges.forEach(e => {
+    const forward = e.directed || order.get(e.source)! < order.get(e.target)!;
+    const [from, to] = forward ? [e.source, e.target] : [e.target, e.source];
+    successors.get(from)!.add(to);
+  });
+
+  const acyclic = new Map<string, Set<string>>(ids.map(id => [id, new Set()]));
+  const state = new Map<string, 'active' | 'done'>();
+  const byOrder = [...ids].sort((a, b) => order.get(a)! - order.get(b)!);
+  byOrder.forEach(root => {
+    if (state.has(root)) return;
+    const stack: { id: string; next: string[] }[] = [{ id: root, next: Array.from(successors.get(root)!) }];
+    state.set(root, 'active');
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const to = frame.next.pop();
+      if (to === undefined) {
+        state.set(frame.id, 'done');
+        stack.pop();
+        continue;
+      }
+      if (state.get(to) === 'active') {
+        acyclic.get(to)!.add(frame.id);
+      } else {
+        acyclic.get(frame.id)!.add(to);
+        if (!state.has(to)) {
+          state.set(to, 'active');
+          stack.push({ id: to, next: Array.from(successors.get(to)!) });
+        }
+      }
+    }
+  });
+
+  // Longest-path layering in topological order
+  const inDegree = new Map<string, number>(ids.map(id => [id, 0]));
+  acyclic.forEach(targets => targets.forEach(to => inDegree.set(to, inDegree.get(to)! + 1)));
+  const rank = new Map<string, number>(ids.map(id => [id, 0]));
+  const queue = byOrder.filter(id => inDegree.get(id) === 0);
+  for (let head = 0; head < queue.length; head++) {
+    const from = queue[head];
+    acyclic.get(from)!.forEach(to => {
+      rank.set(to, Math.max(rank.get(to)!, rank.get(from)! + 1));
+      inDegree.set(to, inDegree.get(to)! - 1);
+      if (inDegree.get(to) === 0) queue.push(to);
+    });
+  }
+
+  // Layers with dummy nodes on long edges; `above` links each node to the layer before it.
+  // Past the dummy budget, long edges link their ends directly and only roughly guide ordering.
+  const layerCount = Array.from(rank.values()).reduce((max, r) => Math.max(max, r), 0) + 1;
+  const layers: string[][] = Array.from({ length: layerCount }, () => []);
+  const above = new Map<string, string[]>();
+  const below = new Map<string, string[]>();
+  const link = (upper: string, lower: string) => {
+    if (!below.has(upper)) below.set(upper, []);
+    if (!above.has(lower)) above.set(lower, []);
+    below.get(upper)!.push(lower);
+    above.get(lower)!.push(upper);
+  };
+
+  byOrder.forEach(id => layers[rank.get(id)!].push(id));
+  let dummyCount = 0;
+  byOrder.forEach(from => {
+    acyclic.get(from)!.forEach(to => {
+      const span = rank.get(to)! - rank.get(from)!;
+      if (dummyCount + span - 1 > LAYOUT_CONFIG.MAX_DUMMY_NODES) {
+        link(from, to);
+        return;
+      }
+      let upper = from;
+      for (let layer = rank.get(from)! + 1; layer < rank.get(to)!; layer++) {
+        const dummy = `\u0000dummy-${dummyCount++}`;
+        layers[layer].push(dummy);
+        link(upper, dummy);
+        upper = dummy;
+      }
+      link(upper, to);
+    });
+  });
+
+  // Barycenter sweeps, alternating downwards and upwards
+  const index = new Map<string, number>();
+  const reindex = (layer: string[]) => layer.forEach((id, i) => index.set(id, i));
+  layers.forEach(reindex);
+
+  const reorder = (layer: string[], adjacent: Map<string, string[]>) => {
+    const barycenters = new Map(layer.map(id => {
+      const linked = adjacent.get(id);
+      return [id, linked?.length
+        ? linked.reduce((sum, other) => sum + index.get(other)!, 0) / linked.length
+        : index.get(id)!];
+    }));
+    layer.sort((a, b) => barycenters.get(a)! - barycenters.get(b)!);
+    reindex(layer);
+  };
+
+  for (let sweep = 0; sweep < LAYOUT_CONFIG.CROSSING_SWEEPS; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let i = 1; i < layers.length; i++) reorder(layers[i], above);
+    } else {
+      for (let i = layers.length - 2; i >= 0; i--) reorder(layers[i], below);
+    }
+  }
+
+  const positions: Record<string, Point> = {};
+  const top = center.y - ((layerCount - 1) * LAYOUT_CONFIG.LAYER_SPACING) / 2;
+  layers.forEach((layer, depth) => {
+    const left = center.x - ((layer.length - 1) * LAYOUT_CONFIG.NODE_SPACING) / 2;
+    layer.forEach((id, i) => {
+      if (known.has(id)) {
+        positions[id] = { x: left + i * LAYOUT_CONFIG.NODE_SPACING, y: top + depth * LAYOUT_CONFIG.LAYER_SPACING };
+      }
+    });
+  });
+  return positions;
+}
+
+/**
+ * Breadth-first tree around the root, each subtree getting a wedge sized by its leaf count.
+ * Nodes the root cannot reach go on one extra ring outside the tree.
+ */
+function radialLayout(data: ForceGraphData, center: Point, rootId?: string | null): Record<string, Point> {
+  const positions: Record<string, Point> = {};
+  if (data.nodes.length === 0) return positions;
+
+  const index = buildConnectionIndex(data);
+  const root = rootId && index.has(rootId)
+    ? rootId
+    : data.nodes.reduce((best, node) => (index.get(node.id)!.length > index.get(best.id)!.length ? node : best)).id;
+
+  const children = new Map<string, string[]>([[root, []]]);
+  const depth = new Map<string, number>([[root, 0]]);
+  const visited = [root];
+  for (let head = 0; head < visited.length; head++) {
+    const id = visited[head];
+    index.get(id)!.forEach(({ node }) => {
+      if (depth.has(node.id)) return;
+      depth.set(node.id, depth.get(id)! + 1);
+      children.get(id)!.push(node.id);
+      children.set(node.id, []);
+      visited.push(node.id);
+    });
+  }
+
+  const leaves = new Map<string, number>();
+  for (let i = visited.length - 1; i >= 0; i--) {
+    const kids = children.get(visited[i])!;
+    leaves.set(visited[i], kids.length === 0 ? 1 : kids.reduce((sum, kid) => sum + leaves.get(kid)!, 0));
+  }
+
+  // Rings grow outwards and widen when too crowded for their node count
+  const perDepth: number[] = [];
+  depth.forEach(d => { perDepth[d] = (perDepth[d] ?? 0) + 1; });
+  const radii = [0];
+  for (let d = 1; d < perDepth.length; d++) {
+    radii[d] = Math.max(radii[d - 1] + LAYOUT_CONFIG.RING_SPACING, ringRadiusFor(perDepth[d]));
+  }
+
+  positions[root] = { ...center };
+  const wedges: { id: string; start: number; end: number }[] = [{ id: root, start: -Math.PI / 2, end: (3 * Math.PI) / 2 }];
+  while (wedges.length > 0) {
+    const { id, start, end } = wedges.pop()!;
+    let angle = start;
+    children.get(id)!.forEach(kid => {
+      const span = ((end - start) * leaves.get(kid)!) / leaves.get(id)!;
+      const middle = angle + span / 2;
+      const radius = radii[depth.get(kid)!];
+      positions[kid] = { x: center.x + radius * Math.cos(middle), y: center.y + radius * Math.sin(middle) };
+      wedges.push({ id: kid, start: angle, end: angle + span });
+      angle += span;
+    });
+  }
+
+  const unreached = data.nodes.filter(n => !depth.has(n.id)).sort(byTypeThenLabel).map(n => n.id);
+  if (unreached.length > 0) {
+    const radius = Math.max(radii[radii.length - 1] + LAYOUT_CONFIG.RING_SPACING, ringRadiusFor(unreached.length));
+    placeOnRing(unreached, center, radius, positions);
+  }
+  return positions;
+}
+
+// One ring with a free slot between consecutive types
+function circularLayout(data: ForceGraphData, center: Point): Record<string, Point> {
+  const positions: Record<string, Point> = {};
+  if (data.nodes.length === 1) {
+    positions[data.nodes[0].id] = { ...center };
+    return positions;
+  }
+
+  const sorted = [...data.nodes].sort(byTypeThenLabel);
+  const slots: (string | null)[] = [];
+  sorted.forEach((node, i) => {
+    if (i > 0 && node.type !== sorted[i - 1].type) slots.push(null);
+    slots.push(node.id);
+  });
+  if (slots.includes(null)) slots.push(null);
+
+  const radius = Math.max(LAYOUT_CONFIG.RING_SPACING, ringRadiusFor(slots.length));
+  slots.forEach((id, i) => {
+    if (id === null) return;
+    const angle = (2 * Math.PI * i) / slots.length - Math.PI / 2;
+    positions[id] = { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+  });
+  return positions;
+}
+
+// Square-ish grid, filled row by row in type order
+function gridLayout(data: ForceGraphData, center: Point): Record<string, Point> {
+  const positions: Record<string, Point> = {};
+  const sorted = [...data.nodes].sort(byTypeThenLabel);
+  const columns = Math.ceil(Math.sqrt(sorted.length));
+  const rows = Math.ceil(sorted.length / columns);
+
+  sorted.forEach((node, i) => {
+    const column = i % columns;
+    const row = Math.floor(i / columns);
+    positions[node.id] = {
+      x: center.x + (column - (columns - 1) / 2) * LAYOUT_CONFIG.GRID_SPACING,
+      y: center.y + (row - (rows - 1) / 2) * LAYOUT_CONFIG.GRID_SPACING
+    };
+  });
+  return positions;
+}
+
+// Target positions for every node under a fixed layout; the force layout has none
+export function computeLayout(
+  layout: Exclude<LayoutKind, 'force'>,
+  data: ForceGraphData,
+  options: LayoutOptions
+): Record<string, NodePosition> {
+  switch (layout) {
+    case 'layered':
+      return layeredLayout(data, options.center);
+    case 'radial':
+      return radialLayout(data, options.center, options.rootId);
+    case 'circular':
+      return circularLayout(data, options.center);
+    case 'grid':
+      return gridLayout(data, options.center);
+  }
+}
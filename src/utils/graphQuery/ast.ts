@@ -0,0 +1,61 @@
+// Syntax tree of a parsed graph query
+
+export type Scalar = string | number | boolean | null;
+
+export type ComparisonOperator =
+  | '=' | '<>' | '<' | '<=' | '>' | '>='
+  | '=~' | 'IN' | 'CONTAINS' | 'STARTS WITH' | 'ENDS WITH';
+
+export type Expression =
+  | { kind: 'literal'; value: Scalar }
+  | { kind: 'list'; items: Expression[] }
+  | { kind: 'variable'; name: string }
+  | { kind: 'property'; variable: string; key: string }
+  | { kind: 'not'; operand: Expression }
+  | { kind: 'logical'; operator: 'AND' | 'OR' | 'XOR'; left: Expression; right: Expression }
+  | { kind: 'comparison'; operator: ComparisonOperator; left: Expression; right: Expression }
+  | { kind: 'isNull'; operand: Expression; negated: boolean };
+
+// `(variable:type1|type2 {key: value})`
+export interface NodePattern {
+  variable: string;
+  types: string[];
+  properties: Record<string, Expression>;
+}
+
+// `-[variable:label1|label2 *min..max {key: value}]->`
+export interface RelationshipPattern {
+  variable: string;
+  labels: string[];
+  properties: Record<string, Expression>;
+  direction: 'out' | 'in' | 'both';
+  variableLength: boolean;
+  minHops: number;
+  maxHops: number;
+}
+
+export interface PathPattern {
+  start: NodePattern;
+  steps: { relationship: RelationshipPattern; node: NodePattern }[];
+}
+
+export interface ReturnItem {
+  expression: Expression;
+  alias: string;
+}
+
+export interface Query {
+  patterns: PathPattern[];
+  where: Expression | null;
+  // null means RETURN * (every named variable)
+  returnItems: ReturnItem[] | null;
+  distinct: boolean;
+  limit: number | null;
+}
+
+// Variables the user did not name get a generated name that cannot be typed in a query
+export const ANONYMOUS_PREFIX = ' anon';
+
+export function isAnonymous(variable: string): boolean {
+  return variable.startsWith(ANONYMOUS_PREFIX);
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { parseQuery } from './parser';
+import { evaluateQuery } from './evaluate';
+import type { ForceGraphData, ForceGraphNode, QueryCell, QueryResult } from '../../types/graph';
+
+function node(id: string, label: string, type: string, properties: Record<string, unknown> = {}): ForceGraphNode {
+  return { id, label, type, properties, x: 0, y: 0 };
+}
+
+const nodes = [
+  node('react', 'React', 'framework', { stars: '200000' }),
+  node('vue', 'Vue', 'framework', { stars: 45000 }),
+  node('js', 'JavaScript', 'language', { year: '1995' }),
+  node('ts', 'TypeScript', 'language', { year: 2012 }),
+  node('node', 'Node.js', 'runtime')
+];
+const byId = new Map(nodes.map(n => [n.id, n]));
+const edge = (id: string, source: string, label: string, target: string) =>
+  ({ id, label, directed: true, properties: {}, source: byId.get(source)!, target: byId.get(target)! });
+
+const data: ForceGraphData = {
+  nodes,
+  links: [
+    edge('e1', 'react', 'uses', 'js'),
+    edge('e2', 'vue', 'uses', 'js'),
+    edge('e3', 'node', 'runs', 'js'),
+    edge('e4', 'ts', 'compiles-to', 'js'),
+    edge('e5', 'react', 'uses', 'ts')
+  ]
+};
+
+function run(text: string): QueryResult {
+  return evaluateQuery(parseQuery(text), data);
+}
+
+// Cells as plain values: labels for nodes and edges, edge IDs for paths
+function show(cell: QueryCell): unknown {
+  switch (cell.kind) {
+    case 'node':
+      return cell.node.label;
+    case 'edge':
+      return cell.edge.label;
+    case 'path':
+      return cell.edges.map(e => e.id);
+    case 'value':
+      return cell.value;
+  }
+}
+
+const rowsOf = (text: string) => run(text).rows.map(row => row.map(show));
+
+describe('evaluateQuery', () => {
+  it('binds a variable to the same node everywhere it appears', () => {
+    expect(rowsOf('MATCH (a)-[:uses]->(x), (b)-[:runs]->(x) RETURN a.label, b.label'))
+      .toEqual([['React', 'Node.js'], ['Vue', 'Node.js']]);
+    expect(rowsOf('MATCH (a)-[:uses]->(b)<-[:compiles-to]-(c) RETURN a, c'))
+      .toEqual([['React', 'TypeScript'], ['Vue', 'TypeScript']]);
+  });
+
+  it('walks multi-hop and variable-length patterns', () => {
+    expect(rowsOf("MATCH (a {label: 'React'})-[p*2]->(b) RETURN b.label, p")).toEqual([['JavaScript', ['e5', 'e4']]]);
+    expect(rowsOf("MATCH (a {label: 'React'})-[*1..2]->(b) RETURN DISTINCT b.label")).toEqual([['JavaScript'], ['TypeScript']]);
+    // Without an arrow, edges are walked either way
+    expect(rowsOf("MATCH (a {label: 'Node.js'})-[*2]-(b:framework) RETURN b")).toEqual([['React'], ['Vue']]);
+  });
+
+  it('returns every named variable for RETURN *', () => {
+    const result = run('MATCH (a)-[:runs]->(b) RETURN *');
+    expect(result.columns).toEqual(['a', 'b']);
+    expect(result.rows.map(row => row.map(show))).toEqual([['Node.js', 'JavaScript']]);
+    expect(result.nodeIds.sort()).toEqual(['js', 'node']);
+    expect(result.edgeIds).toEqual(['e3']);
+  });
+
+  it('filters with WHERE', () => {
+    // Numbers stored as text compare as numbers
+    expect(rowsOf('MATCH (n:language) WHERE n.year < 2000 RETURN n.label')).toEqual([['JavaScript']]);
+    expect(rowsOf('MATCH (n:framework) WHERE n.stars >= 100000 RETURN n.label')).toEqual([['React']]);
+    expect(rowsOf("MATCH (n) WHERE n.label STARTS WITH 'T' OR n.label ENDS WITH '.js' RETURN n.label"))
+      .toEqual([['TypeScript'], ['Node.js']]);
+    expect(rowsOf("MATCH (n) WHERE n.label =~ '(?i)v.*' RETURN n.label")).toEqual([['Vue']]);
+    expect(rowsOf("MATCH (n) WHERE n.type IN ['runtime', 'language'] AND NOT n.label CONTAINS 'Script' RETURN n.label"))
+      .toEqual([['Node.js']]);
+    expect(rowsOf("MATCH (n) WHERE n.stars IS NULL XOR n.type = 'language' RETURN n.label")).toEqual([['Node.js']]);
+    expect(rowsOf("MATCH (a)-[r]->(b) WHERE r.label <> 'uses' RETURN r")).toEqual([['compiles-to'], ['runs']]);
+  });
+
+  it('treats a comparison with a missing value as neither true nor false', () => {
+    expect(rowsOf('MATCH (n) WHERE n.year > 0 RETURN n.label')).toEqual([['JavaScript'], ['TypeScript']]);
+    expect(rowsOf('MATCH (n) WHERE NOT n.year > 0 RETURN n.label')).toEqual([]);
+  });
+
+  it('rejects an invalid regular expression', () => {
+    expect(() => run("MATCH (n) WHERE n.label =~ '(' RETURN n")).toThrow('Invalid regular expression: (');
+  });
+
+  it('stops at LIMIT', () => {
+    const result = run('MATCH (n) RETURN n LIMIT 2');
+    expect(result.rows.map(row => row.map(show))).toEqual([['React'], ['Vue']]);
+    expect(result.nodeIds).toEqual(['react', 'vue']);
+    expect(result.truncated).toBe(false);
+  });
+});
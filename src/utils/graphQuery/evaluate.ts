@@ -0,0 +1,336 @@
+import { QUERY_CONFIG } from '../../types/constants';
+import { isAnonymous } from './ast';
+import type { Expression, NodePattern, PathPattern, Query, RelationshipPattern, Scalar } from './ast';
+import type { ForceGraphData, ForceGraphEdge, ForceGraphNode, QueryCell, QueryResult } from '../../types/graph';
+
+type Bound = ForceGraphNode | ForceGraphEdge | ForceGraphEdge[];
+type Bindings = Map<string, Bound>;
+type Value = Scalar | Bound | Value[] | Record<string, any>;
+
+interface Adjacent {
+  edge: ForceGraphEdge;
+  neighbor: ForceGraphNode;
+  // Whether the edge points away from the node it is listed under
+  forward: boolean;
+}
+
+// Graph items, as opposed to plain objects stored in JSON properties
+function isGraphItem(value: unknown): value is { id: string; properties: Record<string, any> } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    typeof (value as any).id === 'string' && typeof (value as any).properties === 'object';
+}
+
+function isEdge(value: unknown): value is ForceGraphEdge {
+  return isGraphItem(value) && typeof (value as any).source === 'object' && typeof (value as any).target === 'object';
+}
+
+function isNode(value: unknown): value is ForceGraphNode {
+  return isGraphItem(value) && typeof (value as any).type === 'string' && !isEdge(value);
+}
+
+// Built-in fields first, then user properties
+function readProperty(item: Value, key: string): Value {
+  if (isNode(item)) {
+    if (key === 'id' || key === 'label' || key === 'type') return item[key];
+    return item.properties?.[key] ?? null;
+  }
+  if (isEdge(item)) {
+    if (key === 'id' || key === 'label' || key === 'directed') return item[key];
+    if (key === 'source' || key === 'target') return item[key].id;
+    return item.properties?.[key] ?? null;
+  }
+  return null;
+}
+
+// Numbers typed into the properties panel are stored as strings; compare them as numbers
+function toComparable(left: Value, right: Value): [Value, Value] {
+  if (typeof left === 'number' && typeof right === 'string' && right.trim() !== '' && !isNaN(Number(right))) {
+    return [left, Number(right)];
+  }
+  if (typeof right === 'number' && typeof left === 'string' && left.trim() !== '' && !isNaN(Number(left))) {
+    return [Number(left), right];
+  }
+  return [left, right];
+}
+
+function valuesEqual(left: Value, right: Value): boolean {
+  const [a, b] = toComparable(left, right);
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => valuesEqual(item, b[index]));
+  }
+  if (isNode(a) || isEdge(a)) return (isNode(b) || isEdge(b)) && a.id === b.id;
+  return a === b;
+}
+
+// Cypher-style `=~`: the whole string must match; a leading (?i) makes it case-insensitive
+function matchesRegex(value: string, pattern: string): boolean {
+  const caseInsensitive = pattern.startsWith('(?i)');
+  const source = caseInsensitive ? pattern.slice(4) : pattern;
+  try {
+    return new RegExp(`^(?:${source})$`, caseInsensitive ? 'i' : '').test(value);
+  } catch {
+    throw new Error(`Invalid regular expression: ${pattern}`);
+  }
+}
+
+// Comparisons with a missing value are null (neither true nor false), as in Cypher
+function evaluate(expression: Expression, bindings: Bindings): Value {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+
+    case 'list':
+      return expression.items.map(item => evaluate(item, bindings));
+
+    case 'variable':
+      return bindings.get(expression.name) ?? null;
+
+    case 'property':
+      return readProperty(bindings.get(expression.variable) ?? null, expression.key);
+
+    case 'not': {
+      const operand = evaluate(expression.operand, bindings);
+      return operand === null ? null : !operand;
+    }
+
+    case 'isNull': {
+      const isNull = evaluate(expression.operand, bindings) === null;
+      return expression.negated ? !isNull : isNull;
+    }
+
+    case 'logical': {
+      const left = evaluate(expression.left, bindings);
+      const right = evaluate(expression.right, bindings);
+      const a = left === null ? null : Boolean(left);
+      const b = right === null ? null : Boolean(right);
+      switch (expression.operator) {
+        case 'AND':
+          if (a === false || b === false) return false;
+          return a === null || b === null ? null : true;
+        case 'OR':
+          if (a === true || b === true) return true;
+          return a === null || b === null ? null : false;
+        case 'XOR':
+          return a === null || b === null ? null : a !== b;
+      }
+      break;
+    }
+
+    case 'comparison': {
+      const left = evaluate(expression.left, bindings);
+      const right = evaluate(expression.right, bindings);
+
+      if (expression.operator === 'IN') {
+        if (left === null || !Array.isArray(right)) return null;
+        return right.some(item => valuesEqual(left, item));
+      }
+      if (left === null || right === null) return null;
+
+      switch (expression.operator) {
+        case '=':
+          return valuesEqual(left, right);
+        case '<>':
+          return !valuesEqual(left, right);
+        case '<':
+        case '<=':
+        case '>':
+        case '>=': {
+          const [a, b] = toComparable(left, right);
+          if (typeof a !== typeof b || (typeof a !== 'number' && typeof a !== 'string')) return null;
+          if (expression.operator === '<') return (a as number) < (b as number);
+          if (expression.operator === '<=') return (a as number) <= (b as number);
+          if (expression.operator === '>') return (a as number) > (b as number);
+          return (a as number) >= (b as number);
+        }
+        default: {
+          if (typeof left !== 'string' || typeof right !== 'string') return null;
+          if (expression.operator === 'CONTAINS') return left.includes(right);
+          if (expression.operator === 'STARTS WITH') return left.startsWith(right);
+          if (expression.operator === 'ENDS WITH') return left.endsWith(right);
+          return matchesRegex(left, right);
+        }
+      }
+    }
+  }
+  return null;
+}
+
+function hasProperties(item: ForceGraphNode | ForceGraphEdge, properties: Record<string, Expression>, bindings: Bindings) {
+  return Object.entries(properties).every(([key, expression]) =>
+    valuesEqual(readProperty(item, key), evaluate(expression, bindings))
+  );
+}
+
+function nodeMatches(node: ForceGraphNode, pattern: NodePattern, bindings: Bindings): boolean {
+  const bound = bindings.get(pattern.variable);
+  if (bound && (!isNode(bound) || bound.id !== node.id)) return false;
+  if (pattern.types.length > 0 && !pattern.types.includes(node.type || 'default')) return false;
+  return hasProperties(node, pattern.properties, bindings);
+}
+
+function edgeMatches(adjacent: Adjacent, pattern: RelationshipPattern, bindings: Bindings): boolean {
+  const { edge, forward } = adjacent;
+  // Undirected edges can be walked either way
+  if (edge.directed !== false) {
+    if (pattern.direction === 'out' && !forward) return false;
+    if (pattern.direction === 'in' && forward) return false;
+  }
+  if (pattern.labels.length > 0 && !pattern.labels.includes(edge.label)) return false;
+  return hasProperties(edge, pattern.properties, bindings);
+}
+
+// Value shown in a results table cell
+function toCell(value: Value): QueryCell {
+  if (isNode(value)) return { kind: 'node', node: value };
+  if (isEdge(value)) return { kind: 'edge', edge: value };
+  if (Array.isArray(value) && value.every(isEdge) && value.length > 0) {
+    return { kind: 'path', edges: value as ForceGraphEdge[] };
+  }
+  return { kind: 'value', value: value === undefined ? null : value };
+}
+
+function cellKey(cell: QueryCell): string {
+  switch (cell.kind) {
+    case 'node':
+      return `n:${cell.node.id}`;
+    case 'edge':
+      return `e:${cell.edge.id}`;
+    case 'path':
+      return `p:${cell.edges.map(edge => edge.id).join(',')}`;
+    case 'value':
+      return `v:${JSON.stringify(cell.value)}`;
+  }
+}
+
+export function evaluateQuery(query: Query, data: ForceGraphData): QueryResult {
+  const adjacency = new Map<string, Adjacent[]>();
+  data.nodes.forEach(node => adjacency.set(node.id, []));
+  data.links.forEach(edge => {
+    adjacency.get(edge.source.id)?.push({ edge, neighbor: edge.target, forward: true });
+    if (edge.source.id !== edge.target.id) {
+      adjacency.get(edge.target.id)?.push({ edge, neighbor: edge.source, forward: false });
+    }
+  });
+
+  const columns = query.returnItems
+    ? query.returnItems.map(item => item.alias)
+    : Array.from(new Set(query.patterns.flatMap(pattern => [
+      pattern.start.variable,
+      ...pattern.steps.flatMap(step => [step.relationship.variable, step.node.variable])
+    ]))).filter(variable => !isAnonymous(variable));
+
+  const rowLimit = Math.min(query.limit ?? Infinity, QUERY_CONFIG.MAX_RESULTS);
+  const rows: QueryCell[][] = [];
+  const rowKeys = new Set<string>();
+  const nodeIds = new Set<string>();
+  const edgeIds = new Set<string>();
+  let truncated = false;
+  let isDone = false;
+
+  const bindings: Bindings = new Map();
+  // Within one match every edge is used at most once, so cycles cannot repeat forever
+  const usedEdges = new Set<string>();
+
+  const emit = () => {
+    if (query.where && evaluate(query.where, bindings) !== true) return;
+
+    const row = query.returnItems
+      ? query.returnItems.map(item => toCell(evaluate(item.expression, bindings)))
+      : columns.map(variable => toCell(bindings.get(variable) ?? null));
+
+    if (query.distinct) {
+      const key = row.map(cellKey).join('|');
+      if (rowKeys.has(key)) return;
+      rowKeys.add(key);
+    }
+
+    // Only the result cap can be hit here; a LIMIT stops the search as soon as it is reached
+    if (rows.length === rowLimit) {
+      truncated = true;
+      isDone = true;
+      return;
+    }
+    rows.push(row);
+    if (rows.length === query.limit) isDone = true;
+
+    // The whole match is highlighted, including unnamed parts of the pattern
+    bindings.forEach(value => {
+      if (isNode(value)) nodeIds.add(value.id);
+      (Array.isArray(value) ? value : isEdge(value) ? [value] : []).forEach(edge => {
+        edgeIds.add(edge.id);
+        nodeIds.add(edge.source.id);
+        nodeIds.add(edge.target.id);
+      });
+    });
+  };
+
+  const withBinding = (variable: string, value: Bound, next: () => void) => {
+    const previous = bindings.get(variable);
+    bindings.set(variable, value);
+    next();
+    if (previous === undefined) bindings.delete(variable);
+    else bindings.set(variable, previous);
+  };
+
+  const matchPatterns = (patternIndex: number) => {
+    if (isDone) return;
+    if (patternIndex === query.patterns.length) {
+      emit();
+      return;
+    }
+
+    const pattern: PathPattern = query.patterns[patternIndex];
+    const bound = bindings.get(pattern.start.variable);
+    const candidates = bound && isNode(bound) ? [bound] : data.nodes;
+
+    candidates.forEach(node => {
+      if (isDone || !nodeMatches(node, pattern.start, bindings)) return;
+      withBinding(pattern.start.variable, node, () => matchSteps(pattern, 0, node, patternIndex));
+    });
+  };
+
+  const matchSteps = (pattern: PathPattern, stepIndex: number, current: ForceGraphNode, patternIndex: number) => {
+    if (isDone) return;
+    if (stepIndex === pattern.steps.length) {
+      matchPatterns(patternIndex + 1);
+      return;
+    }
+
+    const { relationship, node } = pattern.steps[stepIndex];
+    const arrive = (end: ForceGraphNode, edges: ForceGraphEdge[]) => {
+      if (!nodeMatches(end, node, bindings)) return;
+      const edgeValue: Bound = relationship.variableLength ? [...edges] : edges[0];
+      withBinding(relationship.variable, edgeValue, () =>
+        withBinding(node.variable, end, () => matchSteps(pattern, stepIndex + 1, end, patternIndex))
+      );
+    };
+
+    // Depth-first walk; every prefix of length minHops..maxHops is a candidate path
+    const path: ForceGraphEdge[] = [];
+    const walk = (from: ForceGraphNode) => {
+      if (isDone) return;
+      if (path.length >= relationship.minHops) arrive(from, path);
+      if (path.length === relationship.maxHops) return;
+
+      (adjacency.get(from.id) ?? []).forEach(adjacent => {
+        if (usedEdges.has(adjacent.edge.id) || !edgeMatches(adjacent, relationship, bindings)) return;
+        usedEdges.add(adjacent.edge.id);
+        path.push(adjacent.edge);
+        walk(adjacent.neighbor);
+        path.pop();
+        usedEdges.delete(adjacent.edge.id);
+      });
+    };
+    walk(current);
+  };
+
+  matchPatterns(0);
+
+  return {
+    columns,
+    rows,
+    nodeIds: Array.from(nodeIds),
+    edgeIds: Array.from(edgeIds),
+    truncated
+  };
+}
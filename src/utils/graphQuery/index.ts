@@ -0,0 +1,18 @@
+import type { ForceGraphData, QueryResult } from '../../types/graph';
+import { parseQuery } from './parser';
+import { evaluateQuery } from './evaluate';
+
+export { parseQuery } from './parser';
+
+// Shown in the query console as starting points
+export const QUERY_EXAMPLES = [
+  'MATCH (db:database)<-[:uses]-(b:backend-framework) RETURN db, b',
+  "MATCH (n) WHERE n.label CONTAINS 'React' RETURN n.label, n.type",
+  'MATCH (a {label: "React"})-[path*1..3]->(b) RETURN DISTINCT b',
+  'MATCH (a)-[r]-(b:programming-language|runtime) WHERE r.label <> "connects" RETURN a, r, b LIMIT 20'
+];
+
+// Parse and run a pattern query against the graph currently on the canvas
+export function runGraphQuery(text: string, data: ForceGraphData): QueryResult {
+  return evaluateQuery(parseQuery(text), data);
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { parseQuery } from './parser';
+
+describe('parseQuery', () => {
+  it('reads a multi-hop pattern with types, labels and hop ranges', () => {
+    const query = parseQuery('MATCH (a:database|runtime)<-[:uses]-(b)-[p*1..3]->(c) RETURN DISTINCT b.label AS name LIMIT 5');
+    const [pattern] = query.patterns;
+
+    expect(pattern.start).toEqual({ variable: 'a', types: ['database', 'runtime'], properties: {} });
+    expect(pattern.steps.map(step => step.node.variable)).toEqual(['b', 'c']);
+    expect(pattern.steps[0].relationship).toMatchObject({ labels: ['uses'], direction: 'in', variableLength: false });
+    expect(pattern.steps[1].relationship).toMatchObject({ variable: 'p', direction: 'out', variableLength: true, minHops: 1, maxHops: 3 });
+    expect(query.returnItems).toEqual([
+      { expression: { kind: 'property', variable: 'b', key: 'label' }, alias: 'name' }
+    ]);
+    expect(query.distinct).toBe(true);
+    expect(query.limit).toBe(5);
+  });
+
+  it('titles a column with the expression as written', () => {
+    expect(parseQuery('MATCH (n) RETURN n.label,  n.type').returnItems?.map(item => item.alias)).toEqual(['n.label', 'n.type']);
+  });
+
+  it('reads property maps and WHERE with the usual precedence', () => {
+    const query = parseQuery("MATCH (n {label: 'React'}) WHERE NOT n.x = 1 OR n.y IS NOT NULL AND n.z IN [1, -2]");
+
+    expect(query.patterns[0].start.properties).toEqual({ label: { kind: 'literal', value: 'React' } });
+    expect(query.where).toEqual({
+      kind: 'logical',
+      operator: 'OR',
+      left: {
+        kind: 'not',
+        operand: { kind: 'comparison', operator: '=', left: { kind: 'property', variable: 'n', key: 'x' }, right: { kind: 'literal', value: 1 } }
+      },
+      right: {
+        kind: 'logical',
+        operator: 'AND',
+        left: { kind: 'isNull', operand: { kind: 'property', variable: 'n', key: 'y' }, negated: true },
+        right: {
+          kind: 'comparison',
+          operator: 'IN',
+          left: { kind: 'property', variable: 'n', key: 'z' },
+          right: { kind: 'list', items: [{ kind: 'literal', value: 1 }, { kind: 'literal', value: -2 }] }
+        }
+      }
+    });
+  });
+
+  it('reports where a query goes wrong', () => {
+    expect(() => parseQuery('RETURN n')).toThrow('Expected MATCH at position 0 (found "RETURN")');
+    expect(() => parseQuery('MATCH (a)-[r]->(b) LIMIT 0')).toThrow('Expected a positive whole number after LIMIT at position 25 (found "0")');
+    expect(() => parseQuery('MATCH (a) RETURN a b')).toThrow('Unexpected at position 19 (found "b")');
+    expect(() => parseQuery("MATCH (a {label: 'x}) RETURN a")).toThrow('Unterminated string at position 17');
+    expect(() => parseQuery('MATCH (a) WHERE a.x = $1')).toThrow('Unexpected character "$" at position 22');
+    expect(() => parseQuery('MATCH (a')).toThrow('Expected ")" at position 8 (found end of query)');
+  });
+
+  it('checks hop ranges and edge directions', () => {
+    expect(() => parseQuery('MATCH (a)-[*3..1]->(b)')).toThrow('Maximum hops is smaller than minimum hops');
+    expect(() => parseQuery('MATCH (a)-[*1..20]->(b)')).toThrow('Paths are limited to 8 hops');
+    expect(() => parseQuery('MATCH (a)<-[r]->(b)')).toThrow('An edge pattern cannot point both ways');
+  });
+
+  it('checks that variables are bound and keep their kind', () => {
+    expect(() => parseQuery('MATCH (a) RETURN b')).toThrow('Variable "b" is not defined in MATCH');
+    expect(() => parseQuery('MATCH (a) WHERE b.label = "x"')).toThrow('Variable "b" is not defined in MATCH');
+    expect(() => parseQuery('MATCH (a)-[a]->(b)')).toThrow('Variable "a" cannot be both a node and an edge');
+    expect(() => parseQuery('MATCH (a)-[r]->(b), (b)-[r]->(c)')).toThrow('Edge variable "r" is used more than once');
+    expect(() => parseQuery('MATCH (a)-[r]->(b), (b)-[s]->(a) RETURN a, b')).not.toThrow();
+  });
+});
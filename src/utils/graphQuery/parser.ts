@@ -0,0 +1,455 @@
+import { QUERY_CONFIG } from '../../types/constants';
+import { ANONYMOUS_PREFIX } from './ast';
+import type {
+  ComparisonOperator,
+  Expression,
+  NodePattern,
+  PathPattern,
+  Query,
+  RelationshipPattern,
+  ReturnItem
+} from './ast';
+
+type Token =
+  | { kind: 'word'; value: string; quoted: boolean; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'punct'; value: string; position: number }
+  | { kind: 'end'; value: ''; position: number };
+
+// Longest first, so `<=` wins over `<` and `..` over `.`
+const PUNCTUATION = ['<>', '<=', '>=', '!=', '=~', '->', '<-', '..', '(', ')', '[', ']', '{', '}', ':', ',', '.', '|', '*', '-', '<', '>', '='];
+
+// Node types such as `backend-framework` contain hyphens, so words may too (but never start or end with one)
+const WORD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(?:-[A-Za-z0-9_]+)*/;
+const NUMBER_PATTERN = /^\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (text.startsWith('//', i)) {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (char === '"' || char === "'" || char === '`') {
+      let value = '';
+      let j = i + 1;
+      while (j < text.length && text[j] !== char) {
+        if (text[j] === '\\' && j + 1 < text.length) {
+          const escaped = text[j + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          j += 2;
+        } else {
+          value += text[j++];
+        }
+      }
+      if (j >= text.length) throw new Error(`Unterminated ${char === '`' ? 'identifier' : 'string'} at position ${i}`);
+      tokens.push(char === '`'
+        ? { kind: 'word', value, quoted: true, position: i }
+        : { kind: 'string', value, position: i });
+      i = j + 1;
+    } else if (/\d/.test(char)) {
+      // A fraction needs a digit after the dot, so `1..3` stays a range
+      const [literal] = NUMBER_PATTERN.exec(text.slice(i))!;
+      tokens.push({ kind: 'number', value: Number(literal), position: i });
+      i += literal.length;
+    } else {
+      const word = WORD_PATTERN.exec(text.slice(i));
+      if (word) {
+        tokens.push({ kind: 'word', value: word[0], quoted: false, position: i });
+        i += word[0].length;
+        continue;
+      }
+      const punct = PUNCTUATION.find(p => text.startsWith(p, i));
+      if (!punct) throw new Error(`Unexpected character "${char}" at position ${i}`);
+      tokens.push({ kind: 'punct', value: punct, position: i });
+      i += punct.length;
+    }
+  }
+
+  tokens.push({ kind: 'end', value: '', position: text.length });
+  return tokens;
+}
+
+function describe(token: Token): string {
+  if (token.kind === 'end') return 'end of query';
+  if (token.kind === 'string') return `'${token.value}'`;
+  return `"${token.value}"`;
+}
+
+class QueryParser {
+  private position = 0;
+  private anonymousCount = 0;
+
+  constructor(private readonly tokens: Token[], private readonly text: string) {}
+
+  parse(): Query {
+    const patterns: PathPattern[] = [];
+    let where: Expression | null = null;
+
+    if (!this.isKeyword('MATCH')) this.fail('Expected MATCH');
+    while (this.acceptKeyword('MATCH')) {
+      do {
+        patterns.push(this.parsePath());
+      } while (this.acceptPunct(','));
+
+      if (this.acceptKeyword('WHERE')) {
+        const condition = this.parseExpression();
+        where = where ? { kind: 'logical', operator: 'AND', left: where, right: condition } : condition;
+      }
+    }
+
+    let returnItems: ReturnItem[] | null = null;
+    let distinct = false;
+    if (this.acceptKeyword('RETURN')) {
+      distinct = this.acceptKeyword('DISTINCT');
+      if (!this.acceptPunct('*')) {
+        returnItems = [];
+        do {
+          returnItems.push(this.parseReturnItem());
+        } while (this.acceptPunct(','));
+      }
+    }
+
+    let limit: number | null = null;
+    if (this.acceptKeyword('LIMIT')) {
+      const token = this.peek();
+      if (token.kind !== 'number' || !Number.isInteger(token.value) || token.value < 1) {
+        this.fail('Expected a positive whole number after LIMIT');
+      }
+      limit = token.value as number;
+      this.position++;
+    }
+
+    if (this.peek().kind !== 'end') this.fail('Unexpected');
+
+    this.checkVariables(patterns, where, returnItems);
+    return { patterns, where, returnItems, distinct, limit };
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  private fail(message: string): never {
+    const token = this.peek();
+    throw new Error(`${message} at position ${token.position} (found ${describe(token)})`);
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.kind === 'punct' && token.value === value;
+  }
+
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.kind === 'word' && !token.quoted && token.value.toUpperCase() === keyword;
+  }
+
+  private acceptPunct(value: string): boolean {
+    if (!this.isPunct(value)) return false;
+    this.position++;
+    return true;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.isKeyword(keyword)) return false;
+    this.position++;
+    return true;
+  }
+
+  private expectPunct(value: string) {
+    if (!this.acceptPunct(value)) this.fail(`Expected "${value}"`);
+  }
+
+  private expectName(what: string): string {
+    const token = this.peek();
+    if (token.kind !== 'word') this.fail(`Expected ${what}`);
+    this.position++;
+    return token.value as string;
+  }
+
+  private anonymous(): string {
+    return `${ANONYMOUS_PREFIX}${this.anonymousCount++}`;
+  }
+
+  // (a:type)-[r:label]->(b) ...
+  private parsePath(): PathPattern {
+    const start = this.parseNode();
+    const steps: PathPattern['steps'] = [];
+
+    while (this.isPunct('-') || this.isPunct('<-')) {
+      const relationship = this.parseRelationship();
+      steps.push({ relationship, node: this.parseNode() });
+    }
+
+    return { start, steps };
+  }
+
+  private parseNode(): NodePattern {
+    this.expectPunct('(');
+    const variable = this.peek().kind === 'word' ? this.expectName('a variable') : this.anonymous();
+    const types: string[] = [];
+    if (this.acceptPunct(':')) {
+      types.push(this.expectName('a node type'));
+      while (this.acceptPunct('|')) {
+        this.acceptPunct(':');
+        types.push(this.expectName('a node type'));
+      }
+    }
+    const properties = this.isPunct('{') ? this.parsePropertyMap() : {};
+    this.expectPunct(')');
+    return { variable, types, properties };
+  }
+
+  private parseRelationship(): RelationshipPattern {
+    const incoming = this.acceptPunct('<-');
+    if (!incoming) this.expectPunct('-');
+
+    const relationship: RelationshipPattern = {
+      variable: '',
+      labels: [],
+      properties: {},
+      direction: 'both',
+      variableLength: false,
+      minHops: 1,
+      maxHops: 1
+    };
+
+    if (this.acceptPunct('[')) {
+      if (this.peek().kind === 'word') relationship.variable = this.expectName('a variable');
+      if (this.acceptPunct(':')) {
+        relationship.labels.push(this.expectName('an edge label'));
+        while (this.acceptPunct('|')) {
+          this.acceptPunct(':');
+          relationship.labels.push(this.expectName('an edge label'));
+        }
+      }
+      if (this.acceptPunct('*')) this.parseHops(relationship);
+      if (this.isPunct('{')) relationship.properties = this.parsePropertyMap();
+      this.expectPunct(']');
+    }
+    relationship.variable ||= this.anonymous();
+
+    const outgoing = this.acceptPunct('->');
+    if (!outgoing) this.expectPunct('-');
+    if (incoming && outgoing) this.fail('An edge pattern cannot point both ways');
+    relationship.direction = outgoing ? 'out' : incoming ? 'in' : 'both';
+
+    return relationship;
+  }
+
+  // *, *3, *1..3, *..3, *2..
+  private parseHops(relationship: RelationshipPattern) {
+    const limit = QUERY_CONFIG.MAX_PATH_LENGTH;
+    const readNumber = (): number | null => {
+      const token = this.peek();
+      if (token.kind !== 'number') return null;
+      if (!Number.isInteger(token.value) || token.value < 0) this.fail('Expected a whole number of hops');
+      this.position++;
+      return token.value as number;
+    };
+
+    relationship.variableLength = true;
+    const min = readNumber();
+    if (this.acceptPunct('..')) {
+      relationship.minHops = min ?? 1;
+      relationship.maxHops = readNumber() ?? limit;
+    } else {
+      relationship.minHops = min ?? 1;
+      relationship.maxHops = min ?? limit;
+    }
+
+    if (relationship.maxHops < relationship.minHops) this.fail('Maximum hops is smaller than minimum hops');
+    if (relationship.maxHops > limit) this.fail(`Paths are limited to ${limit} hops`);
+  }
+
+  private parsePropertyMap(): Record<string, Expression> {
+    const properties: Record<string, Expression> = {};
+    this.expectPunct('{');
+    if (!this.isPunct('}')) {
+      do {
+        const key = this.expectName('a property name');
+        this.expectPunct(':');
+        properties[key] = this.parseOperand();
+      } while (this.acceptPunct(','));
+    }
+    this.expectPunct('}');
+    return properties;
+  }
+
+  private parseReturnItem(): ReturnItem {
+    const start = this.peek().position;
+    const expression = this.parseExpression();
+    // Without AS, the column is titled with the expression as written
+    const alias = this.acceptKeyword('AS')
+      ? this.expectName('an alias')
+      : this.text.slice(start, this.peek().position).trim();
+    return { expression, alias };
+  }
+
+  // Precedence, lowest first: OR, XOR, AND, NOT, comparison
+  private parseExpression(): Expression {
+    let left = this.parseXor();
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'logical', operator: 'OR', left, right: this.parseXor() };
+    }
+    return left;
+  }
+
+  private parseXor(): Expression {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('XOR')) {
+      left = { kind: 'logical', operator: 'XOR', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'logical', operator: 'AND', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    const left = this.parseOperand();
+
+    if (this.acceptKeyword('IS')) {
+      const negated = this.acceptKeyword('NOT');
+      if (!this.acceptKeyword('NULL')) this.fail('Expected NULL');
+      return { kind: 'isNull', operand: left, negated };
+    }
+
+    let operator: ComparisonOperator | null = null;
+    const token = this.peek();
+    if (token.kind === 'punct' && ['=', '<>', '!=', '<', '<=', '>', '>=', '=~'].includes(token.value)) {
+      operator = token.value === '!=' ? '<>' : token.value as ComparisonOperator;
+      this.position++;
+    } else if (this.acceptKeyword('IN')) {
+      operator = 'IN';
+    } else if (this.acceptKeyword('CONTAINS')) {
+      operator = 'CONTAINS';
+    } else if (this.isKeyword('STARTS') || this.isKeyword('ENDS')) {
+      operator = this.isKeyword('STARTS') ? 'STARTS WITH' : 'ENDS WITH';
+      this.position++;
+      if (!this.acceptKeyword('WITH')) this.fail('Expected WITH');
+    }
+
+    if (!operator) return left;
+    return { kind: 'comparison', operator, left, right: this.parseOperand() };
+  }
+
+  private parseOperand(): Expression {
+    const token = this.peek();
+
+    if (this.acceptPunct('(')) {
+      const inner = this.parseExpression();
+      this.expectPunct(')');
+      return inner;
+    }
+
+    if (this.acceptPunct('[')) {
+      const items: Expression[] = [];
+      if (!this.isPunct(']')) {
+        do {
+          items.push(this.parseOperand());
+        } while (this.acceptPunct(','));
+      }
+      this.expectPunct(']');
+      return { kind: 'list', items };
+    }
+
+    if (this.isPunct('-') && this.peek(1).kind === 'number') {
+      this.position++;
+      return { kind: 'literal', value: -(this.tokens[this.position++].value as number) };
+    }
+
+    if (token.kind === 'string' || token.kind === 'number') {
+      this.position++;
+      return { kind: 'literal', value: token.value };
+    }
+
+    if (token.kind === 'word') {
+      if (!token.quoted) {
+        const keyword = token.value.toUpperCase();
+        if (keyword === 'TRUE' || keyword === 'FALSE' || keyword === 'NULL') {
+          this.position++;
+          return { kind: 'literal', value: keyword === 'NULL' ? null : keyword === 'TRUE' };
+        }
+      }
+      this.position++;
+      if (this.acceptPunct('.')) {
+        return { kind: 'property', variable: token.value, key: this.expectName('a property name') };
+      }
+      return { kind: 'variable', name: token.value };
+    }
+
+    this.fail('Expected a value');
+  }
+
+  // Every variable used outside the patterns must be bound by them, and names cannot change kind
+  private checkVariables(patterns: PathPattern[], where: Expression | null, returnItems: ReturnItem[] | null) {
+    const kinds = new Map<string, 'node' | 'edge'>();
+    const declare = (name: string, kind: 'node' | 'edge') => {
+      const existing = kinds.get(name);
+      if (existing && existing !== kind) {
+        throw new Error(`Variable "${name}" cannot be both a node and an edge`);
+      }
+      if (existing === 'edge') {
+        throw new Error(`Edge variable "${name}" is used more than once`);
+      }
+      kinds.set(name, kind);
+    };
+
+    patterns.forEach(pattern => {
+      declare(pattern.start.variable, 'node');
+      pattern.steps.forEach(step => {
+        declare(step.relationship.variable, 'edge');
+        declare(step.node.variable, 'node');
+      });
+    });
+
+    const check = (expression: Expression) => {
+      switch (expression.kind) {
+        case 'variable':
+        case 'property': {
+          const name = expression.kind === 'variable' ? expression.name : expression.variable;
+          if (!kinds.has(name)) throw new Error(`Variable "${name}" is not defined in MATCH`);
+          break;
+        }
+        case 'list':
+          expression.items.forEach(check);
+          break;
+        case 'not':
+        case 'isNull':
+          check(expression.operand);
+          break;
+        case 'logical':
+        case 'comparison':
+          check(expression.left);
+          check(expression.right);
+          break;
+      }
+    };
+
+    if (where) check(where);
+    returnItems?.forEach(item => check(item.expression));
+  }
+}
+
+export function parseQuery(text: string): Query {
+  return new QueryParser(tokenize(text), text).parse();
+}
@@ -0,0 +1,217 @@
+import { PROPERTY_VALUE_TYPE_LABELS, EDGE_CARDINALITY_LABELS } from '../types/constants';
+import { isPropertyValueOfType } from './propertyValues';
+import type {
+  GraphNode,
+  ForceGraphEdge,
+  GraphSchema,
+  NodeTypeSchema,
+  PropertySchema,
+  EdgeRule,
+  EdgeCardinality,
+  EdgePlan,
+  PropertyValueType,
+  SchemaViolation
+} from '../types/graph';
+
+// Label of edges created from the context menu when no edge rule suggests another one
+export const DEFAULT_EDGE_LABEL = 'connects';
+
+export const EMPTY_SCHEMA: GraphSchema = {
+  version: 1,
+  enforcement: 'warn',
+  allowUndeclaredEdgeLabels: true,
+  nodeTypes: [],
+  edgeRules: []
+};
+
+// The two ends of an edge, existing or about to be created
+export interface EdgeEnds {
+  id?: string;
+  label: string;
+  sourceId: string;
+  targetId: string;
+}
+
+export function edgeEndsOf(links: ForceGraphEdge[]): EdgeEnds[] {
+  return links.map(link => ({ id: link.id, label: link.label, sourceId: link.source.id, targetId: link.target.id }));
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+export function getTypeSchema(schema: GraphSchema, typeId: string | undefined): PropertySchema[] {
+  return schema.nodeTypes.find(type => type.typeId === (typeId || 'default'))?.properties ?? [];
+}
+
+export function getEdgeRule(schema: GraphSchema, label: string): EdgeRule | undefined {
+  return schema.edgeRules.find(rule => rule.label === label);
+}
+
+// Missing required properties and values of the wrong type
+export function validateNodeProperties(
+  schema: GraphSchema,
+  typeId: string | undefined,
+  properties: Record<string, any> | undefined
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+
+  getTypeSchema(schema, typeId).forEach(({ key, valueType, required }) => {
+    const value = properties?.[key];
+    if (isEmptyValue(value)) {
+      if (required) violations.push({ key, message: `"${key}" is required` });
+    } else if (!isPropertyValueOfType(value, valueType)) {
+      violations.push({ key, message: `"${key}" should be ${PROPERTY_VALUE_TYPE_LABELS[valueType].toLowerCase()}` });
+    }
+  });
+
+  return violations;
+}
+
+// Properties with the type's defaults filled in where no value is set
+export function applyPropertyDefaults(
+  schema: GraphSchema,
+  typeId: string | undefined,
+  properties: Record<string, any> | undefined
+): Record<string, any> {
+  const next = { ...(properties || {}) };
+  getTypeSchema(schema, typeId).forEach(({ key, default: defaultValue }) => {
+    if (defaultValue !== undefined && isEmptyValue(next[key])) {
+      next[key] = defaultValue;
+    }
+  });
+  return next;
+}
+
+// Type and cardinality problems of an edge, checked against the other edges
+export function validateEdge(
+  schema: GraphSchema,
+  nodes: GraphNode[],
+  edges: EdgeEnds[],
+  candidate: EdgeEnds
+): SchemaViolation[] {
+  const rule = getEdgeRule(schema, candidate.label);
+  if (!rule) {
+    return schema.allowUndeclaredEdgeLabels || schema.edgeRules.length === 0
+      ? []
+      : [{ message: `No edge rule allows the label "${candidate.label}"` }];
+  }
+
+  const violations: SchemaViolation[] = [];
+  const source = nodes.find(node => node.id === candidate.sourceId);
+  const target = nodes.find(node => node.id === candidate.targetId);
+  const sourceType = source?.type || 'default';
+  const targetType = target?.type || 'default';
+
+  if (rule.sourceTypes.length > 0 && !rule.sourceTypes.includes(sourceType)) {
+    violations.push({ message: `"${rule.label}" edges cannot start at a ${sourceType} node` });
+  }
+  if (rule.targetTypes.length > 0 && !rule.targetTypes.includes(targetType)) {
+    violations.push({ message: `"${rule.label}" edges cannot end at a ${targetType} node` });
+  }
+
+  const others = edges.filter(edge => edge.label === rule.label && (!candidate.id || edge.id !== candidate.id));
+  const isOnePerSource = rule.cardinality === 'many-to-one' || rule.cardinality === 'one-to-one';
+  const isOnePerTarget = rule.cardinality === 'one-to-many' || rule.cardinality === 'one-to-one';
+
+  if (isOnePerSource && others.some(edge => edge.sourceId === candidate.sourceId)) {
+    violations.push({ message: `"${source?.label ?? candidate.sourceId}" already has an outgoing "${rule.label}" edge (${EDGE_CARDINALITY_LABELS[rule.cardinality]})` });
+  }
+  if (isOnePerTarget && others.some(edge => edge.targetId === candidate.targetId)) {
+    violations.push({ message: `"${target?.label ?? candidate.targetId}" already has an incoming "${rule.label}" edge (${EDGE_CARDINALITY_LABELS[rule.cardinality]})` });
+  }
+
+  return violations;
+}
+
+/**
+ * Label for a new edge: the first edge rule (in schema order) that permits the connection,
+ * otherwise the default label. When neither fits, the rule with the fewest problems is used
+ * so its problems are the ones reported.
+ */
+export function planEdge(
+  schema: GraphSchema,
+  nodes: GraphNode[],
+  edges: EdgeEnds[],
+  sourceId: string,
+  targetId: string
+): EdgePlan {
+  const check = (label: string) => validateEdge(schema, nodes, edges, { label, sourceId, targetId });
+  const candidates = schema.edgeRules.map(rule => ({ label: rule.label, violations: check(rule.label) }));
+
+  let plan = candidates.find(candidate => candidate.violations.length === 0);
+  if (!plan) {
+    const fallback = { label: DEFAULT_EDGE_LABEL, violations: check(DEFAULT_EDGE_LABEL) };
+    plan = fallback.violations.length === 0 ? fallback : candidates.reduce(
+      (closest, candidate) => (candidate.violations.length < closest.violations.length ? candidate : closest),
+      candidates[0] ?? fallback
+    );
+  }
+
+  return { ...plan, blocked: plan.violations.length > 0 && schema.enforcement === 'enforce' };
+}
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+// Own keys only, so names like "constructor" don't pass
+function isLabelled(labels: Record<string, string>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(labels, key);
+}
+
+// Schema from storage, the API or an imported file; throws with a readable message when invalid
+export function parseGraphSchema(raw: unknown): GraphSchema {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('A schema must be a JSON object');
+  }
+  const input = raw as Record<string, unknown>;
+
+  const nodeTypes: NodeTypeSchema[] = (Array.isArray(input.nodeTypes) ? input.nodeTypes : []).map((entry, index) => {
+    const { typeId, properties } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof typeId !== 'string' || !typeId) {
+      throw new Error(`nodeTypes[${index}] needs a typeId`);
+    }
+    return {
+      typeId,
+      properties: (Array.isArray(properties) ? properties : []).map((property, propertyIndex) => {
+        const { key, valueType, required, default: defaultValue } = (property ?? {}) as Record<string, unknown>;
+        if (typeof key !== 'string' || !key) {
+          throw new Error(`nodeTypes[${index}].properties[${propertyIndex}] needs a key`);
+        }
+        if (typeof valueType !== 'string' || !isLabelled(PROPERTY_VALUE_TYPE_LABELS, valueType)) {
+          throw new Error(`Property "${key}" of ${typeId} has an unknown valueType: ${JSON.stringify(valueType)}`);
+        }
+        return {
+          key,
+          valueType: valueType as PropertyValueType,
+          required: required === true,
+          ...(defaultValue !== undefined ? { default: defaultValue } : {})
+        };
+      })
+    };
+  });
+
+  const edgeRules: EdgeRule[] = (Array.isArray(input.edgeRules) ? input.edgeRules : []).map((entry, index) => {
+    const { label, sourceTypes, targetTypes, cardinality } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof label !== 'string' || !label) {
+      throw new Error(`edgeRules[${index}] needs a label`);
+    }
+    return {
+      label,
+      sourceTypes: asStringArray(sourceTypes),
+      targetTypes: asStringArray(targetTypes),
+      cardinality: typeof cardinality === 'string' && isLabelled(EDGE_CARDINALITY_LABELS, cardinality)
+        ? cardinality as EdgeCardinality
+        : 'many-to-many'
+    };
+  });
+
+  return {
+    version: 1,
+    enforcement: input.enforcement === 'enforce' ? 'enforce' : 'warn',
+    allowUndeclaredEdgeLabels: input.allowUndeclaredEdgeLabels !== false,
+    nodeTypes,
+    edgeRules
+  };
+}
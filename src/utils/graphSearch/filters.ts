@@ -0,0 +1,83 @@
+import type { ForceGraphNode } from '../../types/graph';
+import type { FieldFilter } from './query';
+
+// The values a qualifier looks at; a list property offers each of its items
+function fieldValues(node: ForceGraphNode, field: string): unknown[] {
+  if (field === 'label') return [node.label];
+  if (field === 'type') return [node.type || 'default'];
+  if (field === 'id') return [node.id];
+
+  const key = field === 'description' ? 'description' : field.slice('prop.'.length);
+  const properties = node.properties ?? {};
+  // Property keys are matched without regard to case when there is no exact match
+  const actualKey = key in properties
+    ? key
+    : Object.keys(properties).find(candidate => candidate.toLowerCase() === key.toLowerCase());
+  if (actualKey === undefined) return [];
+
+  const value = properties[actualKey];
+  if (value === undefined || value === null || value === '') return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function asText(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// `*` matches any text; the rest must match the whole value, ignoring case
+function wildcardPattern(value: string): RegExp {
+  const escaped = value.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`, 'is');
+}
+
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?$/;
+const VERSION_PATTERN = /^v?\d+(?:\.\d+)*$/i;
+
+// Numbers compare as numbers and versions (1.10.2) part by part; anything else as text
+function compare(actual: unknown, expected: string): number {
+  const text = asText(actual).trim();
+  if (NUMBER_PATTERN.test(text) && NUMBER_PATTERN.test(expected)) return Number(text) - Number(expected);
+
+  if (VERSION_PATTERN.test(text) && VERSION_PATTERN.test(expected)) {
+    const left = text.replace(/^v/i, '').split('.').map(Number);
+    const right = expected.replace(/^v/i, '').split('.').map(Number);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      const difference = (left[i] ?? 0) - (right[i] ?? 0);
+      if (difference !== 0) return difference;
+    }
+    return 0;
+  }
+
+  const lower = text.toLowerCase();
+  const expectedLower = expected.toLowerCase();
+  return lower < expectedLower ? -1 : lower > expectedLower ? 1 : 0;
+}
+
+function testFilter(node: ForceGraphNode, filter: FieldFilter): boolean {
+  const values = fieldValues(node, filter.field);
+  const expected = filter.value.trim();
+
+  switch (filter.operator) {
+    case ':':
+    case '=': {
+      const pattern = wildcardPattern(expected);
+      return values.some(value => pattern.test(asText(value)));
+    }
+    case '!=': {
+      const pattern = wildcardPattern(expected);
+      return !values.some(value => pattern.test(asText(value)));
+    }
+    case '<':
+      return values.some(value => compare(value, expected) < 0);
+    case '<=':
+      return values.some(value => compare(value, expected) <= 0);
+    case '>':
+      return values.some(value => compare(value, expected) > 0);
+    case '>=':
+      return values.some(value => compare(value, expected) >= 0);
+  }
+}
+
+export function matchesFilters(node: ForceGraphNode, filters: FieldFilter[]): boolean {
+  return filters.every(filter => testFilter(node, filter) !== filter.negated);
+}
@@ -0,0 +1,13 @@
+import type { SearchResult } from '../../types/graph';
+import { parseSearchQuery } from './query';
+import { searchIndex } from './searchIndex';
+import type { SearchIndex } from './searchIndex';
+
+export { parseSearchQuery } from './query';
+export { buildSearchIndex } from './searchIndex';
+export type { SearchIndex } from './searchIndex';
+
+// Search the nodes of an index with the text of the search box (syntax in query.ts)
+export function searchGraph(index: SearchIndex, text: string): SearchResult[] {
+  return searchIndex(index, parseSearchQuery(text, index.propertyKeys));
+}
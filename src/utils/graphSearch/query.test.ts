@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { parseSearchQuery } from './query';
+
+describe('parseSearchQuery', () => {
+  it('reads words, phrases and qualifiers of the known fields', () => {
+    expect(parseSearchQuery('react "virtual dom" type:database -desc:old')).toEqual({
+      terms: [{ text: 'react', phrase: false }, { text: 'virtual dom', phrase: true }],
+      filters: [
+        { field: 'type', operator: ':', value: 'database', negated: false },
+        { field: 'description', operator: ':', value: 'old', negated: true }
+      ]
+    });
+  });
+
+  it('reads comparisons on properties', () => {
+    expect(parseSearchQuery('prop.version>=18 label:"React*"').filters).toEqual([
+      { field: 'prop.version', operator: '>=', value: '18', negated: false },
+      { field: 'label', operator: ':', value: 'React*', negated: false }
+    ]);
+  });
+
+  it('takes a name as a property key only when a node has that property', () => {
+    expect(parseSearchQuery('Status:done', new Set(['status'])).filters).toEqual([
+      { field: 'prop.Status', operator: ':', value: 'done', negated: false }
+    ]);
+    expect(parseSearchQuery('status:done')).toEqual({
+      terms: [{ text: 'status', phrase: false }, { text: 'done', phrase: false }],
+      filters: []
+    });
+  });
+
+  it('searches text that only looks like a qualifier as text', () => {
+    const keys = new Set(['status']);
+    expect(parseSearchQuery('https://example.com', keys)).toEqual({
+      terms: ['https', 'example', 'com'].map(text => ({ text, phrase: false })),
+      filters: []
+    });
+    expect(parseSearchQuery('note:foo a=b', keys).filters).toEqual([]);
+    expect(parseSearchQuery('note:foo a=b', keys).terms.map(term => term.text)).toEqual(['note', 'foo', 'a', 'b']);
+  });
+});
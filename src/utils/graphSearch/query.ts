@@ -0,0 +1,100 @@
+/*
+ * Search box syntax. Words are matched anywhere, with typos forgiven; qualifiers narrow down by
+ * one field:
+ *
+ *   react hooks                  both words, in any field
+ *   "virtual dom"                the phrase as written
+ *   type:database                the whole value, ignoring case
+ *   label:"React*"               `*` stands for any text
+ *   prop.version>=18             also <, <=, >, =, != (numbers and versions compare as such)
+ *   -type:concept                anything but
+ *
+ * Fields are label, type, description (or desc), id and prop.<key>; another name is taken as a
+ * property key when some node has that property. The parser never fails: what isn't a
+ * qualifier (https://example.com, a=b) is searched as text.
+ */
+
+export type SearchOperator = ':' | '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export interface SearchTerm {
+  text: string;                // Lowercase
+  phrase: boolean;             // Quoted: matched as written, without typo tolerance
+}
+
+export interface FieldFilter {
+  field: string;               // 'label', 'type', 'description', 'id' or 'prop.<key>'
+  operator: SearchOperator;
+  value: string;
+  negated: boolean;
+}
+
+export interface SearchQuery {
+  terms: SearchTerm[];
+  filters: FieldFilter[];
+}
+
+// Lowercase words of a text; the index and unquoted search terms are split the same way
+export function splitWords(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+const QUALIFIER_PATTERN = /^(-?)([A-Za-z_][\w.-]*?)(>=|<=|!=|:|=|<|>)(?=\S)/;
+const FIELD_ALIASES: Record<string, string> = { desc: 'description' };
+const NODE_FIELDS = ['label', 'type', 'description', 'id'];
+
+// The field a qualifier names, or null when it names none; property keys are lowercase
+function normalizeField(name: string, propertyKeys: ReadonlySet<string>): string | null {
+  const lower = name.toLowerCase();
+  if (lower.startsWith('prop.') && name.length > 5) return `prop.${name.slice(5)}`;
+  const field = FIELD_ALIASES[lower] ?? lower;
+  if (NODE_FIELDS.includes(field)) return field;
+  return propertyKeys.has(lower) ? `prop.${name}` : null;
+}
+
+// A quoted string (closed or not) or a run of non-space characters, starting at `start`
+function readValue(text: string, start: number): { value: string; quoted: boolean; end: number } {
+  const quote = text[start];
+  if (quote === '"' || quote === "'") {
+    const close = text.indexOf(quote, start + 1);
+    const end = close === -1 ? text.length : close + 1;
+    return { value: text.slice(start + 1, close === -1 ? text.length : close), quoted: true, end };
+  }
+  let end = start;
+  while (end < text.length && !/\s/.test(text[end])) end++;
+  return { value: text.slice(start, end), quoted: false, end };
+}
+
+// `propertyKeys` are the property keys of the searched nodes, in lowercase
+export function parseSearchQuery(text: string, propertyKeys: ReadonlySet<string> = new Set()): SearchQuery {
+  const terms: SearchTerm[] = [];
+  const filters: FieldFilter[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+
+    const qualifier = QUALIFIER_PATTERN.exec(text.slice(i));
+    const field = qualifier && normalizeField(qualifier[2], propertyKeys);
+    if (qualifier && field) {
+      const [whole, negation, , operator] = qualifier;
+      const { value, end } = readValue(text, i + whole.length);
+      filters.push({ field, operator: operator as SearchOperator, value, negated: negation === '-' });
+      i = end;
+      continue;
+    }
+
+    const { value, quoted, end } = readValue(text, i);
+    if (quoted) {
+      const phrase = value.trim().toLowerCase();
+      if (phrase) terms.push({ text: phrase, phrase: true });
+    } else {
+      splitWords(value).forEach(word => terms.push({ text: word, phrase: false }));
+    }
+    i = end;
+  }
+
+  return { terms, filters };
+}
@@ -0,0 +1,245 @@
+import { SEARCH_CONFIG } from '../../types/constants';
+import { splitWords } from './query';
+import type { SearchQuery, SearchTerm } from './query';
+import { matchesFilters } from './filters';
+import type { ForceGraphNode, HighlightedText, SearchResult } from '../../types/graph';
+
+interface IndexedField {
+  name: string;                // 'label', 'type', 'description' or 'prop.<key>'
+  text: string;
+  weight: number;
+}
+
+interface IndexedNode {
+  node: ForceGraphNode;
+  fields: IndexedField[];
+}
+
+export interface SearchIndex {
+  nodes: IndexedNode[];
+  // Word → where it occurs, as [node, field] positions in `nodes`
+  words: Map<string, [number, number][]>;
+  // Property keys of the nodes in lowercase, which the search box accepts as qualifiers
+  propertyKeys: Set<string>;
+}
+
+function displayText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(displayText).join(', ');
+  return JSON.stringify(value);
+}
+
+function indexedFields(node: ForceGraphNode): IndexedField[] {
+  const weights = SEARCH_CONFIG.FIELD_WEIGHTS;
+  const fields: IndexedField[] = [
+    { name: 'label', text: node.label ?? '', weight: weights.label },
+    { name: 'type', text: node.type || 'default', weight: weights.type }
+  ];
+
+  Object.entries(node.properties ?? {}).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    fields.push(key === 'description'
+      ? { name: 'description', text: displayText(value), weight: weights.description }
+      : { name: `prop.${key}`, text: displayText(value), weight: weights.property });
+  });
+
+  return fields;
+}
+
+export function buildSearchIndex(nodes: ForceGraphNode[]): SearchIndex {
+  const indexed = nodes.map(node => ({ node, fields: indexedFields(node) }));
+  const words = new Map<string, [number, number][]>();
+
+  indexed.forEach(({ fields }, nodeIndex) => {
+    fields.forEach((field, fieldIndex) => {
+      new Set(splitWords(field.text)).forEach(word => {
+        if (!words.has(word)) words.set(word, []);
+        words.get(word)!.push([nodeIndex, fieldIndex]);
+      });
+    });
+  });
+
+  const propertyKeys = new Set(nodes.flatMap(node => Object.keys(node.properties ?? {}).map(key => key.toLowerCase())));
+
+  return { nodes: indexed, words, propertyKeys };
+}
+
+// Optimal string alignment distance (a swap of neighbors is one typo), or max + 1 once it is over max
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      current.push(distance);
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function allowedTypos(term: string): number {
+  if (term.length >= SEARCH_CONFIG.TWO_TYPOS_LENGTH) return 2;
+  return term.length >= SEARCH_CONFIG.ONE_TYPO_LENGTH ? 1 : 0;
+}
+
+// How well an indexed word answers a search word, from 1 (the same) down to 0 (not at all)
+function wordScore(term: string, word: string): number {
+  if (word === term) return 1;
+  if (word.startsWith(term)) return 0.8;
+  if (term.length >= 3 && word.includes(term)) return 0.6;
+
+  const typos = allowedTypos(term);
+  if (typos === 0) return 0;
+  const distance = editDistance(term, word, typos);
+  if (distance <= typos) return 0.5 - 0.1 * (distance - 1);
+  // Typos in a word still being typed
+  if (word.length > term.length && editDistance(term, word.slice(0, term.length), typos) <= typos) return 0.3;
+  return 0;
+}
+
+interface TermHit {
+  score: number;
+  // Field index → words (or phrases) to highlight in it
+  marks: Map<number, Set<string>>;
+}
+
+function addMark(hit: TermHit, fieldIndex: number, mark: string) {
+  if (!hit.marks.has(fieldIndex)) hit.marks.set(fieldIndex, new Set());
+  hit.marks.get(fieldIndex)!.add(mark);
+}
+
+// Best score of one search term per node, with what to highlight
+function findTerm(index: SearchIndex, term: SearchTerm): Map<number, TermHit> {
+  const hits = new Map<number, TermHit>();
+  const record = (nodeIndex: number, fieldIndex: number, score: number, mark: string) => {
+    const hit = hits.get(nodeIndex) ?? { score: 0, marks: new Map() };
+    hit.score = Math.max(hit.score, score * index.nodes[nodeIndex].fields[fieldIndex].weight);
+    addMark(hit, fieldIndex, mark);
+    hits.set(nodeIndex, hit);
+  };
+
+  if (term.phrase) {
+    index.nodes.forEach(({ fields }, nodeIndex) => {
+      fields.forEach((field, fieldIndex) => {
+        if (field.text.toLowerCase().includes(term.text)) record(nodeIndex, fieldIndex, 1, term.text);
+      });
+    });
+    return hits;
+  }
+
+  index.words.forEach((positions, word) => {
+    const score = wordScore(term.text, word);
+    if (score > 0) positions.forEach(([nodeIndex, fieldIndex]) => record(nodeIndex, fieldIndex, score, word));
+  });
+  return hits;
+}
+
+// Every place the marks occur in the text, merged where they overlap
+function highlight(text: string, marks: Set<string> | undefined): HighlightedText {
+  if (!marks) return { text, ranges: [] };
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+
+  marks.forEach(mark => {
+    for (let at = lower.indexOf(mark); at !== -1; at = lower.indexOf(mark, at + mark.length)) {
+      ranges.push([at, at + mark.length]);
+    }
+  });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  ranges.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  });
+  return { text, ranges: merged };
+}
+
+// A stretch of the text around its first highlight
+function excerpt({ text, ranges }: HighlightedText): HighlightedText {
+  const length = SEARCH_CONFIG.SNIPPET_LENGTH;
+  if (text.length <= length) return { text, ranges };
+
+  const first = ranges[0]?.[0] ?? 0;
+  const start = Math.max(0, Math.min(first - Math.floor(length / 3), text.length - length));
+  const end = start + length;
+  const prefix = start > 0 ? '…' : '';
+  const shift = prefix.length - start;
+
+  return {
+    text: prefix + text.slice(start, end) + (end < text.length ? '…' : ''),
+    ranges: ranges
+      .filter(([from, to]) => to > start && from < end)
+      .map(([from, to]) => [Math.max(from, start) + shift, Math.min(to, end) + shift])
+  };
+}
+
+function toResult(entry: IndexedNode, score: number, marks: Map<number, Set<string>>): SearchResult {
+  // The snippet comes from the best-weighted field that matched, other than the label and type
+  const snippetField = Array.from(marks.keys())
+    .filter(fieldIndex => fieldIndex > 1)
+    .sort((a, b) => entry.fields[b].weight - entry.fields[a].weight || a - b)[0];
+  const field = snippetField === undefined ? null : entry.fields[snippetField];
+
+  return {
+    node: entry.node,
+    score,
+    label: highlight(entry.fields[0].text, marks.get(0)),
+    snippet: field && { field: field.name, ...excerpt(highlight(field.text, marks.get(snippetField))) }
+  };
+}
+
+/**
+ * Nodes that contain every search word (or a near miss) and pass every qualifier, best first.
+ * Matches in the label count most, then the type, the description and other properties.
+ */
+export function searchIndex(index: SearchIndex, query: SearchQuery): SearchResult[] {
+  if (query.terms.length === 0 && query.filters.length === 0) return [];
+
+  let candidates: Map<number, TermHit> | null = null;
+  for (const term of query.terms) {
+    const hits = findTerm(index, term);
+    if (candidates === null) {
+      candidates = hits;
+      continue;
+    }
+    const combined = new Map<number, TermHit>();
+    candidates.forEach((hit, nodeIndex) => {
+      const next = hits.get(nodeIndex);
+      if (!next) return;
+      next.marks.forEach((marks, fieldIndex) => marks.forEach(mark => addMark(hit, fieldIndex, mark)));
+      combined.set(nodeIndex, { score: hit.score + next.score, marks: hit.marks });
+    });
+    candidates = combined;
+  }
+
+  // A label that is exactly what was searched for goes first
+  const wholeText = query.terms.map(term => term.text).join(' ');
+
+  const matches: { entry: IndexedNode; hit: TermHit }[] = [];
+  index.nodes.forEach((entry, nodeIndex) => {
+    const hit = candidates ? candidates.get(nodeIndex) : { score: 0, marks: new Map() };
+    if (!hit || !matchesFilters(entry.node, query.filters)) return;
+    if (wholeText && entry.fields[0].text.toLowerCase() === wholeText) hit.score += SEARCH_CONFIG.FIELD_WEIGHTS.label;
+    matches.push({ entry, hit });
+  });
+
+  return matches
+    .sort((a, b) => b.hit.score - a.hit.score || a.entry.node.label.localeCompare(b.entry.node.label))
+    .map(({ entry, hit }) => toResult(entry, hit.score, hit.marks));
+}
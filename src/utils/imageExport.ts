@@ -0,0 +1,136 @@
+import type { ImageExportRegion, StandaloneSvg } from '../types/graph';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Presentation properties copied from the live DOM, so classes and inherited CSS are not needed
+const INLINED_STYLE_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'text-anchor'
+];
+
+// Padding around the graph bounds when exporting the whole graph
+export const GRAPH_BOUNDS_PADDING = 40;
+
+/**
+ * Serialize a rendered graph <svg> into a self-contained SVG document.
+ *
+ * The clone keeps its <defs> (arrowhead markers), gets every element's computed colors and
+ * fonts written inline, and is cropped either to the visible viewport or to the full graph.
+ */
+export function buildStandaloneSvg(
+  svg: SVGSVGElement,
+  container: SVGGElement,
+  region: ImageExportRegion,
+  background: string | null
+): StandaloneSvg {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+
+  const sourceElements = [svg, ...Array.from(svg.querySelectorAll('*'))];
+  const cloneElements = [clone, ...Array.from(clone.querySelectorAll('*'))];
+  const hidden: Element[] = [];
+
+  sourceElements.forEach((source, index) => {
+    const target = cloneElements[index];
+    const computed = window.getComputedStyle(source);
+    if (computed.display === 'none' || source.classList.contains('selection-outline') || source.classList.contains('peer-layer')) {
+      hidden.push(target);
+      return;
+    }
+    const style = INLINED_STYLE_PROPERTIES
+      .map(property => `${property}:${computed.getPropertyValue(property)}`)
+      .join(';');
+    target.setAttribute('style', style);
+  });
+  hidden.forEach(element => element.remove());
+
+  // The clone's copy of the zoom container is the first <g> directly under the root
+  const containerClone = Array.from(clone.children).find(
+    child => child.tagName.toLowerCase() === 'g'
+  ) as SVGGElement | undefined;
+
+  let x = 0;
+  let y = 0;
+  let width = svg.clientWidth || Number(svg.getAttribute('width')) || 0;
+  let height = svg.clientHeight || Number(svg.getAttribute('height')) || 0;
+
+  if (region === 'graph') {
+    const bounds = container.getBBox();
+    x = bounds.x - GRAPH_BOUNDS_PADDING;
+    y = bounds.y - GRAPH_BOUNDS_PADDING;
+    width = Math.max(1, bounds.width + GRAPH_BOUNDS_PADDING * 2);
+    height = Math.max(1, bounds.height + GRAPH_BOUNDS_PADDING * 2);
+    // Graph coordinates are used directly, so drop the zoom/pan transform
+    containerClone?.removeAttribute('transform');
+  }
+
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('xmlns:xlink', 'http://www.w3.org/1999/xlink');
+  clone.setAttribute('width', String(Math.round(width)));
+  clone.setAttribute('height', String(Math.round(height)));
+  clone.setAttribute('viewBox', `${x} ${y} ${width} ${height}`);
+  clone.style.removeProperty('background');
+
+  if (background) {
+    const rect = document.createElementNS(SVG_NS, 'rect');
+    rect.setAttribute('x', String(x));
+    rect.setAttribute('y', String(y));
+    rect.setAttribute('width', String(width));
+    rect.setAttribute('height', String(height));
+    rect.setAttribute('fill', background);
+    const defs = clone.querySelector('defs');
+    clone.insertBefore(rect, defs ? defs.nextSibling : clone.firstChild);
+  }
+
+  const markup = `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+  return { markup, width: Math.round(width), height: Math.round(height) };
+}
+
+// Standalone SVG showing a raster image, for renderers that draw to a canvas
+export function wrapImageInSvg(imageUrl: string, width: number, height: number): StandaloneSvg {
+  const markup = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="${SVG_NS}" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<image width="${width}" height="${height}" href="${imageUrl}" xlink:href="${imageUrl}"/>`,
+    '</svg>'
+  ].join('\n');
+  return { markup, width, height };
+}
+
+// Rasterize a standalone SVG into a PNG at `scale` times its size
+export function renderSvgToPng(svg: StandaloneSvg, scale: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg.markup], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(svg.width * scale);
+      canvas.height = Math.round(svg.height * scale);
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas 2D context is not available'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to render SVG'));
+    };
+
+    image.src = url;
+  });
+}
@@ -0,0 +1,12 @@
+// Keyboard helpers shared by global shortcut handlers
+
+// True when the event target is a form field that should keep its native shortcuts
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT' ||
+    target.isContentEditable
+  );
+}
@@ -0,0 +1,85 @@
+import { NODE_TYPE_COLORS, NODE_TYPE_LABELS, NODE_SHAPE_LABELS, NODE_TYPE_CONFIG } from '../types/constants';
+import type { NodeShape, NodeTypeDefinition } from '../types/graph';
+
+// The registry a new installation starts with
+export const DEFAULT_NODE_TYPES: NodeTypeDefinition[] = Object.entries(NODE_TYPE_LABELS).map(([id, label]) => ({
+  id,
+  label,
+  color: NODE_TYPE_COLORS[id] || NODE_TYPE_COLORS.default,
+  shape: 'circle'
+}));
+
+// Definition for a node's type; types missing from the registry look like 'default' under their own name
+export function getNodeType(nodeTypes: NodeTypeDefinition[], id: string | undefined): NodeTypeDefinition {
+  const typeId = id || 'default';
+  const definition = nodeTypes.find(type => type.id === typeId);
+  if (definition) return definition;
+
+  const fallback = nodeTypes.find(type => type.id === 'default');
+  return {
+    id: typeId,
+    label: typeId,
+    color: fallback?.color ?? NODE_TYPE_COLORS.default,
+    shape: fallback?.shape ?? 'circle'
+  };
+}
+
+// SVG path of a shape centered on the origin, fitting a circle of the given radius
+export function nodeShapePath(shape: NodeShape, radius: number): string {
+  const r = radius;
+  switch (shape) {
+    case 'square': {
+      const half = r * 0.85;
+      return `M${-half},${-half}H${half}V${half}H${-half}Z`;
+    }
+    case 'diamond':
+      return `M0,${-r * 1.15}L${r * 1.15},0L0,${r * 1.15}L${-r * 1.15},0Z`;
+    case 'hexagon': {
+      const points = Array.from({ length: 6 }, (_, i) => {
+        const angle = Math.PI / 3 * i - Math.PI / 2;
+        return `${(r * Math.cos(angle)).toFixed(2)},${(r * Math.sin(angle)).toFixed(2)}`;
+      });
+      return `M${points.join('L')}Z`;
+    }
+    case 'circle':
+    default:
+      return `M${r},0A${r},${r} 0 1,1 ${-r},0A${r},${r} 0 1,1 ${r},0Z`;
+  }
+}
+
+// Icons are limited to a few characters (code points, so an emoji counts as one)
+export function clampIcon(icon: string): string {
+  return Array.from(icon.trim()).slice(0, NODE_TYPE_CONFIG.MAX_ICON_LENGTH).join('');
+}
+
+// Lower-case, hyphenated ID for a new type, unique within the registry
+export function createNodeTypeId(label: string, nodeTypes: NodeTypeDefinition[]): string {
+  const base = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'type';
+  let id = base;
+  for (let suffix = 2; nodeTypes.some(type => type.id === id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+// Registry read from storage or the API, or null when it is not a usable list of definitions
+export function parseNodeTypes(raw: unknown): NodeTypeDefinition[] | null {
+  if (!Array.isArray(raw)) return null;
+
+  const types: NodeTypeDefinition[] = [];
+  for (const entry of raw) {
+    if (typeof entry !== 'object' || entry === null) return null;
+    const { id, label, color, shape, icon } = entry as Record<string, unknown>;
+    if (typeof id !== 'string' || !id || typeof color !== 'string') return null;
+    types.push({
+      id,
+      label: typeof label === 'string' && label ? label : id,
+      color,
+      shape: typeof shape === 'string' && Object.prototype.hasOwnProperty.call(NODE_SHAPE_LABELS, shape) ? shape as NodeShape : 'circle',
+      ...(typeof icon === 'string' && icon ? { icon: clampIcon(icon) } : {})
+    });
+  }
+
+  // Nodes fall back to 'default', so it can never be missing
+  return types.some(type => type.id === 'default') ? types : [DEFAULT_NODE_TYPES[0], ...types];
+}
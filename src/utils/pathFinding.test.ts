@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { findAllSimplePaths, findShortestPath } from './pathFinding';
+import { PATH_CONFIG } from '../types/constants';
+import type { ForceGraphData, ForceGraphNode } from '../types/graph';
+
+// Nodes by ID and edges as [source, target] or [source, target, weight]
+function graph(ids: string[], edges: [string, string, number?][]): ForceGraphData {
+  const nodes = new Map<string, ForceGraphNode>(
+    ids.map(id => [id, { id, label: id, type: 'default', properties: {}, x: 0, y: 0 }])
+  );
+  return {
+    nodes: [...nodes.values()],
+    links: edges.map(([source, target, weight], index) => ({
+      id: `e${index}`,
+      label: 'related',
+      directed: true,
+      properties: weight === undefined ? {} : { weight },
+      source: nodes.get(source)!,
+      target: nodes.get(target)!
+    }))
+  };
+}
+
+describe('findShortestPath', () => {
+  it('follows the lightest path', () => {
+    const data = graph(['a', 'b', 'c'], [['a', 'c', 5], ['a', 'b', 1], ['b', 'c', 1]]);
+    expect(findShortestPath(data, 'a', 'c', { directed: true, weightProperty: 'weight' }))
+      .toEqual({ nodeIds: ['a', 'b', 'c'], edgeIds: ['e1', 'e2'], cost: 2 });
+  });
+
+  it('returns null when the end cannot be reached', () => {
+    const data = graph(['a', 'b', 'c'], [['a', 'b'], ['c', 'b']]);
+    expect(findShortestPath(data, 'a', 'c', { directed: true, weightProperty: '' })).toBeNull();
+  });
+});
+
+describe('findAllSimplePaths', () => {
+  it('lists paths shortest first, then cheapest', () => {
+    const data = graph(['a', 'b', 'c', 'd'], [['a', 'b', 1], ['b', 'd', 1], ['a', 'c', 1], ['c', 'd', 0], ['a', 'd', 9]]);
+    const { paths, truncated } = findAllSimplePaths(data, 'a', 'd', { directed: true, weightProperty: 'weight', maxLength: 4 });
+    expect(paths.map(path => path.nodeIds.join(''))).toEqual(['ad', 'acd', 'abd']);
+    expect(truncated).toBe(false);
+  });
+
+  it('keeps the shortest paths when there are too many to list', () => {
+    // Far more three-hop paths than are listed, and a direct edge found last
+    const middle = Array.from({ length: 15 }, (_, i) => i);
+    const ids = ['s', 't', ...middle.map(i => `a${i}`), ...middle.map(i => `b${i}`)];
+    const edges: [string, string][] = [
+      ...middle.map(i => ['s', `a${i}`] as [string, string]),
+      ...middle.flatMap(i => middle.map(j => [`a${i}`, `b${j}`] as [string, string])),
+      ...middle.map(j => [`b${j}`, 't'] as [string, string]),
+      ['s', 't']
+    ];
+    const { paths, truncated } = findAllSimplePaths(graph(ids, edges), 's', 't', { directed: true, weightProperty: '', maxLength: 3 });
+
+    expect(truncated).toBe(true);
+    expect(paths).toHaveLength(PATH_CONFIG.MAX_PATHS);
+    expect(paths[0].nodeIds).toEqual(['s', 't']);
+  });
+
+  it('respects the hop limit and never revisits a node', () => {
+    const data = graph(['a', 'b', 'c'], [['a', 'b'], ['b', 'c'], ['c', 'a']]);
+    const { paths } = findAllSimplePaths(data, 'a', 'c', { directed: false, weightProperty: '', maxLength: 1 });
+    expect(paths.map(path => path.nodeIds)).toEqual([['a', 'c']]);
+  });
+});
@@ -0,0 +1,150 @@
+import { PATH_CONFIG } from '../types/constants';
+import type { ForceGraphData, ForceGraphEdge, GraphPath } from '../types/graph';
+
+interface PathOptions {
+  // Only follow directed edges from source to target; undirected edges always work both ways
+  directed: boolean;
+  // Edge property holding the edge's length; blank counts every edge as 1
+  weightProperty: string;
+}
+
+interface Step {
+  edge: ForceGraphEdge;
+  neighborId: string;
+}
+
+// Outgoing steps per node ID under the given direction rule
+function buildAdjacency(data: ForceGraphData, directed: boolean): Map<string, Step[]> {
+  const adjacency = new Map<string, Step[]>();
+  data.nodes.forEach(node => adjacency.set(node.id, []));
+  data.links.forEach(edge => {
+    adjacency.get(edge.source.id)?.push({ edge, neighborId: edge.target.id });
+    if ((!directed || edge.directed === false) && edge.source.id !== edge.target.id) {
+      adjacency.get(edge.target.id)?.push({ edge, neighborId: edge.source.id });
+    }
+  });
+  return adjacency;
+}
+
+// Numeric value of the weight property; edges without one count as 1
+function edgeWeight(edge: ForceGraphEdge, weightProperty: string): number {
+  if (!weightProperty) return 1;
+  const raw = edge.properties?.[weightProperty];
+  if (raw === undefined || raw === null || raw === '') return 1;
+
+  const weight = typeof raw === 'number' ? raw : Number(raw);
+  if (!Number.isFinite(weight)) {
+    throw new Error(`Edge "${edge.label}" has a non-numeric ${weightProperty}: ${JSON.stringify(raw)}`);
+  }
+  if (weight < 0) {
+    throw new Error(`Edge "${edge.label}" has a negative ${weightProperty}; shortest paths need weights of 0 or more`);
+  }
+  return weight;
+}
+
+function pathCost(edges: ForceGraphEdge[], weightProperty: string): number {
+  return edges.reduce((total, edge) => total + edgeWeight(edge, weightProperty), 0);
+}
+
+// Dijkstra's algorithm; returns null when the end cannot be reached
+export function findShortestPath(
+  data: ForceGraphData,
+  startId: string,
+  endId: string,
+  options: PathOptions
+): GraphPath | null {
+  const adjacency = buildAdjacency(data, options.directed);
+  const distances = new Map<string, number>([[startId, 0]]);
+  const previous = new Map<string, Step>();
+  const settled = new Set<string>();
+
+  while (!settled.has(endId)) {
+    // Closest unsettled node; a linear scan is plenty for graphs drawn in the browser
+    let current: string | null = null;
+    let currentDistance = Infinity;
+    for (const [id, distance] of distances) {
+      if (!settled.has(id) && distance < currentDistance) {
+        current = id;
+        currentDistance = distance;
+      }
+    }
+    if (current === null) return null;
+    settled.add(current);
+
+    for (const step of adjacency.get(current) ?? []) {
+      if (settled.has(step.neighborId)) continue;
+      const distance = currentDistance + edgeWeight(step.edge, options.weightProperty);
+      if (distance < (distances.get(step.neighborId) ?? Infinity)) {
+        distances.set(step.neighborId, distance);
+        previous.set(step.neighborId, { edge: step.edge, neighborId: current });
+      }
+    }
+  }
+
+  const nodeIds = [endId];
+  const edgeIds: string[] = [];
+  let id = endId;
+  while (id !== startId) {
+    const step = previous.get(id)!;
+    edgeIds.unshift(step.edge.id);
+    nodeIds.unshift(step.neighborId);
+    id = step.neighborId;
+  }
+
+  return { nodeIds, edgeIds, cost: distances.get(endId)! };
+}
+
+// Every path from start to end that visits no node twice, shortest first. Searched one length
+// at a time, so when the list is cut at MAX_PATHS it holds the shortest paths.
+export function findAllSimplePaths(
+  data: ForceGraphData,
+  startId: string,
+  endId: string,
+  options: PathOptions & { maxLength: number }
+): { paths: GraphPath[]; truncated: boolean } {
+  const adjacency = buildAdjacency(data, options.directed);
+  const paths: GraphPath[] = [];
+  const visited = new Set<string>([startId]);
+  const nodeIds = [startId];
+  const edges: ForceGraphEdge[] = [];
+  let truncated = false;
+
+  // Paths of exactly `length` edges
+  const walk = (id: string, length: number) => {
+    if (truncated) return;
+    if (id === endId) {
+      if (edges.length < length) return;
+      if (paths.length === PATH_CONFIG.MAX_PATHS) {
+        truncated = true;
+        return;
+      }
+      paths.push({
+        nodeIds: [...nodeIds],
+        edgeIds: edges.map(edge => edge.id),
+        cost: pathCost(edges, options.weightProperty)
+      });
+      return;
+    }
+    if (edges.length === length) return;
+
+    (adjacency.get(id) ?? []).forEach(step => {
+      if (visited.has(step.neighborId)) return;
+      visited.add(step.neighborId);
+      nodeIds.push(step.neighborId);
+      edges.push(step.edge);
+      walk(step.neighborId, length);
+      edges.pop();
+      nodeIds.pop();
+      visited.delete(step.neighborId);
+    });
+  };
+
+  if (startId === endId) return { paths, truncated };
+  for (let length = 1; length <= options.maxLength && !truncated; length++) {
+    const shorter = paths.length;
+    walk(startId, length);
+    // Cheapest first among paths of the same length
+    paths.splice(shorter, paths.length - shorter, ...paths.slice(shorter).sort((a, b) => a.cost - b.cost));
+  }
+  return { paths, truncated };
+}
@@ -0,0 +1,63 @@
+import { PHYSICS_CONFIG } from '../types/constants';
+import type { PhysicsPreset, PhysicsSettings } from '../types/graph';
+
+export const DEFAULT_PHYSICS_SETTINGS: PhysicsSettings = {
+  chargeStrength: PHYSICS_CONFIG.CHARGE_STRENGTH,
+  linkDistance: PHYSICS_CONFIG.LINK_DISTANCE,
+  collisionRadius: PHYSICS_CONFIG.COLLISION_RADIUS,
+  alphaDecay: PHYSICS_CONFIG.ALPHA_DECAY,
+  velocityDecay: PHYSICS_CONFIG.VELOCITY_DECAY,
+  chargeDistanceMax: PHYSICS_CONFIG.CHARGE_DISTANCE_MAX
+};
+
+export const PHYSICS_PRESETS: PhysicsPreset[] = [
+  { id: 'default', label: 'Default', settings: DEFAULT_PHYSICS_SETTINGS },
+  {
+    id: 'tight',
+    label: 'Tight',
+    settings: { chargeStrength: -150, linkDistance: 50, collisionRadius: 18, alphaDecay: 0.02, velocityDecay: 0.5, chargeDistanceMax: 200 }
+  },
+  {
+    id: 'spacious',
+    label: 'Spacious',
+    settings: { chargeStrength: -900, linkDistance: 180, collisionRadius: 40, alphaDecay: 0.015, velocityDecay: 0.4, chargeDistanceMax: 600 }
+  },
+  // Strong long-range repulsion with short links pushes branches apart from each other
+  {
+    id: 'tree',
+    label: 'Tree-like',
+    settings: { chargeStrength: -700, linkDistance: 60, collisionRadius: 25, alphaDecay: 0.01, velocityDecay: 0.6, chargeDistanceMax: 1200 }
+  }
+];
+
+// Slider label and range per setting, in panel order
+export const PHYSICS_SLIDERS: Record<keyof PhysicsSettings, { label: string; min: number; max: number; step: number }> = {
+  chargeStrength: { label: 'Charge strength', min: -2000, max: 0, step: 10 },
+  linkDistance: { label: 'Link distance', min: 10, max: 400, step: 5 },
+  collisionRadius: { label: 'Collision radius', min: 0, max: 100, step: 1 },
+  alphaDecay: { label: 'Alpha decay', min: 0.001, max: 0.1, step: 0.001 },
+  velocityDecay: { label: 'Velocity decay', min: 0.05, max: 0.95, step: 0.05 },
+  chargeDistanceMax: { label: 'Charge distance max', min: 50, max: 2000, step: 10 }
+};
+
+// The preset the settings match exactly, if any
+export function findPhysicsPreset(settings: PhysicsSettings): PhysicsPreset | null {
+  return PHYSICS_PRESETS.find(preset =>
+    (Object.keys(PHYSICS_SLIDERS) as (keyof PhysicsSettings)[]).every(key => preset.settings[key] === settings[key])
+  ) ?? null;
+}
+
+// Settings read from storage, clamped to the slider ranges; missing values fall back to the defaults
+export function parsePhysicsSettings(raw: unknown): PhysicsSettings | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+
+  const settings = { ...DEFAULT_PHYSICS_SETTINGS };
+  (Object.keys(PHYSICS_SLIDERS) as (keyof PhysicsSettings)[]).forEach(key => {
+    const value = (raw as Record<string, unknown>)[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      const { min, max } = PHYSICS_SLIDERS[key];
+      settings[key] = Math.min(max, Math.max(min, value));
+    }
+  });
+  return settings;
+}
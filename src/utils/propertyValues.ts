@@ -0,0 +1,170 @@
+import type { PropertyRow, PropertyValueType } from '../types/graph';
+
+// Keys edited by their own fields rather than the property grid
+export const DEDICATED_PROPERTY_KEYS = ['description'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const URL_PATTERN = /^(https?|ftp|mailto):/i;
+
+let nextRowId = 0;
+
+export function createPropertyRow(key = '', valueType: PropertyValueType = 'string', draft = ''): PropertyRow {
+  nextRowId += 1;
+  return { rowId: `property-${nextRowId}`, key, valueType, draft };
+}
+
+// Best guess at how a stored value was meant; only plain `YYYY-MM-DD` strings count as dates
+export function inferPropertyValueType(value: unknown): PropertyValueType {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return Number.isFinite(value) ? 'number' : 'json';
+  if (typeof value === 'string') {
+    if (DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))) return 'date';
+    if (URL_PATTERN.test(value) && isValidUrl(value)) return 'url';
+    return 'string';
+  }
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) return 'list';
+  return 'json';
+}
+
+function isValidUrl(text: string): boolean {
+  try {
+    new URL(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Whether a stored value already has the given type
+export function isPropertyValueOfType(value: unknown, valueType: PropertyValueType): boolean {
+  switch (valueType) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+      return typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+    case 'url':
+      return typeof value === 'string' && URL_PATTERN.test(value) && isValidUrl(value);
+    case 'list':
+      return Array.isArray(value) && value.every(item => typeof item === 'string');
+    case 'json':
+      return value !== undefined;
+  }
+}
+
+// Text shown in the editor for a value of the given type
+export function formatPropertyDraft(value: unknown, valueType: PropertyValueType): string {
+  if (value === undefined) return '';
+  switch (valueType) {
+    case 'list':
+      return Array.isArray(value) ? value.map(item => (typeof item === 'string' ? item : JSON.stringify(item))).join('\n') : String(value);
+    case 'json':
+      return JSON.stringify(value, null, 2);
+    case 'boolean':
+      return value === true || value === 'true' ? 'true' : 'false';
+    default:
+      return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+}
+
+// Stored value for an editor draft, or an error message when the draft does not fit the type
+export function parsePropertyDraft(draft: string, valueType: PropertyValueType): { value: unknown } | { error: string } {
+  const text = draft.trim();
+  switch (valueType) {
+    case 'string':
+      return { value: draft };
+    case 'number': {
+      const value = Number(text);
+      return text && Number.isFinite(value) ? { value } : { error: 'Enter a number' };
+    }
+    case 'boolean':
+      return { value: text === 'true' };
+    case 'date':
+      return DATE_PATTERN.test(text) && !Number.isNaN(Date.parse(text)) ? { value: text } : { error: 'Enter a date' };
+    case 'url':
+      return URL_PATTERN.test(text) && isValidUrl(text)
+        ? { value: text }
+        : { error: 'Enter a full URL, e.g. https://example.com' };
+    case 'list':
+      return { value: draft.split('\n').map(item => item.trim()).filter(Boolean) };
+    case 'json':
+      try {
+        return { value: JSON.parse(text) };
+      } catch (error) {
+        return { error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+      }
+  }
+}
+
+// Switch a row to another type, converting the draft when its current value carries over
+export function convertPropertyRow(row: PropertyRow, valueType: PropertyValueType): PropertyRow {
+  const parsed = parsePropertyDraft(row.draft, row.valueType);
+  const draft = 'value' in parsed && row.draft.trim() !== '' ? formatPropertyDraft(parsed.value, valueType) : '';
+  return { ...row, valueType, draft: valueType === 'boolean' ? formatPropertyDraft(draft, 'boolean') : draft };
+}
+
+// Editor rows for an item's properties, leaving out keys that have their own fields
+export function propertiesToRows(properties: Record<string, any> | undefined): PropertyRow[] {
+  return Object.entries(properties || {})
+    .filter(([key]) => !DEDICATED_PROPERTY_KEYS.includes(key))
+    .map(([key, value]) => {
+      const valueType = inferPropertyValueType(value);
+      return createPropertyRow(key, valueType, formatPropertyDraft(value, valueType));
+    });
+}
+
+// Problems per row ID: empty or duplicate keys, keys owned by other fields, and values that do not parse
+export function validatePropertyRows(rows: PropertyRow[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const seen = new Set<string>();
+
+  rows.forEach(row => {
+    const key = row.key.trim();
+    if (!key) {
+      errors[row.rowId] = 'Enter a key';
+    } else if (DEDICATED_PROPERTY_KEYS.includes(key)) {
+      errors[row.rowId] = `"${key}" has its own field above`;
+    } else if (seen.has(key)) {
+      errors[row.rowId] = `Duplicate key "${key}"`;
+    } else {
+      const parsed = parsePropertyDraft(row.draft, row.valueType);
+      if ('error' in parsed) errors[row.rowId] = parsed.error;
+    }
+    seen.add(key);
+  });
+
+  return errors;
+}
+
+/**
+ * Properties after editing. Starts from the stored properties so keys the grid does not
+ * show survive, and untouched rows keep their stored value exactly. Keys that were in the
+ * grid originally but are gone now (deleted or renamed) are removed. Rows must be valid.
+ */
+export function applyPropertyRows(
+  original: Record<string, any> | undefined,
+  originalRows: PropertyRow[],
+  rows: PropertyRow[]
+): Record<string, any> {
+  const next: Record<string, any> = { ...(original || {}) };
+  const keptKeys = new Set(rows.map(row => row.key.trim()));
+  const originalById = new Map(originalRows.map(row => [row.rowId, row]));
+
+  originalRows.forEach(row => {
+    if (!keptKeys.has(row.key)) delete next[row.key];
+  });
+
+  rows.forEach(row => {
+    const before = originalById.get(row.rowId);
+    const isUnchanged = before && before.key === row.key && before.valueType === row.valueType && before.draft === row.draft;
+    if (isUnchanged) return;
+
+    const parsed = parsePropertyDraft(row.draft, row.valueType);
+    if ('value' in parsed) next[row.key.trim()] = parsed.value;
+  });
+
+  return next;
+}
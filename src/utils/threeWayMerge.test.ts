@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { buildMergeFields, defaultMergeChoices, applyMergeChoices, hasTheirChanges } from './threeWayMerge';
+import type { GraphNode } from '../types/graph';
+
+const base: GraphNode = {
+  id: 'n1',
+  label: 'React',
+  type: 'framework',
+  properties: { version: '18', license: 'MIT', tags: ['ui'] },
+  x: 0,
+  y: 0
+};
+
+const withoutLicense = { version: '18', tags: ['ui'] };
+
+// Node `base` as changed by a side
+const changed = (changes: Partial<GraphNode>): GraphNode => ({ ...base, ...changes });
+
+function field(fields: ReturnType<typeof buildMergeFields>, key: string) {
+  return fields.find(f => f.key === key)!;
+}
+
+describe('buildMergeFields', () => {
+  it('lists the item fields and every property of any side', () => {
+    const mine = changed({ properties: { ...base.properties, homepage: 'react.dev' } });
+    const theirs = changed({ properties: withoutLicense });
+    const fields = buildMergeFields('node', base, mine, theirs);
+
+    expect(fields.map(f => f.key)).toEqual([
+      'label', 'type', 'properties.homepage', 'properties.license', 'properties.tags', 'properties.version'
+    ]);
+    expect(field(fields, 'properties.homepage')).toMatchObject({ name: 'homepage', base: undefined, mine: 'react.dev', theirs: undefined });
+    expect(field(fields, 'properties.license')).toMatchObject({ base: 'MIT', mine: 'MIT', theirs: undefined });
+    expect(fields.some(f => f.isConflict)).toBe(false);
+  });
+
+  it('flags fields both sides changed differently', () => {
+    const fields = buildMergeFields('node', base,
+      changed({ label: 'React 19', properties: { ...base.properties, tags: ['ui', 'web'] } }),
+      changed({ label: 'ReactJS', properties: { ...base.properties, tags: ['ui', 'web'] } }));
+
+    expect(field(fields, 'label').isConflict).toBe(true);
+    // The same change on both sides is no conflict
+    expect(field(fields, 'properties.tags').isConflict).toBe(false);
+  });
+
+  it('uses the edge fields for edges', () => {
+    const edge = { id: 'e1', source: 'a', target: 'b', label: 'uses', properties: {}, directed: true };
+    const fields = buildMergeFields('edge', edge, { ...edge, directed: false }, edge);
+    expect(fields.map(f => [f.key, f.mine])).toEqual([['label', 'uses'], ['directed', false]]);
+  });
+});
+
+describe('defaultMergeChoices', () => {
+  it('takes each field from the side that changed it, and mine where both did', () => {
+    const fields = buildMergeFields('node', base,
+      changed({ label: 'React 19', properties: { ...base.properties, version: '19' } }),
+      changed({ label: 'ReactJS', type: 'library', properties: { ...base.properties, version: '18.3' } }));
+
+    expect(defaultMergeChoices(fields)).toEqual({
+      label: 'mine',
+      type: 'theirs',
+      'properties.license': 'mine',
+      'properties.tags': 'mine',
+      'properties.version': 'mine'
+    });
+    expect(hasTheirChanges(fields)).toBe(true);
+  });
+
+  it('keeps their deletion of a property I left alone', () => {
+    const fields = buildMergeFields('node', base, base, changed({ properties: withoutLicense }));
+    expect(defaultMergeChoices(fields)['properties.license']).toBe('theirs');
+  });
+});
+
+describe('applyMergeChoices', () => {
+  it('builds the update from the chosen sides', () => {
+    const fields = buildMergeFields('node', base,
+      changed({ label: 'React 19', properties: { ...base.properties, version: '19' } }),
+      changed({ type: 'library', properties: { ...base.properties, license: 'Apache-2.0' } }));
+
+    expect(applyMergeChoices(fields, defaultMergeChoices(fields))).toEqual({
+      label: 'React 19',
+      type: 'library',
+      properties: { license: 'Apache-2.0', tags: ['ui'], version: '19' }
+    });
+    expect(applyMergeChoices(fields, { label: 'base', 'properties.version': 'theirs' })).toMatchObject({
+      label: 'React',
+      properties: { version: '18' }
+    });
+  });
+
+  it('leaves out properties whose chosen value is undefined, which deletes them', () => {
+    const fields = buildMergeFields('node', base,
+      changed({ properties: { ...withoutLicense, homepage: 'react.dev' } }),
+      changed({ properties: { ...base.properties, homepage: 'reactjs.org' } }));
+
+    const update = applyMergeChoices(fields, defaultMergeChoices(fields));
+    expect(update.properties).toEqual({ homepage: 'react.dev', tags: ['ui'], version: '18' });
+    expect(applyMergeChoices(fields, { 'properties.homepage': 'base', 'properties.license': 'theirs' }).properties)
+      .toEqual({ license: 'MIT', tags: ['ui'], version: '18' });
+  });
+});
@@ -0,0 +1,89 @@
+import type {
+  GraphNode,
+  GraphEdge,
+  MergeField,
+  MergeChoice,
+  UpdateNodeRequest,
+  UpdateEdgeRequest
+} from '../types/graph';
+
+type MergeSide = UpdateNodeRequest | UpdateEdgeRequest | GraphNode | GraphEdge;
+
+const PROPERTY_PREFIX = 'properties.';
+
+const ITEM_FIELDS: Record<'node' | 'edge', { key: 'label' | 'type' | 'directed'; name: string }[]> = {
+  node: [{ key: 'label', name: 'Label' }, { key: 'type', name: 'Type' }],
+  edge: [{ key: 'label', name: 'Label' }, { key: 'directed', name: 'Directed' }]
+};
+
+// Property values are JSON, so comparing their serializations is enough
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function fieldValue(item: MergeSide, key: string): unknown {
+  return (item as Record<string, unknown>)[key];
+}
+
+/**
+ * Every field the properties panel edits, with its value in the version the edit started
+ * from (base), in the edit (mine) and as stored now (theirs).
+ */
+export function buildMergeFields(itemType: 'node' | 'edge', base: MergeSide, mine: MergeSide, theirs: MergeSide): MergeField[] {
+  const toField = (key: string, name: string, values: [unknown, unknown, unknown]): MergeField => {
+    const [baseValue, mineValue, theirsValue] = values;
+    const isChangedByMe = !isSameValue(mineValue, baseValue);
+    const isChangedByThem = !isSameValue(theirsValue, baseValue);
+    return {
+      key,
+      name,
+      base: baseValue,
+      mine: mineValue,
+      theirs: theirsValue,
+      isConflict: isChangedByMe && isChangedByThem && !isSameValue(mineValue, theirsValue)
+    };
+  };
+
+  const fields = ITEM_FIELDS[itemType].map(({ key, name }) =>
+    toField(key, name, [fieldValue(base, key), fieldValue(mine, key), fieldValue(theirs, key)]));
+
+  const sides = [base.properties ?? {}, mine.properties ?? {}, theirs.properties ?? {}];
+  const propertyKeys = [...new Set(sides.flatMap(properties => Object.keys(properties)))].sort();
+  propertyKeys.forEach(key => {
+    const [baseValue, mineValue, theirsValue] = sides.map(properties => properties[key]);
+    fields.push(toField(`${PROPERTY_PREFIX}${key}`, key, [baseValue, mineValue, theirsValue]));
+  });
+
+  return fields;
+}
+
+// Whether the other side changed anything the edit could have touched
+export function hasTheirChanges(fields: MergeField[]): boolean {
+  return fields.some(field => !isSameValue(field.theirs, field.base));
+}
+
+// The automatic merge: each field from whichever side changed it, and mine where both did
+export function defaultMergeChoices(fields: MergeField[]): Record<string, MergeChoice> {
+  return Object.fromEntries(fields.map(field => [
+    field.key,
+    isSameValue(field.mine, field.base) && !isSameValue(field.theirs, field.base) ? 'theirs' : 'mine'
+  ]));
+}
+
+// The update that saves the chosen value of every field
+export function applyMergeChoices(fields: MergeField[], choices: Record<string, MergeChoice>): UpdateNodeRequest & UpdateEdgeRequest {
+  const merged: Record<string, unknown> = {};
+  const properties: Record<string, unknown> = {};
+
+  fields.forEach(field => {
+    const value = field[choices[field.key] ?? 'mine'];
+    if (value === undefined) return;
+    if (field.key.startsWith(PROPERTY_PREFIX)) {
+      properties[field.key.slice(PROPERTY_PREFIX.length)] = value;
+    } else {
+      merged[field.key] = value;
+    }
+  });
+
+  return { ...merged, properties };
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { parseUrlState, formatUrlState, graphIdFromPath, graphUrl } from './urlState';
+import type { UrlState } from '../types/graph';
+
+const noFilter = { hiddenNodeTypes: [], hiddenEdgeLabels: [], hiddenPropertyValues: {} };
+
+function parse(url: string): UrlState {
+  return parseUrlState(new URL(url, 'http://localhost'));
+}
+
+// The next step back or forward
+function popped(): Promise<void> {
+  return new Promise(resolve => window.addEventListener('popstate', () => resolve(), { once: true }));
+}
+
+describe('graph links', () => {
+  it('round-trips every part of the state', () => {
+    const state: UrlState = {
+      graphId: 'team notes/ü',
+      selection: { type: 'edge', id: 'e 1' },
+      view: { x: 120, y: -45, k: 1.25 },
+      search: 'label:"a & b" #x',
+      filter: {
+        hiddenNodeTypes: ['database', 'web framework'],
+        hiddenEdgeLabels: ['uses'],
+        hiddenPropertyValues: { status: ['done', 'on:hold'] }
+      }
+    };
+    expect(parse(formatUrlState(state))).toEqual(state);
+  });
+
+  it('keeps links short and stable', () => {
+    expect(formatUrlState({ graphId: 'g1', selection: null, view: null, search: '', filter: noFilter })).toBe('/graphs/g1');
+    expect(formatUrlState({ graphId: null, selection: null, view: null, search: '', filter: noFilter })).toBe('/');
+    expect(formatUrlState({ graphId: 'g1', selection: { type: 'node', id: 'n1' }, view: { x: 10.4, y: -3.6, k: 1.23456 }, search: '', filter: noFilter }))
+      .toBe('/graphs/g1?node=n1&view=10%2C-4%2C1.235');
+  });
+
+  it('ignores malformed parts and keeps the rest', () => {
+    const state = parse('/graphs/g1?view=1,2&node=&edge=e1&hideProp=novalue&hideProp=:x&hideProp=k:v&q=%zz');
+    expect(state).toEqual({
+      graphId: 'g1',
+      selection: { type: 'edge', id: 'e1' },
+      view: null,
+      search: '%zz',
+      filter: { hiddenNodeTypes: [], hiddenEdgeLabels: [], hiddenPropertyValues: { k: ['v'] } }
+    });
+    expect(parse('/?view=a,b,c').view).toBeNull();
+    expect(parse('/?view=1,2,0').view).toBeNull();
+    expect(parse('/?view=1,2,-1').view).toBeNull();
+    // A node wins over an edge
+    expect(parse('/?edge=e1&node=n1').selection).toEqual({ type: 'node', id: 'n1' });
+  });
+
+  it('reads a graph only from a single path segment', () => {
+    expect(graphIdFromPath('/graphs/g1/')).toBe('g1');
+    expect(graphIdFromPath(graphUrl('a/b'))).toBe('a/b');
+    expect(graphIdFromPath('/graphs/a/b')).toBeNull();
+    expect(graphIdFromPath('/graphs/')).toBeNull();
+    expect(graphIdFromPath('/graphs/%E0%A4%A')).toBeNull();
+    expect(graphIdFromPath('/other/g1')).toBeNull();
+  });
+
+  it('gives back the state of each entry when stepping back and forward', async () => {
+    const first: UrlState = { graphId: 'g1', selection: { type: 'node', id: 'n1' }, view: null, search: '', filter: noFilter };
+    const second: UrlState = { ...first, selection: { type: 'node', id: 'n2' }, search: 'react' };
+    const other: UrlState = { ...first, graphId: 'g2', selection: null };
+    window.history.pushState(null, '', formatUrlState(first));
+    window.history.pushState(null, '', formatUrlState(second));
+    window.history.pushState(null, '', formatUrlState(other));
+
+    let step = popped();
+    window.history.back();
+    await step;
+    expect(parseUrlState(window.location)).toEqual(second);
+
+    step = popped();
+    window.history.back();
+    await step;
+    expect(parseUrlState(window.location)).toEqual(first);
+
+    step = popped();
+    window.history.go(2);
+    await step;
+    expect(parseUrlState(window.location)).toEqual(other);
+  });
+});
@@ -0,0 +1,93 @@
+import type { GraphFilter, SelectionToggle, UrlState, ViewTransform } from '../types/graph';
+
+/*
+ * Links to a graph, a selected item and a view of it:
+ *
+ *   /graphs/<graphId>?node=<id>&view=<x>,<y>,<zoom>&q=<search>&hideType=<type>
+ *
+ * `edge=<id>` takes the place of `node` for a selected edge. Hidden filter entries repeat their
+ * parameter once per entry: `hideType=<node type>`, `hideEdge=<edge label>` and
+ * `hideProp=<key>:<value>`.
+ */
+
+const GRAPH_PATH = `${import.meta.env.BASE_URL}graphs/`;
+
+export function graphIdFromPath(pathname: string): string | null {
+  if (!pathname.startsWith(GRAPH_PATH)) return null;
+  const segment = pathname.slice(GRAPH_PATH.length).replace(/\/+$/, '');
+  if (!segment || segment.includes('/')) return null;
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+// Link to a graph as it opens, with nothing selected, searched or hidden
+export function graphUrl(graphId: string): string {
+  return GRAPH_PATH + encodeURIComponent(graphId);
+}
+
+// "node:<id>", "edge:<id>" or "" for nothing selected
+export function selectionKey(selection: SelectionToggle | null): string {
+  return selection ? `${selection.type}:${selection.id}` : '';
+}
+
+function parseView(value: string | null): ViewTransform | null {
+  if (!value) return null;
+  const [x, y, k] = value.split(',').map(Number);
+  return Number.isFinite(x) && Number.isFinite(y) && Number.isFinite(k) && k > 0 ? { x, y, k } : null;
+}
+
+// Whole pixels and three decimals of zoom, so the same view always gives the same link
+function formatView({ x, y, k }: ViewTransform): string {
+  return `${Math.round(x)},${Math.round(y)},${Number(k.toFixed(3))}`;
+}
+
+function parseFilter(params: URLSearchParams): GraphFilter {
+  const hiddenPropertyValues: Record<string, string[]> = {};
+  params.getAll('hideProp').forEach(entry => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) return;
+    const key = entry.slice(0, separator);
+    hiddenPropertyValues[key] = [...(hiddenPropertyValues[key] ?? []), entry.slice(separator + 1)];
+  });
+
+  return {
+    hiddenNodeTypes: params.getAll('hideType'),
+    hiddenEdgeLabels: params.getAll('hideEdge'),
+    hiddenPropertyValues
+  };
+}
+
+export function parseUrlState(location: { pathname: string; search: string }): UrlState {
+  const params = new URLSearchParams(location.search);
+  const nodeId = params.get('node');
+  const edgeId = params.get('edge');
+
+  return {
+    graphId: graphIdFromPath(location.pathname),
+    selection: nodeId ? { type: 'node', id: nodeId } : edgeId ? { type: 'edge', id: edgeId } : null,
+    view: parseView(params.get('view')),
+    search: params.get('q') ?? '',
+    filter: parseFilter(params)
+  };
+}
+
+// Path and query of a link to the state
+export function formatUrlState(state: UrlState): string {
+  const params = new URLSearchParams();
+  if (state.selection) params.set(state.selection.type, state.selection.id);
+  if (state.view) params.set('view', formatView(state.view));
+  if (state.search) params.set('q', state.search);
+  state.filter.hiddenNodeTypes.forEach(type => params.append('hideType', type));
+  state.filter.hiddenEdgeLabels.forEach(label => params.append('hideEdge', label));
+  Object.entries(state.filter.hiddenPropertyValues).forEach(([key, values]) => {
+    values.forEach(value => params.append('hideProp', `${key}:${value}`));
+  });
+
+  const path = state.graphId ? graphUrl(state.graphId) : import.meta.env.BASE_URL;
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
+
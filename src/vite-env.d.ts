@@ -4,6 +4,11 @@ interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string
   readonly VITE_DEV_PORT: string
   readonly VITE_BUILD_PATH: string
+  readonly VITE_CANVAS_NODE_THRESHOLD?: string
+  readonly VITE_GRAPH_STORAGE?: string
+  readonly VITE_GRAPH_FILE?: string
+  readonly VITE_COLLAB_URL?: string
+  readonly VITE_AUTH_URL?: string
 }
 
 interface ImportMeta {
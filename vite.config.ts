@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -16,5 +17,9 @@ export default defineConfig({
   build: {
     outDir: 'dist',
     sourcemap: true
+  },
+  test: {
+    // The app's modules expect a browser: window, localStorage, IndexedDB (faked in tests)
+    environment: 'jsdom'
   }
 }) 
\ No newline at end of file